@@ -0,0 +1,294 @@
+import { readFileSync, readdirSync } from 'fs';
+import ts from 'typescript';
+
+// Verifies that src/lib/database.types.ts describes the schema produced by
+// supabase/migrations: every table, column, view and RPC function created by
+// a migration must be in the types, and the types must not list anything the
+// migrations don't create. Run after adding a migration: `npm run check:db-types`.
+
+const MIGRATIONS_DIR = 'supabase/migrations';
+const TYPES_FILE = 'src/lib/database.types.ts';
+
+// Tables that existed before the first migration in supabase/migrations.
+// Migrations only ALTER these, so their original columns are listed here.
+const BASELINE_TABLES = {
+  students: ['id', 'nim', 'name', 'email', 'created_at'],
+  courses: ['id', 'code', 'name', 'academic_year', 'semester', 'credits', 'created_at'],
+  enrollments: ['id', 'student_id', 'course_id', 'created_at'],
+  grades: ['id', 'student_id', 'course_id', 'score', 'letter_grade', 'created_at', 'updated_at'],
+  admin_users: ['id', 'email', 'name', 'role', 'created_at'],
+};
+
+const TABLE_CONSTRAINT_KEYWORDS = new Set(['constraint', 'primary', 'unique', 'check', 'foreign', 'exclude', 'like']);
+const ARG_MODES = new Set(['in', 'inout', 'variadic']);
+
+const IDENT = '"?(\\w+)"?';
+const QUALIFIED = `(?:${IDENT}\\.)?${IDENT}`;
+
+function stripComments(sql) {
+  return sql.replace(/\/\*[\s\S]*?\*\//g, '').replace(/--[^\n]*/g, '');
+}
+
+function readBalanced(text, openIndex) {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')') {
+      depth--;
+      if (depth === 0) return { body: text.slice(openIndex + 1, i), end: i + 1 };
+    }
+  }
+  throw new Error(`Unbalanced parentheses near: ${text.slice(openIndex, openIndex + 60)}`);
+}
+
+function splitTopLevel(text) {
+  const parts = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function isPublic(schema) {
+  return !schema || schema.toLowerCase() === 'public';
+}
+
+function parseFunctionArgs(argText) {
+  const args = [];
+  for (const part of splitTopLevel(argText)) {
+    const tokens = part.replace(/\s+DEFAULT\s+[\s\S]*$/i, '').replace(/\s*=\s*[\s\S]*$/, '').split(/\s+/);
+    if (tokens[0].toLowerCase() === 'out') continue;
+    if (ARG_MODES.has(tokens[0].toLowerCase())) tokens.shift();
+    args.push({ name: tokens[0].replace(/"/g, ''), type: tokens.slice(1).join(' ').toLowerCase() });
+  }
+  return args;
+}
+
+function signature(names) {
+  return [...names].sort().join(',');
+}
+
+/** Replays every migration in order and returns the resulting public schema. */
+function loadSchemaFromMigrations() {
+  const tables = new Map(Object.entries(BASELINE_TABLES).map(([name, columns]) => [name, new Set(columns)]));
+  const views = new Set();
+  const functions = new Map();
+
+  const files = readdirSync(MIGRATIONS_DIR).filter(file => file.endsWith('.sql')).sort();
+
+  for (const file of files) {
+    const sql = stripComments(readFileSync(`${MIGRATIONS_DIR}/${file}`, 'utf-8'));
+    const statements = [];
+    const collect = (regex, kind) => {
+      for (const match of sql.matchAll(regex)) statements.push({ kind, match });
+    };
+
+    collect(new RegExp(`CREATE\\s+TABLE\\s+(IF\\s+NOT\\s+EXISTS\\s+)?${QUALIFIED}\\s*\\(`, 'gi'), 'create-table');
+    collect(new RegExp(`ALTER\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?(?:ONLY\\s+)?${QUALIFIED}([^;]*);`, 'gi'), 'alter-table');
+    collect(/DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?([^;]+);/gi, 'drop-table');
+    collect(new RegExp(`CREATE\\s+(?:OR\\s+REPLACE\\s+)?VIEW\\s+${QUALIFIED}`, 'gi'), 'create-view');
+    collect(/DROP\s+VIEW\s+(?:IF\s+EXISTS\s+)?([^;]+);/gi, 'drop-view');
+    collect(new RegExp(`CREATE\\s+(?:OR\\s+REPLACE\\s+)?FUNCTION\\s+${QUALIFIED}\\s*\\(`, 'gi'), 'create-function');
+    collect(new RegExp(`DROP\\s+FUNCTION\\s+(?:IF\\s+EXISTS\\s+)?${QUALIFIED}\\s*(\\([^)]*\\))?`, 'gi'), 'drop-function');
+
+    statements.sort((a, b) => a.match.index - b.match.index);
+
+    for (const { kind, match } of statements) {
+      if (kind === 'create-table') {
+        const [text, ifNotExists, schema, name] = match;
+        if (!isPublic(schema)) continue;
+        if (tables.has(name) && ifNotExists) continue;
+
+        const { body } = readBalanced(sql, match.index + text.length - 1);
+        const columns = splitTopLevel(body)
+          .map(definition => definition.split(/\s+/)[0])
+          .filter(first => !TABLE_CONSTRAINT_KEYWORDS.has(first.toLowerCase()))
+          .map(column => column.replace(/"/g, ''));
+        tables.set(name, new Set(columns));
+      }
+
+      if (kind === 'alter-table') {
+        const [, schema, name, clauses] = match;
+        if (!isPublic(schema)) continue;
+
+        const renamed = clauses.match(/^\s*RENAME\s+TO\s+"?(\w+)"?/i);
+        if (renamed) {
+          tables.set(renamed[1], tables.get(name) ?? new Set());
+          tables.delete(name);
+          continue;
+        }
+
+        const columns = tables.get(name);
+        if (!columns) continue;
+
+        for (const [, column] of clauses.matchAll(/ADD\s+(?!CONSTRAINT\b|PRIMARY\b|UNIQUE\b|CHECK\b|FOREIGN\b|EXCLUDE\b)(?:COLUMN\s+)?(?:IF\s+NOT\s+EXISTS\s+)?"?(\w+)"?/gi)) {
+          columns.add(column);
+        }
+        for (const [, column] of clauses.matchAll(/DROP\s+(?!CONSTRAINT\b)(?:COLUMN\s+)?(?:IF\s+EXISTS\s+)?"?(\w+)"?/gi)) {
+          columns.delete(column);
+        }
+        for (const [, from, to] of clauses.matchAll(/RENAME\s+(?:COLUMN\s+)?"?(\w+)"?\s+TO\s+"?(\w+)"?/gi)) {
+          columns.delete(from);
+          columns.add(to);
+        }
+      }
+
+      if (kind === 'drop-table') {
+        for (const target of match[1].replace(/\s+(CASCADE|RESTRICT)\s*$/i, '').split(',')) {
+          tables.delete(target.trim().replace(/^public\./i, '').replace(/"/g, ''));
+        }
+      }
+
+      if (kind === 'create-view') {
+        const [, schema, name] = match;
+        if (isPublic(schema)) views.add(name);
+      }
+
+      if (kind === 'drop-view') {
+        for (const target of match[1].replace(/\s+(CASCADE|RESTRICT)\s*$/i, '').split(',')) {
+          views.delete(target.trim().replace(/^public\./i, '').replace(/"/g, ''));
+        }
+      }
+
+      if (kind === 'create-function') {
+        const [text, schema, name] = match;
+        if (!isPublic(schema)) continue;
+
+        const { body, end } = readBalanced(sql, match.index + text.length - 1);
+        const returns = sql.slice(end).match(/^\s*RETURNS\s+(?:SETOF\s+)?(\w+)/i);
+        // Trigger functions can't be called through PostgREST.
+        if (returns && returns[1].toLowerCase() === 'trigger') continue;
+
+        const args = parseFunctionArgs(body);
+        const overloads = functions.get(name) ?? new Map();
+        overloads.set(signature(args.map(arg => arg.name)), args);
+        functions.set(name, overloads);
+      }
+
+      if (kind === 'drop-function') {
+        const [, schema, name, argList] = match;
+        if (!isPublic(schema) || !functions.has(name)) continue;
+
+        if (!argList) {
+          functions.delete(name);
+          continue;
+        }
+
+        const dropped = splitTopLevel(argList.slice(1, -1)).map(arg => arg.toLowerCase().replace(/\s+/g, ' '));
+        const overloads = functions.get(name);
+        for (const [key, args] of overloads) {
+          const matches = args.length === dropped.length && args.every((arg, i) => dropped[i].endsWith(arg.type));
+          if (matches) overloads.delete(key);
+        }
+        if (overloads.size === 0) functions.delete(name);
+      }
+    }
+  }
+
+  return { tables, views, functions, migrationCount: files.length };
+}
+
+function memberName(member) {
+  return member.name && (ts.isIdentifier(member.name) || ts.isStringLiteral(member.name)) ? member.name.text : null;
+}
+
+function findMember(typeLiteral, name) {
+  const member = typeLiteral?.members.find(m => memberName(m) === name);
+  return member && member.type;
+}
+
+function memberNames(typeNode) {
+  if (!typeNode || !ts.isTypeLiteralNode(typeNode)) return [];
+  return typeNode.members.map(memberName).filter(Boolean);
+}
+
+/** Reads tables, views and function signatures out of the Database interface. */
+function loadSchemaFromTypes() {
+  const source = ts.createSourceFile(TYPES_FILE, readFileSync(TYPES_FILE, 'utf-8'), ts.ScriptTarget.Latest, true);
+  const database = source.statements.find(node => ts.isInterfaceDeclaration(node) && node.name.text === 'Database');
+  if (!database) throw new Error(`${TYPES_FILE} does not declare a Database interface`);
+
+  const publicSchema = database.members.find(m => memberName(m) === 'public')?.type;
+  const tablesNode = findMember(publicSchema, 'Tables');
+  const viewsNode = findMember(publicSchema, 'Views');
+  const functionsNode = findMember(publicSchema, 'Functions');
+
+  const tables = new Map();
+  for (const name of memberNames(tablesNode)) {
+    tables.set(name, new Set(memberNames(findMember(findMember(tablesNode, name), 'Row'))));
+  }
+
+  const views = new Set(memberNames(viewsNode));
+
+  const functions = new Map();
+  for (const name of memberNames(functionsNode)) {
+    const definition = findMember(functionsNode, name);
+    const variants = ts.isUnionTypeNode(definition) ? definition.types : [definition];
+    functions.set(name, new Set(variants.map(variant => signature(memberNames(findMember(variant, 'Args'))))));
+  }
+
+  return { tables, views, functions };
+}
+
+const migrations = loadSchemaFromMigrations();
+const types = loadSchemaFromTypes();
+const problems = [];
+
+for (const [table, columns] of migrations.tables) {
+  const typed = types.tables.get(table);
+  if (!typed) {
+    problems.push(`table "${table}" is missing from Database["public"]["Tables"]`);
+    continue;
+  }
+  for (const column of columns) {
+    if (!typed.has(column)) problems.push(`column "${table}.${column}" is missing from the Row type`);
+  }
+  for (const column of typed) {
+    if (!columns.has(column)) problems.push(`column "${table}.${column}" is typed but no migration creates it`);
+  }
+}
+for (const table of types.tables.keys()) {
+  if (!migrations.tables.has(table)) problems.push(`table "${table}" is typed but no migration creates it`);
+}
+
+for (const view of migrations.views) {
+  if (!types.views.has(view)) problems.push(`view "${view}" is missing from Database["public"]["Views"]`);
+}
+for (const view of types.views) {
+  if (!migrations.views.has(view)) problems.push(`view "${view}" is typed but no migration creates it`);
+}
+
+for (const [name, overloads] of migrations.functions) {
+  const typed = types.functions.get(name);
+  if (!typed) {
+    problems.push(`function "${name}" is missing from Database["public"]["Functions"]`);
+    continue;
+  }
+  for (const key of overloads.keys()) {
+    if (!typed.has(key)) problems.push(`function "${name}(${key})" has no matching Args type`);
+  }
+  for (const key of typed) {
+    if (!overloads.has(key)) problems.push(`function "${name}(${key})" is typed but no migration creates it`);
+  }
+}
+for (const name of types.functions.keys()) {
+  if (!migrations.functions.has(name)) problems.push(`function "${name}" is typed but no migration creates it`);
+}
+
+if (problems.length > 0) {
+  console.error(`${TYPES_FILE} is out of sync with ${MIGRATIONS_DIR}:`);
+  problems.forEach(problem => console.error(`  - ${problem}`));
+  process.exit(1);
+}
+
+console.log(`${TYPES_FILE} matches ${migrations.migrationCount} migrations.`);
@@ -1,3 +1,9 @@
+// Bootstraps the first super admin. Needs the service role key, because
+// nobody can insert into admin_users before an admin with admins.manage
+// exists. Add SUPABASE_SERVICE_ROLE_KEY (Project Settings -> API) to .env;
+// it has no VITE_ prefix, so it is never bundled into the app.
+//
+//   node create_admin.mjs <email> <password> [name]
 import { createClient } from '@supabase/supabase-js';
 import { readFileSync } from 'fs';
 
@@ -5,58 +11,69 @@ const envContent = readFileSync('.env', 'utf-8');
 const lines = envContent.split('\n');
 
 let supabaseUrl = '';
-let supabaseKey = '';
+let serviceRoleKey = '';
 
 lines.forEach(line => {
   if (line.startsWith('VITE_SUPABASE_URL=')) {
     supabaseUrl = line.split('=')[1].trim();
   }
-  if (line.startsWith('VITE_SUPABASE_ANON_KEY=')) {
-    supabaseKey = line.split('=')[1].trim();
+  if (line.startsWith('SUPABASE_SERVICE_ROLE_KEY=')) {
+    serviceRoleKey = line.split('=')[1].trim();
   }
 });
 
-const supabase = createClient(supabaseUrl, supabaseKey);
+const [email, password, name = 'Administrator'] = process.argv.slice(2);
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set in .env');
+  process.exit(1);
+}
+
+if (!email || !password) {
+  console.error('Usage: node create_admin.mjs <email> <password> [name]');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
 
 async function createAdmin() {
   try {
-    const { data, error } = await supabase.auth.signUp({
-      email: 'admin@university.edu',
-      password: 'Admin123!',
+    const { data, error } = await supabase.auth.admin.createUser({
+      email,
+      password,
+      email_confirm: true,
     });
 
     if (error) {
       console.error('Error creating admin user:', error.message);
-      return;
+      process.exit(1);
     }
 
-    if (data.user) {
-      console.log('Admin user created successfully!');
-      console.log('User ID:', data.user.id);
-      
-      const { error: adminError } = await supabase
-        .from('admin_users')
-        .insert({
-          id: data.user.id,
-          email: 'admin@university.edu',
-          name: 'Administrator',
-          role: 'admin',
-        });
-
-      if (adminError) {
-        console.error('Error creating admin record:', adminError.message);
-      } else {
-        console.log('Admin record created successfully!');
-        console.log('\n=================================');
-        console.log('ADMIN CREDENTIALS');
-        console.log('=================================');
-        console.log('Email: admin@university.edu');
-        console.log('Password: Admin123!');
-        console.log('=================================');
-      }
+    console.log('Admin user created successfully!');
+    console.log('User ID:', data.user.id);
+
+    const { error: adminError } = await supabase
+      .from('admin_users')
+      .insert({
+        id: data.user.id,
+        email,
+        name,
+        role: 'super_admin',
+      });
+
+    if (adminError) {
+      console.error('Error creating admin record:', adminError.message);
+      await supabase.auth.admin.deleteUser(data.user.id);
+      process.exit(1);
     }
+
+    console.log('Super admin record created successfully!');
+    console.log(`Sign in to the admin portal as ${email}, then add other admins under Akun Admin.`);
   } catch (err) {
     console.error('Unexpected error:', err);
+    process.exit(1);
   }
 }
 
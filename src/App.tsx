@@ -1,40 +1,123 @@
-import { useState } from 'react';
+import { BrowserRouter, Navigate, Outlet, Route, Routes, useLocation, useNavigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { AdminAuthProvider, useAdminAuth } from './contexts/AdminAuthContext';
+import { LecturerAuthProvider, useLecturerAuth } from './contexts/LecturerAuthContext';
 import { LoginForm } from './components/LoginForm';
 import { RegisterForm } from './components/RegisterForm';
 import { Dashboard } from './components/Dashboard';
+import { AdminLoginForm } from './components/AdminLoginForm';
+import { AdminDashboard } from './components/AdminDashboard';
+import { LecturerLoginForm } from './components/LecturerLoginForm';
+import { LecturerDashboard } from './components/LecturerDashboard';
+import { RequireAdmin, RequireLecturer, RequireStudent } from './components/RouteGuards';
+import { VerifyTranscript } from './components/VerifyTranscript';
 
-function AppContent() {
-  const [isLogin, setIsLogin] = useState(true);
+function LoadingScreen() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-blue-100 flex items-center justify-center">
+      <div className="text-center">
+        <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-gray-600">Memuat...</p>
+      </div>
+    </div>
+  );
+}
 
-  try {
-    const { user, loading } = useAuth();
-
-    if (loading) {
-      return (
-        <div className="min-h-screen bg-gradient-to-br from-blue-50 to-blue-100 flex items-center justify-center">
-          <div className="text-center">
-            <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
-            <p className="text-gray-600">Memuat...</p>
-          </div>
-        </div>
-      );
-    }
+function StudentAuthPage({ mode }: { mode: 'login' | 'register' }) {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user, loading, isStudent } = useAuth();
 
-    if (user) {
-      return <Dashboard />;
-    }
+  if (loading) {
+    return <LoadingScreen />;
+  }
 
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-blue-100 flex items-center justify-center p-4">
-        <div className="w-full max-w-md">
-          {isLogin ? (
-            <LoginForm onToggle={() => setIsLogin(false)} />
-          ) : (
-            <RegisterForm onToggle={() => setIsLogin(true)} />
-          )}
-        </div>
+  if (user && isStudent) {
+    const from = (location.state as { from?: string } | null)?.from;
+    return <Navigate to={from || '/student'} replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-blue-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        {mode === 'login' ? (
+          <LoginForm onToggle={() => navigate('/register')} />
+        ) : (
+          <RegisterForm onToggle={() => navigate('/login')} />
+        )}
       </div>
+    </div>
+  );
+}
+
+function AdminLoginPage() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user, loading, isAdmin } = useAdminAuth();
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  if (user && isAdmin) {
+    const from = (location.state as { from?: string } | null)?.from;
+    return <Navigate to={from || '/admin'} replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center p-4">
+      <AdminLoginForm onToggle={() => navigate('/login')} />
+    </div>
+  );
+}
+
+function LecturerLoginPage() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user, loading, isLecturer } = useLecturerAuth();
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  if (user && isLecturer) {
+    const from = (location.state as { from?: string } | null)?.from;
+    return <Navigate to={from || '/lecturer'} replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center p-4">
+      <LecturerLoginForm onToggle={() => navigate('/login')} />
+    </div>
+  );
+}
+
+function AppRoutes() {
+  try {
+    return (
+      <Routes>
+        <Route element={<AuthProvider><Outlet /></AuthProvider>}>
+          <Route path="/login" element={<StudentAuthPage mode="login" />} />
+          <Route path="/register" element={<StudentAuthPage mode="register" />} />
+          <Route path="/student" element={<RequireStudent><Dashboard /></RequireStudent>} />
+        </Route>
+
+        <Route path="/admin" element={<AdminAuthProvider><Outlet /></AdminAuthProvider>}>
+          <Route index element={<Navigate to="/admin/excel-upload" replace />} />
+          <Route path="login" element={<AdminLoginPage />} />
+          <Route path=":tab" element={<RequireAdmin><AdminDashboard /></RequireAdmin>} />
+        </Route>
+
+        <Route path="/lecturer" element={<LecturerAuthProvider><Outlet /></LecturerAuthProvider>}>
+          <Route index element={<Navigate to="/lecturer/manual-input" replace />} />
+          <Route path="login" element={<LecturerLoginPage />} />
+          <Route path=":tab" element={<RequireLecturer><LecturerDashboard /></RequireLecturer>} />
+        </Route>
+
+        <Route path="/verify/:id" element={<VerifyTranscript />} />
+
+        <Route path="*" element={<Navigate to="/student" replace />} />
+      </Routes>
     );
   } catch (error) {
     return (
@@ -57,9 +140,9 @@ function AppContent() {
 function App() {
   try {
     return (
-      <AuthProvider>
-        <AppContent />
-      </AuthProvider>
+      <BrowserRouter>
+        <AppRoutes />
+      </BrowserRouter>
     );
   } catch (error) {
     return (
@@ -0,0 +1,343 @@
+import { useEffect, useState } from 'react';
+import { CalendarDays, CheckCircle, Edit3, Plus, Trash2, X } from 'lucide-react';
+import { academicTermRepository, RepositoryError, type AcademicTerm } from '../lib/repositories';
+import {
+  TERM_PERIODS,
+  TERM_PERIOD_LABELS,
+  defaultTermDates,
+  formatTerm,
+  isTermPeriod,
+  type TermPeriod,
+} from '../lib/academicTerms';
+
+interface AcademicTermForm {
+  academic_year: string;
+  period: TermPeriod;
+  start_date: string;
+  end_date: string;
+}
+
+const EMPTY_FORM: AcademicTermForm = { academic_year: '', period: 'ganjil', start_date: '', end_date: '' };
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('id-ID', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+
+export function AcademicTermManagement() {
+  const [terms, setTerms] = useState<AcademicTerm[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<AcademicTermForm>(EMPTY_FORM);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadTerms();
+  }, []);
+
+  const loadTerms = async () => {
+    try {
+      setTerms(await academicTermRepository.list());
+    } catch (err) {
+      console.error('Error loading academic terms:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+    setError('');
+  };
+
+  const handleEdit = (term: AcademicTerm) => {
+    setEditingId(term.id);
+    setFormData({
+      academic_year: term.academic_year,
+      period: isTermPeriod(term.period) ? term.period : 'ganjil',
+      start_date: term.start_date,
+      end_date: term.end_date,
+    });
+    setError('');
+    setShowForm(true);
+  };
+
+  // Suggest the usual dates once the year and period are known, without overwriting edits
+  const updateYearOrPeriod = (patch: Partial<Pick<AcademicTermForm, 'academic_year' | 'period'>>) => {
+    const next = { ...formData, ...patch };
+    if (!editingId && /^\d{4}\/\d{4}$/.test(next.academic_year)) {
+      Object.assign(next, defaultTermDates(next.academic_year, next.period));
+    }
+    setFormData(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const match = /^(\d{4})\/(\d{4})$/.exec(formData.academic_year.trim());
+    if (!match || parseInt(match[2], 10) !== parseInt(match[1], 10) + 1) {
+      setError('Tahun akademik harus berformat YYYY/YYYY, contoh 2025/2026');
+      return;
+    }
+
+    if (!formData.start_date || !formData.end_date || formData.end_date <= formData.start_date) {
+      setError('Tanggal selesai harus setelah tanggal mulai');
+      return;
+    }
+
+    try {
+      const dataToSave = { ...formData, academic_year: formData.academic_year.trim() };
+
+      if (editingId) {
+        await academicTermRepository.update(editingId, dataToSave);
+      } else {
+        await academicTermRepository.create(dataToSave);
+      }
+
+      closeForm();
+      loadTerms();
+    } catch (err) {
+      if (err instanceof RepositoryError && err.isUniqueViolation) {
+        setError(`Periode ${formatTerm(formData)} sudah ada`);
+      } else {
+        setError(err instanceof Error ? err.message : 'Gagal menyimpan periode');
+      }
+    }
+  };
+
+  const handleActivate = async (term: AcademicTerm) => {
+    if (!confirm(`Jadikan ${formatTerm(term)} sebagai periode aktif?`)) return;
+
+    try {
+      await academicTermRepository.setActive(term.id);
+      loadTerms();
+    } catch (err) {
+      alert('Gagal mengubah periode aktif: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const handleDelete = async (term: AcademicTerm) => {
+    if (!confirm(`Hapus periode ${formatTerm(term)}?`)) return;
+
+    try {
+      await academicTermRepository.remove(term.id);
+      loadTerms();
+    } catch (err) {
+      if (err instanceof RepositoryError && err.isForeignKeyViolation) {
+        alert('Periode ini masih dipakai oleh mata kuliah atau nilai dan tidak dapat dihapus');
+      } else {
+        alert('Gagal menghapus periode: ' + (err instanceof Error ? err.message : 'Unknown error'));
+      }
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
+        <div className="w-12 h-12 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-gray-600">Memuat data...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Periode Akademik</h2>
+          <p className="text-gray-600 mt-1">
+            Setiap mata kuliah dan nilai tercatat pada satu periode; periode aktif menjadi pilihan awal di semua filter
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            closeForm();
+            setShowForm(true);
+          }}
+          className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+        >
+          <Plus className="w-5 h-5" />
+          Tambah Periode
+        </button>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg overflow-hidden">
+        {terms.length === 0 ? (
+          <div className="p-12 text-center">
+            <CalendarDays className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">Belum ada periode akademik</p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Periode
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Tanggal
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Aksi
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {terms.map(term => (
+                <tr key={term.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">{formatTerm(term)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {formatDate(term.start_date)} - {formatDate(term.end_date)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-center">
+                    {term.is_active ? (
+                      <span className="px-3 py-1 bg-green-100 text-green-800 rounded-full text-xs font-semibold">
+                        Aktif
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => handleActivate(term)}
+                        className="inline-flex items-center gap-1 px-3 py-1 rounded-lg text-xs font-medium text-green-700 hover:bg-green-50"
+                      >
+                        <CheckCircle className="w-4 h-4" />
+                        Jadikan Aktif
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center space-x-2">
+                    <button
+                      onClick={() => handleEdit(term)}
+                      className="inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium bg-blue-50 text-blue-600 hover:bg-blue-100"
+                    >
+                      <Edit3 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(term)}
+                      disabled={term.is_active}
+                      title={term.is_active ? 'Periode aktif tidak dapat dihapus' : undefined}
+                      className="inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium bg-red-50 text-red-600 hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-xl max-w-md w-full p-6">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-2xl font-bold text-gray-800">
+                {editingId ? 'Edit Periode' : 'Tambah Periode'}
+              </h3>
+              <button onClick={closeForm} className="p-2 hover:bg-gray-100 rounded-lg">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+                {error}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Tahun Akademik *
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.academic_year}
+                    onChange={(e) => updateYearOrPeriod({ academic_year: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    placeholder="2025/2026"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Periode *
+                  </label>
+                  <select
+                    value={formData.period}
+                    onChange={(e) => {
+                      const period = e.target.value;
+                      if (isTermPeriod(period)) updateYearOrPeriod({ period });
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  >
+                    {TERM_PERIODS.map(period => (
+                      <option key={period} value={period}>
+                        {TERM_PERIOD_LABELS[period]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Tanggal Mulai *
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.start_date}
+                    onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Tanggal Selesai *
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.end_date}
+                    onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50"
+                >
+                  Batal
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700"
+                >
+                  Simpan
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,6 @@
 import { useState, useEffect } from 'react';
 import { Activity, Filter, Download, RefreshCw, User, Clock, Tag } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-
-interface ActivityLogEntry {
-  id: string;
-  user_email: string;
-  user_type: 'admin' | 'student' | 'system';
-  action: string;
-  entity_type: string | null;
-  entity_id: string | null;
-  description: string;
-  metadata: Record<string, any>;
-  created_at: string;
-}
+import { activityLogRepository, type ActivityLogEntry } from '../lib/repositories';
 
 export function ActivityLog() {
   const [logs, setLogs] = useState<ActivityLogEntry[]>([]);
@@ -30,17 +18,10 @@ export function ActivityLog() {
   const loadLogs = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('activity_logs')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .limit(500);
-
-      if (error) throw error;
-
-      setLogs(data || []);
+      const data = await activityLogRepository.listRecent();
+      setLogs(data);
 
-      const actions = [...new Set((data || []).map(log => log.action))].sort();
+      const actions = [...new Set(data.map(log => log.action))].sort();
       setAvailableActions(actions);
     } catch (err) {
       console.error('Error loading activity logs:', err);
@@ -85,7 +66,7 @@ export function ActivityLog() {
           break;
       }
 
-      filtered = filtered.filter(log => new Date(log.created_at) >= filterDate);
+      filtered = filtered.filter(log => new Date(log.created_at ?? 0) >= filterDate);
     }
 
     return filtered;
@@ -95,7 +76,7 @@ export function ActivityLog() {
     const filtered = getFilteredLogs();
     const headers = ['Timestamp', 'User Email', 'User Type', 'Action', 'Description', 'Entity Type', 'Entity ID'];
     const rows = filtered.map(log => [
-      new Date(log.created_at).toLocaleString(),
+      new Date(log.created_at ?? 0).toLocaleString(),
       log.user_email,
       log.user_type,
       log.action,
@@ -140,6 +121,7 @@ export function ActivityLog() {
     switch (userType) {
       case 'admin': return 'bg-purple-100 text-purple-800';
       case 'student': return 'bg-blue-100 text-blue-800';
+      case 'lecturer': return 'bg-emerald-100 text-emerald-800';
       case 'system': return 'bg-gray-100 text-gray-800';
       default: return 'bg-gray-100 text-gray-800';
     }
@@ -209,6 +191,7 @@ export function ActivityLog() {
               <option value="">All Users</option>
               <option value="admin">Admin</option>
               <option value="student">Student</option>
+              <option value="lecturer">Lecturer</option>
               <option value="system">System</option>
             </select>
           </div>
@@ -306,7 +289,7 @@ export function ActivityLog() {
                 {filteredLogs.map((log) => (
                   <tr key={log.id} className="hover:bg-gray-50 transition-colors">
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {new Date(log.created_at).toLocaleString('id-ID', {
+                      {new Date(log.created_at ?? 0).toLocaleString('id-ID', {
                         year: 'numeric',
                         month: 'short',
                         day: 'numeric',
@@ -0,0 +1,324 @@
+import { useEffect, useState } from 'react';
+import { Check, Search, ShieldCheck, Trash2, UserPlus } from 'lucide-react';
+import { useAdminAuth } from '../contexts/AdminAuthContext';
+import {
+  ADMIN_PERMISSION_LABELS,
+  ADMIN_ROLES,
+  ADMIN_ROLE_LABELS,
+  isAdminRole,
+  type AdminPermission,
+  type AdminRole,
+} from '../lib/adminRoles';
+import { adminUserRepository, type AdminRolePermission, type AdminUser } from '../lib/repositories';
+
+const EMPTY_FORM = { email: '', password: '', name: '', role: 'auditor' as AdminRole };
+
+const PERMISSIONS = Object.keys(ADMIN_PERMISSION_LABELS) as AdminPermission[];
+
+export function AdminAccountManagement() {
+  const { user } = useAdminAuth();
+  const [admins, setAdmins] = useState<AdminUser[]>([]);
+  const [matrix, setMatrix] = useState<AdminRolePermission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [adminsData, matrixRows] = await Promise.all([
+        adminUserRepository.list(),
+        adminUserRepository.listRolePermissions(),
+      ]);
+      setAdmins(adminsData);
+      setMatrix(matrixRows);
+    } catch (err) {
+      console.error('Error loading admin accounts:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddAdmin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+
+    try {
+      await adminUserRepository.createAccount(formData);
+
+      setFormData(EMPTY_FORM);
+      setShowAddForm(false);
+      loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal menambahkan admin');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRoleChange = async (admin: AdminUser, role: AdminRole) => {
+    if (!confirm(`Ubah role ${admin.name} menjadi ${ADMIN_ROLE_LABELS[role]}?`)) return;
+
+    try {
+      await adminUserRepository.updateRole(admin.id, role);
+      loadData();
+    } catch (err) {
+      alert('Gagal mengubah role: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const handleDeleteAdmin = async (admin: AdminUser) => {
+    if (!confirm(`Hapus akses admin ${admin.name}? Akun login-nya tetap ada, tetapi tidak bisa lagi membuka portal admin.`)) return;
+
+    try {
+      await adminUserRepository.remove(admin.id);
+      loadData();
+    } catch (err) {
+      console.error('Error deleting admin:', err);
+      alert('Gagal menghapus admin');
+    }
+  };
+
+  const isGranted = (role: AdminRole, permission: AdminPermission) =>
+    matrix.some(row => row.role === role && row.permission === permission);
+
+  const filteredAdmins = admins.filter(admin => {
+    const term = searchTerm.toLowerCase();
+    return admin.name.toLowerCase().includes(term) || admin.email.toLowerCase().includes(term);
+  });
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
+        <div className="w-12 h-12 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-gray-600">Memuat data...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Akun Admin</h2>
+          <p className="text-gray-600 mt-1">
+            Role menentukan tab dan operasi yang dapat diakses setiap admin
+          </p>
+        </div>
+        <button
+          onClick={() => setShowAddForm(!showAddForm)}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <UserPlus className="w-5 h-5" />
+          Tambah Admin
+        </button>
+      </div>
+
+      {showAddForm && (
+        <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Tambah Admin Baru</h3>
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg">
+              {error}
+            </div>
+          )}
+          <form onSubmit={handleAddAdmin} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Nama Lengkap
+              </label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Role
+              </label>
+              <select
+                value={formData.role}
+                onChange={(e) => {
+                  const role = e.target.value;
+                  if (isAdminRole(role)) setFormData({ ...formData, role });
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {ADMIN_ROLES.map(role => (
+                  <option key={role} value={role}>
+                    {ADMIN_ROLE_LABELS[role]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Email
+              </label>
+              <input
+                type="email"
+                required
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="admin@university.edu"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Password
+              </label>
+              <input
+                type="password"
+                required
+                value={formData.password}
+                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Minimal 6 karakter"
+                minLength={6}
+              />
+            </div>
+            <div className="md:col-span-2 flex gap-3">
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {submitting ? 'Menyimpan...' : 'Tambah Admin'}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setShowAddForm(false);
+                  setError('');
+                  setFormData(EMPTY_FORM);
+                }}
+                className="px-6 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+              >
+                Batal
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md border border-gray-200">
+        <div className="p-4 border-b border-gray-200">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Cari nama atau email..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        {filteredAdmins.length === 0 ? (
+          <div className="p-12 text-center">
+            <ShieldCheck className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">Tidak ada admin yang sesuai pencarian</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {filteredAdmins.map(admin => {
+              const isSelf = admin.id === user?.id;
+
+              return (
+                <div key={admin.id} className="p-6 flex items-center justify-between gap-4">
+                  <div>
+                    <p className="font-semibold text-gray-900">
+                      {admin.name}
+                      {isSelf && <span className="ml-2 text-xs font-normal text-gray-500">(Anda)</span>}
+                    </p>
+                    <p className="text-sm text-gray-600">{admin.email}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={admin.role}
+                      disabled={isSelf}
+                      title={isSelf ? 'Role sendiri tidak dapat diubah' : undefined}
+                      onChange={(e) => {
+                        const role = e.target.value;
+                        if (isAdminRole(role)) handleRoleChange(admin, role);
+                      }}
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100 disabled:cursor-not-allowed"
+                    >
+                      {ADMIN_ROLES.map(role => (
+                        <option key={role} value={role}>
+                          {ADMIN_ROLE_LABELS[role]}
+                        </option>
+                      ))}
+                    </select>
+                    {!isSelf && (
+                      <button
+                        onClick={() => handleDeleteAdmin(admin)}
+                        className="inline-flex items-center gap-1 px-3 py-1 text-sm text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Hapus
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Matriks Hak Akses</h3>
+          <p className="text-sm text-gray-600">
+            Semua role dapat melihat nilai, laporan semester, dan mencetak transkrip
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Hak Akses
+                </th>
+                {ADMIN_ROLES.map(role => (
+                  <th key={role} className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {ADMIN_ROLE_LABELS[role]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {PERMISSIONS.map(permission => (
+                <tr key={permission}>
+                  <td className="px-6 py-3 text-sm text-gray-700">{ADMIN_PERMISSION_LABELS[permission]}</td>
+                  {ADMIN_ROLES.map(role => (
+                    <td key={role} className="px-4 py-3 text-center">
+                      {isGranted(role, permission) ? (
+                        <Check className="w-4 h-4 text-green-600 mx-auto" />
+                      ) : (
+                        <span className="text-gray-300">-</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,45 +1,92 @@
 import { useEffect, useState } from 'react';
-import { BookOpen, LogOut, Users, Upload, Settings, UserCircle, Edit3, Printer, FileSpreadsheet, Award, TrendingUp, BookMarked, Activity } from 'lucide-react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { BookOpen, LogOut, Users, Upload, Settings, UserCircle, Edit3, Printer, FileSpreadsheet, Award, TrendingUp, BookMarked, Activity, History, Lock, GraduationCap, ShieldCheck, ClipboardCheck, Gauge, CalendarDays, ListChecks, BadgeCheck, Medal, Building2, LayoutTemplate, FileText } from 'lucide-react';
 import { useAdminAuth } from '../contexts/AdminAuthContext';
-import { supabase } from '../lib/supabase';
+import {
+  academicTermRepository,
+  courseRepository,
+  gradeRepository,
+  studentRepository,
+  type AcademicTerm,
+  type Course,
+  type GradeWithRelations,
+} from '../lib/repositories';
 import { ExcelGradeUpload } from './ExcelGradeUpload';
 import { CourseManagement } from './CourseManagement';
 import { EnrollmentManagement } from './EnrollmentManagement';
 import StudentManagement from './StudentManagement';
 import { ManualGradeInput } from './ManualGradeInput';
 import { TranscriptPrint } from './TranscriptPrint';
+import { KhsPrint } from './KhsPrint';
 import { BulkCourseUpload } from './BulkCourseUpload';
 import { GradingScaleManagement } from './GradingScaleManagement';
 import { SemesterGradeReport } from './SemesterGradeReport';
 import { BulkEnrollmentByCurriculum } from './BulkEnrollmentByCurriculum';
 import { ActivityLog } from './ActivityLog';
+import { GradeHistoryModal } from './GradeHistoryModal';
+import { GradeStatusManagement } from './GradeStatusManagement';
+import { LecturerManagement } from './LecturerManagement';
+import { AdminAccountManagement } from './AdminAccountManagement';
+import { KrsApproval } from './KrsApproval';
+import { SksLoadRuleManagement } from './SksLoadRuleManagement';
+import { AcademicTermManagement } from './AcademicTermManagement';
+import { GraduationRequirementManagement } from './GraduationRequirementManagement';
+import { DegreeAuditReport } from './DegreeAuditReport';
+import { YudisiumManagement } from './YudisiumManagement';
+import { InstitutionProfileManagement } from './InstitutionProfileManagement';
+import { DocumentTemplateManagement } from './DocumentTemplateManagement';
+import { ADMIN_ROLE_LABELS } from '../lib/adminRoles';
+import { formatTerm } from '../lib/academicTerms';
 
-interface StudentGrade {
-  student: {
-    nim: string;
-    name: string;
-    angkatan: string;
-  };
-  course: {
-    code: string;
-    name: string;
-    curriculum: string;
-  };
-  score: number;
-  letter_grade: string;
+// permission: null means every admin role (including auditors) may open the tab.
+const ADMIN_TABS = [
+  { id: 'excel-upload', label: 'Upload Excel', icon: Upload, permission: 'grades.write' },
+  { id: 'manual-input', label: 'Input Manual', icon: Edit3, permission: 'grades.write' },
+  { id: 'grades', label: 'Lihat Nilai', icon: BookOpen, permission: null },
+  { id: 'grade-status', label: 'Status Nilai', icon: Lock, permission: 'grades.status' },
+  { id: 'terms', label: 'Periode Akademik', icon: CalendarDays, permission: 'courses.manage' },
+  { id: 'courses', label: 'Mata Kuliah', icon: Settings, permission: 'courses.manage' },
+  { id: 'bulk-course', label: 'Upload MK', icon: FileSpreadsheet, permission: 'courses.manage' },
+  { id: 'graduation-rules', label: 'Syarat Lulus', icon: ListChecks, permission: 'courses.manage' },
+  { id: 'enrollments', label: 'Enrollment', icon: Users, permission: 'enrollments.manage' },
+  { id: 'bulk-curriculum', label: 'Bulk by Kurikulum', icon: BookMarked, permission: 'enrollments.manage' },
+  { id: 'krs', label: 'KRS', icon: ClipboardCheck, permission: 'enrollments.manage' },
+  { id: 'sks-rules', label: 'Batas SKS', icon: Gauge, permission: 'enrollments.manage' },
+  { id: 'students', label: 'Mahasiswa', icon: UserCircle, permission: 'students.manage' },
+  { id: 'lecturers', label: 'Dosen', icon: GraduationCap, permission: 'lecturers.manage' },
+  { id: 'grading-scale', label: 'Grading Scale', icon: Award, permission: 'grading_scales.manage' },
+  { id: 'semester-report', label: 'Nilai Semester', icon: TrendingUp, permission: null },
+  { id: 'print', label: 'Cetak Transkrip', icon: Printer, permission: 'transcripts.issue' },
+  { id: 'khs', label: 'Cetak KHS', icon: FileText, permission: null },
+  { id: 'degree-audit', label: 'Audit Kelulusan', icon: BadgeCheck, permission: null },
+  { id: 'yudisium', label: 'Yudisium', icon: Medal, permission: 'students.manage' },
+  { id: 'activity-log', label: 'Activity Log', icon: Activity, permission: 'activity_logs.view' },
+  { id: 'admins', label: 'Akun Admin', icon: ShieldCheck, permission: 'admins.manage' },
+  { id: 'institution', label: 'Profil Institusi', icon: Building2, permission: 'admins.manage' },
+  { id: 'document-templates', label: 'Template Dokumen', icon: LayoutTemplate, permission: 'admins.manage' },
+] as const;
+
+type AdminTab = typeof ADMIN_TABS[number]['id'];
+
+function isAdminTab(value: string | undefined): value is AdminTab {
+  return ADMIN_TABS.some(tab => tab.id === value);
 }
 
 export function AdminDashboard() {
-  const { user, signOut } = useAdminAuth();
-  const [grades, setGrades] = useState<StudentGrade[]>([]);
+  const { tab } = useParams<{ tab: string }>();
+  const navigate = useNavigate();
+  const { user, role, hasPermission, signOut } = useAdminAuth();
+  const [grades, setGrades] = useState<GradeWithRelations[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'excel-upload' | 'manual-input' | 'view' | 'courses' | 'bulk-course' | 'enrollments' | 'bulk-curriculum' | 'students' | 'print' | 'grading-scale' | 'semester-report' | 'activity-log'>('excel-upload');
   const [courseFilter, setCourseFilter] = useState('');
   const [curriculumFilter, setCurriculumFilter] = useState('');
   const [angkatanFilter, setAngkatanFilter] = useState('');
-  const [courses, setCourses] = useState<Array<{ id: string; code: string; name: string; curriculum: string }>>([]);
+  const [termFilter, setTermFilter] = useState('');
+  const [courses, setCourses] = useState<Course[]>([]);
   const [curriculumList, setCurriculumList] = useState<string[]>([]);
   const [angkatanList, setAngkatanList] = useState<string[]>([]);
+  const [terms, setTerms] = useState<AcademicTerm[]>([]);
+  const [historyGrade, setHistoryGrade] = useState<GradeWithRelations | null>(null);
 
   useEffect(() => {
     loadData();
@@ -47,38 +94,19 @@ export function AdminDashboard() {
 
   const loadData = async () => {
     try {
-      const { data: coursesData } = await supabase
-        .from('courses')
-        .select('id, code, name, curriculum')
-        .order('code');
-
-      setCourses(coursesData || []);
-
-      if (coursesData) {
-        const uniqueCurriculum = [...new Set(coursesData.map(c => c.curriculum).filter(Boolean))].sort().reverse();
-        setCurriculumList(uniqueCurriculum as string[]);
-      }
-
-      const { data: studentsData } = await supabase
-        .from('students')
-        .select('angkatan');
-
-      if (studentsData) {
-        const uniqueAngkatan = [...new Set(studentsData.map(s => s.angkatan))].sort().reverse();
-        setAngkatanList(uniqueAngkatan);
-      }
-
-      const { data: gradesData } = await supabase
-        .from('grades')
-        .select(`
-          score,
-          letter_grade,
-          student:students (nim, name, angkatan),
-          course:courses (code, name, curriculum)
-        `)
-        .order('created_at', { ascending: false });
-
-      setGrades(gradesData as unknown as StudentGrade[]);
+      const [coursesData, curricula, angkatan, gradesData, termsData] = await Promise.all([
+        courseRepository.list(),
+        courseRepository.listCurricula(),
+        studentRepository.listAngkatan(),
+        gradeRepository.listWithRelations(),
+        academicTermRepository.list(),
+      ]);
+
+      setCourses(coursesData);
+      setCurriculumList(curricula);
+      setAngkatanList(angkatan);
+      setGrades(gradesData);
+      setTerms(termsData);
     } catch (err) {
       console.error('Error loading data:', err);
     } finally {
@@ -86,10 +114,19 @@ export function AdminDashboard() {
     }
   };
 
+  const visibleTabs = ADMIN_TABS.filter(({ permission }) => permission === null || hasPermission(permission));
+
+  if (!isAdminTab(tab) || !visibleTabs.some(({ id }) => id === tab)) {
+    return <Navigate to={`/admin/${visibleTabs[0].id}`} replace />;
+  }
+
+  const activeTab: AdminTab = tab;
+
   const filteredGrades = grades.filter(g => {
     if (courseFilter && g.course.code !== courseFilter) return false;
     if (curriculumFilter && g.course.curriculum !== curriculumFilter) return false;
     if (angkatanFilter && g.student.angkatan !== angkatanFilter) return false;
+    if (termFilter && g.term_id !== termFilter) return false;
     return true;
   });
 
@@ -120,172 +157,98 @@ export function AdminDashboard() {
           </h2>
           <p className="text-gray-600">
             Email: {user?.email}
+            {role && (
+              <span className="ml-3 px-2 py-1 bg-purple-100 text-purple-800 rounded-full text-xs font-medium">
+                {ADMIN_ROLE_LABELS[role]}
+              </span>
+            )}
           </p>
         </div>
 
         <div className="flex flex-wrap gap-2 mb-6">
-          <button
-            onClick={() => setActiveTab('excel-upload')}
-            className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-colors ${
-              activeTab === 'excel-upload'
-                ? 'bg-purple-600 text-white'
-                : 'bg-white text-gray-700 hover:bg-gray-50'
-            }`}
-          >
-            <Upload className="w-5 h-5" />
-            <span>Upload Excel</span>
-          </button>
-          <button
-            onClick={() => setActiveTab('manual-input')}
-            className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-colors ${
-              activeTab === 'manual-input'
-                ? 'bg-purple-600 text-white'
-                : 'bg-white text-gray-700 hover:bg-gray-50'
-            }`}
-          >
-            <Edit3 className="w-5 h-5" />
-            <span>Input Manual</span>
-          </button>
-          <button
-            onClick={() => setActiveTab('view')}
-            className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-colors ${
-              activeTab === 'view'
-                ? 'bg-purple-600 text-white'
-                : 'bg-white text-gray-700 hover:bg-gray-50'
-            }`}
-          >
-            <BookOpen className="w-5 h-5" />
-            <span>Lihat Nilai</span>
-          </button>
-          <button
-            onClick={() => setActiveTab('courses')}
-            className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-colors ${
-              activeTab === 'courses'
-                ? 'bg-purple-600 text-white'
-                : 'bg-white text-gray-700 hover:bg-gray-50'
-            }`}
-          >
-            <Settings className="w-5 h-5" />
-            <span>Mata Kuliah</span>
-          </button>
-          <button
-            onClick={() => setActiveTab('bulk-course')}
-            className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-colors ${
-              activeTab === 'bulk-course'
-                ? 'bg-purple-600 text-white'
-                : 'bg-white text-gray-700 hover:bg-gray-50'
-            }`}
-          >
-            <FileSpreadsheet className="w-5 h-5" />
-            <span>Upload MK</span>
-          </button>
-          <button
-            onClick={() => setActiveTab('enrollments')}
-            className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-colors ${
-              activeTab === 'enrollments'
-                ? 'bg-purple-600 text-white'
-                : 'bg-white text-gray-700 hover:bg-gray-50'
-            }`}
-          >
-            <Users className="w-5 h-5" />
-            <span>Enrollment</span>
-          </button>
-          <button
-            onClick={() => setActiveTab('bulk-curriculum')}
-            className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-colors ${
-              activeTab === 'bulk-curriculum'
-                ? 'bg-purple-600 text-white'
-                : 'bg-white text-gray-700 hover:bg-gray-50'
-            }`}
-          >
-            <BookMarked className="w-5 h-5" />
-            <span>Bulk by Kurikulum</span>
-          </button>
-          <button
-            onClick={() => setActiveTab('students')}
-            className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-colors ${
-              activeTab === 'students'
-                ? 'bg-purple-600 text-white'
-                : 'bg-white text-gray-700 hover:bg-gray-50'
-            }`}
-          >
-            <UserCircle className="w-5 h-5" />
-            <span>Mahasiswa</span>
-          </button>
-          <button
-            onClick={() => setActiveTab('grading-scale')}
-            className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-colors ${
-              activeTab === 'grading-scale'
-                ? 'bg-purple-600 text-white'
-                : 'bg-white text-gray-700 hover:bg-gray-50'
-            }`}
-          >
-            <Award className="w-5 h-5" />
-            <span>Grading Scale</span>
-          </button>
-          <button
-            onClick={() => setActiveTab('semester-report')}
-            className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-colors ${
-              activeTab === 'semester-report'
-                ? 'bg-purple-600 text-white'
-                : 'bg-white text-gray-700 hover:bg-gray-50'
-            }`}
-          >
-            <TrendingUp className="w-5 h-5" />
-            <span>Nilai Semester</span>
-          </button>
-          <button
-            onClick={() => setActiveTab('print')}
-            className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-colors ${
-              activeTab === 'print'
-                ? 'bg-purple-600 text-white'
-                : 'bg-white text-gray-700 hover:bg-gray-50'
-            }`}
-          >
-            <Printer className="w-5 h-5" />
-            <span>Cetak Transkrip</span>
-          </button>
-          <button
-            onClick={() => setActiveTab('activity-log')}
-            className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-colors ${
-              activeTab === 'activity-log'
-                ? 'bg-purple-600 text-white'
-                : 'bg-white text-gray-700 hover:bg-gray-50'
-            }`}
-          >
-            <Activity className="w-5 h-5" />
-            <span>Activity Log</span>
-          </button>
+          {visibleTabs.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => navigate(`/admin/${id}`)}
+              className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-colors ${
+                activeTab === id
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <Icon className="w-5 h-5" />
+              <span>{label}</span>
+            </button>
+          ))}
         </div>
 
         {activeTab === 'excel-upload' && <ExcelGradeUpload />}
 
         {activeTab === 'print' && <TranscriptPrint />}
 
+        {activeTab === 'khs' && <KhsPrint />}
+
         {activeTab === 'manual-input' && <ManualGradeInput />}
 
         {activeTab === 'students' && <StudentManagement />}
 
+        {activeTab === 'lecturers' && <LecturerManagement />}
+
+        {activeTab === 'terms' && <AcademicTermManagement />}
+
         {activeTab === 'courses' && <CourseManagement />}
 
         {activeTab === 'bulk-course' && <BulkCourseUpload />}
 
+        {activeTab === 'graduation-rules' && <GraduationRequirementManagement />}
+
         {activeTab === 'grading-scale' && <GradingScaleManagement />}
 
         {activeTab === 'semester-report' && <SemesterGradeReport />}
 
+        {activeTab === 'degree-audit' && <DegreeAuditReport />}
+        {activeTab === 'yudisium' && <YudisiumManagement />}
+
         {activeTab === 'enrollments' && <EnrollmentManagement />}
 
         {activeTab === 'bulk-curriculum' && <BulkEnrollmentByCurriculum />}
 
+        {activeTab === 'krs' && <KrsApproval />}
+
+        {activeTab === 'sks-rules' && <SksLoadRuleManagement />}
+
         {activeTab === 'activity-log' && <ActivityLog />}
 
-        {activeTab === 'view' && (
+        {activeTab === 'grade-status' && <GradeStatusManagement />}
+
+        {activeTab === 'admins' && <AdminAccountManagement />}
+        {activeTab === 'institution' && <InstitutionProfileManagement />}
+        {activeTab === 'document-templates' && <DocumentTemplateManagement />}
+
+        {activeTab === 'grades' && (
           <div className="bg-white rounded-2xl shadow-lg overflow-hidden">
             <div className="p-6 border-b border-gray-200">
               <h3 className="text-xl font-bold text-gray-800 mb-4">Daftar Nilai</h3>
 
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Filter Periode
+                  </label>
+                  <select
+                    value={termFilter}
+                    onChange={(e) => setTermFilter(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  >
+                    <option value="">Semua Periode</option>
+                    {terms.map(term => (
+                      <option key={term.id} value={term.id}>
+                        {formatTerm(term)}{term.is_active ? ' (aktif)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Filter Kurikulum
@@ -345,9 +308,10 @@ export function AdminDashboard() {
                 <div className="text-sm text-gray-600">
                   Menampilkan <span className="font-semibold text-gray-900">{filteredGrades.length}</span> nilai
                 </div>
-                {(curriculumFilter || angkatanFilter || courseFilter) && (
+                {(termFilter || curriculumFilter || angkatanFilter || courseFilter) && (
                   <button
                     onClick={() => {
+                      setTermFilter('');
                       setCurriculumFilter('');
                       setAngkatanFilter('');
                       setCourseFilter('');
@@ -404,6 +368,9 @@ export function AdminDashboard() {
                       <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Nilai Huruf
                       </th>
+                      <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Riwayat
+                      </th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
@@ -444,6 +411,15 @@ export function AdminDashboard() {
                             {grade.letter_grade}
                           </span>
                         </td>
+                        <td className="px-4 py-4 whitespace-nowrap text-center">
+                          <button
+                            onClick={() => setHistoryGrade(grade)}
+                            className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+                            title="Lihat riwayat perubahan"
+                          >
+                            <History className="w-4 h-4" />
+                          </button>
+                        </td>
                       </tr>
                     ))}
                   </tbody>
@@ -453,6 +429,15 @@ export function AdminDashboard() {
           </div>
         )}
       </div>
+
+      {historyGrade && (
+        <GradeHistoryModal
+          studentId={historyGrade.student_id}
+          courseId={historyGrade.course_id}
+          title={`${historyGrade.student.nim} - ${historyGrade.student.name} · ${historyGrade.course.code} ${historyGrade.course.name}`}
+          onClose={() => setHistoryGrade(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { Plus, Save, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { TOTAL_COMPONENT_WEIGHT, totalComponentWeight } from '../lib/grading';
+import { assessmentComponentRepository, type AssessmentComponent } from '../lib/repositories';
+
+const SUGGESTED_COMPONENTS = ['Tugas', 'Kuis', 'UTS', 'UAS', 'Praktikum'];
+
+interface ComponentRow {
+  id?: string;
+  name: string;
+  weight: string;
+}
+
+interface AssessmentComponentsEditorProps {
+  courseId: string;
+  components: AssessmentComponent[];
+  onSaved: (components: AssessmentComponent[]) => void;
+}
+
+const toRows = (components: AssessmentComponent[]): ComponentRow[] =>
+  components.map(c => ({ id: c.id, name: c.name, weight: String(Number(c.weight)) }));
+
+export function AssessmentComponentsEditor({ courseId, components, onSaved }: AssessmentComponentsEditorProps) {
+  const [rows, setRows] = useState<ComponentRow[]>(toRows(components));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRows(toRows(components));
+    setError(null);
+  }, [components]);
+
+  const total = totalComponentWeight(rows.map(r => ({ weight: Number(r.weight) || 0 })));
+  const unusedSuggestions = SUGGESTED_COMPONENTS.filter(
+    name => !rows.some(r => r.name.trim().toLowerCase() === name.toLowerCase())
+  );
+
+  const updateRow = (index: number, patch: Partial<ComponentRow>) => {
+    setRows(prev => prev.map((row, idx) => (idx === index ? { ...row, ...patch } : row)));
+  };
+
+  const addRow = (name = '') => {
+    setRows(prev => [...prev, { name, weight: '' }]);
+  };
+
+  const removeRow = (index: number) => {
+    setRows(prev => prev.filter((_, idx) => idx !== index));
+  };
+
+  const handleSave = async () => {
+    const names = rows.map(r => r.name.trim());
+    if (names.some(name => !name)) {
+      setError('Nama komponen tidak boleh kosong');
+      return;
+    }
+    if (new Set(names.map(name => name.toLowerCase())).size !== names.length) {
+      setError('Nama komponen tidak boleh sama');
+      return;
+    }
+    if (rows.some(r => !(Number(r.weight) > 0))) {
+      setError('Bobot setiap komponen harus lebih dari 0');
+      return;
+    }
+    if (rows.length > 0 && total !== TOTAL_COMPONENT_WEIGHT) {
+      setError(`Total bobot harus ${TOTAL_COMPONENT_WEIGHT}%, saat ini ${total}%`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await assessmentComponentRepository.save(
+        courseId,
+        rows.map(r => ({ id: r.id, name: r.name.trim(), weight: Number(r.weight) }))
+      );
+      onSaved(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal menyimpan komponen penilaian');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Komponen Penilaian</h3>
+        </div>
+        <span
+          className={`px-3 py-1 rounded-full text-sm font-semibold ${
+            rows.length === 0 || total === TOTAL_COMPONENT_WEIGHT
+              ? 'bg-green-100 text-green-800'
+              : 'bg-amber-100 text-amber-800'
+          }`}
+        >
+          Total bobot: {total}%
+        </span>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-600 mb-4">
+          Mata kuliah ini belum memiliki komponen penilaian, nilai akhir diinput langsung.
+          Tambahkan komponen agar nilai akhir dihitung otomatis dari bobotnya.
+        </p>
+      ) : (
+        <div className="space-y-2 mb-4">
+          {rows.map((row, idx) => (
+            <div key={row.id ?? `new-${idx}`} className="flex items-center gap-3">
+              <input
+                type="text"
+                value={row.name}
+                onChange={(e) => updateRow(idx, { name: e.target.value })}
+                placeholder="Nama komponen"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={row.weight}
+                  onChange={(e) => updateRow(idx, { weight: e.target.value })}
+                  placeholder="Bobot"
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <span className="text-gray-600">%</span>
+              </div>
+              <button
+                onClick={() => removeRow(idx)}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                title="Hapus komponen"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {unusedSuggestions.map(name => (
+          <button
+            key={name}
+            onClick={() => addRow(name)}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            <Plus className="w-4 h-4" />
+            {name}
+          </button>
+        ))}
+        <button
+          onClick={() => addRow()}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+        >
+          <Plus className="w-4 h-4" />
+          Lainnya
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="ml-auto flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4" />
+          {saving ? 'Menyimpan...' : 'Simpan Komponen'}
+        </button>
+      </div>
+    </div>
+  );
+}
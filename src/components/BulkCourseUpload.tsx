@@ -1,7 +1,8 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Upload, Download, FileSpreadsheet, CheckCircle2, XCircle } from 'lucide-react';
 import * as XLSX from 'xlsx';
-import { supabase } from '../lib/supabase';
+import { academicTermRepository, courseRepository, type AcademicTerm } from '../lib/repositories';
+import { formatTerm } from '../lib/academicTerms';
 
 interface CourseRow {
   code: string;
@@ -22,6 +23,18 @@ export function BulkCourseUpload() {
   const [uploading, setUploading] = useState(false);
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
   const [uploadResult, setUploadResult] = useState<{ success: number; failed: number; errors: string[] } | null>(null);
+  const [terms, setTerms] = useState<AcademicTerm[]>([]);
+  const [termId, setTermId] = useState('');
+
+  useEffect(() => {
+    academicTermRepository
+      .list()
+      .then(termsData => {
+        setTerms(termsData);
+        setTermId(termsData.find(t => t.is_active)?.id ?? '');
+      })
+      .catch(err => console.error('Error loading academic terms:', err));
+  }, []);
 
   const downloadTemplate = () => {
     const template = [
@@ -167,6 +180,12 @@ export function BulkCourseUpload() {
   const handleUpload = async () => {
     if (!validationResult || !validationResult.valid) return;
 
+    const term = terms.find(t => t.id === termId);
+    if (!term) {
+      alert('Pilih periode akademik terlebih dahulu');
+      return;
+    }
+
     setUploading(true);
     setUploadResult(null);
 
@@ -177,49 +196,29 @@ export function BulkCourseUpload() {
 
       for (const course of validationResult.data) {
         try {
-          const { data: existing } = await supabase
-            .from('courses')
-            .select('id')
-            .eq('code', course.code)
-            .eq('curriculum', course.curriculum)
-            .maybeSingle();
+          // A course offered again in another term gets its own row, so
+          // grades of earlier terms stay with their offering
+          const existing = await courseRepository.findByCode(course.code, course.curriculum, term.id);
 
           if (existing) {
-            const { error } = await supabase
-              .from('courses')
-              .update({
-                name: course.name,
-                credits: course.credits,
-                academic_year: course.curriculum,
-                semester: course.semester || 1,
-              })
-              .eq('id', existing.id);
-
-            if (error) {
-              failedCount++;
-              errors.push(`${course.code} (${course.curriculum}): Update gagal - ${error.message}`);
-            } else {
-              successCount++;
-            }
+            await courseRepository.update(existing.id, {
+              name: course.name,
+              credits: course.credits,
+              semester: course.semester || 1,
+            });
           } else {
-            const { error } = await supabase
-              .from('courses')
-              .insert({
-                code: course.code,
-                name: course.name,
-                credits: course.credits,
-                curriculum: course.curriculum,
-                academic_year: course.curriculum,
-                semester: course.semester || 1,
-              });
-
-            if (error) {
-              failedCount++;
-              errors.push(`${course.code} (${course.curriculum}): Insert gagal - ${error.message}`);
-            } else {
-              successCount++;
-            }
+            await courseRepository.create({
+              code: course.code,
+              name: course.name,
+              credits: course.credits,
+              curriculum: course.curriculum,
+              academic_year: term.academic_year,
+              term_id: term.id,
+              semester: course.semester || 1,
+            });
           }
+
+          successCount++;
         } catch (err) {
           failedCount++;
           errors.push(`${course.code} (${course.curriculum}): ${err instanceof Error ? err.message : 'Unknown error'}`);
@@ -269,6 +268,27 @@ export function BulkCourseUpload() {
         </p>
       </div>
 
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Periode Akademik
+        </label>
+        <select
+          value={termId}
+          onChange={(e) => setTermId(e.target.value)}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">Pilih Periode</option>
+          {terms.map(term => (
+            <option key={term.id} value={term.id}>
+              {formatTerm(term)}{term.is_active ? ' (aktif)' : ''}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          Semua mata kuliah dalam file ditawarkan pada periode ini
+        </p>
+      </div>
+
       <div className="mb-6">
         <label className="block text-sm font-medium text-gray-700 mb-2">
           Upload File Excel
@@ -346,7 +366,7 @@ export function BulkCourseUpload() {
               </div>
               <button
                 onClick={handleUpload}
-                disabled={uploading}
+                disabled={uploading || !termId}
                 className="w-full px-6 py-3 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:bg-gray-400 transition-colors"
               >
                 <Upload className="w-5 h-5 inline mr-2" />
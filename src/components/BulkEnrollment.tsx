@@ -1,24 +1,12 @@
 import { useState, useEffect } from 'react';
 import { Users, BookOpen, CheckCircle, XCircle, AlertCircle, GraduationCap } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-
-interface Course {
-  id: string;
-  code: string;
-  name: string;
-  academic_year: string;
-  semester: number;
-}
-
-interface Student {
-  id: string;
-  nim: string;
-  name: string;
-  angkatan: string;
-}
+import { courseRepository, enrollmentRepository, studentRepository, type Course, type Student } from '../lib/repositories';
+import { describeUnmet, PrerequisiteChecker } from '../lib/prerequisites';
+import { describeAllowance, SksLoadTracker } from '../lib/sksLoad';
 
 interface EnrollmentResult {
-  success: Array<{ student: Student }>;
+  /** `warning` is set when the student was enrolled over their SKS limit. */
+  success: Array<{ student: Student; warning?: string }>;
   failed: Array<{ student: Student; error: string }>;
   skipped: Array<{ student: Student; reason: string }>;
 }
@@ -33,6 +21,7 @@ export function BulkEnrollment() {
   const [loading, setLoading] = useState(true);
   const [enrolling, setEnrolling] = useState(false);
   const [result, setResult] = useState<EnrollmentResult | null>(null);
+  const [skipOverLimit, setSkipOverLimit] = useState(true);
 
   useEffect(() => {
     loadData();
@@ -49,17 +38,15 @@ export function BulkEnrollment() {
 
   const loadData = async () => {
     try {
-      const [coursesRes, studentsRes] = await Promise.all([
-        supabase.from('courses').select('*').order('code'),
-        supabase.from('students').select('*').order('angkatan, nim')
+      const [coursesData, studentsData, angkatan] = await Promise.all([
+        courseRepository.list(),
+        studentRepository.list(),
+        studentRepository.listAngkatan()
       ]);
 
-      if (coursesRes.data) setCourses(coursesRes.data);
-      if (studentsRes.data) {
-        setStudents(studentsRes.data);
-        const uniqueAngkatan = [...new Set(studentsRes.data.map(s => s.angkatan))].sort();
-        setAngkatanList(uniqueAngkatan);
-      }
+      setCourses(coursesData);
+      setStudents(studentsData);
+      setAngkatanList(angkatan);
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -87,19 +74,19 @@ export function BulkEnrollment() {
     setEnrolling(true);
     setResult(null);
 
-    const success: Array<{ student: Student }> = [];
+    const course = courses.find(c => c.id === selectedCourse);
+    if (!course) return;
+
+    const success: Array<{ student: Student; warning?: string }> = [];
     const failed: Array<{ student: Student; error: string }> = [];
     const skipped: Array<{ student: Student; reason: string }> = [];
+    const sksLoad = new SksLoadTracker();
+    const prerequisites = new PrerequisiteChecker([course.id]);
 
     try {
       for (const student of filteredStudents) {
         try {
-          const { data: existing } = await supabase
-            .from('enrollments')
-            .select('id')
-            .eq('student_id', student.id)
-            .eq('course_id', selectedCourse)
-            .maybeSingle();
+          const existing = await enrollmentRepository.find(student.id, selectedCourse);
 
           if (existing) {
             skipped.push({
@@ -109,16 +96,26 @@ export function BulkEnrollment() {
             continue;
           }
 
-          const { error: enrollError } = await supabase
-            .from('enrollments')
-            .insert({
-              student_id: student.id,
-              course_id: selectedCourse
-            });
+          const unmet = await prerequisites.check(student.id, course.id);
+          if (unmet.length > 0) {
+            skipped.push({ student, reason: `Prerequisites not met: ${describeUnmet(unmet)}` });
+            continue;
+          }
+
+          const load = await sksLoad.check(student.id, course);
+          const overLimit = load.overLimit
+            ? `${describeAllowance(load.allowance)}, total would be ${load.creditsAfter} SKS`
+            : undefined;
+
+          if (overLimit && skipOverLimit) {
+            skipped.push({ student, reason: `Over SKS limit: ${overLimit}` });
+            continue;
+          }
 
-          if (enrollError) throw enrollError;
+          await enrollmentRepository.create(student.id, selectedCourse);
+          sksLoad.record(student.id, course);
 
-          success.push({ student });
+          success.push({ student, warning: overLimit });
         } catch (err: any) {
           failed.push({
             student,
@@ -172,6 +169,7 @@ export function BulkEnrollment() {
             <li>Review the list of students that will be enrolled</li>
             <li>Click "Enroll All Students" to process</li>
             <li>Students already enrolled will be automatically skipped</li>
+            <li>Students who do not meet the course prerequisites will be skipped</li>
           </ol>
         </div>
 
@@ -253,6 +251,16 @@ export function BulkEnrollment() {
           </div>
         )}
 
+        <label className="flex items-center gap-2 mb-6 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={skipOverLimit}
+            onChange={(e) => setSkipOverLimit(e.target.checked)}
+            className="w-4 h-4 text-blue-600 rounded"
+          />
+          Skip students who would exceed their SKS limit (unchecked: enroll them and report a warning)
+        </label>
+
         <div className="flex gap-3">
           <button
             onClick={handleBulkEnroll}
@@ -307,7 +315,7 @@ export function BulkEnrollment() {
                   <h4 className="font-semibold text-yellow-900">Skipped</h4>
                 </div>
                 <p className="text-3xl font-bold text-yellow-700">{result.skipped.length}</p>
-                <p className="text-sm text-yellow-600 mt-1">students already enrolled</p>
+                <p className="text-sm text-yellow-600 mt-1">already enrolled, prerequisites not met or over SKS limit</p>
               </div>
 
               <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -332,6 +340,7 @@ export function BulkEnrollment() {
                       <tr>
                         <th className="px-4 py-2 text-left font-medium text-gray-700">NIM</th>
                         <th className="px-4 py-2 text-left font-medium text-gray-700">Name</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-700">Warning</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-200">
@@ -339,6 +348,7 @@ export function BulkEnrollment() {
                         <tr key={index} className="hover:bg-gray-100">
                           <td className="px-4 py-2 text-gray-900">{item.student.nim}</td>
                           <td className="px-4 py-2 text-gray-900">{item.student.name}</td>
+                          <td className="px-4 py-2 text-yellow-700 text-xs">{item.warning}</td>
                         </tr>
                       ))}
                     </tbody>
@@ -416,6 +426,8 @@ export function BulkEnrollment() {
         <ul className="list-disc list-inside space-y-1 text-sm text-gray-700">
           <li>All students from the selected angkatan will be enrolled to the selected course</li>
           <li>Students who are already enrolled in the course will be automatically skipped</li>
+          <li>Students must have passed the course's prerequisites (see the Mata Kuliah tab)</li>
+          <li>SKS limits follow each student's IPS in their previous term (see the Batas SKS tab)</li>
           <li>The enrollment process may take a moment for large batches</li>
           <li>Make sure the course and angkatan are correct before enrolling</li>
           <li>You can view enrollment details in the Enrollment Management tab</li>
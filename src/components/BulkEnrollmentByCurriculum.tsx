@@ -1,22 +1,8 @@
 import { useState, useEffect } from 'react';
-import { Users, BookOpen, CheckCircle, XCircle, AlertCircle, GraduationCap, BookMarked } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-
-interface Course {
-  id: string;
-  code: string;
-  name: string;
-  curriculum: string;
-  sks: number;
-  semester: number | null;
-}
-
-interface Student {
-  id: string;
-  nim: string;
-  name: string;
-  angkatan: string;
-}
+import { Users, CheckCircle, XCircle, AlertCircle, GraduationCap, BookMarked } from 'lucide-react';
+import { courseRepository, enrollmentRepository, studentRepository, type Course, type Student } from '../lib/repositories';
+import { describeUnmet, PrerequisiteChecker } from '../lib/prerequisites';
+import { describeAllowance, SksLoadTracker } from '../lib/sksLoad';
 
 interface EnrollmentDetail {
   course: Course;
@@ -24,6 +10,10 @@ interface EnrollmentDetail {
   failed: number;
   skipped: number;
   errors: string[];
+  /** Students skipped for, or enrolled despite, exceeding their SKS limit. */
+  warnings: string[];
+  /** Students skipped because they do not meet the course's prerequisites. */
+  ineligible: string[];
 }
 
 interface EnrollmentResult {
@@ -42,6 +32,7 @@ export function BulkEnrollmentByCurriculum() {
   const [loading, setLoading] = useState(true);
   const [enrolling, setEnrolling] = useState(false);
   const [result, setResult] = useState<EnrollmentResult | null>(null);
+  const [skipOverLimit, setSkipOverLimit] = useState(true);
 
   useEffect(() => {
     loadInitialData();
@@ -65,20 +56,13 @@ export function BulkEnrollmentByCurriculum() {
 
   const loadInitialData = async () => {
     try {
-      const [coursesRes, studentsRes] = await Promise.all([
-        supabase.from('courses').select('curriculum').not('curriculum', 'is', null),
-        supabase.from('students').select('angkatan')
+      const [curricula, angkatan] = await Promise.all([
+        courseRepository.listCurricula(),
+        studentRepository.listAngkatan()
       ]);
 
-      if (coursesRes.data) {
-        const uniqueCurriculum = [...new Set(coursesRes.data.map(c => c.curriculum))].sort().reverse();
-        setCurriculumList(uniqueCurriculum as string[]);
-      }
-
-      if (studentsRes.data) {
-        const uniqueAngkatan = [...new Set(studentsRes.data.map(s => s.angkatan))].sort().reverse();
-        setAngkatanList(uniqueAngkatan);
-      }
+      setCurriculumList(curricula);
+      setAngkatanList(angkatan);
     } catch (error) {
       console.error('Error loading initial data:', error);
     } finally {
@@ -88,15 +72,7 @@ export function BulkEnrollmentByCurriculum() {
 
   const loadCoursesForCurriculum = async (curriculum: string) => {
     try {
-      const { data, error } = await supabase
-        .from('courses')
-        .select('*')
-        .eq('curriculum', curriculum)
-        .order('semester', { ascending: true, nullsFirst: false })
-        .order('code');
-
-      if (error) throw error;
-      setCoursesInCurriculum(data || []);
+      setCoursesInCurriculum(await courseRepository.list({ curriculum }));
     } catch (error) {
       console.error('Error loading courses:', error);
     }
@@ -104,14 +80,7 @@ export function BulkEnrollmentByCurriculum() {
 
   const loadStudentsForAngkatan = async (angkatan: string) => {
     try {
-      const { data, error } = await supabase
-        .from('students')
-        .select('*')
-        .eq('angkatan', angkatan)
-        .order('nim');
-
-      if (error) throw error;
-      setStudentsInAngkatan(data || []);
+      setStudentsInAngkatan(await studentRepository.list({ angkatan }));
     } catch (error) {
       console.error('Error loading students:', error);
     }
@@ -148,6 +117,9 @@ export function BulkEnrollmentByCurriculum() {
     setResult(null);
 
     const courseDetails: EnrollmentDetail[] = [];
+    const sksLoad = new SksLoadTracker();
+    // The whole curriculum is one run, so co-requisites within it count as taken together
+    const prerequisites = new PrerequisiteChecker(coursesInCurriculum.map(c => c.id));
 
     try {
       for (const course of coursesInCurriculum) {
@@ -155,34 +127,39 @@ export function BulkEnrollmentByCurriculum() {
         let failed = 0;
         let skipped = 0;
         const errors: string[] = [];
+        const warnings: string[] = [];
+        const ineligible: string[] = [];
 
         for (const student of studentsInAngkatan) {
           try {
-            const { data: existing } = await supabase
-              .from('enrollments')
-              .select('id')
-              .eq('student_id', student.id)
-              .eq('course_id', course.id)
-              .maybeSingle();
+            const existing = await enrollmentRepository.find(student.id, course.id);
 
             if (existing) {
               skipped++;
               continue;
             }
 
-            const { error: enrollError } = await supabase
-              .from('enrollments')
-              .insert({
-                student_id: student.id,
-                course_id: course.id
-              });
-
-            if (enrollError) {
-              failed++;
-              errors.push(`${student.nim}: ${enrollError.message}`);
-            } else {
-              success++;
+            const unmet = await prerequisites.check(student.id, course.id);
+            if (unmet.length > 0) {
+              skipped++;
+              ineligible.push(`${student.nim}: ${describeUnmet(unmet)}`);
+              continue;
+            }
+
+            const load = await sksLoad.check(student.id, course);
+            if (load.overLimit) {
+              const warning = `${student.nim}: ${describeAllowance(load.allowance)}, total would be ${load.creditsAfter} SKS`;
+              if (skipOverLimit) {
+                skipped++;
+                warnings.push(`${warning} (skipped)`);
+                continue;
+              }
+              warnings.push(warning);
             }
+
+            await enrollmentRepository.create(student.id, course.id);
+            sksLoad.record(student.id, course);
+            success++;
           } catch (err: any) {
             failed++;
             errors.push(`${student.nim}: ${err.message || 'Unknown error'}`);
@@ -194,7 +171,9 @@ export function BulkEnrollmentByCurriculum() {
           success,
           failed,
           skipped,
-          errors
+          errors,
+          warnings,
+          ineligible
         });
       }
 
@@ -262,6 +241,7 @@ export function BulkEnrollmentByCurriculum() {
             <li>Review all students in that angkatan</li>
             <li>Click "Enroll All to Curriculum" to enroll ALL students to ALL courses</li>
             <li>Students already enrolled in specific courses will be automatically skipped</li>
+            <li>Students who do not meet a course's prerequisites are skipped for that course</li>
           </ol>
         </div>
 
@@ -312,7 +292,7 @@ export function BulkEnrollmentByCurriculum() {
                 Courses in Curriculum {selectedCurriculum} ({coursesInCurriculum.length})
               </h3>
               <span className="px-3 py-1 bg-purple-100 text-purple-800 text-sm font-medium rounded-full">
-                {coursesInCurriculum.reduce((sum, c) => sum + c.sks, 0)} Total SKS
+                {coursesInCurriculum.reduce((sum, c) => sum + c.credits, 0)} Total SKS
               </span>
             </div>
 
@@ -331,7 +311,7 @@ export function BulkEnrollmentByCurriculum() {
                     <tr key={course.id} className="hover:bg-gray-100">
                       <td className="px-4 py-2 text-gray-900 font-medium">{course.code}</td>
                       <td className="px-4 py-2 text-gray-900">{course.name}</td>
-                      <td className="px-4 py-2 text-center text-gray-700">{course.sks}</td>
+                      <td className="px-4 py-2 text-center text-gray-700">{course.credits}</td>
                       <td className="px-4 py-2 text-center text-gray-700">
                         {course.semester || '-'}
                       </td>
@@ -400,6 +380,16 @@ export function BulkEnrollmentByCurriculum() {
           </div>
         )}
 
+        <label className="flex items-center gap-2 mb-6 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={skipOverLimit}
+            onChange={(e) => setSkipOverLimit(e.target.checked)}
+            className="w-4 h-4 text-purple-600 rounded"
+          />
+          Skip enrollments that would exceed a student's SKS limit (unchecked: enroll and report a warning)
+        </label>
+
         <div className="flex gap-3">
           <button
             onClick={handleBulkEnrollByCurriculum}
@@ -463,7 +453,7 @@ export function BulkEnrollmentByCurriculum() {
                   <h4 className="font-semibold text-yellow-900">Skipped</h4>
                 </div>
                 <p className="text-3xl font-bold text-yellow-700">{getTotalStats().skipped}</p>
-                <p className="text-sm text-yellow-600 mt-1">already enrolled</p>
+                <p className="text-sm text-yellow-600 mt-1">already enrolled, ineligible or over SKS limit</p>
               </div>
 
               <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -487,7 +477,7 @@ export function BulkEnrollmentByCurriculum() {
                           {detail.course.code} - {detail.course.name}
                         </h5>
                         <p className="text-sm text-gray-600">
-                          {detail.course.sks} SKS • Semester {detail.course.semester || '-'}
+                          {detail.course.credits} SKS • Semester {detail.course.semester || '-'}
                         </p>
                       </div>
                     </div>
@@ -507,6 +497,35 @@ export function BulkEnrollmentByCurriculum() {
                       </div>
                     </div>
 
+                    {detail.ineligible.length > 0 && (
+                      <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded">
+                        <p className="text-xs font-semibold text-yellow-900 mb-1">
+                          Prerequisites not met ({detail.ineligible.length}):
+                        </p>
+                        <ul className="text-xs text-yellow-700 space-y-1 max-h-32 overflow-y-auto">
+                          {detail.ineligible.map((item, i) => (
+                            <li key={i}>• {item}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {detail.warnings.length > 0 && (
+                      <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded">
+                        <p className="text-xs font-semibold text-yellow-900 mb-1">Over SKS limit:</p>
+                        <ul className="text-xs text-yellow-700 space-y-1">
+                          {detail.warnings.slice(0, 3).map((warning, i) => (
+                            <li key={i}>• {warning}</li>
+                          ))}
+                          {detail.warnings.length > 3 && (
+                            <li className="text-yellow-600">
+                              ... and {detail.warnings.length - 3} more
+                            </li>
+                          )}
+                        </ul>
+                      </div>
+                    )}
+
                     {detail.errors.length > 0 && (
                       <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded">
                         <p className="text-xs font-semibold text-red-900 mb-1">Errors:</p>
@@ -538,6 +557,8 @@ export function BulkEnrollmentByCurriculum() {
         <ul className="list-disc list-inside space-y-1 text-sm text-gray-700">
           <li>This will enroll ALL students from the selected angkatan to ALL courses in the curriculum</li>
           <li>Students who are already enrolled in specific courses will be automatically skipped</li>
+          <li>Prerequisites need a released passing grade; co-requisites in the same curriculum count as taken together</li>
+          <li>SKS limits are checked per term, counting the courses enrolled earlier in the same run</li>
           <li>The process may take several minutes for large batches</li>
           <li>Make sure the curriculum and angkatan match before proceeding</li>
           <li>Example: Angkatan 2024 should be enrolled to Kurikulum 2024</li>
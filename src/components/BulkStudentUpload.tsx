@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { Upload, Download, CheckCircle, XCircle, AlertCircle, FileSpreadsheet, Users } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import { supabase } from '../lib/supabase';
+import { studentRepository } from '../lib/repositories';
 
 interface StudentData {
   nim: string;
@@ -153,17 +154,13 @@ export function BulkStudentUpload() {
           if (authError) throw authError;
 
           if (authData.user) {
-            const { error: studentError } = await supabase
-              .from('students')
-              .insert({
-                id: authData.user.id,
-                nim: student.nim,
-                name: student.name,
-                email: student.email,
-                angkatan: student.angkatan,
-              });
-
-            if (studentError) throw studentError;
+            await studentRepository.create({
+              id: authData.user.id,
+              nim: student.nim,
+              name: student.name,
+              email: student.email,
+              angkatan: student.angkatan,
+            });
             success.push(student);
           }
         } catch (err: any) {
@@ -1,55 +1,78 @@
 import { useEffect, useState } from 'react';
-import { Plus, Trash2, X } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { Link2, Plus, Trash2, Users, X } from 'lucide-react';
+import {
+  academicTermRepository,
+  courseOfferingRepository,
+  coursePrerequisiteRepository,
+  courseRepository,
+  lecturerRepository,
+  type AcademicTerm,
+  type Course,
+  type CourseInput,
+  type CourseOfferingWithLecturer,
+  type CoursePrerequisiteWithCourse,
+  type Lecturer,
+} from '../lib/repositories';
+import { formatTerm, termLabel } from '../lib/academicTerms';
+import { formatSeats } from '../lib/courseOfferings';
+import { CourseOfferingsEditor } from './CourseOfferingsEditor';
+import { CoursePrerequisitesEditor } from './CoursePrerequisitesEditor';
 
-interface Course {
-  id: string;
-  code: string;
-  name: string;
-  academic_year: string;
-  semester: number;
-  credits: number;
-  curriculum: string;
-}
+const CURRICULUM_SEMESTERS = [1, 2, 3, 4, 5, 6, 7, 8];
 
-interface CourseFormData {
-  code: string;
-  name: string;
-  academic_year: string;
-  semester: number;
-  credits: number;
-  curriculum: string;
-}
+// New courses default to the active term
+const emptyCourse = (term?: AcademicTerm): CourseInput => ({
+  code: '',
+  name: '',
+  academic_year: term?.academic_year ?? '',
+  term_id: term?.id ?? '',
+  semester: 1,
+  credits: 3,
+  curriculum: '2024',
+});
 
 export function CourseManagement() {
   const [courses, setCourses] = useState<Course[]>([]);
+  const [terms, setTerms] = useState<AcademicTerm[]>([]);
+  const [termFilter, setTermFilter] = useState('');
+  const [prerequisites, setPrerequisites] = useState<CoursePrerequisiteWithCourse[]>([]);
+  const [prerequisiteCourse, setPrerequisiteCourse] = useState<Course | null>(null);
+  const [offerings, setOfferings] = useState<CourseOfferingWithLecturer[]>([]);
+  const [lecturers, setLecturers] = useState<Lecturer[]>([]);
+  const [offeringCourse, setOfferingCourse] = useState<Course | null>(null);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [formData, setFormData] = useState<CourseFormData>({
-    code: '',
-    name: '',
-    academic_year: '',
-    semester: 1,
-    credits: 3,
-    curriculum: '2024',
-  });
+  const [formData, setFormData] = useState<CourseInput>(emptyCourse());
   const [error, setError] = useState('');
 
   useEffect(() => {
     loadCourses();
+    academicTermRepository
+      .list()
+      .then(termsData => {
+        setTerms(termsData);
+        setTermFilter(termsData.find(t => t.is_active)?.id ?? '');
+      })
+      .catch(err => console.error('Error loading academic terms:', err));
   }, []);
 
+  const termsById = new Map(terms.map(t => [t.id, t]));
+  const activeTerm = terms.find(t => t.is_active);
+  const filteredCourses = termFilter ? courses.filter(c => c.term_id === termFilter) : courses;
+
   const loadCourses = async () => {
     try {
-      const { data, error: err } = await supabase
-        .from('courses')
-        .select('*')
-        .order('curriculum', { ascending: false })
-        .order('code');
-
-      if (err) throw err;
-      setCourses(data || []);
+      const [courseData, prerequisiteData, offeringData, lecturerData] = await Promise.all([
+        courseRepository.list(),
+        coursePrerequisiteRepository.list(),
+        courseOfferingRepository.list(),
+        lecturerRepository.list(),
+      ]);
+      setCourses(courseData);
+      setPrerequisites(prerequisiteData);
+      setOfferings(offeringData);
+      setLecturers(lecturerData);
     } catch (err) {
       console.error('Error loading courses:', err);
     } finally {
@@ -61,35 +84,23 @@ export function CourseManagement() {
     e.preventDefault();
     setError('');
 
-    if (!formData.code || !formData.name || !formData.academic_year) {
+    const term = termsById.get(formData.term_id);
+    if (!formData.code || !formData.name || !term) {
       setError('Silakan isi semua field yang diperlukan');
       return;
     }
 
     try {
-      if (editingId) {
-        const { error: err } = await supabase
-          .from('courses')
-          .update(formData as any)
-          .eq('id', editingId);
+      // academic_year mirrors the term; the database keeps them in sync as well
+      const dataToSave = { ...formData, academic_year: term.academic_year };
 
-        if (err) throw err;
+      if (editingId) {
+        await courseRepository.update(editingId, dataToSave);
       } else {
-        const { error: err } = await supabase
-          .from('courses')
-          .insert([formData as any]);
-
-        if (err) throw err;
+        await courseRepository.create(dataToSave);
       }
 
-      setFormData({
-        code: '',
-        name: '',
-        academic_year: '',
-        semester: 1,
-        credits: 3,
-        curriculum: '2024',
-      });
+      setFormData(emptyCourse(activeTerm));
       setEditingId(null);
       setShowForm(false);
       loadCourses();
@@ -103,6 +114,7 @@ export function CourseManagement() {
       code: course.code,
       name: course.name,
       academic_year: course.academic_year,
+      term_id: course.term_id,
       semester: course.semester,
       credits: course.credits,
       curriculum: course.curriculum || '2024',
@@ -115,12 +127,7 @@ export function CourseManagement() {
     if (!confirm('Apakah Anda yakin ingin menghapus mata kuliah ini?')) return;
 
     try {
-      const { error: err } = await supabase
-        .from('courses')
-        .delete()
-        .eq('id', id);
-
-      if (err) throw err;
+      await courseRepository.remove(id);
       loadCourses();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Gagal menghapus mata kuliah');
@@ -130,14 +137,7 @@ export function CourseManagement() {
   const handleClose = () => {
     setShowForm(false);
     setEditingId(null);
-    setFormData({
-      code: '',
-      name: '',
-      academic_year: '',
-      semester: 1,
-      credits: 3,
-      curriculum: '2024',
-    });
+    setFormData(emptyCourse(activeTerm));
     setError('');
   };
 
@@ -152,22 +152,44 @@ export function CourseManagement() {
 
   return (
     <div className="bg-white rounded-2xl shadow-lg overflow-hidden">
-      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+      <div className="p-6 border-b border-gray-200 flex flex-wrap gap-4 justify-between items-center">
         <h3 className="text-xl font-bold text-gray-800">Daftar Mata Kuliah</h3>
-        <button
-          onClick={() => setShowForm(true)}
-          className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
-        >
-          <Plus className="w-4 h-4" />
-          <span>Tambah Mata Kuliah</span>
-        </button>
+        <div className="flex gap-2">
+          <select
+            value={termFilter}
+            onChange={(e) => setTermFilter(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="">Semua Periode</option>
+            {terms.map(term => (
+              <option key={term.id} value={term.id}>
+                {formatTerm(term)}{term.is_active ? ' (aktif)' : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => {
+              setFormData(emptyCourse(activeTerm));
+              setShowForm(true);
+            }}
+            className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Tambah Mata Kuliah</span>
+          </button>
+        </div>
       </div>
 
-      {courses.length === 0 ? (
+      {filteredCourses.length === 0 ? (
         <div className="p-12 text-center">
-          <p className="text-gray-600 mb-4">Belum ada mata kuliah</p>
+          <p className="text-gray-600 mb-4">
+            {termFilter ? 'Belum ada mata kuliah pada periode ini' : 'Belum ada mata kuliah'}
+          </p>
           <button
-            onClick={() => setShowForm(true)}
+            onClick={() => {
+              setFormData(emptyCourse(termsById.get(termFilter) ?? activeTerm));
+              setShowForm(true);
+            }}
             className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
           >
             Buat Mata Kuliah Pertama
@@ -188,7 +210,7 @@ export function CourseManagement() {
                   Kurikulum
                 </th>
                 <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Tahun Ajaran
+                  Periode
                 </th>
                 <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Semester
@@ -196,13 +218,19 @@ export function CourseManagement() {
                 <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
                   SKS
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Kelas
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Prasyarat
+                </th>
                 <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Aksi
                 </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {courses.map(course => (
+              {filteredCourses.map(course => (
                 <tr key={course.id} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                     {course.code}
@@ -216,7 +244,7 @@ export function CourseManagement() {
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-center text-gray-700">
-                    {course.academic_year}
+                    {termLabel(termsById, course.term_id)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-center text-gray-700">
                     {course.semester}
@@ -224,7 +252,33 @@ export function CourseManagement() {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-center text-gray-700">
                     {course.credits}
                   </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    {offerings
+                      .filter(o => o.course_id === course.id)
+                      .map(o => `${o.section} (${formatSeats(o)})`)
+                      .join(', ') || '-'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    {prerequisites
+                      .filter(p => p.course_id === course.id)
+                      .map(p => (p.kind === 'corequisite' ? `${p.prerequisite.code} (ko)` : p.prerequisite.code))
+                      .join(', ') || '-'}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-center space-x-2">
+                    <button
+                      onClick={() => setOfferingCourse(course)}
+                      title="Kelas"
+                      className="inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium bg-green-50 text-green-600 hover:bg-green-100"
+                    >
+                      <Users className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setPrerequisiteCourse(course)}
+                      title="Prasyarat"
+                      className="inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium bg-purple-50 text-purple-600 hover:bg-purple-100"
+                    >
+                      <Link2 className="w-4 h-4" />
+                    </button>
                     <button
                       onClick={() => handleEdit(course)}
                       className="inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium bg-blue-50 text-blue-600 hover:bg-blue-100"
@@ -245,6 +299,26 @@ export function CourseManagement() {
         </div>
       )}
 
+      {offeringCourse && (
+        <CourseOfferingsEditor
+          course={offeringCourse}
+          lecturers={lecturers}
+          offerings={offerings.filter(o => o.course_id === offeringCourse.id)}
+          onClose={() => setOfferingCourse(null)}
+          onChanged={loadCourses}
+        />
+      )}
+
+      {prerequisiteCourse && (
+        <CoursePrerequisitesEditor
+          course={prerequisiteCourse}
+          courses={courses}
+          prerequisites={prerequisites.filter(p => p.course_id === prerequisiteCourse.id)}
+          onClose={() => setPrerequisiteCourse(null)}
+          onChanged={loadCourses}
+        />
+      )}
+
       {showForm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-2xl shadow-xl max-w-md w-full p-6">
@@ -311,31 +385,41 @@ export function CourseManagement() {
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Tahun Ajaran *
+                  Periode Akademik *
                 </label>
-                <input
-                  type="text"
-                  value={formData.academic_year}
-                  onChange={(e) => setFormData({ ...formData, academic_year: e.target.value })}
+                <select
+                  value={formData.term_id}
+                  onChange={(e) => setFormData({ ...formData, term_id: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                  placeholder="2024/2025"
                   required
-                />
+                >
+                  <option value="">Pilih Periode</option>
+                  {terms.map(term => (
+                    <option key={term.id} value={term.id}>
+                      {formatTerm(term)}{term.is_active ? ' (aktif)' : ''}
+                    </option>
+                  ))}
+                </select>
+                {terms.length === 0 && (
+                  <p className="text-xs text-amber-600 mt-1">
+                    Belum ada periode akademik, tambahkan di tab Periode Akademik
+                  </p>
+                )}
               </div>
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Semester
+                    Semester Kurikulum
                   </label>
                   <select
                     value={formData.semester}
                     onChange={(e) => setFormData({ ...formData, semester: parseInt(e.target.value) })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
                   >
-                    <option value={1}>1</option>
-                    <option value={2}>2</option>
-                    <option value={3}>3</option>
+                    {CURRICULUM_SEMESTERS.map(semester => (
+                      <option key={semester} value={semester}>{semester}</option>
+                    ))}
                   </select>
                 </div>
 
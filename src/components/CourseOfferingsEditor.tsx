@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { Edit3, Plus, Trash2, Users, X } from 'lucide-react';
+import { SECTION_PATTERN, formatSeats, isOfferingFull, nextSection } from '../lib/courseOfferings';
+import {
+  courseOfferingRepository,
+  RepositoryError,
+  type Course,
+  type CourseOfferingWithLecturer,
+  type Lecturer,
+} from '../lib/repositories';
+
+interface CourseOfferingsEditorProps {
+  course: Course;
+  lecturers: Lecturer[];
+  /** Classes of `course`. */
+  offerings: CourseOfferingWithLecturer[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+interface OfferingForm {
+  section: string;
+  capacity: string;
+  lecturer_id: string;
+}
+
+export function CourseOfferingsEditor({ course, lecturers, offerings, onClose, onChanged }: CourseOfferingsEditorProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<OfferingForm>({ section: nextSection(offerings), capacity: '', lecturer_id: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const resetForm = (next: Pick<CourseOfferingWithLecturer, 'section'>[] = offerings) => {
+    setEditingId(null);
+    setFormData({ section: nextSection(next), capacity: '', lecturer_id: '' });
+  };
+
+  const handleEdit = (offering: CourseOfferingWithLecturer) => {
+    setEditingId(offering.id);
+    setFormData({
+      section: offering.section,
+      capacity: offering.capacity?.toString() ?? '',
+      lecturer_id: offering.lecturer_id ?? '',
+    });
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const section = formData.section.trim().toUpperCase();
+    if (!SECTION_PATTERN.test(section)) {
+      setError('Kode kelas diawali huruf dan paling banyak 4 karakter, contoh A atau B2');
+      return;
+    }
+
+    const capacity = formData.capacity ? parseInt(formData.capacity, 10) : null;
+    if (capacity !== null && (isNaN(capacity) || capacity <= 0)) {
+      setError('Kapasitas harus lebih dari 0, kosongkan jika tidak dibatasi');
+      return;
+    }
+
+    const editing = offerings.find(o => o.id === editingId);
+    if (editing && capacity !== null && capacity < editing.enrolled) {
+      setError(`Kelas ${editing.section} sudah berisi ${editing.enrolled} mahasiswa`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const data = { section, capacity, lecturer_id: formData.lecturer_id || null };
+      if (editingId) {
+        await courseOfferingRepository.update(editingId, data);
+      } else {
+        await courseOfferingRepository.create({ course_id: course.id, ...data });
+      }
+      resetForm([...offerings, { section }]);
+      onChanged();
+    } catch (err) {
+      if (err instanceof RepositoryError && err.isUniqueViolation) {
+        setError(`Kelas ${section} sudah ada`);
+      } else {
+        setError(err instanceof Error ? err.message : 'Gagal menyimpan kelas');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (offering: CourseOfferingWithLecturer) => {
+    if (!confirm(`Hapus kelas ${course.code} ${offering.section}?`)) return;
+
+    try {
+      await courseOfferingRepository.remove(offering.id);
+      if (editingId === offering.id) resetForm();
+      onChanged();
+    } catch (err) {
+      if (err instanceof RepositoryError && err.isForeignKeyViolation) {
+        setError(`Kelas ${offering.section} masih memiliki mahasiswa; pindahkan mereka lebih dulu`);
+      } else {
+        setError(err instanceof Error ? err.message : 'Gagal menghapus kelas');
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full p-6">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-2xl font-bold text-gray-800">Kelas {course.code}</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          {course.name}. Mahasiswa yang di-enroll tanpa memilih kelas ditempatkan di kelas pertama yang masih
+          memiliki kursi.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+            {error}
+          </div>
+        )}
+
+        {offerings.length === 0 ? (
+          <div className="p-6 text-center border border-dashed border-gray-300 rounded-lg mb-6">
+            <Users className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+            <p className="text-sm text-gray-600">Belum ada kelas</p>
+          </div>
+        ) : (
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 mb-6">
+            {offerings.map(o => (
+              <div key={o.id} className={`flex items-center gap-3 px-4 py-3 ${editingId === o.id ? 'bg-purple-50' : ''}`}>
+                <span className="w-10 text-center px-2 py-1 rounded text-sm font-semibold bg-purple-100 text-purple-800">
+                  {o.section}
+                </span>
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-gray-900">{o.lecturer?.name ?? 'Belum ada dosen'}</p>
+                  <p className={`text-xs ${isOfferingFull(o) ? 'text-red-600' : 'text-gray-500'}`}>
+                    {formatSeats(o)} mahasiswa{o.capacity === null ? ', tanpa batas' : ''}
+                    {isOfferingFull(o) ? ' (penuh)' : ''}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleEdit(o)}
+                  className="inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium bg-blue-50 text-blue-600 hover:bg-blue-100"
+                >
+                  <Edit3 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleRemove(o)}
+                  className="inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium bg-red-50 text-red-600 hover:bg-red-100"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Kelas *
+              </label>
+              <input
+                type="text"
+                value={formData.section}
+                onChange={(e) => setFormData({ ...formData, section: e.target.value.toUpperCase() })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                placeholder="A"
+                maxLength={4}
+                required
+              />
+            </div>
+
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Kapasitas
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={formData.capacity}
+                onChange={(e) => setFormData({ ...formData, capacity: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                placeholder="Tanpa batas"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Dosen Pengampu
+            </label>
+            <select
+              value={formData.lecturer_id}
+              onChange={(e) => setFormData({ ...formData, lecturer_id: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              <option value="">Belum ditentukan</option>
+              {lecturers.map(lecturer => (
+                <option key={lecturer.id} value={lecturer.id}>
+                  {lecturer.nidn} - {lecturer.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={editingId ? () => resetForm() : onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50"
+            >
+              {editingId ? 'Batal Edit' : 'Tutup'}
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 disabled:opacity-50"
+            >
+              {!editingId && <Plus className="w-4 h-4" />}
+              {saving ? 'Menyimpan...' : editingId ? 'Simpan Kelas' : 'Tambah Kelas'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react';
+import { Link2, Plus, Trash2, X } from 'lucide-react';
+import { DEFAULT_CURRICULUM, isPassingGrade } from '../lib/grading';
+import { PREREQUISITE_KIND_LABELS, type PrerequisiteKind } from '../lib/prerequisites';
+import {
+  coursePrerequisiteRepository,
+  gradingScaleRepository,
+  RepositoryError,
+  type Course,
+  type CoursePrerequisiteWithCourse,
+  type GradingScale,
+} from '../lib/repositories';
+
+interface CoursePrerequisitesEditorProps {
+  course: Course;
+  courses: Course[];
+  /** Requirements of `course`. */
+  prerequisites: CoursePrerequisiteWithCourse[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const EMPTY_FORM = { prerequisite_id: '', kind: 'prerequisite' as PrerequisiteKind, min_letter_grade: '' };
+
+export function CoursePrerequisitesEditor({ course, courses, prerequisites, onClose, onChanged }: CoursePrerequisitesEditorProps) {
+  const [scales, setScales] = useState<GradingScale[]>([]);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    gradingScaleRepository
+      .list()
+      .then(setScales)
+      .catch(err => console.error('Error loading grading scales:', err));
+  }, []);
+
+  const candidates = courses.filter(
+    c => c.id !== course.id && !prerequisites.some(p => p.prerequisite_id === c.id)
+  );
+  const prerequisiteCourse = courses.find(c => c.id === formData.prerequisite_id);
+
+  // Letters come from the prerequisite's own scale, falling back like resolve_grade does
+  const scaleCurriculum = prerequisiteCourse?.curriculum || DEFAULT_CURRICULUM;
+  const curriculumScale = scales.some(s => s.curriculum === scaleCurriculum)
+    ? scales.filter(s => s.curriculum === scaleCurriculum)
+    : scales.filter(s => s.curriculum === DEFAULT_CURRICULUM);
+  const passingLetters = curriculumScale.filter(s => isPassingGrade(Number(s.grade_point)));
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!formData.prerequisite_id) {
+      setError('Pilih mata kuliah prasyarat');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await coursePrerequisiteRepository.create({
+        course_id: course.id,
+        prerequisite_id: formData.prerequisite_id,
+        kind: formData.kind,
+        min_letter_grade: formData.kind === 'prerequisite' ? formData.min_letter_grade || null : null,
+      });
+      setFormData(EMPTY_FORM);
+      onChanged();
+    } catch (err) {
+      if (err instanceof RepositoryError && err.isUniqueViolation) {
+        setError('Mata kuliah tersebut sudah menjadi prasyarat');
+      } else {
+        setError(err instanceof Error ? err.message : 'Gagal menambah prasyarat');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (prerequisite: CoursePrerequisiteWithCourse) => {
+    if (!confirm(`Hapus ${prerequisite.prerequisite.code} dari prasyarat ${course.code}?`)) return;
+
+    try {
+      await coursePrerequisiteRepository.remove(prerequisite.id);
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal menghapus prasyarat');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full p-6">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-2xl font-bold text-gray-800">Prasyarat {course.code}</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          {course.name}. Mahasiswa yang belum memenuhi prasyarat dilewati saat enrollment dan tidak dapat
+          mengambilnya di KRS.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+            {error}
+          </div>
+        )}
+
+        {prerequisites.length === 0 ? (
+          <div className="p-6 text-center border border-dashed border-gray-300 rounded-lg mb-6">
+            <Link2 className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+            <p className="text-sm text-gray-600">Belum ada prasyarat</p>
+          </div>
+        ) : (
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 mb-6">
+            {prerequisites.map(p => (
+              <div key={p.id} className="flex items-center gap-3 px-4 py-3">
+                <span
+                  className={`px-2 py-1 rounded text-xs font-medium ${
+                    p.kind === 'corequisite' ? 'bg-amber-100 text-amber-800' : 'bg-purple-100 text-purple-800'
+                  }`}
+                >
+                  {PREREQUISITE_KIND_LABELS[p.kind as PrerequisiteKind]}
+                </span>
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-gray-900">
+                    {p.prerequisite.code} - {p.prerequisite.name}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {p.kind === 'corequisite'
+                      ? 'Diambil bersamaan atau sudah lulus'
+                      : p.min_letter_grade
+                        ? `Lulus dengan nilai minimal ${p.min_letter_grade}`
+                        : 'Lulus dengan nilai apa pun'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRemove(p)}
+                  className="inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium bg-red-50 text-red-600 hover:bg-red-100"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleAdd} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Mata Kuliah *
+            </label>
+            <select
+              value={formData.prerequisite_id}
+              onChange={(e) => setFormData({ ...formData, prerequisite_id: e.target.value, min_letter_grade: '' })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              required
+            >
+              <option value="">Pilih Mata Kuliah</option>
+              {candidates.map(c => (
+                <option key={c.id} value={c.id}>
+                  {c.code} - {c.name} (Kurikulum {c.curriculum || DEFAULT_CURRICULUM})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Jenis
+              </label>
+              <select
+                value={formData.kind}
+                onChange={(e) => setFormData({ ...formData, kind: e.target.value as PrerequisiteKind, min_letter_grade: '' })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                {(Object.keys(PREREQUISITE_KIND_LABELS) as PrerequisiteKind[]).map(kind => (
+                  <option key={kind} value={kind}>
+                    {PREREQUISITE_KIND_LABELS[kind]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Nilai Minimal
+              </label>
+              <select
+                value={formData.min_letter_grade}
+                onChange={(e) => setFormData({ ...formData, min_letter_grade: e.target.value })}
+                disabled={formData.kind === 'corequisite'}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:bg-gray-100"
+              >
+                <option value="">Asal lulus</option>
+                {passingLetters.map(s => (
+                  <option key={s.id} value={s.letter_grade}>
+                    {s.letter_grade} ({Number(s.grade_point).toFixed(2)})
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50"
+            >
+              Tutup
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              {saving ? 'Menyimpan...' : 'Tambah Prasyarat'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,33 +1,49 @@
 import { useEffect, useState } from 'react';
-import { BookOpen, LogOut, GraduationCap, Award } from 'lucide-react';
+import { BookOpen, LogOut, GraduationCap, Award, TrendingUp, Download } from 'lucide-react';
+import { Packer } from 'docx';
+import { saveAs } from 'file-saver';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
+import {
+  documentTemplateRepository,
+  gradeRepository,
+  institutionProfileRepository,
+  retakePolicyRepository,
+  studentRepository,
+  type GradeWithCourse,
+  type RetakePolicyRow,
+  type Student,
+} from '../lib/repositories';
+import {
+  RETAKE_POLICY_LABELS,
+  countedAttempts,
+  gradingEngine,
+  lookupRetakePolicy,
+  lookupScale,
+  resolveGrade,
+  semesterKey,
+  summarizeSemesters,
+  type GradingScale,
+} from '../lib/grading';
+import { resolveLayout } from '../lib/documentTemplates';
+import { buildKhs } from '../lib/khs';
+import { khsDocx, khsFileName, khsPdf } from '../lib/khsDocuments';
+import { GpaTrendChart } from './GpaTrendChart';
+import { KrsPlanner } from './KrsPlanner';
 
-interface StudentProfile {
-  nim: string;
-  name: string;
-  email: string;
-}
-
-interface GradeWithCourse {
-  id: string;
-  score: number;
-  letter_grade: string;
-  course: {
-    code: string;
-    name: string;
-    academic_year: string;
-    semester: number;
-    credits: number;
-  };
-}
+type CourseGrade = GradeWithCourse & {
+  course: NonNullable<GradeWithCourse['course']>;
+  term: NonNullable<GradeWithCourse['term']>;
+};
 
 export function Dashboard() {
   const { user, signOut } = useAuth();
-  const [profile, setProfile] = useState<StudentProfile | null>(null);
-  const [grades, setGrades] = useState<GradeWithCourse[]>([]);
+  const [profile, setProfile] = useState<Student | null>(null);
+  const [grades, setGrades] = useState<CourseGrade[]>([]);
+  const [scales, setScales] = useState<Map<string, GradingScale[]>>(new Map());
+  const [retakePolicies, setRetakePolicies] = useState<RetakePolicyRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [downloadingTerm, setDownloadingTerm] = useState<string | null>(null);
 
   useEffect(() => {
     loadData();
@@ -37,34 +53,13 @@ export function Dashboard() {
     if (!user) return;
 
     try {
-      const { data: studentData, error: profileError } = await supabase
-        .from('students')
-        .select('nim, name, email')
-        .eq('id', user.id)
-        .maybeSingle();
-
-      if (profileError) throw profileError;
-      setProfile(studentData);
-
-      const { data: gradesData, error: gradesError } = await supabase
-        .from('grades')
-        .select(`
-          id,
-          score,
-          letter_grade,
-          course:courses (
-            code,
-            name,
-            academic_year,
-            semester,
-            credits
-          )
-        `)
-        .eq('student_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (gradesError) throw gradesError;
-      setGrades(gradesData as unknown as GradeWithCourse[]);
+      setProfile(await studentRepository.findById(user.id));
+
+      const loadedGrades = (await gradeRepository.listForStudent(user.id))
+        .filter((grade): grade is CourseGrade => grade.course !== null && grade.term !== null);
+      setScales(await gradingEngine.getScales(loadedGrades.map(g => g.course.curriculum)));
+      setRetakePolicies(await retakePolicyRepository.list());
+      setGrades(loadedGrades);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Gagal memuat data');
     } finally {
@@ -72,39 +67,11 @@ export function Dashboard() {
     }
   };
 
-  const calculateGPA = () => {
-    if (grades.length === 0) return '0.00';
-
-    const gradePoints: Record<string, number> = {
-      'A': 4.0,
-      'A-': 3.7,
-      'B+': 3.3,
-      'B': 3.0,
-      'B-': 2.7,
-      'C+': 2.3,
-      'C': 2.0,
-      'D': 1.0,
-      'E': 0.0,
-    };
-
-    const totalPoints = grades.reduce((sum, grade) => {
-      const points = gradePoints[grade.letter_grade] || 0;
-      const credits = grade.course?.credits || 3;
-      return sum + (points * credits);
-    }, 0);
-
-    const totalCredits = grades.reduce((sum, grade) => {
-      return sum + (grade.course?.credits || 3);
-    }, 0);
-
-    return (totalPoints / totalCredits).toFixed(2);
-  };
-
-  const groupGradesByYear = () => {
-    const grouped: Record<string, GradeWithCourse[]> = {};
+  const groupGradesBySemester = () => {
+    const grouped: Record<string, CourseGrade[]> = {};
 
     grades.forEach(grade => {
-      const key = `${grade.course.academic_year} - Semester ${grade.course.semester}`;
+      const key = semesterKey(grade.term.academic_year, grade.term.period);
       if (!grouped[key]) {
         grouped[key] = [];
       }
@@ -114,6 +81,31 @@ export function Dashboard() {
     return grouped;
   };
 
+  const downloadKhs = async (termId: string, format: 'pdf' | 'docx') => {
+    if (!profile) return;
+
+    setDownloadingTerm(termId);
+    try {
+      const [institution, template] = await Promise.all([
+        institutionProfileRepository.get(),
+        documentTemplateRepository.get('khs'),
+      ]);
+      const layout = resolveLayout('khs', template, institution);
+      const khs = buildKhs(profile, grades, termId, scales, lookupRetakePolicy(retakePolicies, profile.curriculum));
+      if (!khs) return;
+
+      if (format === 'pdf') {
+        khsPdf([khs], layout).save(khsFileName(khs, 'pdf'));
+      } else {
+        saveAs(await Packer.toBlob(khsDocx([khs], layout)), khsFileName(khs, 'docx'));
+      }
+    } catch (err) {
+      alert('Gagal mengunduh KHS: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setDownloadingTerm(null);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-blue-100 flex items-center justify-center">
@@ -125,7 +117,23 @@ export function Dashboard() {
     );
   }
 
-  const groupedGrades = groupGradesByYear();
+  const groupedGrades = groupGradesBySemester();
+  const retakePolicy = lookupRetakePolicy(retakePolicies, profile?.curriculum);
+  const attempts = grades.map(grade => ({
+    id: grade.id,
+    courseCode: grade.course.code,
+    academicYear: grade.term.academic_year,
+    period: grade.term.period,
+    startDate: grade.term.start_date,
+    credits: grade.course.credits,
+    gradePoint: resolveGrade(grade.score, lookupScale(scales, grade.course.curriculum)).gradePoint,
+  }));
+  const semesters = summarizeSemesters(attempts, retakePolicy);
+  const latest = semesters[semesters.length - 1];
+  const countedIds = new Set(countedAttempts(attempts, retakePolicy).map(a => a.id));
+  const retakenCodes = new Set(
+    attempts.filter(a => attempts.some(b => b.id !== a.id && b.courseCode === a.courseCode)).map(a => a.courseCode)
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-blue-100">
@@ -169,14 +177,25 @@ export function Dashboard() {
                 </p>
               </div>
             </div>
-            <div className="bg-blue-50 rounded-xl p-6 text-center">
-              <Award className="w-8 h-8 text-blue-600 mx-auto mb-2" />
-              <p className="text-sm text-gray-600 mb-1">IPK</p>
-              <p className="text-3xl font-bold text-blue-600">{calculateGPA()}</p>
+            <div className="flex gap-4">
+              <div className="bg-blue-50 rounded-xl p-6 text-center">
+                <Award className="w-8 h-8 text-blue-600 mx-auto mb-2" />
+                <p className="text-sm text-gray-600 mb-1">IPK</p>
+                <p className="text-3xl font-bold text-blue-600">{(latest?.ipk ?? 0).toFixed(2)}</p>
+              </div>
+              <div className="bg-green-50 rounded-xl p-6 text-center">
+                <BookOpen className="w-8 h-8 text-green-600 mx-auto mb-2" />
+                <p className="text-sm text-gray-600 mb-1">SKS Lulus / Diambil</p>
+                <p className="text-3xl font-bold text-green-600">
+                  {latest?.cumulativeCreditsEarned ?? 0}/{latest?.cumulativeCreditsAttempted ?? 0}
+                </p>
+              </div>
             </div>
           </div>
         </div>
 
+        {profile && <KrsPlanner student={profile} />}
+
         {grades.length === 0 ? (
           <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
             <BookOpen className="w-16 h-16 text-gray-300 mx-auto mb-4" />
@@ -189,10 +208,42 @@ export function Dashboard() {
           </div>
         ) : (
           <div className="space-y-6">
-            {Object.entries(groupedGrades).map(([period, periodGrades]) => (
-              <div key={period} className="bg-white rounded-2xl shadow-lg overflow-hidden">
-                <div className="bg-blue-600 px-6 py-4">
-                  <h3 className="text-lg font-bold text-white">{period}</h3>
+            <div className="bg-white rounded-2xl shadow-lg p-6">
+              <div className="flex items-center space-x-2 mb-4">
+                <TrendingUp className="w-5 h-5 text-blue-600" />
+                <h3 className="text-lg font-bold text-gray-800">Perkembangan IPS & IPK</h3>
+              </div>
+              <GpaTrendChart semesters={semesters} />
+              {retakenCodes.size > 0 && (
+                <p className="text-sm text-gray-600 mt-4">
+                  Untuk mata kuliah yang diulang, IPK menghitung {RETAKE_POLICY_LABELS[retakePolicy].toLowerCase()};
+                  IPS tetap menghitung semua nilai pada periodenya.
+                </p>
+              )}
+            </div>
+
+            {semesters.map(summary => (
+              <div key={summary.key} className="bg-white rounded-2xl shadow-lg overflow-hidden">
+                <div className="bg-blue-600 px-6 py-4 flex flex-wrap items-center justify-between gap-2">
+                  <h3 className="text-lg font-bold text-white">{summary.key}</h3>
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-blue-50">
+                    <span>IPS <span className="font-bold text-white">{summary.ips.toFixed(2)}</span></span>
+                    <span>IPK <span className="font-bold text-white">{summary.ipk.toFixed(2)}</span></span>
+                    <span>
+                      SKS <span className="font-bold text-white">{summary.creditsEarned}/{summary.creditsAttempted}</span>
+                    </span>
+                    {(['pdf', 'docx'] as const).map(format => (
+                      <button
+                        key={format}
+                        onClick={() => downloadKhs(groupedGrades[summary.key][0].term.id, format)}
+                        disabled={downloadingTerm !== null}
+                        className="flex items-center gap-1 px-3 py-1 bg-white/20 text-white rounded-lg hover:bg-white/30 disabled:opacity-50 transition-colors"
+                      >
+                        <Download className="w-4 h-4" />
+                        KHS {format.toUpperCase()}
+                      </button>
+                    ))}
+                  </div>
                 </div>
                 <div className="overflow-x-auto">
                   <table className="w-full">
@@ -216,13 +267,20 @@ export function Dashboard() {
                       </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
-                      {periodGrades.map((grade) => (
+                      {groupedGrades[summary.key].map((grade) => (
                         <tr key={grade.id} className="hover:bg-gray-50 transition-colors">
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                             {grade.course.code}
                           </td>
                           <td className="px-6 py-4 text-sm text-gray-700">
                             {grade.course.name}
+                            {retakenCodes.has(grade.course.code) && (
+                              <span className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${
+                                countedIds.has(grade.id) ? 'bg-blue-50 text-blue-700' : 'bg-gray-100 text-gray-500'
+                              }`}>
+                                {countedIds.has(grade.id) ? 'Dihitung di IPK' : 'Tidak dihitung di IPK'}
+                              </span>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-center text-gray-700">
                             {grade.course.credits}
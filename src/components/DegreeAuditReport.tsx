@@ -0,0 +1,291 @@
+import { Fragment, useEffect, useState } from 'react';
+import { BadgeCheck, CheckCircle, FileSpreadsheet, XCircle } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { gradingEngine, lookupRetakePolicy } from '../lib/grading';
+import { AUDIT_CHECK_LABELS, auditGraduation, transcriptAttempts, type DegreeAudit } from '../lib/degreeAudit';
+import {
+  graduationRequirementRepository,
+  retakePolicyRepository,
+  studentRepository,
+  type Student,
+  type StudentFilter,
+} from '../lib/repositories';
+
+interface StudentAudit {
+  studentId: string;
+  nim: string;
+  name: string;
+  curriculum: string;
+  /** null when the curriculum has no graduation requirements. */
+  audit: DegreeAudit | null;
+}
+
+export function DegreeAuditReport() {
+  const [students, setStudents] = useState<Student[]>([]);
+  const [angkatanList, setAngkatanList] = useState<string[]>([]);
+  const [selectedAngkatan, setSelectedAngkatan] = useState('');
+  const [selectedStudent, setSelectedStudent] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [results, setResults] = useState<StudentAudit[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([studentRepository.list(), studentRepository.listAngkatan()])
+      .then(([studentsData, angkatanData]) => {
+        setStudents(studentsData);
+        setAngkatanList(angkatanData);
+        if (angkatanData.length > 0) setSelectedAngkatan(angkatanData[0]);
+      })
+      .catch(err => console.error('Error loading students:', err));
+  }, []);
+
+  const runAudit = async () => {
+    if (!selectedAngkatan) {
+      alert('Pilih angkatan terlebih dahulu');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const filter: StudentFilter = selectedStudent ? { id: selectedStudent } : { angkatan: selectedAngkatan };
+      const [studentsData, requirements, requiredCourses, retakePolicies] = await Promise.all([
+        studentRepository.listWithGrades(filter),
+        graduationRequirementRepository.list(),
+        graduationRequirementRepository.listRequiredCourses(),
+        retakePolicyRepository.list(),
+      ]);
+      const scales = await gradingEngine.getScales(
+        studentsData.flatMap(student => student.grades.map(g => g.course?.curriculum))
+      );
+
+      const audits = studentsData.map(student => {
+        // Students without a curriculum of their own follow their angkatan, as in the semester report
+        const curriculum = student.curriculum || student.angkatan;
+        const requirement = requirements.find(r => r.curriculum === curriculum);
+        const base = { studentId: student.id, nim: student.nim, name: student.name, curriculum };
+        if (!requirement) return { ...base, audit: null };
+
+        const attempts = transcriptAttempts(student.grades, scales);
+        const requiredCodes = requiredCourses.filter(c => c.curriculum === curriculum).map(c => c.course_code);
+
+        return {
+          ...base,
+          audit: auditGraduation(attempts, requirement, requiredCodes, lookupRetakePolicy(retakePolicies, curriculum)),
+        };
+      });
+
+      setResults(audits);
+      setExpandedId(audits.length === 1 ? audits[0].studentId : null);
+    } catch (err) {
+      alert('Error menjalankan audit: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const describeShortfall = (audit: DegreeAudit | null) => {
+    if (!audit) return 'Syarat kelulusan kurikulum belum diatur';
+    return audit.checks
+      .filter(c => !c.satisfied)
+      .map(c => `${AUDIT_CHECK_LABELS[c.key]}: ${c.detail}`)
+      .join('; ');
+  };
+
+  const exportToExcel = () => {
+    const rows = results.map((result, idx) => ({
+      'No': idx + 1,
+      'NIM': result.nim,
+      'Nama': result.name,
+      'Kurikulum': result.curriculum,
+      'SKS Lulus': result.audit?.credits ?? '-',
+      'IPK': result.audit ? result.audit.ipk.toFixed(2) : '-',
+      'Nilai D': result.audit?.dGrades ?? '-',
+      'Nilai E': result.audit?.eGrades ?? '-',
+      'MK Wajib Belum Lulus': result.audit?.missingCourses.join(', ') ?? '-',
+      'Status': result.audit ? (result.audit.eligible ? 'Memenuhi' : 'Belum Memenuhi') : '-',
+      'Kekurangan': describeShortfall(result.audit),
+    }));
+
+    const worksheet = XLSX.utils.json_to_sheet(rows);
+    worksheet['!cols'] = [
+      { wch: 5 }, { wch: 15 }, { wch: 30 }, { wch: 10 }, { wch: 10 }, { wch: 8 },
+      { wch: 8 }, { wch: 8 }, { wch: 30 }, { wch: 15 }, { wch: 60 },
+    ];
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Audit Kelulusan');
+
+    const scope = selectedStudent && results.length === 1 ? results[0].nim : `Angkatan_${selectedAngkatan}`;
+    XLSX.writeFile(workbook, `Audit_Kelulusan_${scope}.xlsx`);
+  };
+
+  const angkatanStudents = students.filter(s => s.angkatan === selectedAngkatan);
+  const eligibleCount = results.filter(r => r.audit?.eligible).length;
+  const unconfiguredCount = results.filter(r => !r.audit).length;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6">
+      <div className="flex items-center mb-6">
+        <BadgeCheck className="w-6 h-6 text-blue-600 mr-3" />
+        <div>
+          <h3 className="text-2xl font-bold text-gray-800">Audit Kelulusan</h3>
+          <p className="text-sm text-gray-600">
+            Memeriksa transkrip terhadap syarat kelulusan kurikulum mahasiswa
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Angkatan *
+          </label>
+          <select
+            value={selectedAngkatan}
+            onChange={(e) => {
+              setSelectedAngkatan(e.target.value);
+              setSelectedStudent('');
+            }}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Pilih Angkatan</option>
+            {angkatanList.map(angkatan => (
+              <option key={angkatan} value={angkatan}>{angkatan}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Mahasiswa
+          </label>
+          <select
+            value={selectedStudent}
+            onChange={(e) => setSelectedStudent(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Semua mahasiswa angkatan</option>
+            {angkatanStudents.map(student => (
+              <option key={student.id} value={student.id}>
+                {student.nim} - {student.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex gap-3 mb-6">
+        <button
+          onClick={runAudit}
+          disabled={loading || !selectedAngkatan}
+          className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors font-medium"
+        >
+          {loading ? 'Memeriksa...' : 'Jalankan Audit'}
+        </button>
+        {results.length > 0 && (
+          <button
+            onClick={exportToExcel}
+            className="flex items-center gap-2 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+          >
+            <FileSpreadsheet className="w-5 h-5" />
+            Export Excel
+          </button>
+        )}
+      </div>
+
+      {results.length > 0 && (
+        <>
+          <div className="grid grid-cols-3 gap-4 mb-6">
+            <div className="bg-green-50 rounded-lg p-4 text-center">
+              <p className="text-sm text-gray-600">Memenuhi</p>
+              <p className="text-2xl font-bold text-green-700">{eligibleCount}</p>
+            </div>
+            <div className="bg-red-50 rounded-lg p-4 text-center">
+              <p className="text-sm text-gray-600">Belum Memenuhi</p>
+              <p className="text-2xl font-bold text-red-700">{results.length - eligibleCount - unconfiguredCount}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4 text-center">
+              <p className="text-sm text-gray-600">Syarat Belum Diatur</p>
+              <p className="text-2xl font-bold text-gray-700">{unconfiguredCount}</p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-700">NIM</th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-700">Nama</th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">Kurikulum</th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">SKS Lulus</th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">IPK</th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">D</th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">E</th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {results.map(result => (
+                  <Fragment key={result.studentId}>
+                    <tr
+                      onClick={() => setExpandedId(expandedId === result.studentId ? null : result.studentId)}
+                      className="hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="px-4 py-3 font-medium text-gray-900">{result.nim}</td>
+                      <td className="px-4 py-3 text-gray-700">{result.name}</td>
+                      <td className="px-4 py-3 text-center text-gray-700">{result.curriculum}</td>
+                      <td className="px-4 py-3 text-center">{result.audit?.credits ?? '-'}</td>
+                      <td className="px-4 py-3 text-center">{result.audit ? result.audit.ipk.toFixed(2) : '-'}</td>
+                      <td className="px-4 py-3 text-center">{result.audit?.dGrades ?? '-'}</td>
+                      <td className="px-4 py-3 text-center">{result.audit?.eGrades ?? '-'}</td>
+                      <td className="px-4 py-3 text-center">
+                        {!result.audit ? (
+                          <span className="px-3 py-1 bg-gray-100 text-gray-600 rounded-full text-xs font-semibold">
+                            Syarat belum diatur
+                          </span>
+                        ) : result.audit.eligible ? (
+                          <span className="px-3 py-1 bg-green-100 text-green-800 rounded-full text-xs font-semibold">
+                            Memenuhi
+                          </span>
+                        ) : (
+                          <span className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-xs font-semibold">
+                            Belum Memenuhi
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                    {expandedId === result.studentId && result.audit && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={8} className="px-6 py-4">
+                          <ul className="space-y-2">
+                            {result.audit.checks.map(check => (
+                              <li key={check.key} className="flex items-center gap-3">
+                                {check.satisfied ? (
+                                  <CheckCircle className="w-5 h-5 text-green-600" />
+                                ) : (
+                                  <XCircle className="w-5 h-5 text-red-600" />
+                                )}
+                                <span className="w-40 font-medium text-gray-800">{AUDIT_CHECK_LABELS[check.key]}</span>
+                                <span className={check.satisfied ? 'text-gray-600' : 'text-red-700'}>{check.detail}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {!loading && results.length === 0 && (
+        <div className="text-center py-12 text-gray-500">
+          <p>Pilih angkatan lalu klik "Jalankan Audit".</p>
+        </div>
+      )}
+    </div>
+  );
+}
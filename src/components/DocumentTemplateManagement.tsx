@@ -0,0 +1,343 @@
+import { useEffect, useState } from 'react';
+import { ImageIcon, Trash2, Upload } from 'lucide-react';
+import { toSquarePng } from '../lib/images';
+import {
+  DOCUMENT_TYPES,
+  DOCUMENT_TYPE_LABELS,
+  FONT_FAMILY_LABELS,
+  TEMPLATE_COLUMNS,
+  isFontFamily,
+  resolveLayout,
+  type DocumentTemplate,
+  type DocumentType,
+  type FontFamily,
+} from '../lib/documentTemplates';
+import {
+  documentTemplateRepository,
+  institutionProfileRepository,
+  type DocumentTemplateInput,
+  type InstitutionProfile,
+} from '../lib/repositories';
+
+interface TemplateForm {
+  header_text: string;
+  logo_data_url: string | null;
+  signatory_title: string;
+  signatory_name: string;
+  signatory_nip: string;
+  footer_text: string;
+  font_family: FontFamily;
+  primary_color: string;
+  accent_color: string;
+  columns: string[];
+}
+
+function toForm(documentType: DocumentType, template: DocumentTemplate | undefined): TemplateForm {
+  const defaults = resolveLayout(documentType, template ?? null, null);
+  return {
+    header_text: template?.header_text ?? '',
+    logo_data_url: template?.logo_data_url ?? null,
+    signatory_title: template?.signatory_title ?? '',
+    signatory_name: template?.signatory_name ?? '',
+    signatory_nip: template?.signatory_nip ?? '',
+    footer_text: template?.footer_text ?? '',
+    font_family: defaults.fontFamily,
+    primary_color: defaults.primaryColor,
+    accent_color: defaults.accentColor,
+    columns: defaults.columns,
+  };
+}
+
+/** Empty text fields fall back to the institution profile, so they are saved as NULL. */
+const orNull = (value: string) => value.trim() || null;
+
+export function DocumentTemplateManagement() {
+  const [templates, setTemplates] = useState<DocumentTemplate[]>([]);
+  const [profile, setProfile] = useState<InstitutionProfile | null>(null);
+  const [documentType, setDocumentType] = useState<DocumentType>('transcript');
+  const [formData, setFormData] = useState<TemplateForm>(() => toForm('transcript', undefined));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    Promise.all([documentTemplateRepository.list(), institutionProfileRepository.get()])
+      .then(([templateRows, profileRow]) => {
+        setTemplates(templateRows);
+        setProfile(profileRow);
+      })
+      .catch(err => console.error('Error loading document templates:', err))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    setFormData(toForm(documentType, templates.find(t => t.document_type === documentType)));
+    setError('');
+    setSuccess('');
+  }, [documentType, templates]);
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      setError('Logo harus berupa file gambar (PNG atau JPG)');
+      return;
+    }
+
+    try {
+      setFormData({ ...formData, logo_data_url: await toSquarePng(file) });
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal membaca logo');
+    }
+  };
+
+  const toggleColumn = (key: string) => {
+    const columns = formData.columns.includes(key)
+      ? formData.columns.filter(c => c !== key)
+      : [...formData.columns, key];
+    setFormData({ ...formData, columns });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+
+    const input: DocumentTemplateInput = {
+      header_text: orNull(formData.header_text),
+      logo_data_url: formData.logo_data_url,
+      signatory_title: orNull(formData.signatory_title),
+      signatory_name: orNull(formData.signatory_name),
+      signatory_nip: orNull(formData.signatory_nip),
+      footer_text: formData.footer_text.trim(),
+      font_family: formData.font_family,
+      primary_color: formData.primary_color,
+      accent_color: formData.accent_color,
+      // Stored in table order so the row reads the same as the document
+      columns: TEMPLATE_COLUMNS[documentType].map(c => c.key).filter(key => formData.columns.includes(key)),
+    };
+
+    setSaving(true);
+    try {
+      await documentTemplateRepository.save(documentType, input);
+      setTemplates(await documentTemplateRepository.list());
+      setSuccess(`Template ${DOCUMENT_TYPE_LABELS[documentType]} berhasil disimpan`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal menyimpan template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
+        <div className="w-12 h-12 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-gray-600">Memuat data...</p>
+      </div>
+    );
+  }
+
+  // What an empty field falls back to, shown as the placeholder
+  const fallback = resolveLayout(documentType, null, profile);
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+  const logo = formData.logo_data_url ?? profile?.logo_data_url ?? null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Template Dokumen</h2>
+          <p className="text-gray-600 mt-1">
+            Kop, penanda tangan, warna dan kolom dokumen yang dicetak. Kolom kosong memakai profil institusi.
+          </p>
+        </div>
+        <select
+          value={documentType}
+          onChange={(e) => setDocumentType(e.target.value as DocumentType)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        >
+          {DOCUMENT_TYPES.map(type => (
+            <option key={type} value={type}>{DOCUMENT_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-lg p-6 space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+            {success}
+          </div>
+        )}
+
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">Kop Dokumen</h3>
+          <div className="flex items-start gap-6">
+            <div className="space-y-2">
+              <div className="w-32 h-32 border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center overflow-hidden">
+                {logo ? (
+                  <img src={logo} alt="Logo" className="w-full h-full object-contain" />
+                ) : (
+                  <ImageIcon className="w-12 h-12 text-gray-300" />
+                )}
+              </div>
+              <label className="flex items-center gap-2 px-4 py-2 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 cursor-pointer text-sm font-medium">
+                <Upload className="w-4 h-4" />
+                Upload Logo
+                <input type="file" accept="image/png,image/jpeg" onChange={handleLogoChange} className="hidden" />
+              </label>
+              {formData.logo_data_url && (
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, logo_data_url: null })}
+                  className="flex items-center gap-2 px-4 py-2 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 text-sm font-medium"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Pakai Logo Institusi
+                </button>
+              )}
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Teks Kop (satu baris per baris kop)
+              </label>
+              <textarea
+                value={formData.header_text}
+                onChange={(e) => setFormData({ ...formData, header_text: e.target.value })}
+                className={inputClass}
+                rows={5}
+                placeholder={fallback.headerLines.join('\n') || 'Belum ada profil institusi'}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">Penanda Tangan</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Jabatan</label>
+              <input
+                type="text"
+                value={formData.signatory_title}
+                onChange={(e) => setFormData({ ...formData, signatory_title: e.target.value })}
+                className={inputClass}
+                placeholder={fallback.signatory.title}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Nama</label>
+              <input
+                type="text"
+                value={formData.signatory_name}
+                onChange={(e) => setFormData({ ...formData, signatory_name: e.target.value })}
+                className={inputClass}
+                placeholder={fallback.signatory.name}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">NIP</label>
+              <input
+                type="text"
+                value={formData.signatory_nip}
+                onChange={(e) => setFormData({ ...formData, signatory_nip: e.target.value })}
+                className={inputClass}
+                placeholder={fallback.signatory.nip}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">Tampilan</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Font</label>
+              <select
+                value={formData.font_family}
+                onChange={(e) => {
+                  if (isFontFamily(e.target.value)) setFormData({ ...formData, font_family: e.target.value });
+                }}
+                className={inputClass}
+              >
+                {Object.entries(FONT_FAMILY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Warna Utama</label>
+              <input
+                type="color"
+                value={formData.primary_color}
+                onChange={(e) => setFormData({ ...formData, primary_color: e.target.value })}
+                className="w-full h-10 border border-gray-300 rounded-lg cursor-pointer"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Warna Aksen</label>
+              <input
+                type="color"
+                value={formData.accent_color}
+                onChange={(e) => setFormData({ ...formData, accent_color: e.target.value })}
+                className="w-full h-10 border border-gray-300 rounded-lg cursor-pointer"
+              />
+            </div>
+            <div className="md:col-span-3">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Teks Kaki Halaman</label>
+              <input
+                type="text"
+                value={formData.footer_text}
+                onChange={(e) => setFormData({ ...formData, footer_text: e.target.value })}
+                className={inputClass}
+                placeholder="Dokumen ini sah tanpa cap basah"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">Kolom Tabel</h3>
+          {documentType === 'semester_report' && (
+            <p className="text-sm text-gray-500 mb-3">Nilai, Grade, GP dan SKS diulang untuk setiap mata kuliah.</p>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-2">
+            {TEMPLATE_COLUMNS[documentType].map(column => (
+              <label key={column.key} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={column.required || formData.columns.includes(column.key)}
+                  disabled={column.required}
+                  onChange={() => toggleColumn(column.key)}
+                  className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+                />
+                {column.label}
+                {column.required && <span className="text-xs text-gray-400">(wajib)</span>}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-2 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 disabled:opacity-50"
+          >
+            {saving ? 'Menyimpan...' : 'Simpan'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
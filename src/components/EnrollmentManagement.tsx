@@ -1,93 +1,79 @@
 import { useEffect, useState } from 'react';
 import { Plus, Trash2, X, Users } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import {
+  courseOfferingRepository,
+  coursePrerequisiteRepository,
+  courseRepository,
+  enrollmentRepository,
+  RepositoryError,
+  sksLoadRuleRepository,
+  studentRepository,
+  type Course,
+  type CourseOfferingWithLecturer,
+  type EnrollmentWithRelations,
+  type Student,
+  type SksAllowance,
+} from '../lib/repositories';
+import { formatSeats, isOfferingFull } from '../lib/courseOfferings';
+import { describeUnmet } from '../lib/prerequisites';
+import { describeAllowance, exceedsAllowance } from '../lib/sksLoad';
 import { BulkEnrollment } from './BulkEnrollment';
 
-interface Enrollment {
-  id: string;
-  student: {
-    nim: string;
-    name: string;
-  };
-  course: {
-    code: string;
-    name: string;
-  };
-}
-
-interface Student {
-  id: string;
-  nim: string;
-  name: string;
-}
-
-interface Course {
-  id: string;
-  code: string;
-  name: string;
-}
-
 export function EnrollmentManagement() {
-  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [enrollments, setEnrollments] = useState<EnrollmentWithRelations[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [showBulkEnrollment, setShowBulkEnrollment] = useState(false);
   const [students, setStudents] = useState<Student[]>([]);
   const [courses, setCourses] = useState<Course[]>([]);
+  const [offerings, setOfferings] = useState<CourseOfferingWithLecturer[]>([]);
   const [formData, setFormData] = useState({
     student_id: '',
     course_id: '',
+    offering_id: '',
   });
   const [error, setError] = useState('');
+  const [allowance, setAllowance] = useState<SksAllowance | null>(null);
 
   useEffect(() => {
     loadData();
   }, []);
 
-  const loadData = async () => {
-    try {
-      console.log('[EnrollmentManagement] Loading enrollment data...');
+  const selectedCourse = courses.find(c => c.id === formData.course_id);
 
-      const { data: enrollmentData, error: enrollmentError } = await supabase
-        .from('enrollments')
-        .select(`
-          id,
-          student:students (nim, name),
-          course:courses (code, name)
-        `)
-        .order('created_at', { ascending: false });
+  useEffect(() => {
+    setAllowance(null);
+    if (!formData.student_id || !selectedCourse) return;
 
-      if (enrollmentError) {
-        console.error('[EnrollmentManagement] Error loading enrollments:', enrollmentError);
-        setError('Gagal memuat data enrollment: ' + enrollmentError.message);
-      } else {
-        console.log('[EnrollmentManagement] Enrollments loaded:', enrollmentData?.length || 0);
-        setEnrollments(enrollmentData as unknown as Enrollment[]);
-      }
+    let cancelled = false;
+    sksLoadRuleRepository
+      .getAllowance(formData.student_id, selectedCourse.term_id)
+      .then(result => {
+        if (!cancelled) setAllowance(result);
+      })
+      .catch(err => console.error('[EnrollmentManagement] Error loading SKS allowance:', err));
 
-      const { data: studentData, error: studentError } = await supabase
-        .from('students')
-        .select('id, nim, name')
-        .order('nim');
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.student_id, selectedCourse]);
 
-      if (studentError) {
-        console.error('[EnrollmentManagement] Error loading students:', studentError);
-      } else {
-        console.log('[EnrollmentManagement] Students loaded:', studentData?.length || 0);
-        setStudents(studentData || []);
-      }
+  const loadData = async () => {
+    try {
+      console.log('[EnrollmentManagement] Loading enrollment data...');
 
-      const { data: courseData, error: courseError } = await supabase
-        .from('courses')
-        .select('id, code, name')
-        .order('code');
+      const [enrollmentData, studentData, courseData, offeringData] = await Promise.all([
+        enrollmentRepository.listWithRelations(),
+        studentRepository.list(),
+        courseRepository.list(),
+        courseOfferingRepository.list(),
+      ]);
 
-      if (courseError) {
-        console.error('[EnrollmentManagement] Error loading courses:', courseError);
-      } else {
-        console.log('[EnrollmentManagement] Courses loaded:', courseData?.length || 0);
-        setCourses(courseData || []);
-      }
+      console.log('[EnrollmentManagement] Enrollments loaded:', enrollmentData.length);
+      setEnrollments(enrollmentData);
+      setStudents(studentData);
+      setCourses(courseData);
+      setOfferings(offeringData);
     } catch (err) {
       console.error('[EnrollmentManagement] Exception loading data:', err);
       setError(err instanceof Error ? err.message : 'Gagal memuat data');
@@ -105,39 +91,63 @@ export function EnrollmentManagement() {
       return;
     }
 
+    // Unlike the SKS limit, prerequisites are not something an admin can waive here
     try {
-      const { error: err } = await supabase
-        .from('enrollments')
-        .insert([formData as any]);
+      const unmet = await coursePrerequisiteRepository.findUnmet(formData.student_id, [formData.course_id]);
+      if (unmet.length > 0) {
+        setError(`Prasyarat belum terpenuhi: ${describeUnmet(unmet)}`);
+        return;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal memeriksa prasyarat');
+      return;
+    }
+
+    // Over the limit is only a warning here: admins may grant an exception
+    if (allowance && selectedCourse) {
+      const creditsAfter = allowance.enrolled_credits + selectedCourse.credits;
+      if (
+        exceedsAllowance(allowance, creditsAfter) &&
+        !confirm(`${describeAllowance(allowance)}. Dengan mata kuliah ini total menjadi ${creditsAfter} SKS. Tetap enroll?`)
+      ) {
+        return;
+      }
+    }
 
-      if (err) throw err;
+    try {
+      await enrollmentRepository.create(formData.student_id, formData.course_id, formData.offering_id || undefined);
 
       setFormData({
         student_id: '',
         course_id: '',
+        offering_id: '',
       });
       setShowForm(false);
       loadData();
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Gagal menambah enrollment';
-      if (message.includes('duplicate')) {
+      if (err instanceof RepositoryError && err.isUniqueViolation) {
         setError('Mahasiswa sudah terdaftar untuk mata kuliah ini');
       } else {
-        setError(message);
+        setError(err instanceof Error ? err.message : 'Gagal menambah enrollment');
       }
     }
   };
 
+  const handleMove = async (enrollment: EnrollmentWithRelations, offeringId: string) => {
+    setError('');
+    try {
+      await enrollmentRepository.moveToOffering(enrollment.id, offeringId);
+      loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal memindahkan kelas');
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm('Apakah Anda yakin ingin menghapus enrollment ini?')) return;
 
     try {
-      const { error: err } = await supabase
-        .from('enrollments')
-        .delete()
-        .eq('id', id);
-
-      if (err) throw err;
+      await enrollmentRepository.remove(id);
       loadData();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Gagal menghapus enrollment');
@@ -219,6 +229,9 @@ export function EnrollmentManagement() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Nama Mata Kuliah
                 </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Kelas
+                </th>
                 <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Aksi
                 </th>
@@ -239,6 +252,25 @@ export function EnrollmentManagement() {
                   <td className="px-6 py-4 text-sm text-gray-700">
                     {enrollment.course.name}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center">
+                    <select
+                      value={enrollment.offering_id}
+                      onChange={(e) => handleMove(enrollment, e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    >
+                      {offerings
+                        .filter(o => o.course_id === enrollment.course_id)
+                        .map(o => (
+                          <option
+                            key={o.id}
+                            value={o.id}
+                            disabled={o.id !== enrollment.offering_id && isOfferingFull(o)}
+                          >
+                            {o.section} ({formatSeats(o)})
+                          </option>
+                        ))}
+                    </select>
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-center">
                     <button
                       onClick={() => handleDelete(enrollment.id)}
@@ -262,7 +294,7 @@ export function EnrollmentManagement() {
               <button
                 onClick={() => {
                   setShowForm(false);
-                  setFormData({ student_id: '', course_id: '' });
+                  setFormData({ student_id: '', course_id: '', offering_id: '' });
                   setError('');
                 }}
                 className="p-2 hover:bg-gray-100 rounded-lg"
@@ -303,7 +335,7 @@ export function EnrollmentManagement() {
                 </label>
                 <select
                   value={formData.course_id}
-                  onChange={(e) => setFormData({ ...formData, course_id: e.target.value })}
+                  onChange={(e) => setFormData({ ...formData, course_id: e.target.value, offering_id: '' })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
                   required
                 >
@@ -316,12 +348,48 @@ export function EnrollmentManagement() {
                 </select>
               </div>
 
+              {selectedCourse && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Kelas
+                  </label>
+                  <select
+                    value={formData.offering_id}
+                    onChange={(e) => setFormData({ ...formData, offering_id: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  >
+                    <option value="">Otomatis (kelas pertama yang masih ada kursi)</option>
+                    {offerings
+                      .filter(o => o.course_id === selectedCourse.id)
+                      .map(o => (
+                        <option key={o.id} value={o.id} disabled={isOfferingFull(o)}>
+                          Kelas {o.section} · {o.lecturer?.name ?? 'belum ada dosen'} · {formatSeats(o)}
+                          {isOfferingFull(o) ? ' (penuh)' : ''}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              )}
+
+              {allowance && selectedCourse && (
+                <div
+                  className={`px-4 py-3 rounded-lg text-sm border ${
+                    exceedsAllowance(allowance, allowance.enrolled_credits + selectedCourse.credits)
+                      ? 'bg-yellow-50 border-yellow-200 text-yellow-800'
+                      : 'bg-gray-50 border-gray-200 text-gray-700'
+                  }`}
+                >
+                  {describeAllowance(allowance)} · Periode ini sudah{' '}
+                  {allowance.enrolled_credits} SKS, menjadi {allowance.enrolled_credits + selectedCourse.credits} SKS
+                </div>
+              )}
+
               <div className="flex gap-3 pt-4">
                 <button
                   type="button"
                   onClick={() => {
                     setShowForm(false);
-                    setFormData({ student_id: '', course_id: '' });
+                    setFormData({ student_id: '', course_id: '', offering_id: '' });
                     setError('');
                   }}
                   className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50"
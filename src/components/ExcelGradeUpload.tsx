@@ -1,45 +1,53 @@
 import { useState } from 'react';
-import { Upload, CheckCircle, X } from 'lucide-react';
+import { Upload, CheckCircle, Download, X } from 'lucide-react';
 import * as XLSX from 'xlsx';
-import { supabase } from '../lib/supabase';
+import {
+  assessmentComponentRepository,
+  courseGradeStatusRepository,
+  courseRepository,
+  enrollmentRepository,
+  gradeRepository,
+  lecturerRepository,
+  studentRepository,
+  type AssessmentComponent,
+  type Course,
+} from '../lib/repositories';
+import { computeFinalScore, gradingEngine, resolveGrade, type GradingScale } from '../lib/grading';
+import { GRADE_STATUS_LABELS, gradeStatusOf, isGradeLocked } from '../lib/gradeStatus';
 
 interface UploadedRow {
   nim: string;
+  courseId: string;
   courseCode: string;
   angkatan?: string;
   score: number;
+  components?: Record<string, number>;
   status: 'pending' | 'success' | 'error';
   message?: string;
 }
 
-interface CourseInfo {
-  id: string;
-  code: string;
-  name: string;
+interface ExcelGradeUploadProps {
+  /** Limits the course list to the courses this lecturer teaches. */
+  lecturerId?: string;
 }
 
-function getLetterGrade(score: number): string {
-  if (score >= 85) return 'A';
-  if (score >= 80) return 'B+';
-  if (score >= 75) return 'B';
-  if (score >= 70) return 'B-';
-  if (score >= 65) return 'C+';
-  if (score >= 60) return 'C';
-  if (score >= 55) return 'D';
-  return 'E';
-}
-
-export function ExcelGradeUpload() {
+export function ExcelGradeUpload({ lecturerId }: ExcelGradeUploadProps) {
   const [file, setFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
   const [uploadedRows, setUploadedRows] = useState<UploadedRow[]>([]);
-  const [courses, setCourses] = useState<CourseInfo[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  /** ID of the chosen course offering; the same code may run in several terms. */
   const [selectedCourse, setSelectedCourse] = useState('');
   const [selectedAngkatan, setSelectedAngkatan] = useState('');
   const [angkatanList, setAngkatanList] = useState<string[]>([]);
   const [preview, setPreview] = useState<UploadedRow[]>([]);
+  const [gradingScale, setGradingScale] = useState<GradingScale[]>([]);
+  const [components, setComponents] = useState<AssessmentComponent[]>([]);
+  const [changeReason, setChangeReason] = useState('');
   const [step, setStep] = useState<'select' | 'course' | 'angkatan' | 'preview' | 'upload'>('select');
 
+  const selectedCourseCode = courses.find(c => c.id === selectedCourse)?.code ?? '';
+
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (!selectedFile) return;
@@ -55,12 +63,7 @@ export function ExcelGradeUpload() {
 
   const loadCourses = async () => {
     try {
-      const { data } = await supabase
-        .from('courses')
-        .select('id, code, name')
-        .order('code');
-
-      setCourses(data || []);
+      setCourses(await (lecturerId ? lecturerRepository.listCourses(lecturerId) : courseRepository.list()));
     } catch (err) {
       console.error('Error loading courses:', err);
     }
@@ -68,23 +71,68 @@ export function ExcelGradeUpload() {
 
   const loadAngkatan = async () => {
     try {
-      const { data } = await supabase
-        .from('students')
-        .select('angkatan')
-        .order('angkatan');
-
-      if (data) {
-        const uniqueAngkatan = Array.from(new Set(data.map(s => s.angkatan)));
-        setAngkatanList(uniqueAngkatan);
-      }
+      setAngkatanList(await studentRepository.listAngkatan());
     } catch (err) {
       console.error('Error loading angkatan:', err);
     }
   };
 
-  const handleCourseSelect = () => {
-    if (!selectedCourse) return;
-    setStep('angkatan');
+  const downloadTemplate = async () => {
+    const course = courses.find(c => c.id === selectedCourse);
+    if (!course) return;
+
+    try {
+      const [courseComponents, enrolled] = await Promise.all([
+        assessmentComponentRepository.listForCourse(course.id),
+        enrollmentRepository.listStudentsForCourse(course.id),
+      ]);
+      const scoreColumns = courseComponents.length > 0 ? courseComponents.map(c => c.name) : ['Nilai'];
+      const students = enrolled.length > 0
+        ? enrolled.map(e => ({ nim: e.student.nim, name: e.student.name }))
+        : [{ nim: '2024001', name: 'Nama Mahasiswa' }];
+
+      const template = students.map(student => ({
+        'NIM': student.nim,
+        'Nama': student.name,
+        ...Object.fromEntries(scoreColumns.map(column => [column, ''])),
+      }));
+
+      const worksheet = XLSX.utils.json_to_sheet(template);
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, worksheet, 'Template Nilai');
+
+      worksheet['!cols'] = [
+        { wch: 15 },
+        { wch: 30 },
+        ...scoreColumns.map(() => ({ wch: 12 })),
+      ];
+
+      XLSX.writeFile(workbook, `Template_Nilai_${course.code}.xlsx`);
+    } catch (err) {
+      alert('Error membuat template: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const handleCourseSelect = async () => {
+    const course = courses.find(c => c.id === selectedCourse);
+    if (!course) return;
+
+    setLoading(true);
+    try {
+      const status = gradeStatusOf(await courseGradeStatusRepository.findForCourse(course.id));
+      if (isGradeLocked(status)) {
+        alert(
+          `Nilai ${course.code} berstatus ${GRADE_STATUS_LABELS[status]} dan terkunci. ` +
+          (lecturerId ? 'Hubungi admin akademik untuk membukanya kembali.' : 'Buka kembali lewat menu Status Nilai untuk mengubahnya.')
+        );
+        return;
+      }
+      setStep('angkatan');
+    } catch (err) {
+      alert('Error memeriksa status nilai: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
   };
 
   const handleAngkatanSelect = async () => {
@@ -92,18 +140,48 @@ export function ExcelGradeUpload() {
 
     setLoading(true);
     try {
+      const course = courses.find(c => c.id === selectedCourse);
+      const scale = await gradingEngine.getScale(course?.curriculum);
+      if (scale.length === 0) {
+        alert(`Grading scale untuk kurikulum ${course?.curriculum} belum diatur`);
+        return;
+      }
+      setGradingScale(scale);
+
+      const courseComponents = course ? await assessmentComponentRepository.listForCourse(course.id) : [];
+      setComponents(courseComponents);
+
       const arrayBuffer = await file.arrayBuffer();
       const workbook = XLSX.read(arrayBuffer, { type: 'array' });
       const worksheet = workbook.Sheets[workbook.SheetNames[0]];
       const data = XLSX.utils.sheet_to_json(worksheet);
 
-      const rows: UploadedRow[] = data.map((row: any) => ({
-        nim: String(row['NIM'] || row['nim'] || '').trim(),
-        courseCode: selectedCourse,
-        angkatan: selectedAngkatan,
-        score: parseFloat(row['Nilai'] || row['nilai'] || row['Score'] || '0'),
-        status: 'pending',
-      }));
+      const rows: UploadedRow[] = data.map((row: any) => {
+        const base = {
+          nim: String(row['NIM'] || row['nim'] || '').trim(),
+          courseId: selectedCourse,
+          courseCode: course?.code ?? '',
+          angkatan: selectedAngkatan,
+          status: 'pending' as const,
+        };
+
+        if (courseComponents.length === 0) {
+          return { ...base, score: parseFloat(row['Nilai'] || row['nilai'] || row['Score'] || '0') };
+        }
+
+        // Component columns are matched by name, ignoring case and surrounding spaces
+        const componentScores = Object.fromEntries(
+          courseComponents.map(component => {
+            const column = Object.keys(row).find(key => key.trim().toLowerCase() === component.name.toLowerCase());
+            return [component.name, column !== undefined ? parseFloat(row[column]) : NaN];
+          })
+        );
+        const finalScore = computeFinalScore(
+          courseComponents.map(c => ({ weight: Number(c.weight), score: componentScores[c.name] }))
+        );
+
+        return { ...base, score: finalScore ?? NaN, components: componentScores };
+      });
 
       setPreview(rows);
       setStep('preview');
@@ -120,94 +198,35 @@ export function ExcelGradeUpload() {
     setLoading(true);
     setStep('upload');
 
-    const processedRows: UploadedRow[] = [];
-    let successCount = 0;
-    let errorCount = 0;
-
-    for (const row of preview) {
-      try {
-        if (!row.nim || row.score < 0 || row.score > 100) {
-          processedRows.push({
-            ...row,
-            status: 'error',
-            message: 'NIM atau nilai tidak valid',
-          });
-          errorCount++;
-          continue;
-        }
-
-        const { data: student } = await supabase
-          .from('students')
-          .select('id, angkatan')
-          .eq('nim', row.nim)
-          .eq('angkatan', row.angkatan || '')
-          .maybeSingle();
-
-        if (!student || !student.id) {
-          processedRows.push({
-            ...row,
-            status: 'error',
-            message: `Mahasiswa dengan NIM ${row.nim} angkatan ${row.angkatan} tidak ditemukan`,
-          });
-          errorCount++;
-          continue;
-        }
-
-        const { data: course } = await supabase
-          .from('courses')
-          .select('id')
-          .eq('code', row.courseCode)
-          .maybeSingle();
-
-        if (!course || !course.id) {
-          processedRows.push({
-            ...row,
-            status: 'error',
-            message: `Mata kuliah ${row.courseCode} tidak ditemukan`,
-          });
-          errorCount++;
-          continue;
-        }
-
-        const letterGrade = getLetterGrade(row.score);
-
-        const { error: upsertError } = await supabase
-          .from('grades')
-          .upsert(
-            {
-              student_id: student.id,
-              course_id: course.id,
-              score: row.score,
-              letter_grade: letterGrade,
-            } as any,
-            { onConflict: 'student_id,course_id' }
-          );
-
-        if (upsertError) {
-          processedRows.push({
-            ...row,
-            status: 'error',
-            message: upsertError.message,
-          });
-          errorCount++;
-        } else {
-          processedRows.push({
+    try {
+      const results = await gradeRepository.upsertBatch(
+        preview.map(row => ({
+          nim: row.nim,
+          angkatan: row.angkatan || '',
+          course_code: row.courseCode,
+          course_id: row.courseId,
+          score: row.score,
+          components: row.components,
+        })),
+        { source: 'excel', reason: changeReason.trim() }
+      );
+      const byIndex = new Map(results.map(result => [result.row_index, result]));
+
+      setUploadedRows(
+        preview.map((row, idx) => {
+          const result = byIndex.get(idx);
+          return {
             ...row,
-            status: 'success',
-          });
-          successCount++;
-        }
-      } catch (err) {
-        processedRows.push({
-          ...row,
-          status: 'error',
-          message: err instanceof Error ? err.message : 'Unknown error',
-        });
-        errorCount++;
-      }
+            status: result?.status === 'success' ? 'success' : 'error',
+            message: result?.message ?? undefined,
+          };
+        })
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setUploadedRows(preview.map(row => ({ ...row, status: 'error', message })));
     }
 
-    setUploadedRows(processedRows);
     setLoading(false);
   };
 
@@ -217,6 +236,8 @@ export function ExcelGradeUpload() {
     setUploadedRows([]);
     setSelectedCourse('');
     setSelectedAngkatan('');
+    setComponents([]);
+    setChangeReason('');
     setStep('select');
   };
 
@@ -232,7 +253,9 @@ export function ExcelGradeUpload() {
           <p className="text-sm text-blue-800">
             <strong>Petunjuk Format Excel:</strong><br />
             Kolom 1: NIM (nomor identitas mahasiswa)<br />
-            Kolom 2: Nilai (angka 0-100)
+            Kolom 2: Nilai (angka 0-100)<br />
+            Untuk mata kuliah dengan komponen penilaian, isi satu kolom per komponen (mis. Tugas, UTS, UAS);
+            nilai akhir dihitung otomatis dari bobotnya. Template per mata kuliah dapat diunduh setelah memilih mata kuliah.
           </p>
         </div>
 
@@ -287,15 +310,18 @@ export function ExcelGradeUpload() {
             {courses.map(course => (
               <button
                 key={course.id}
-                onClick={() => setSelectedCourse(course.code)}
+                onClick={() => setSelectedCourse(course.id)}
                 className={`p-4 rounded-lg border-2 text-left transition-all ${
-                  selectedCourse === course.code
+                  selectedCourse === course.id
                     ? 'border-purple-600 bg-purple-50'
                     : 'border-gray-200 bg-white hover:border-purple-300'
                 }`}
               >
                 <p className="font-semibold text-gray-800">{course.code}</p>
                 <p className="text-sm text-gray-600">{course.name}</p>
+                <p className="text-xs text-gray-500">
+                  {course.academic_year} · Kurikulum {course.curriculum}
+                </p>
               </button>
             ))}
           </div>
@@ -308,6 +334,14 @@ export function ExcelGradeUpload() {
           >
             Kembali
           </button>
+          <button
+            onClick={downloadTemplate}
+            disabled={!selectedCourse}
+            className="flex items-center justify-center gap-2 px-4 py-3 border border-green-600 text-green-700 rounded-lg font-medium hover:bg-green-50 disabled:border-gray-300 disabled:text-gray-400"
+          >
+            <Download className="w-5 h-5" />
+            Template
+          </button>
           <button
             onClick={handleCourseSelect}
             disabled={!selectedCourse || loading}
@@ -330,7 +364,7 @@ export function ExcelGradeUpload() {
 
         <p className="text-gray-600 mb-4">
           File: <strong>{file?.name}</strong><br />
-          Mata Kuliah: <strong>{selectedCourse}</strong>
+          Mata Kuliah: <strong>{selectedCourseCode}</strong>
         </p>
 
         <div className="mb-6">
@@ -395,7 +429,7 @@ export function ExcelGradeUpload() {
 
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
           <p className="text-sm text-blue-800">
-            <strong>Mata Kuliah:</strong> {selectedCourse}<br />
+            <strong>Mata Kuliah:</strong> {selectedCourseCode}<br />
             <strong>Angkatan:</strong> {selectedAngkatan}<br />
             <strong>Total Baris:</strong> {preview.length}
           </p>
@@ -408,7 +442,14 @@ export function ExcelGradeUpload() {
                 <th className="px-4 py-2 text-left font-semibold text-gray-700">No</th>
                 <th className="px-4 py-2 text-left font-semibold text-gray-700">NIM</th>
                 <th className="px-4 py-2 text-left font-semibold text-gray-700">Angkatan</th>
-                <th className="px-4 py-2 text-center font-semibold text-gray-700">Nilai</th>
+                {components.map(component => (
+                  <th key={component.id} className="px-4 py-2 text-center font-semibold text-gray-700">
+                    {component.name} ({Number(component.weight)}%)
+                  </th>
+                ))}
+                <th className="px-4 py-2 text-center font-semibold text-gray-700">
+                  {components.length > 0 ? 'Nilai Akhir' : 'Nilai'}
+                </th>
                 <th className="px-4 py-2 text-left font-semibold text-gray-700">Grade</th>
               </tr>
             </thead>
@@ -418,9 +459,14 @@ export function ExcelGradeUpload() {
                   <td className="px-4 py-2 text-gray-600">{idx + 1}</td>
                   <td className="px-4 py-2 font-medium text-gray-900">{row.nim}</td>
                   <td className="px-4 py-2 text-gray-700">{row.angkatan}</td>
-                  <td className="px-4 py-2 text-center text-gray-700">{row.score}</td>
+                  {components.map(component => (
+                    <td key={component.id} className="px-4 py-2 text-center text-gray-700">
+                      {isNaN(row.components?.[component.name] ?? NaN) ? '-' : row.components?.[component.name]}
+                    </td>
+                  ))}
+                  <td className="px-4 py-2 text-center text-gray-700">{isNaN(row.score) ? '-' : row.score}</td>
                   <td className="px-4 py-2 font-semibold text-gray-900">
-                    {getLetterGrade(row.score)}
+                    {isNaN(row.score) ? '-' : resolveGrade(row.score, gradingScale).letterGrade}
                   </td>
                 </tr>
               ))}
@@ -433,6 +479,20 @@ export function ExcelGradeUpload() {
           )}
         </div>
 
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Alasan Perubahan (opsional)
+          </label>
+          <input
+            type="text"
+            value={changeReason}
+            onChange={(e) => setChangeReason(e.target.value)}
+            placeholder="Contoh: koreksi nilai UAS setelah banding"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+          <p className="text-xs text-gray-500 mt-1">Dicatat di riwayat perubahan setiap nilai yang disimpan</p>
+        </div>
+
         <div className="flex gap-3">
           <button
             onClick={() => setStep('angkatan')}
@@ -0,0 +1,65 @@
+import { TERM_PERIOD_LABELS, isTermPeriod } from '../lib/academicTerms';
+import type { SemesterSummary } from '../lib/grading';
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 24, bottom: 44, left: 40 };
+const MAX_GPA = 4;
+
+export function GpaTrendChart({ semesters }: { semesters: SemesterSummary[] }) {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) =>
+    PADDING.left + (semesters.length === 1 ? plotWidth / 2 : (index / (semesters.length - 1)) * plotWidth);
+  const y = (value: number) => PADDING.top + plotHeight - (value / MAX_GPA) * plotHeight;
+
+  const line = (pick: (s: SemesterSummary) => number) =>
+    semesters.map((s, idx) => `${x(idx)},${y(pick(s))}`).join(' ');
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Grafik IPS dan IPK per periode">
+        {[0, 1, 2, 3, 4].map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+            <text x={PADDING.left - 8} y={y(tick) + 4} textAnchor="end" className="fill-gray-500 text-xs">
+              {tick.toFixed(1)}
+            </text>
+          </g>
+        ))}
+
+        <polyline points={line(s => s.ips)} fill="none" stroke="#2563eb" strokeWidth={2} />
+        <polyline points={line(s => s.ipk)} fill="none" stroke="#16a34a" strokeWidth={2} strokeDasharray="6 4" />
+
+        {semesters.map((s, idx) => (
+          <g key={s.key}>
+            <circle cx={x(idx)} cy={y(s.ips)} r={4} fill="#2563eb">
+              <title>{`${s.key}: IPS ${s.ips.toFixed(2)}`}</title>
+            </circle>
+            <circle cx={x(idx)} cy={y(s.ipk)} r={4} fill="#16a34a">
+              <title>{`${s.key}: IPK ${s.ipk.toFixed(2)}`}</title>
+            </circle>
+            <text x={x(idx)} y={HEIGHT - PADDING.bottom + 18} textAnchor="middle" className="fill-gray-700 text-xs">
+              {isTermPeriod(s.period) ? TERM_PERIOD_LABELS[s.period] : s.period}
+            </text>
+            <text x={x(idx)} y={HEIGHT - PADDING.bottom + 32} textAnchor="middle" className="fill-gray-400 text-[10px]">
+              {s.academicYear}
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      <div className="flex justify-center gap-6 mt-2 text-sm text-gray-600">
+        <span className="flex items-center gap-2">
+          <span className="inline-block w-4 h-0.5 bg-blue-600"></span>
+          IPS
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="inline-block w-4 h-0.5 bg-green-600"></span>
+          IPK
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { History, X } from 'lucide-react';
+import { gradeRevisionRepository, type GradeChangeSource, type GradeRevision } from '../lib/repositories';
+
+const SOURCE_LABELS: Record<GradeChangeSource, string> = {
+  excel: 'Upload Excel',
+  manual: 'Input Manual',
+  api: 'Sistem / API',
+};
+
+interface GradeHistoryModalProps {
+  studentId: string;
+  courseId: string;
+  title: string;
+  onClose: () => void;
+}
+
+const formatScore = (score: number | null, letter: string | null) =>
+  score === null ? '-' : `${Number(score).toFixed(2)} (${letter})`;
+
+export function GradeHistoryModal({ studentId, courseId, title, onClose }: GradeHistoryModalProps) {
+  const [revisions, setRevisions] = useState<GradeRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    gradeRevisionRepository.listForStudentCourse(studentId, courseId)
+      .then(setRevisions)
+      .catch(err => setError(err instanceof Error ? err.message : 'Gagal memuat riwayat nilai'))
+      .finally(() => setLoading(false));
+  }, [studentId, courseId]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-3xl w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center gap-3">
+            <History className="w-6 h-6 text-purple-600" />
+            <div>
+              <h3 className="text-2xl font-bold text-gray-800">Riwayat Nilai</h3>
+              <p className="text-sm text-gray-600">{title}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+            {error}
+          </div>
+        )}
+
+        <div className="overflow-y-auto">
+          {loading ? (
+            <div className="p-12 text-center">
+              <div className="w-12 h-12 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+              <p className="text-gray-600">Memuat riwayat...</p>
+            </div>
+          ) : revisions.length === 0 ? (
+            <p className="p-8 text-center text-gray-600">Belum ada riwayat perubahan untuk nilai ini.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Waktu</th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Sebelum</th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Sesudah</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Oleh</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sumber</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Alasan</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {revisions.map(revision => (
+                  <tr key={revision.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-900">
+                      {new Date(revision.created_at ?? 0).toLocaleString('id-ID', {
+                        year: 'numeric',
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit'
+                      })}
+                    </td>
+                    <td className="px-4 py-3 text-center text-gray-600">
+                      {formatScore(revision.old_score, revision.old_letter_grade)}
+                    </td>
+                    <td className="px-4 py-3 text-center font-medium text-gray-900">
+                      {revision.new_score === null ? 'Dihapus' : formatScore(revision.new_score, revision.new_letter_grade)}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{revision.changed_by_email || '-'}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {SOURCE_LABELS[revision.source as GradeChangeSource] ?? revision.source}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{revision.reason || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,379 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  academicTermRepository,
+  courseGradeStatusRepository,
+  courseRepository,
+  type AcademicTerm,
+  type Course,
+  type CourseGradeStatus,
+  type GradeStatusTransitionOptions,
+} from '../lib/repositories';
+import {
+  GRADE_STATUS_LABELS,
+  availableGradeStatusActions,
+  gradeStatusOf,
+  isGradeReleased,
+  type GradeStatus,
+  type GradeStatusAction,
+} from '../lib/gradeStatus';
+import { formatTerm, termLabel } from '../lib/academicTerms';
+
+const STATUS_BADGES: Record<GradeStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  submitted: 'bg-yellow-100 text-yellow-800',
+  finalized: 'bg-blue-100 text-blue-800',
+  published: 'bg-green-100 text-green-800',
+};
+
+// Reopening needs a reason and publishing can be scheduled, both go through a dialog
+interface PendingAction {
+  course: Course;
+  action: GradeStatusAction;
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('id-ID', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+export function GradeStatusManagement() {
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [statuses, setStatuses] = useState<Map<string, CourseGradeStatus>>(new Map());
+  const [terms, setTerms] = useState<AcademicTerm[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [termFilter, setTermFilter] = useState('');
+  const [curriculumFilter, setCurriculumFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<GradeStatus | ''>('');
+  const [busyCourseId, setBusyCourseId] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [reason, setReason] = useState('');
+  const [releaseAt, setReleaseAt] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadData();
+    academicTermRepository
+      .list()
+      .then(termsData => {
+        setTerms(termsData);
+        setTermFilter(termsData.find(t => t.is_active)?.id ?? '');
+      })
+      .catch(err => console.error('Error loading academic terms:', err));
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [coursesData, statusRows] = await Promise.all([
+        courseRepository.list(),
+        courseGradeStatusRepository.list(),
+      ]);
+      setCourses(coursesData);
+      setStatuses(new Map(statusRows.map(row => [row.course_id, row])));
+    } catch (err) {
+      console.error('Error loading grade status:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runTransition = async (course: Course, action: GradeStatusAction, options?: GradeStatusTransitionOptions) => {
+    setBusyCourseId(course.id);
+    setError('');
+    try {
+      await courseGradeStatusRepository.transition(course.id, action.to, options);
+      await loadData();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal mengubah status nilai');
+      return false;
+    } finally {
+      setBusyCourseId(null);
+    }
+  };
+
+  const handleAction = (course: Course, action: GradeStatusAction) => {
+    if (action.requiresReason || action.to === 'published') {
+      setReason('');
+      setReleaseAt('');
+      setError('');
+      setPendingAction({ course, action });
+      return;
+    }
+    runTransition(course, action);
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingAction) return;
+
+    if (pendingAction.action.requiresReason && !reason.trim()) {
+      setError('Alasan wajib diisi untuk membuka kembali nilai');
+      return;
+    }
+
+    const options: GradeStatusTransitionOptions = {
+      reason: reason.trim() || undefined,
+      releaseAt: releaseAt ? new Date(releaseAt).toISOString() : undefined,
+    };
+
+    if (await runTransition(pendingAction.course, pendingAction.action, options)) {
+      setPendingAction(null);
+    }
+  };
+
+  const curricula = [...new Set(courses.map(c => c.curriculum))].sort().reverse();
+
+  const termsById = new Map(terms.map(t => [t.id, t]));
+
+  const filteredCourses = courses.filter(course => {
+    if (termFilter && course.term_id !== termFilter) return false;
+    if (curriculumFilter && course.curriculum !== curriculumFilter) return false;
+    if (statusFilter && gradeStatusOf(statuses.get(course.id)) !== statusFilter) return false;
+    return true;
+  });
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
+        <div className="w-12 h-12 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-gray-600">Memuat data...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg overflow-hidden">
+      <div className="p-6 border-b border-gray-200">
+        <h3 className="text-xl font-bold text-gray-800 mb-1">Status Nilai Mata Kuliah</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Nilai berstatus Final atau Dipublikasikan terkunci dan tidak dapat diubah lewat upload maupun input manual
+          sampai dibuka kembali.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <select
+            value={termFilter}
+            onChange={(e) => setTermFilter(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="">Semua Periode</option>
+            {terms.map(term => (
+              <option key={term.id} value={term.id}>
+                {formatTerm(term)}{term.is_active ? ' (aktif)' : ''}
+              </option>
+            ))}
+          </select>
+          <select
+            value={curriculumFilter}
+            onChange={(e) => setCurriculumFilter(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="">Semua Kurikulum</option>
+            {curricula.map(curriculum => (
+              <option key={curriculum} value={curriculum}>
+                Kurikulum {curriculum}
+              </option>
+            ))}
+          </select>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as GradeStatus | '')}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="">Semua Status</option>
+            {(Object.keys(GRADE_STATUS_LABELS) as GradeStatus[]).map(status => (
+              <option key={status} value={status}>
+                {GRADE_STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && !pendingAction && (
+        <div className="mx-6 mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {filteredCourses.length === 0 ? (
+        <div className="p-12 text-center">
+          <p className="text-gray-600">Tidak ada mata kuliah yang sesuai filter</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Mata Kuliah
+                </th>
+                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Periode
+                </th>
+                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Semester
+                </th>
+                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Catatan Terakhir
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Aksi
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredCourses.map(course => {
+                const row = statuses.get(course.id);
+                const status = gradeStatusOf(row);
+
+                return (
+                  <tr key={course.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm">
+                      <p className="font-medium text-gray-900">{course.code}</p>
+                      <p className="text-gray-600">{course.name}</p>
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-center text-sm text-gray-700">
+                      {termLabel(termsById, course.term_id)}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-center text-sm text-gray-700">
+                      {course.semester}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-center">
+                      <span className={`px-3 py-1 rounded-full text-xs font-semibold ${STATUS_BADGES[status]}`}>
+                        {GRADE_STATUS_LABELS[status]}
+                      </span>
+                      {status === 'published' && row?.release_at && !isGradeReleased(row) && (
+                        <p className="text-xs text-amber-700 mt-1">
+                          Terjadwal {formatDateTime(row.release_at)}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {row?.reason || '-'}
+                      {row?.updated_at && (
+                        <p className="text-xs text-gray-400">{formatDateTime(row.updated_at)}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <div className="flex justify-end gap-2">
+                        {availableGradeStatusActions(status).map(action => (
+                          <button
+                            key={action.to}
+                            onClick={() => handleAction(course, action)}
+                            disabled={busyCourseId === course.id}
+                            className={`px-3 py-1.5 text-sm rounded-lg font-medium disabled:opacity-50 ${
+                              action.requiresReason
+                                ? 'border border-red-300 text-red-700 hover:bg-red-50'
+                                : 'bg-purple-600 text-white hover:bg-purple-700'
+                            }`}
+                          >
+                            {action.label}
+                          </button>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {pendingAction && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-xl max-w-md w-full p-6">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-2xl font-bold text-gray-800">
+                {pendingAction.action.to === 'published' ? 'Publikasikan Nilai' : 'Buka Kembali Nilai'}
+              </h3>
+              <button onClick={() => setPendingAction(null)} className="p-2 hover:bg-gray-100 rounded-lg">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-600 mb-4">
+              {pendingAction.action.to === 'published' ? (
+                <>
+                  Nilai <strong>{pendingAction.course.code} - {pendingAction.course.name}</strong> akan dapat dilihat
+                  mahasiswa. Kosongkan tanggal rilis untuk menampilkannya sekarang.
+                </>
+              ) : (
+                <>
+                  Nilai <strong>{pendingAction.course.code} - {pendingAction.course.name}</strong> akan kembali ke
+                  status Draft, disembunyikan dari mahasiswa, dan dapat diubah lagi. Alasan akan dicatat di activity log.
+                </>
+              )}
+            </p>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+                {error}
+              </div>
+            )}
+
+            <form onSubmit={handleConfirm} className="space-y-4">
+              {pendingAction.action.to === 'published' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Tanggal Rilis (opsional)
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={releaseAt}
+                    onChange={(e) => setReleaseAt(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Alasan *
+                  </label>
+                  <textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Contoh: koreksi nilai UAS setelah banding mahasiswa"
+                    required
+                  />
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setPendingAction(null)}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                >
+                  Batal
+                </button>
+                <button
+                  type="submit"
+                  disabled={busyCourseId !== null}
+                  className={`flex-1 px-4 py-2 text-white rounded-lg disabled:opacity-50 ${
+                    pendingAction.action.to === 'published'
+                      ? 'bg-green-600 hover:bg-green-700'
+                      : 'bg-red-600 hover:bg-red-700'
+                  }`}
+                >
+                  {busyCourseId ? 'Memproses...' : pendingAction.action.label}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
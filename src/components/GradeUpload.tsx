@@ -1,23 +1,13 @@
 import { useState } from 'react';
 import { Upload, AlertCircle, CheckCircle } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { courseRepository, gradeRepository, studentRepository } from '../lib/repositories';
+import { gradingEngine } from '../lib/grading';
 
 interface UploadResult {
   type: 'success' | 'error';
   message: string;
 }
 
-function getLetterGrade(score: number): string {
-  if (score >= 85) return 'A';
-  if (score >= 80) return 'B+';
-  if (score >= 75) return 'B';
-  if (score >= 70) return 'B-';
-  if (score >= 65) return 'C+';
-  if (score >= 60) return 'C';
-  if (score >= 55) return 'D';
-  return 'E';
-}
-
 export function GradeUpload() {
   const [file, setFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
@@ -80,47 +70,29 @@ export function GradeUpload() {
             continue;
           }
 
-          const { data: student } = await supabase
-            .from('students')
-            .select('id')
-            .eq('nim', nim)
-            .maybeSingle();
+          const student = await studentRepository.findByNim(nim);
 
-          if (!student || !student.id) {
+          if (!student) {
             failedCount++;
             continue;
           }
 
-          const { data: course } = await supabase
-            .from('courses')
-            .select('id')
-            .eq('code', courseCode)
-            .maybeSingle();
+          const course = await courseRepository.findByCode(courseCode);
 
-          if (!course || !course.id) {
+          if (!course) {
             failedCount++;
             continue;
           }
 
-          const letterGrade = getLetterGrade(score);
-
-          const { error: upsertError } = await supabase
-            .from('grades')
-            .upsert(
-              {
-                student_id: student.id,
-                course_id: course.id,
-                score,
-                letter_grade: letterGrade,
-              } as any,
-              { onConflict: 'student_id,course_id' }
-            );
-
-          if (upsertError) {
-            failedCount++;
-          } else {
-            successCount++;
-          }
+          const { letterGrade } = await gradingEngine.grade(score, course.curriculum);
+
+          await gradeRepository.upsert({
+            student_id: student.id,
+            course_id: course.id,
+            score,
+            letter_grade: letterGrade,
+          });
+          successCount++;
         } catch (err) {
           failedCount++;
         }
@@ -1,16 +1,18 @@
 import { useEffect, useState } from 'react';
 import { Plus, Trash2, X, Copy, Award } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-
-interface GradingScale {
-  id: string;
-  curriculum: string;
-  letter_grade: string;
-  min_score: number;
-  max_score: number;
-  grade_point: number;
-  description: string;
-}
+import {
+  RETAKE_POLICIES,
+  RETAKE_POLICY_LABELS,
+  gradingEngine,
+  isRetakePolicy,
+  lookupRetakePolicy,
+} from '../lib/grading';
+import {
+  gradingScaleRepository,
+  retakePolicyRepository,
+  type GradingScale,
+  type RetakePolicyRow,
+} from '../lib/repositories';
 
 interface GradingScaleForm {
   curriculum: string;
@@ -24,6 +26,7 @@ interface GradingScaleForm {
 export function GradingScaleManagement() {
   const [gradingScales, setGradingScales] = useState<GradingScale[]>([]);
   const [curriculums, setCurriculums] = useState<string[]>([]);
+  const [retakePolicies, setRetakePolicies] = useState<RetakePolicyRow[]>([]);
   const [selectedCurriculum, setSelectedCurriculum] = useState<string>('');
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
@@ -41,20 +44,15 @@ export function GradingScaleManagement() {
   useEffect(() => {
     loadGradingScales();
     loadCurriculums();
+    loadRetakePolicies();
   }, []);
 
   const loadGradingScales = async () => {
     try {
-      const { data, error: err } = await supabase
-        .from('grading_scales')
-        .select('*')
-        .order('curriculum', { ascending: false })
-        .order('min_score', { ascending: false });
-
-      if (err) throw err;
-      setGradingScales(data || []);
+      const data = await gradingScaleRepository.list();
+      setGradingScales(data);
 
-      if (data && data.length > 0 && !selectedCurriculum) {
+      if (data.length > 0 && !selectedCurriculum) {
         setSelectedCurriculum(data[0].curriculum);
       }
     } catch (err) {
@@ -66,20 +64,31 @@ export function GradingScaleManagement() {
 
   const loadCurriculums = async () => {
     try {
-      const { data } = await supabase
-        .from('grading_scales')
-        .select('curriculum')
-        .order('curriculum', { ascending: false });
-
-      if (data) {
-        const unique = Array.from(new Set(data.map(g => g.curriculum)));
-        setCurriculums(unique);
-      }
+      setCurriculums(await gradingScaleRepository.listCurricula());
     } catch (err) {
       console.error('Error loading curriculums:', err);
     }
   };
 
+  const loadRetakePolicies = async () => {
+    try {
+      setRetakePolicies(await retakePolicyRepository.list());
+    } catch (err) {
+      console.error('Error loading retake policies:', err);
+    }
+  };
+
+  const handleRetakePolicyChange = async (curriculum: string, policy: string) => {
+    if (!isRetakePolicy(policy)) return;
+
+    try {
+      await retakePolicyRepository.set(curriculum, policy);
+      loadRetakePolicies();
+    } catch (err) {
+      alert('Error: ' + (err instanceof Error ? err.message : 'Gagal menyimpan aturan mata kuliah ulang'));
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -119,20 +128,12 @@ export function GradingScaleManagement() {
       };
 
       if (editingId) {
-        const { error: err } = await supabase
-          .from('grading_scales')
-          .update(dataToSave)
-          .eq('id', editingId);
-
-        if (err) throw err;
+        await gradingScaleRepository.update(editingId, dataToSave);
       } else {
-        const { error: err } = await supabase
-          .from('grading_scales')
-          .insert([dataToSave]);
-
-        if (err) throw err;
+        await gradingScaleRepository.create(dataToSave);
       }
 
+      gradingEngine.invalidate();
       setFormData({
         curriculum: '2024',
         letter_grade: 'A',
@@ -167,12 +168,8 @@ export function GradingScaleManagement() {
     if (!confirm('Apakah Anda yakin ingin menghapus grading scale ini?')) return;
 
     try {
-      const { error: err } = await supabase
-        .from('grading_scales')
-        .delete()
-        .eq('id', id);
-
-      if (err) throw err;
+      await gradingScaleRepository.remove(id);
+      gradingEngine.invalidate();
       loadGradingScales();
       loadCurriculums();
     } catch (err: any) {
@@ -219,12 +216,9 @@ export function GradingScaleManagement() {
         description: scale.description,
       }));
 
-      const { error: err } = await supabase
-        .from('grading_scales')
-        .insert(newScales);
-
-      if (err) throw err;
+      await gradingScaleRepository.create(newScales);
 
+      gradingEngine.invalidate(newCurriculum.trim());
       alert(`Berhasil copy ${newScales.length} grading scale ke kurikulum "${newCurriculum}"`);
       loadGradingScales();
       loadCurriculums();
@@ -270,6 +264,7 @@ export function GradingScaleManagement() {
           <li>• Grade huruf (A, B+, B, dll) ditentukan berdasarkan range nilai</li>
           <li>• Grade point digunakan untuk kalkulasi IPK</li>
           <li>• Pastikan tidak ada gap atau overlap dalam range nilai</li>
+          <li>• Untuk mata kuliah yang diulang, IPK menghitung nilai terbaik atau nilai terakhir sesuai aturan kurikulum</li>
         </ul>
       </div>
 
@@ -289,6 +284,22 @@ export function GradingScaleManagement() {
             ))}
           </select>
         </div>
+        {selectedCurriculum && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Mata Kuliah Ulang
+            </label>
+            <select
+              value={lookupRetakePolicy(retakePolicies, selectedCurriculum)}
+              onChange={(e) => handleRetakePolicyChange(selectedCurriculum, e.target.value)}
+              className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {RETAKE_POLICIES.map(policy => (
+                <option key={policy} value={policy}>{RETAKE_POLICY_LABELS[policy]}</option>
+              ))}
+            </select>
+          </div>
+        )}
         {selectedCurriculum && (
           <button
             onClick={() => handleCopyCurriculum(selectedCurriculum)}
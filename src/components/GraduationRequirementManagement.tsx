@@ -0,0 +1,429 @@
+import { useEffect, useState } from 'react';
+import { Edit3, ListChecks, Plus, Trash2, X } from 'lucide-react';
+import {
+  courseRepository,
+  graduationRequirementRepository,
+  type Course,
+  type GraduationRequiredCourse,
+  type GraduationRequirement,
+} from '../lib/repositories';
+
+interface GraduationRequirementForm {
+  curriculum: string;
+  min_credits: string;
+  min_ipk: string;
+  max_d_grades: string;
+  allow_e_grades: boolean;
+  required_codes: string[];
+}
+
+const EMPTY_FORM: GraduationRequirementForm = {
+  curriculum: '',
+  min_credits: '144',
+  min_ipk: '2.00',
+  max_d_grades: '',
+  allow_e_grades: false,
+  required_codes: [],
+};
+
+export function GraduationRequirementManagement() {
+  const [requirements, setRequirements] = useState<GraduationRequirement[]>([]);
+  const [requiredCourses, setRequiredCourses] = useState<GraduationRequiredCourse[]>([]);
+  const [curricula, setCurricula] = useState<string[]>([]);
+  const [curriculumCourses, setCurriculumCourses] = useState<Course[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [formData, setFormData] = useState<GraduationRequirementForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadRequirements();
+    courseRepository
+      .listCurricula()
+      .then(setCurricula)
+      .catch(err => console.error('Error loading curricula:', err));
+  }, []);
+
+  // Every offering of a course shares its code, so the checklist shows each code once
+  useEffect(() => {
+    if (!formData.curriculum) {
+      setCurriculumCourses([]);
+      return;
+    }
+
+    courseRepository
+      .list({ curriculum: formData.curriculum })
+      .then(courses => {
+        const byCode = new Map<string, Course>();
+        for (const course of courses) {
+          if (!byCode.has(course.code)) byCode.set(course.code, course);
+        }
+        setCurriculumCourses([...byCode.values()].sort((a, b) => a.semester - b.semester || a.code.localeCompare(b.code)));
+      })
+      .catch(err => console.error('Error loading courses:', err));
+  }, [formData.curriculum]);
+
+  const loadRequirements = async () => {
+    try {
+      const [requirementsData, requiredCoursesData] = await Promise.all([
+        graduationRequirementRepository.list(),
+        graduationRequirementRepository.listRequiredCourses(),
+      ]);
+      setRequirements(requirementsData);
+      setRequiredCourses(requiredCoursesData);
+    } catch (err) {
+      console.error('Error loading graduation requirements:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const requiredCodesOf = (curriculum: string) =>
+    requiredCourses.filter(c => c.curriculum === curriculum).map(c => c.course_code);
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(false);
+    setFormData(EMPTY_FORM);
+    setError('');
+  };
+
+  const handleEdit = (requirement: GraduationRequirement) => {
+    setEditing(true);
+    setFormData({
+      curriculum: requirement.curriculum,
+      min_credits: String(requirement.min_credits),
+      min_ipk: Number(requirement.min_ipk).toFixed(2),
+      max_d_grades: requirement.max_d_grades === null ? '' : String(requirement.max_d_grades),
+      allow_e_grades: requirement.allow_e_grades,
+      required_codes: requiredCodesOf(requirement.curriculum),
+    });
+    setError('');
+    setShowForm(true);
+  };
+
+  const toggleRequiredCode = (code: string) => {
+    const required = formData.required_codes.includes(code)
+      ? formData.required_codes.filter(c => c !== code)
+      : [...formData.required_codes, code];
+    setFormData({ ...formData, required_codes: required });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const curriculum = formData.curriculum.trim();
+    const minCredits = parseInt(formData.min_credits, 10);
+    const minIpk = parseFloat(formData.min_ipk);
+    const maxD = formData.max_d_grades.trim() === '' ? null : parseInt(formData.max_d_grades, 10);
+
+    if (!curriculum) {
+      setError('Pilih kurikulum');
+      return;
+    }
+
+    if (!editing && requirements.some(r => r.curriculum === curriculum)) {
+      setError(`Syarat kelulusan kurikulum ${curriculum} sudah ada`);
+      return;
+    }
+
+    if (isNaN(minCredits) || minCredits <= 0) {
+      setError('Total SKS minimal harus lebih dari 0');
+      return;
+    }
+
+    if (isNaN(minIpk) || minIpk < 0 || minIpk > 4) {
+      setError('IPK minimal harus antara 0-4');
+      return;
+    }
+
+    if (maxD !== null && (isNaN(maxD) || maxD < 0)) {
+      setError('Batas nilai D tidak valid, kosongkan jika tidak dibatasi');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await graduationRequirementRepository.save({
+        curriculum,
+        min_credits: minCredits,
+        min_ipk: minIpk,
+        max_d_grades: maxD,
+        allow_e_grades: formData.allow_e_grades,
+      });
+      await graduationRequirementRepository.setRequiredCourses(curriculum, formData.required_codes);
+
+      closeForm();
+      loadRequirements();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal menyimpan syarat kelulusan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (requirement: GraduationRequirement) => {
+    if (!confirm(`Hapus syarat kelulusan kurikulum ${requirement.curriculum}?`)) return;
+
+    try {
+      await graduationRequirementRepository.remove(requirement.curriculum);
+      loadRequirements();
+    } catch (err) {
+      alert('Gagal menghapus syarat kelulusan: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
+        <div className="w-12 h-12 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-gray-600">Memuat data...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Syarat Kelulusan</h2>
+          <p className="text-gray-600 mt-1">
+            Syarat lulus per kurikulum, dipakai oleh Audit Kelulusan untuk memeriksa transkrip mahasiswa
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            closeForm();
+            setShowForm(true);
+          }}
+          className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+        >
+          <Plus className="w-5 h-5" />
+          Tambah Syarat
+        </button>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg overflow-hidden">
+        {requirements.length === 0 ? (
+          <div className="p-12 text-center">
+            <ListChecks className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">Belum ada syarat kelulusan</p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Kurikulum
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Min. SKS
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Min. IPK
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Maks. Nilai D
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Nilai E
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  MK Wajib
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Aksi
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {requirements.map(requirement => {
+                const codes = requiredCodesOf(requirement.curriculum);
+                return (
+                  <tr key={requirement.curriculum} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="px-2 py-1 bg-purple-100 text-purple-800 rounded text-xs font-medium">
+                        {requirement.curriculum}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-center font-medium text-gray-900">{requirement.min_credits}</td>
+                    <td className="px-6 py-4 text-sm text-center text-gray-700">{Number(requirement.min_ipk).toFixed(2)}</td>
+                    <td className="px-6 py-4 text-sm text-center text-gray-700">
+                      {requirement.max_d_grades ?? 'Tanpa batas'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-center text-gray-700">
+                      {requirement.allow_e_grades ? 'Boleh' : 'Tidak boleh'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {codes.length === 0 ? '-' : codes.join(', ')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-center space-x-2">
+                      <button
+                        onClick={() => handleEdit(requirement)}
+                        className="inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium bg-blue-50 text-blue-600 hover:bg-blue-100"
+                      >
+                        <Edit3 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(requirement)}
+                        className="inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium bg-red-50 text-red-600 hover:bg-red-100"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-2xl font-bold text-gray-800">
+                {editing ? `Syarat Kelulusan ${formData.curriculum}` : 'Tambah Syarat Kelulusan'}
+              </h3>
+              <button onClick={closeForm} className="p-2 hover:bg-gray-100 rounded-lg">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+                {error}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Kurikulum *
+                  </label>
+                  <select
+                    value={formData.curriculum}
+                    onChange={(e) => setFormData({ ...formData, curriculum: e.target.value, required_codes: [] })}
+                    disabled={editing}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:bg-gray-100"
+                    required
+                  >
+                    <option value="">Pilih Kurikulum</option>
+                    {curricula.map(curriculum => (
+                      <option key={curriculum} value={curriculum}>{curriculum}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Total SKS Minimal *
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.min_credits}
+                    onChange={(e) => setFormData({ ...formData, min_credits: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    IPK Minimal *
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="4"
+                    value={formData.min_ipk}
+                    onChange={(e) => setFormData({ ...formData, min_ipk: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Maksimal Nilai D
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.max_d_grades}
+                    onChange={(e) => setFormData({ ...formData, max_d_grades: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    placeholder="Tanpa batas"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!formData.allow_e_grades}
+                  onChange={(e) => setFormData({ ...formData, allow_e_grades: !e.target.checked })}
+                  className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+                Tidak boleh ada nilai E
+              </label>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Mata Kuliah Wajib ({formData.required_codes.length} dipilih)
+                </label>
+                {curriculumCourses.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    {formData.curriculum ? 'Belum ada mata kuliah untuk kurikulum ini' : 'Pilih kurikulum terlebih dahulu'}
+                  </p>
+                ) : (
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-64 overflow-y-auto">
+                    {curriculumCourses.map(course => (
+                      <label key={course.code} className="flex items-center gap-3 px-4 py-2 text-sm hover:bg-gray-50">
+                        <input
+                          type="checkbox"
+                          checked={formData.required_codes.includes(course.code)}
+                          onChange={() => toggleRequiredCode(course.code)}
+                          className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                        />
+                        <span className="font-medium text-gray-900 w-24">{course.code}</span>
+                        <span className="flex-1 text-gray-700">{course.name}</span>
+                        <span className="text-xs text-gray-500">Smt {course.semester} · {course.credits} SKS</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50"
+                >
+                  Batal
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 disabled:opacity-50"
+                >
+                  {saving ? 'Menyimpan...' : 'Simpan'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import { useEffect, useState } from 'react';
+import { Building2, Trash2, Upload } from 'lucide-react';
+import { toSquarePng } from '../lib/images';
+import { institutionProfileRepository, type InstitutionProfileInput } from '../lib/repositories';
+
+interface InstitutionProfileForm {
+  institution_name: string;
+  faculty_name: string;
+  study_program_name: string;
+  address: string;
+  city: string;
+  logo_data_url: string | null;
+  dean_name: string;
+  dean_nip: string;
+}
+
+const EMPTY_FORM: InstitutionProfileForm = {
+  institution_name: '',
+  faculty_name: '',
+  study_program_name: '',
+  address: '',
+  city: '',
+  logo_data_url: null,
+  dean_name: '',
+  dean_nip: '',
+};
+
+export function InstitutionProfileManagement() {
+  const [formData, setFormData] = useState<InstitutionProfileForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    institutionProfileRepository
+      .get()
+      .then(profile => {
+        if (profile) {
+          setFormData({
+            institution_name: profile.institution_name,
+            faculty_name: profile.faculty_name,
+            study_program_name: profile.study_program_name,
+            address: profile.address,
+            city: profile.city,
+            logo_data_url: profile.logo_data_url,
+            dean_name: profile.dean_name,
+            dean_nip: profile.dean_nip,
+          });
+        }
+      })
+      .catch(err => console.error('Error loading institution profile:', err))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      setError('Logo harus berupa file gambar (PNG atau JPG)');
+      return;
+    }
+
+    try {
+      setFormData({ ...formData, logo_data_url: await toSquarePng(file) });
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal membaca logo');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+
+    if (!formData.institution_name.trim()) {
+      setError('Nama institusi wajib diisi');
+      return;
+    }
+
+    const input: InstitutionProfileInput = {
+      institution_name: formData.institution_name.trim(),
+      faculty_name: formData.faculty_name.trim(),
+      study_program_name: formData.study_program_name.trim(),
+      address: formData.address.trim(),
+      city: formData.city.trim(),
+      logo_data_url: formData.logo_data_url,
+      dean_name: formData.dean_name.trim(),
+      dean_nip: formData.dean_nip.trim(),
+    };
+
+    setSaving(true);
+    try {
+      await institutionProfileRepository.save(input);
+      setSuccess('Profil institusi berhasil disimpan');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal menyimpan profil institusi');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
+        <div className="w-12 h-12 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-gray-600">Memuat data...</p>
+      </div>
+    );
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Profil Institusi</h2>
+        <p className="text-gray-600 mt-1">
+          Kop dan penanda tangan pada transkrip dan dokumen akademik lainnya
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-lg p-6 space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+            {success}
+          </div>
+        )}
+
+        <div className="flex items-start gap-6">
+          <div className="w-32 h-32 border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center overflow-hidden">
+            {formData.logo_data_url ? (
+              <img src={formData.logo_data_url} alt="Logo" className="w-full h-full object-contain" />
+            ) : (
+              <Building2 className="w-12 h-12 text-gray-300" />
+            )}
+          </div>
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 px-4 py-2 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 cursor-pointer text-sm font-medium">
+              <Upload className="w-4 h-4" />
+              Upload Logo
+              <input type="file" accept="image/png,image/jpeg" onChange={handleLogoChange} className="hidden" />
+            </label>
+            {formData.logo_data_url && (
+              <button
+                type="button"
+                onClick={() => setFormData({ ...formData, logo_data_url: null })}
+                className="flex items-center gap-2 px-4 py-2 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 text-sm font-medium"
+              >
+                <Trash2 className="w-4 h-4" />
+                Hapus Logo
+              </button>
+            )}
+            <p className="text-xs text-gray-500">PNG atau JPG, disimpan sebagai gambar persegi</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Nama Institusi *
+            </label>
+            <input
+              type="text"
+              value={formData.institution_name}
+              onChange={(e) => setFormData({ ...formData, institution_name: e.target.value })}
+              className={inputClass}
+              placeholder="Universitas ..."
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Fakultas
+            </label>
+            <input
+              type="text"
+              value={formData.faculty_name}
+              onChange={(e) => setFormData({ ...formData, faculty_name: e.target.value })}
+              className={inputClass}
+              placeholder="Teknik"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Program Studi
+            </label>
+            <input
+              type="text"
+              value={formData.study_program_name}
+              onChange={(e) => setFormData({ ...formData, study_program_name: e.target.value })}
+              className={inputClass}
+              placeholder="Teknik Informatika"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Alamat
+            </label>
+            <input
+              type="text"
+              value={formData.address}
+              onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Kota
+            </label>
+            <input
+              type="text"
+              value={formData.city}
+              onChange={(e) => setFormData({ ...formData, city: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Nama Dekan
+            </label>
+            <input
+              type="text"
+              value={formData.dean_name}
+              onChange={(e) => setFormData({ ...formData, dean_name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              NIP Dekan
+            </label>
+            <input
+              type="text"
+              value={formData.dean_nip}
+              onChange={(e) => setFormData({ ...formData, dean_nip: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-2 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 disabled:opacity-50"
+          >
+            {saving ? 'Menyimpan...' : 'Simpan'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
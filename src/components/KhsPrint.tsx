@@ -0,0 +1,216 @@
+import { useEffect, useState } from 'react';
+import { Download, FileSpreadsheet, FileText } from 'lucide-react';
+import { Packer } from 'docx';
+import { saveAs } from 'file-saver';
+import { formatTerm } from '../lib/academicTerms';
+import { gradingEngine, lookupRetakePolicy } from '../lib/grading';
+import { buildKhs, type KhsData } from '../lib/khs';
+import { khsDocx, khsPdf } from '../lib/khsDocuments';
+import { resolveLayout } from '../lib/documentTemplates';
+import {
+  academicTermRepository,
+  documentTemplateRepository,
+  institutionProfileRepository,
+  retakePolicyRepository,
+  studentRepository,
+  type AcademicTerm,
+} from '../lib/repositories';
+
+/** Batch printing of KHS for an angkatan, one page per student. */
+export function KhsPrint() {
+  const [angkatanList, setAngkatanList] = useState<string[]>([]);
+  const [terms, setTerms] = useState<AcademicTerm[]>([]);
+  const [selectedAngkatan, setSelectedAngkatan] = useState('');
+  const [selectedTerm, setSelectedTerm] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [results, setResults] = useState<KhsData[] | null>(null);
+
+  useEffect(() => {
+    Promise.all([studentRepository.listAngkatan(), academicTermRepository.list()])
+      .then(([angkatanData, termData]) => {
+        setAngkatanList(angkatanData);
+        setTerms(termData);
+        if (angkatanData.length > 0) setSelectedAngkatan(angkatanData[0]);
+        const active = termData.find(t => t.is_active) ?? termData[0];
+        if (active) setSelectedTerm(active.id);
+      })
+      .catch(err => console.error('Error loading KHS filters:', err));
+  }, []);
+
+  const loadKhs = async () => {
+    if (!selectedAngkatan || !selectedTerm) {
+      alert('Pilih angkatan dan periode terlebih dahulu');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [students, retakePolicies] = await Promise.all([
+        studentRepository.listWithGrades({ angkatan: selectedAngkatan }),
+        retakePolicyRepository.list(),
+      ]);
+      const scales = await gradingEngine.getScales(
+        students.flatMap(student => student.grades.map(g => g.course?.curriculum))
+      );
+
+      setResults(
+        students.flatMap(student => {
+          const khs = buildKhs(
+            student,
+            student.grades,
+            selectedTerm,
+            scales,
+            lookupRetakePolicy(retakePolicies, student.curriculum)
+          );
+          return khs ? [khs] : [];
+        })
+      );
+    } catch (err) {
+      alert('Error memuat KHS: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportKhs = async (format: 'pdf' | 'docx') => {
+    if (!results || results.length === 0) return;
+
+    setLoading(true);
+    try {
+      const [profile, template] = await Promise.all([
+        institutionProfileRepository.get(),
+        documentTemplateRepository.get('khs'),
+      ]);
+      const layout = resolveLayout('khs', template, profile);
+      const fileName = `KHS_Angkatan_${selectedAngkatan}_${results[0].termLabel.replace(/[\s/]+/g, '_')}`;
+
+      if (format === 'pdf') {
+        khsPdf(results, layout).save(`${fileName}.pdf`);
+      } else {
+        saveAs(await Packer.toBlob(khsDocx(results, layout)), `${fileName}.docx`);
+      }
+    } catch (err) {
+      alert('Error export KHS: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6">
+      <div className="flex items-center mb-6">
+        <FileText className="w-6 h-6 text-blue-600 mr-3" />
+        <h3 className="text-2xl font-bold text-gray-800">Cetak KHS</h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Angkatan
+          </label>
+          <select
+            value={selectedAngkatan}
+            onChange={(e) => {
+              setSelectedAngkatan(e.target.value);
+              setResults(null);
+            }}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">-- Pilih Angkatan --</option>
+            {angkatanList.map(angkatan => (
+              <option key={angkatan} value={angkatan}>{angkatan}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Periode
+          </label>
+          <select
+            value={selectedTerm}
+            onChange={(e) => {
+              setSelectedTerm(e.target.value);
+              setResults(null);
+            }}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">-- Pilih Periode --</option>
+            {terms.map(term => (
+              <option key={term.id} value={term.id}>{formatTerm(term)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-end">
+          <button
+            onClick={loadKhs}
+            disabled={loading || !selectedAngkatan || !selectedTerm}
+            className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+          >
+            {loading ? 'Memuat...' : 'Tampilkan'}
+          </button>
+        </div>
+      </div>
+
+      {results && (
+        results.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            Tidak ada mahasiswa angkatan {selectedAngkatan} yang memiliki nilai pada periode ini
+          </div>
+        ) : (
+          <>
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+              <p className="text-sm text-gray-600">
+                {results.length} mahasiswa memiliki nilai pada periode {results[0].termLabel}
+              </p>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => exportKhs('pdf')}
+                  disabled={loading}
+                  className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 disabled:bg-gray-400"
+                >
+                  <Download className="w-4 h-4" />
+                  Export PDF
+                </button>
+                <button
+                  onClick={() => exportKhs('docx')}
+                  disabled={loading}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400"
+                >
+                  <FileSpreadsheet className="w-4 h-4" />
+                  Export DOCX
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-medium text-gray-500">NIM</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-500">Nama</th>
+                    <th className="px-4 py-3 text-center font-medium text-gray-500">Mata Kuliah</th>
+                    <th className="px-4 py-3 text-center font-medium text-gray-500">SKS</th>
+                    <th className="px-4 py-3 text-center font-medium text-gray-500">IPS</th>
+                    <th className="px-4 py-3 text-center font-medium text-gray-500">IPK</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {results.map(khs => (
+                    <tr key={khs.studentId} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 font-medium text-gray-900">{khs.nim}</td>
+                      <td className="px-4 py-3 text-gray-700">{khs.studentName}</td>
+                      <td className="px-4 py-3 text-center text-gray-700">{khs.courses.length}</td>
+                      <td className="px-4 py-3 text-center text-gray-700">{khs.totalSKS}</td>
+                      <td className="px-4 py-3 text-center font-semibold text-gray-900">{khs.ips.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-center font-semibold text-blue-600">{khs.ipk.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )
+      )}
+    </div>
+  );
+}
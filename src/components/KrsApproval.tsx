@@ -0,0 +1,243 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, ClipboardList, X, XCircle } from 'lucide-react';
+import { krsRepository, type KrsStatus, type KrsWithStudent } from '../lib/repositories';
+import { formatTerm } from '../lib/academicTerms';
+import { KRS_STATUS_LABELS, KRS_STATUS_STYLES, krsStatusOf, totalCredits } from '../lib/krs';
+
+interface KrsApprovalProps {
+  /** Limits the list to this lecturer's advisees; admins see every KRS. */
+  advisorId?: string;
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('id-ID', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+export function KrsApproval({ advisorId }: KrsApprovalProps) {
+  const [submissions, setSubmissions] = useState<KrsWithStudent[]>([]);
+  const [statusFilter, setStatusFilter] = useState<KrsStatus | ''>('submitted');
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [rejecting, setRejecting] = useState<KrsWithStudent | null>(null);
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    setLoading(true);
+    krsRepository
+      .listForReview({ advisorId, status: statusFilter || undefined })
+      .then(setSubmissions)
+      .catch(err => setError(err instanceof Error ? err.message : 'Gagal memuat KRS'))
+      .finally(() => setLoading(false));
+  }, [advisorId, statusFilter]);
+
+  const review = async (krs: KrsWithStudent, approve: boolean, reviewNote?: string) => {
+    setBusyId(krs.id);
+    setError('');
+
+    try {
+      await krsRepository.review(krs.id, approve, reviewNote);
+      setSubmissions(await krsRepository.listForReview({ advisorId, status: statusFilter || undefined }));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal memproses KRS');
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleApprove = (krs: KrsWithStudent) => {
+    if (!confirm(`Setujui KRS ${krs.student.nim} - ${krs.student.name}? Mahasiswa akan langsung di-enroll ke semua mata kuliahnya.`)) return;
+    review(krs, true);
+  };
+
+  const handleReject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rejecting) return;
+
+    if (!note.trim()) {
+      setError('Alasan penolakan wajib diisi');
+      return;
+    }
+
+    if (await review(rejecting, false, note.trim())) {
+      setRejecting(null);
+      setNote('');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Persetujuan KRS</h2>
+          <p className="text-gray-600 mt-1">
+            {advisorId
+              ? 'KRS mahasiswa perwalian Anda'
+              : 'KRS yang disetujui otomatis menjadi enrollment mata kuliah'}
+          </p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as KrsStatus | '')}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">Semua Status</option>
+          {(Object.keys(KRS_STATUS_LABELS) as KrsStatus[]).map(status => (
+            <option key={status} value={status}>
+              {KRS_STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && !rejecting && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
+          <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Memuat data...</p>
+        </div>
+      ) : submissions.length === 0 ? (
+        <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
+          <ClipboardList className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-600">Tidak ada KRS</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {submissions.map(krs => {
+            const courses = krs.items.flatMap(item => (item.course ? [item.course] : []));
+            const status = krsStatusOf(krs);
+
+            return (
+              <div key={krs.id} className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+                <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                  <div>
+                    <p className="font-semibold text-gray-900">
+                      {krs.student.nim} - {krs.student.name}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {formatTerm(krs.term)} · Angkatan {krs.student.angkatan} · Kurikulum {krs.student.curriculum}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">Diajukan {formatDateTime(krs.submitted_at)}</p>
+                  </div>
+                  <span className={`px-3 py-1 rounded-full text-xs font-semibold ${KRS_STATUS_STYLES[status]}`}>
+                    {KRS_STATUS_LABELS[status]}
+                  </span>
+                </div>
+
+                <table className="w-full mb-4">
+                  <tbody className="divide-y divide-gray-100">
+                    {courses.map(course => (
+                      <tr key={course.id}>
+                        <td className="py-2 text-sm font-medium text-gray-900 w-28">{course.code}</td>
+                        <td className="py-2 text-sm text-gray-700">{course.name}</td>
+                        <td className="py-2 text-sm text-gray-600 text-right">{course.credits} SKS</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <p className="text-sm text-gray-600">
+                    Total <span className="font-semibold">{totalCredits(courses)} SKS</span>
+                    {krs.note && <span className="ml-3 text-gray-500">Catatan: {krs.note}</span>}
+                  </p>
+                  {status === 'submitted' && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => {
+                          setError('');
+                          setNote('');
+                          setRejecting(krs);
+                        }}
+                        disabled={busyId !== null}
+                        className="flex items-center gap-1 px-4 py-2 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700 disabled:opacity-50"
+                      >
+                        <XCircle className="w-4 h-4" />
+                        Tolak
+                      </button>
+                      <button
+                        onClick={() => handleApprove(krs)}
+                        disabled={busyId !== null}
+                        className="flex items-center gap-1 px-4 py-2 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 disabled:opacity-50"
+                      >
+                        <CheckCircle className="w-4 h-4" />
+                        {busyId === krs.id ? 'Memproses...' : 'Setujui'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {rejecting && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-xl max-w-md w-full p-6">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-2xl font-bold text-gray-800">Tolak KRS</h3>
+              <button onClick={() => setRejecting(null)} className="p-2 hover:bg-gray-100 rounded-lg">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-600 mb-4">
+              KRS <strong>{rejecting.student.nim} - {rejecting.student.name}</strong> akan dikembalikan ke
+              mahasiswa untuk diperbaiki dan diajukan ulang.
+            </p>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+                {error}
+              </div>
+            )}
+
+            <form onSubmit={handleReject} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Alasan *
+                </label>
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Contoh: ambil dulu mata kuliah wajib semester ini"
+                  required
+                />
+              </div>
+
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setRejecting(null)}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                >
+                  Batal
+                </button>
+                <button
+                  type="submit"
+                  disabled={busyId !== null}
+                  className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                >
+                  {busyId ? 'Memproses...' : 'Tolak KRS'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
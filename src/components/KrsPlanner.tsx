@@ -0,0 +1,216 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, ClipboardList, Send } from 'lucide-react';
+import {
+  academicTermRepository,
+  courseRepository,
+  krsRepository,
+  sksLoadRuleRepository,
+  type AcademicTerm,
+  type Course,
+  type KrsWithCourses,
+  type SksAllowance,
+  type Student,
+} from '../lib/repositories';
+import { formatTerm } from '../lib/academicTerms';
+import { describeAllowance, exceedsAllowance } from '../lib/sksLoad';
+import { KRS_STATUS_LABELS, KRS_STATUS_STYLES, krsStatusOf, listKrsTerms, totalCredits } from '../lib/krs';
+
+export function KrsPlanner({ student }: { student: Student }) {
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [terms, setTerms] = useState<AcademicTerm[]>([]);
+  const [submissions, setSubmissions] = useState<KrsWithCourses[]>([]);
+  const [termId, setTermId] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [allowance, setAllowance] = useState<SksAllowance | null>(null);
+
+  const curriculum = student.curriculum;
+
+  useEffect(() => {
+    if (!curriculum) {
+      setLoading(false);
+      return;
+    }
+
+    Promise.all([
+      courseRepository.list({ curriculum }),
+      academicTermRepository.list(),
+      krsRepository.listForStudent(student.id),
+    ])
+      .then(([curriculumCourses, termRows, krsRows]) => {
+        setCourses(curriculumCourses);
+        setTerms(termRows);
+        setSubmissions(krsRows);
+        const [first] = listKrsTerms(termRows, curriculumCourses);
+        if (first) setTermId(first.id);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Gagal memuat data KRS'))
+      .finally(() => setLoading(false));
+  }, [curriculum, student.id]);
+
+  const krsTerms = listKrsTerms(terms, courses);
+  const term = krsTerms.find(t => t.id === termId);
+  const termCourses = term ? courses.filter(c => c.term_id === term.id) : [];
+  const current = term ? submissions.find(k => k.term_id === term.id) : undefined;
+  const locked = current ? krsStatusOf(current) === 'approved' : false;
+
+  useEffect(() => {
+    setAllowance(null);
+    if (!termId) return;
+
+    let cancelled = false;
+    sksLoadRuleRepository
+      .getAllowance(student.id, termId)
+      .then(result => {
+        if (!cancelled) setAllowance(result);
+      })
+      .catch(err => console.error('Error loading SKS allowance:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [student.id, termId]);
+
+  // Start from what was submitted for the term, so resubmitting only needs the changes
+  useEffect(() => {
+    setSelected(new Set(current?.items.flatMap(item => (item.course ? [item.course.id] : [])) ?? []));
+    setMessage('');
+  }, [current]);
+
+  const toggleCourse = (courseId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(courseId)) next.delete(courseId);
+      else next.add(courseId);
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!term) return;
+    setSubmitting(true);
+    setError('');
+    setMessage('');
+
+    try {
+      await krsRepository.submit(term.id, [...selected]);
+      setSubmissions(await krsRepository.listForStudent(student.id));
+      setMessage('KRS berhasil diajukan dan menunggu persetujuan dosen wali');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal mengajukan KRS');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const selectedCourses = termCourses.filter(c => selected.has(c.id));
+  // Until the KRS is approved its courses are not enrollments yet, so they add to what is enrolled.
+  // submit_krs has the final say; it also knows which picked courses are already enrollments.
+  const plannedCredits = totalCredits(selectedCourses) + (locked ? 0 : allowance?.enrolled_credits ?? 0);
+  const overLimit = !locked && allowance !== null && exceedsAllowance(allowance, plannedCredits);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <ClipboardList className="w-5 h-5 text-blue-600" />
+        <h3 className="text-lg font-bold text-gray-800">Kartu Rencana Studi (KRS)</h3>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Memuat...</p>
+      ) : !curriculum || !student.advisor_id ? (
+        <div className="flex items-start gap-2 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <span>
+            {!curriculum ? 'Kurikulum' : 'Dosen wali'} Anda belum diatur. Hubungi admin akademik sebelum mengisi KRS.
+          </span>
+        </div>
+      ) : krsTerms.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          Belum ada mata kuliah kurikulum {curriculum} yang ditawarkan pada periode aktif atau mendatang.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+          )}
+          {message && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg text-sm">{message}</div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-4">
+            <select
+              value={termId}
+              onChange={(e) => setTermId(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {krsTerms.map(t => (
+                <option key={t.id} value={t.id}>
+                  {formatTerm(t)}{t.is_active ? ' (aktif)' : ''}
+                </option>
+              ))}
+            </select>
+            {current && (
+              <span className={`px-3 py-1 rounded-full text-xs font-semibold ${KRS_STATUS_STYLES[krsStatusOf(current)]}`}>
+                {KRS_STATUS_LABELS[krsStatusOf(current)]}
+              </span>
+            )}
+          </div>
+
+          {current?.status === 'rejected' && current.note && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <span className="font-medium">Catatan dosen wali:</span> {current.note}
+            </div>
+          )}
+
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+            {termCourses.map(course => (
+              <label
+                key={course.id}
+                className={`flex items-center gap-3 px-4 py-3 ${locked ? '' : 'cursor-pointer hover:bg-gray-50'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(course.id)}
+                  disabled={locked}
+                  onChange={() => toggleCourse(course.id)}
+                  className="w-4 h-4 text-blue-600 rounded"
+                />
+                <span className="text-sm font-medium text-gray-900 w-24">{course.code}</span>
+                <span className="text-sm text-gray-700 flex-1">{course.name}</span>
+                <span className="text-sm text-gray-600">{course.credits} SKS</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-gray-600">
+              <p>
+                {selectedCourses.length} mata kuliah · <span className="font-semibold">{totalCredits(selectedCourses)} SKS</span>
+                {allowance && <span className="ml-2 text-gray-500">· {describeAllowance(allowance)}</span>}
+              </p>
+              {overLimit && (
+                <p className="text-red-600 mt-1">
+                  Total {plannedCredits} SKS melebihi batas Anda. Kurangi mata kuliah sebelum mengajukan.
+                </p>
+              )}
+            </div>
+            {!locked && (
+              <button
+                onClick={handleSubmit}
+                disabled={submitting || selected.size === 0}
+                className="flex items-center gap-2 px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Send className="w-4 h-4" />
+                {submitting ? 'Mengajukan...' : current ? 'Ajukan Ulang KRS' : 'Ajukan KRS'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { ClipboardCheck, Edit3, GraduationCap, LogOut, Upload } from 'lucide-react';
+import { useLecturerAuth } from '../contexts/LecturerAuthContext';
+import { lecturerRepository, type Course, type Lecturer } from '../lib/repositories';
+import { ExcelGradeUpload } from './ExcelGradeUpload';
+import { KrsApproval } from './KrsApproval';
+import { ManualGradeInput } from './ManualGradeInput';
+
+const LECTURER_TABS = [
+  { id: 'manual-input', label: 'Input Manual', icon: Edit3 },
+  { id: 'excel-upload', label: 'Upload Excel', icon: Upload },
+  { id: 'krs', label: 'Persetujuan KRS', icon: ClipboardCheck },
+] as const;
+
+type LecturerTab = typeof LECTURER_TABS[number]['id'];
+
+function isLecturerTab(value: string | undefined): value is LecturerTab {
+  return LECTURER_TABS.some(tab => tab.id === value);
+}
+
+export function LecturerDashboard() {
+  const { tab } = useParams<{ tab: string }>();
+  const navigate = useNavigate();
+  const { user, signOut } = useLecturerAuth();
+  const [lecturer, setLecturer] = useState<Lecturer | null>(null);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    Promise.all([lecturerRepository.findById(user.id), lecturerRepository.listCourses(user.id)])
+      .then(([profile, taught]) => {
+        setLecturer(profile);
+        setCourses(taught);
+      })
+      .catch(err => console.error('Error loading lecturer data:', err))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  if (!isLecturerTab(tab)) {
+    return <Navigate to="/lecturer/manual-input" replace />;
+  }
+
+  const activeTab: LecturerTab = tab;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      <nav className="bg-white shadow-md">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-3">
+              <GraduationCap className="w-8 h-8 text-emerald-600" />
+              <h1 className="text-xl font-bold text-gray-800">Portal Dosen - Input Nilai</h1>
+            </div>
+            <button
+              onClick={() => signOut()}
+              className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+            >
+              <LogOut className="w-4 h-4" />
+              <span>Logout</span>
+            </button>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">
+            Selamat datang, {lecturer?.name || 'Dosen'}
+          </h2>
+          <p className="text-gray-600">
+            {lecturer ? `NIDN: ${lecturer.nidn} · ` : ''}Email: {user?.email}
+          </p>
+
+          <div className="mt-4">
+            <p className="text-sm font-medium text-gray-700 mb-2">Mata kuliah yang diampu</p>
+            {loading ? (
+              <p className="text-sm text-gray-500">Memuat...</p>
+            ) : courses.length === 0 ? (
+              <p className="text-sm text-amber-700">
+                Anda belum ditugaskan ke mata kuliah mana pun. Hubungi admin akademik.
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {courses.map(course => (
+                  <span
+                    key={course.id}
+                    className="px-3 py-1 bg-emerald-50 text-emerald-800 border border-emerald-200 rounded-full text-sm"
+                  >
+                    {course.code} - {course.name}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          {LECTURER_TABS.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => navigate(`/lecturer/${id}`)}
+              className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-colors ${
+                activeTab === id
+                  ? 'bg-emerald-600 text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <Icon className="w-5 h-5" />
+              <span>{label}</span>
+            </button>
+          ))}
+        </div>
+
+        {user && activeTab === 'manual-input' && <ManualGradeInput lecturerId={user.id} />}
+
+        {user && activeTab === 'excel-upload' && <ExcelGradeUpload lecturerId={user.id} />}
+
+        {user && activeTab === 'krs' && <KrsApproval advisorId={user.id} />}
+      </div>
+    </div>
+  );
+}
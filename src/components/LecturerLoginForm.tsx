@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { GraduationCap } from 'lucide-react';
+import { useLecturerAuth } from '../contexts/LecturerAuthContext';
+
+export function LecturerLoginForm({ onToggle }: { onToggle: () => void }) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { signIn } = useLecturerAuth();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      await signIn(email, password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login dosen gagal');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <div className="flex items-center justify-center mb-8">
+          <div className="bg-emerald-600 p-3 rounded-xl">
+            <GraduationCap className="w-8 h-8 text-white" />
+          </div>
+        </div>
+
+        <h2 className="text-3xl font-bold text-center mb-2 text-gray-800">
+          Login Dosen
+        </h2>
+        <p className="text-center text-gray-600 mb-8">
+          Masuk untuk menginput nilai mata kuliah yang Anda ampu
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Email
+            </label>
+            <input
+              type="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all"
+              placeholder="dosen@email.com"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Password
+            </label>
+            <input
+              type="password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all"
+              placeholder="••••••••"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-emerald-600 text-white py-3 rounded-lg font-medium hover:bg-emerald-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? 'Memproses...' : 'Login'}
+          </button>
+        </form>
+
+        <div className="mt-6 text-center">
+          <button
+            onClick={onToggle}
+            className="text-emerald-600 font-medium hover:text-emerald-700"
+          >
+            Login sebagai mahasiswa
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+import { useEffect, useState } from 'react';
+import { GraduationCap, Plus, Search, Trash2, UserPlus, X } from 'lucide-react';
+import {
+  courseRepository,
+  lecturerRepository,
+  type Course,
+  type CourseLecturer,
+  type Lecturer,
+} from '../lib/repositories';
+
+const EMPTY_FORM = { email: '', password: '', name: '', nidn: '' };
+
+export function LecturerManagement() {
+  const [lecturers, setLecturers] = useState<Lecturer[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [assignments, setAssignments] = useState<CourseLecturer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  // lecturer_id -> course_id picked in that lecturer's "assign" select
+  const [pendingCourse, setPendingCourse] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [lecturersData, coursesData, assignmentRows] = await Promise.all([
+        lecturerRepository.list(),
+        courseRepository.list(),
+        lecturerRepository.listAssignments(),
+      ]);
+      setLecturers(lecturersData);
+      setCourses(coursesData);
+      setAssignments(assignmentRows);
+    } catch (err) {
+      console.error('Error loading lecturers:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddLecturer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+
+    try {
+      await lecturerRepository.createAccount(formData);
+
+      setFormData(EMPTY_FORM);
+      setShowAddForm(false);
+      loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal menambahkan dosen');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDeleteLecturer = async (lecturer: Lecturer) => {
+    if (!confirm(`Hapus dosen ${lecturer.name}? Penugasan mata kuliahnya juga akan dihapus.`)) return;
+
+    try {
+      await lecturerRepository.remove(lecturer.id);
+      loadData();
+    } catch (err) {
+      console.error('Error deleting lecturer:', err);
+      alert('Gagal menghapus dosen');
+    }
+  };
+
+  const handleAssign = async (lecturerId: string) => {
+    const courseId = pendingCourse[lecturerId];
+    if (!courseId) return;
+
+    try {
+      await lecturerRepository.assignCourse(lecturerId, courseId);
+      setPendingCourse(prev => ({ ...prev, [lecturerId]: '' }));
+      loadData();
+    } catch (err) {
+      alert('Gagal menugaskan mata kuliah: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const handleUnassign = async (lecturerId: string, course: Course) => {
+    if (!confirm(`Lepas ${course.code} dari dosen ini?`)) return;
+
+    try {
+      await lecturerRepository.unassignCourse(lecturerId, course.id);
+      loadData();
+    } catch (err) {
+      alert('Gagal melepas mata kuliah: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const coursesOf = (lecturerId: string) => {
+    const ids = new Set(assignments.filter(a => a.lecturer_id === lecturerId).map(a => a.course_id));
+    return courses.filter(course => ids.has(course.id));
+  };
+
+  const filteredLecturers = lecturers.filter(lecturer => {
+    const term = searchTerm.toLowerCase();
+    return (
+      lecturer.name.toLowerCase().includes(term) ||
+      lecturer.email.toLowerCase().includes(term) ||
+      lecturer.nidn.toLowerCase().includes(term)
+    );
+  });
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
+        <div className="w-12 h-12 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-gray-600">Memuat data...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Manajemen Dosen</h2>
+          <p className="text-gray-600 mt-1">
+            Dosen hanya dapat menginput nilai untuk mata kuliah yang ditugaskan kepadanya
+          </p>
+        </div>
+        <button
+          onClick={() => setShowAddForm(!showAddForm)}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <UserPlus className="w-5 h-5" />
+          Tambah Dosen
+        </button>
+      </div>
+
+      {showAddForm && (
+        <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Tambah Dosen Baru</h3>
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg">
+              {error}
+            </div>
+          )}
+          <form onSubmit={handleAddLecturer} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Nama Lengkap
+              </label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Dr. Nama Dosen, M.Kom."
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                NIDN
+              </label>
+              <input
+                type="text"
+                required
+                value={formData.nidn}
+                onChange={(e) => setFormData({ ...formData, nidn: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="0012345678"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Email
+              </label>
+              <input
+                type="email"
+                required
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="dosen@university.edu"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Password
+              </label>
+              <input
+                type="password"
+                required
+                value={formData.password}
+                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Minimal 6 karakter"
+                minLength={6}
+              />
+            </div>
+            <div className="md:col-span-2 flex gap-3">
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {submitting ? 'Menyimpan...' : 'Tambah Dosen'}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setShowAddForm(false);
+                  setError('');
+                  setFormData(EMPTY_FORM);
+                }}
+                className="px-6 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+              >
+                Batal
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md border border-gray-200">
+        <div className="p-4 border-b border-gray-200">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Cari nama, email, atau NIDN..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        {filteredLecturers.length === 0 ? (
+          <div className="p-12 text-center">
+            <GraduationCap className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">
+              {searchTerm ? 'Tidak ada dosen yang sesuai pencarian' : 'Belum ada dosen terdaftar'}
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {filteredLecturers.map(lecturer => {
+              const taught = coursesOf(lecturer.id);
+              const assignable = courses.filter(course => !taught.some(t => t.id === course.id));
+
+              return (
+                <div key={lecturer.id} className="p-6">
+                  <div className="flex items-start justify-between mb-3">
+                    <div>
+                      <p className="font-semibold text-gray-900">{lecturer.name}</p>
+                      <p className="text-sm text-gray-600">
+                        NIDN {lecturer.nidn} · {lecturer.email}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleDeleteLecturer(lecturer)}
+                      className="inline-flex items-center gap-1 px-3 py-1 text-sm text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Hapus
+                    </button>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {taught.length === 0 ? (
+                      <span className="text-sm text-gray-500">Belum mengampu mata kuliah</span>
+                    ) : (
+                      taught.map(course => (
+                        <span
+                          key={course.id}
+                          className="inline-flex items-center gap-1 px-3 py-1 bg-emerald-50 text-emerald-800 border border-emerald-200 rounded-full text-sm"
+                        >
+                          {course.code} - {course.name}
+                          <button
+                            onClick={() => handleUnassign(lecturer.id, course)}
+                            className="hover:text-red-600"
+                            title="Lepas mata kuliah"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </span>
+                      ))
+                    )}
+                  </div>
+
+                  <div className="flex gap-2">
+                    <select
+                      value={pendingCourse[lecturer.id] || ''}
+                      onChange={(e) => setPendingCourse(prev => ({ ...prev, [lecturer.id]: e.target.value }))}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">-- Tugaskan mata kuliah --</option>
+                      {assignable.map(course => (
+                        <option key={course.id} value={course.id}>
+                          {course.code} - {course.name} (Kurikulum {course.curriculum})
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleAssign(lecturer.id)}
+                      disabled={!pendingCourse[lecturer.id]}
+                      className="flex items-center gap-1 px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Tugaskan
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,124 +1,136 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
-import { BookOpen, Save, CheckCircle, AlertCircle, Users } from 'lucide-react';
-
-interface Course {
-  id: string;
-  code: string;
-  name: string;
-  credits: number;
-  curriculum: string;
-}
-
-interface EnrolledStudent {
-  student_id: string;
-  student: {
-    id: string;
-    nim: string;
-    name: string;
-    email: string;
-    angkatan: string;
-  };
+import { computeFinalScore, gradingEngine, resolveGrade, type GradingScale } from '../lib/grading';
+import { GRADE_STATUS_LABELS, gradeStatusOf, isGradeLocked, type GradeStatus } from '../lib/gradeStatus';
+import {
+  assessmentComponentRepository,
+  courseGradeStatusRepository,
+  courseOfferingRepository,
+  courseRepository,
+  enrollmentRepository,
+  gradeRepository,
+  lecturerRepository,
+  studentRepository,
+  type AssessmentComponent,
+  type Course,
+  type CourseOfferingWithLecturer,
+  type EnrolledStudent as CourseEnrollment,
+  type GradeBatchRow,
+} from '../lib/repositories';
+import { AssessmentComponentsEditor } from './AssessmentComponentsEditor';
+import { BookOpen, Save, CheckCircle, AlertCircle, Users, Lock } from 'lucide-react';
+
+interface EnrolledStudent extends CourseEnrollment {
   existing_grade?: {
     score: number;
     letter_grade: string;
   };
 }
 
-interface GradeInput {
-  student_id: string;
-  score: string;
+interface ManualGradeInputProps {
+  /** Limits the course list to the courses this lecturer teaches. */
+  lecturerId?: string;
 }
 
-export function ManualGradeInput() {
+export function ManualGradeInput({ lecturerId }: ManualGradeInputProps) {
   const [courses, setCourses] = useState<Course[]>([]);
   const [selectedCourse, setSelectedCourse] = useState<string>('');
   const [curriculumFilter, setCurriculumFilter] = useState<string>('');
   const [angkatanFilter, setAngkatanFilter] = useState<string>('');
+  const [offerings, setOfferings] = useState<CourseOfferingWithLecturer[]>([]);
+  const [offeringFilter, setOfferingFilter] = useState<string>('');
   const [enrolledStudents, setEnrolledStudents] = useState<EnrolledStudent[]>([]);
   const [gradeInputs, setGradeInputs] = useState<Record<string, string>>({});
+  const [components, setComponents] = useState<AssessmentComponent[]>([]);
+  // student_id -> component_id -> score as typed
+  const [componentInputs, setComponentInputs] = useState<Record<string, Record<string, string>>>({});
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [changeReason, setChangeReason] = useState('');
+  const [gradeStatus, setGradeStatus] = useState<GradeStatus>('draft');
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [curriculumList, setCurriculumList] = useState<string[]>([]);
   const [angkatanList, setAngkatanList] = useState<string[]>([]);
+  const [gradingScale, setGradingScale] = useState<GradingScale[]>([]);
+  // Courses the lecturer is assigned to as a whole; only those let them edit the shared component weights
+  const [wholeCourseIds, setWholeCourseIds] = useState<Set<string>>(new Set());
 
   useEffect(() => {
-    fetchCourses();
-  }, []);
+    Promise.all([
+      lecturerId ? lecturerRepository.listCourses(lecturerId) : courseRepository.list(),
+      studentRepository.listAngkatan(),
+    ])
+      .then(([coursesData, angkatan]) => {
+        setCourses(coursesData);
+        setCurriculumList([...new Set(coursesData.map(c => c.curriculum).filter(Boolean))].sort().reverse());
+        setAngkatanList(angkatan);
+      })
+      .catch(err => console.error('Error fetching courses:', err));
+
+    if (lecturerId) {
+      lecturerRepository
+        .listAssignments()
+        .then(rows => setWholeCourseIds(new Set(rows.filter(r => r.lecturer_id === lecturerId).map(r => r.course_id))))
+        .catch(err => console.error('Error loading course assignments:', err));
+    }
+  }, [lecturerId]);
 
   useEffect(() => {
+    setOfferings([]);
+    setOfferingFilter('');
     if (selectedCourse) {
       fetchEnrolledStudents(selectedCourse);
+      courseOfferingRepository
+        .list([selectedCourse])
+        .then(courseOfferings => {
+          setOfferings(courseOfferings);
+          // A lecturer teaching a single class of the course starts on that class
+          const taught = courseOfferings.filter(o => lecturerId && o.lecturer_id === lecturerId);
+          if (taught.length === 1) setOfferingFilter(taught[0].id);
+        })
+        .catch(err => console.error('Error loading classes:', err));
     } else {
       setEnrolledStudents([]);
       setGradeInputs({});
+      setComponents([]);
+      setComponentInputs({});
+      setGradeStatus('draft');
     }
-  }, [selectedCourse]);
-
-  const fetchCourses = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('courses')
-        .select('*')
-        .order('code');
-
-      if (error) throw error;
-      setCourses(data || []);
-
-      if (data) {
-        const uniqueCurriculum = [...new Set(data.map(c => c.curriculum).filter(Boolean))].sort().reverse();
-        setCurriculumList(uniqueCurriculum as string[]);
-      }
-
-      const { data: studentsData } = await supabase
-        .from('students')
-        .select('angkatan');
+  }, [selectedCourse, lecturerId]);
 
-      if (studentsData) {
-        const uniqueAngkatan = [...new Set(studentsData.map(s => s.angkatan))].sort().reverse();
-        setAngkatanList(uniqueAngkatan);
-      }
-    } catch (err) {
-      console.error('Error fetching courses:', err);
+  useEffect(() => {
+    const course = courses.find(c => c.id === selectedCourse);
+    if (!course) {
+      setGradingScale([]);
+      return;
     }
-  };
+
+    gradingEngine.getScale(course.curriculum)
+      .then(setGradingScale)
+      .catch(err => console.error('Error loading grading scale:', err));
+  }, [selectedCourse, courses]);
 
   const fetchEnrolledStudents = async (courseId: string) => {
     setLoading(true);
     try {
-      const { data: enrollments, error } = await supabase
-        .from('enrollments')
-        .select(`
-          student_id,
-          student:students (
-            id,
-            nim,
-            name,
-            email,
-            angkatan
-          )
-        `)
-        .eq('course_id', courseId)
-        .order('student(name)');
-
-      if (error) throw error;
-
-      const { data: existingGrades } = await supabase
-        .from('grades')
-        .select('student_id, score, letter_grade')
-        .eq('course_id', courseId);
+      const [enrollments, existingGrades, courseComponents, statusRow] = await Promise.all([
+        enrollmentRepository.listStudentsForCourse(courseId),
+        gradeRepository.listForCourse(courseId),
+        assessmentComponentRepository.listForCourse(courseId),
+        courseGradeStatusRepository.findForCourse(courseId),
+      ]);
+      setGradeStatus(gradeStatusOf(statusRow));
+      const componentScores = await assessmentComponentRepository.listScores(courseComponents.map(c => c.id));
 
       const gradesMap = new Map(
-        (existingGrades || []).map(g => [g.student_id, { score: g.score, letter_grade: g.letter_grade }])
+        existingGrades.map(g => [g.student_id, { score: g.score, letter_grade: g.letter_grade }])
       );
 
-      const studentsWithGrades = (enrollments || []).map(enrollment => ({
+      const studentsWithGrades: EnrolledStudent[] = enrollments.map(enrollment => ({
         ...enrollment,
         existing_grade: gradesMap.get(enrollment.student_id)
       }));
 
-      setEnrolledStudents(studentsWithGrades as EnrolledStudent[]);
+      setEnrolledStudents(studentsWithGrades);
 
       const initialInputs: Record<string, string> = {};
       studentsWithGrades.forEach(student => {
@@ -127,6 +139,16 @@ export function ManualGradeInput() {
         }
       });
       setGradeInputs(initialInputs);
+
+      const initialComponentInputs: Record<string, Record<string, string>> = {};
+      componentScores.forEach(cs => {
+        initialComponentInputs[cs.student_id] = {
+          ...initialComponentInputs[cs.student_id],
+          [cs.component_id]: cs.score.toString(),
+        };
+      });
+      setComponents(courseComponents);
+      setComponentInputs(initialComponentInputs);
     } catch (err) {
       console.error('Error fetching enrolled students:', err);
       setMessage({ type: 'error', text: 'Failed to load enrolled students' });
@@ -136,16 +158,7 @@ export function ManualGradeInput() {
   };
 
   const calculateLetterGrade = (score: number): string => {
-    if (score >= 85) return 'A';
-    if (score >= 80) return 'A-';
-    if (score >= 75) return 'B+';
-    if (score >= 70) return 'B';
-    if (score >= 65) return 'B-';
-    if (score >= 60) return 'C+';
-    if (score >= 55) return 'C';
-    if (score >= 50) return 'C-';
-    if (score >= 45) return 'D';
-    return 'E';
+    return resolveGrade(score, gradingScale).letterGrade;
   };
 
   const handleScoreChange = (studentId: string, value: string) => {
@@ -157,25 +170,81 @@ export function ManualGradeInput() {
     }
   };
 
+  const handleComponentScoreChange = (studentId: string, componentId: string, value: string) => {
+    if (value === '' || (!isNaN(Number(value)) && Number(value) >= 0 && Number(value) <= 100)) {
+      setComponentInputs(prev => ({
+        ...prev,
+        [studentId]: { ...prev[studentId], [componentId]: value }
+      }));
+    }
+  };
+
+  const finalScoreFor = (studentId: string): number | null => {
+    const inputs = componentInputs[studentId] || {};
+    return computeFinalScore(
+      components.map(c => ({
+        weight: Number(c.weight),
+        score: inputs[c.id] === undefined || inputs[c.id] === '' ? null : Number(inputs[c.id]),
+      }))
+    );
+  };
+
+  const componentRowsToSave = (course: Course): GradeBatchRow[] | null => {
+    const touched = enrolledStudents.filter(s =>
+      Object.values(componentInputs[s.student_id] || {}).some(value => value !== '')
+    );
+    const incomplete = touched.filter(s => finalScoreFor(s.student_id) === null);
+
+    if (incomplete.length > 0) {
+      setMessage({
+        type: 'error',
+        text: `Lengkapi semua komponen untuk NIM: ${incomplete.map(s => s.student.nim).join(', ')}`
+      });
+      return null;
+    }
+
+    return touched.map(s => ({
+      nim: s.student.nim,
+      angkatan: s.student.angkatan,
+      course_code: course.code,
+      course_id: course.id,
+      score: finalScoreFor(s.student_id) ?? 0,
+      components: Object.fromEntries(
+        components.map(c => [c.name, Number(componentInputs[s.student_id][c.id])])
+      ),
+    }));
+  };
+
+  const scoreRowsToSave = (course: Course): GradeBatchRow[] =>
+    enrolledStudents
+      .filter(s => {
+        const score = gradeInputs[s.student_id];
+        return score !== undefined && score !== '' && !isNaN(Number(score));
+      })
+      .map(s => ({
+        nim: s.student.nim,
+        angkatan: s.student.angkatan,
+        course_code: course.code,
+        course_id: course.id,
+        score: Number(gradeInputs[s.student_id]),
+      }));
+
   const handleSaveGrades = async () => {
-    if (!selectedCourse) {
+    const course = getSelectedCourse();
+    if (!course) {
       setMessage({ type: 'error', text: 'Please select a course first' });
       return;
     }
 
-    const gradesToSave = Object.entries(gradeInputs)
-      .filter(([_, score]) => score !== '' && !isNaN(Number(score)))
-      .map(([studentId, score]) => {
-        const numScore = Number(score);
-        return {
-          student_id: studentId,
-          course_id: selectedCourse,
-          score: numScore,
-          letter_grade: calculateLetterGrade(numScore)
-        };
-      });
+    if (gradingScale.length === 0) {
+      setMessage({ type: 'error', text: 'Grading scale for this course is not available yet' });
+      return;
+    }
+
+    const rows = components.length > 0 ? componentRowsToSave(course) : scoreRowsToSave(course);
+    if (!rows) return;
 
-    if (gradesToSave.length === 0) {
+    if (rows.length === 0) {
       setMessage({ type: 'error', text: 'Please enter at least one valid grade' });
       return;
     }
@@ -184,25 +253,30 @@ export function ManualGradeInput() {
     setMessage(null);
 
     try {
-      const { error } = await supabase
-        .from('grades')
-        .upsert(gradesToSave, {
-          onConflict: 'student_id,course_id'
+      const results = await gradeRepository.upsertBatch(rows, { source: 'manual', reason: changeReason.trim() });
+
+      const failed = results.filter(r => r.status !== 'success');
+      if (failed.length > 0) {
+        const shown = failed.slice(0, 5).map(r => `${r.nim}: ${r.message}`).join('; ');
+        setMessage({
+          type: 'error',
+          text: failed.length > 5 ? `${shown}; dan ${failed.length - 5} lainnya` : shown
         });
-
-      if (error) throw error;
+        return;
+      }
 
       setMessage({
         type: 'success',
-        text: `Successfully saved ${gradesToSave.length} grade(s)`
+        text: `Successfully saved ${results.length} grade(s)`
       });
+      setChangeReason('');
 
       fetchEnrolledStudents(selectedCourse);
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error saving grades:', err);
       setMessage({
         type: 'error',
-        text: err.message || 'Failed to save grades'
+        text: err instanceof Error ? err.message : 'Failed to save grades'
       });
     } finally {
       setSaving(false);
@@ -211,6 +285,8 @@ export function ManualGradeInput() {
 
   const getSelectedCourse = () => courses.find(c => c.id === selectedCourse);
 
+  const locked = isGradeLocked(gradeStatus);
+
   const filteredCourses = courses.filter(course => {
     if (curriculumFilter && course.curriculum !== curriculumFilter) return false;
     return true;
@@ -218,6 +294,7 @@ export function ManualGradeInput() {
 
   const filteredStudents = enrolledStudents.filter(student => {
     if (angkatanFilter && student.student.angkatan !== angkatanFilter) return false;
+    if (offeringFilter && student.offering_id !== offeringFilter) return false;
     return true;
   });
 
@@ -314,6 +391,26 @@ export function ManualGradeInput() {
           )}
         </div>
 
+        {offerings.length > 1 && (
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Kelas
+            </label>
+            <select
+              value={offeringFilter}
+              onChange={(e) => setOfferingFilter(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+            >
+              <option value="">Semua Kelas</option>
+              {offerings.map(offering => (
+                <option key={offering.id} value={offering.id}>
+                  Kelas {offering.section} - {offering.lecturer?.name ?? 'belum ada dosen'} ({offering.enrolled} mahasiswa)
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {message && (
           <div className={`mb-6 p-4 rounded-lg flex items-center gap-3 ${
             message.type === 'success'
@@ -350,6 +447,26 @@ export function ManualGradeInput() {
         )}
       </div>
 
+      {selectedCourse && !loading && locked && (
+        <div className="p-4 rounded-lg flex items-center gap-3 bg-amber-50 border border-amber-200 text-amber-800">
+          <Lock className="w-5 h-5 flex-shrink-0" />
+          <span>
+            Nilai mata kuliah ini berstatus <strong>{GRADE_STATUS_LABELS[gradeStatus]}</strong> dan terkunci.
+            {lecturerId
+              ? ' Hubungi admin akademik untuk membukanya kembali.'
+              : ' Buka kembali lewat menu Status Nilai untuk mengubahnya.'}
+          </span>
+        </div>
+      )}
+
+      {selectedCourse && !loading && !locked && (!lecturerId || wholeCourseIds.has(selectedCourse)) && (
+        <AssessmentComponentsEditor
+          courseId={selectedCourse}
+          components={components}
+          onSaved={() => fetchEnrolledStudents(selectedCourse)}
+        />
+      )}
+
       {loading ? (
         <div className="bg-white rounded-lg shadow-md p-12 text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
@@ -373,14 +490,25 @@ export function ManualGradeInput() {
                   Enrolled Students ({filteredStudents.length}{enrolledStudents.length !== filteredStudents.length ? ` / ${enrolledStudents.length}` : ''})
                 </h3>
               </div>
-              <button
-                onClick={handleSaveGrades}
-                disabled={saving || Object.keys(gradeInputs).length === 0}
-                className="flex items-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                <Save className="w-5 h-5" />
-                {saving ? 'Saving...' : 'Save All Grades'}
-              </button>
+              <div className="flex items-center gap-3">
+                <input
+                  type="text"
+                  value={changeReason}
+                  onChange={(e) => setChangeReason(e.target.value)}
+                  placeholder="Alasan perubahan (opsional)"
+                  className="w-64 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  onClick={handleSaveGrades}
+                  disabled={saving || locked || (components.length > 0
+                    ? Object.keys(componentInputs).length === 0
+                    : Object.keys(gradeInputs).length === 0)}
+                  className="flex items-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Save className="w-5 h-5" />
+                  {saving ? 'Saving...' : 'Save All Grades'}
+                </button>
+              </div>
             </div>
           </div>
 
@@ -410,9 +538,22 @@ export function ManualGradeInput() {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Email
                       </th>
-                      <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Score (0-100)
-                      </th>
+                      {components.length > 0 ? (
+                        <>
+                          {components.map(component => (
+                            <th key={component.id} className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              {component.name} ({Number(component.weight)}%)
+                            </th>
+                          ))}
+                          <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Nilai Akhir
+                          </th>
+                        </>
+                      ) : (
+                        <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Score (0-100)
+                        </th>
+                      )}
                       <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Letter Grade
                       </th>
@@ -424,7 +565,9 @@ export function ManualGradeInput() {
                   <tbody className="bg-white divide-y divide-gray-200">
                     {filteredStudents.map((student) => {
                   const score = gradeInputs[student.student_id] || '';
-                  const numScore = score !== '' ? Number(score) : null;
+                  const numScore = components.length > 0
+                    ? finalScoreFor(student.student_id)
+                    : score !== '' ? Number(score) : null;
                   const letterGrade = numScore !== null && !isNaN(numScore) ? calculateLetterGrade(numScore) : '';
                   const hasExistingGrade = student.existing_grade !== undefined;
 
@@ -446,18 +589,44 @@ export function ManualGradeInput() {
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className="text-sm text-gray-600">{student.student.email}</span>
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-center">
-                        <input
-                          type="number"
-                          min="0"
-                          max="100"
-                          step="0.01"
-                          value={score}
-                          onChange={(e) => handleScoreChange(student.student_id, e.target.value)}
-                          placeholder="0-100"
-                          className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        />
-                      </td>
+                      {components.length > 0 ? (
+                        <>
+                          {components.map(component => (
+                            <td key={component.id} className="px-3 py-4 whitespace-nowrap text-center">
+                              <input
+                                type="number"
+                                min="0"
+                                max="100"
+                                step="0.01"
+                                value={componentInputs[student.student_id]?.[component.id] ?? ''}
+                                disabled={locked}
+                                onChange={(e) => handleComponentScoreChange(student.student_id, component.id, e.target.value)}
+                                placeholder="0-100"
+                                className="w-20 px-2 py-2 border border-gray-300 rounded-lg text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                              />
+                            </td>
+                          ))}
+                          <td className="px-6 py-4 whitespace-nowrap text-center">
+                            <span className="text-sm font-semibold text-gray-900">
+                              {numScore !== null ? numScore.toFixed(2) : '-'}
+                            </span>
+                          </td>
+                        </>
+                      ) : (
+                        <td className="px-6 py-4 whitespace-nowrap text-center">
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.01"
+                            value={score}
+                            disabled={locked}
+                            onChange={(e) => handleScoreChange(student.student_id, e.target.value)}
+                            placeholder="0-100"
+                            className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        </td>
+                      )}
                       <td className="px-6 py-4 whitespace-nowrap text-center">
                         {letterGrade && (
                           <span className={`inline-flex px-3 py-1 text-sm font-semibold rounded-full ${
@@ -509,40 +678,19 @@ export function ManualGradeInput() {
         </div>
       ) : null}
 
-      {selectedCourse && enrolledStudents.length > 0 && (
+      {selectedCourse && enrolledStudents.length > 0 && gradingScale.length > 0 && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-          <h4 className="font-semibold text-blue-900 mb-2">Grading Scale:</h4>
+          <h4 className="font-semibold text-blue-900 mb-2">
+            Grading Scale (Kurikulum {gradingScale[0].curriculum}):
+          </h4>
           <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
-            <div className="bg-white px-3 py-2 rounded">
-              <span className="font-medium text-green-700">A:</span> <span className="text-gray-700">85-100</span>
-            </div>
-            <div className="bg-white px-3 py-2 rounded">
-              <span className="font-medium text-green-600">A-:</span> <span className="text-gray-700">80-84</span>
-            </div>
-            <div className="bg-white px-3 py-2 rounded">
-              <span className="font-medium text-blue-700">B+:</span> <span className="text-gray-700">75-79</span>
-            </div>
-            <div className="bg-white px-3 py-2 rounded">
-              <span className="font-medium text-blue-600">B:</span> <span className="text-gray-700">70-74</span>
-            </div>
-            <div className="bg-white px-3 py-2 rounded">
-              <span className="font-medium text-blue-500">B-:</span> <span className="text-gray-700">65-69</span>
-            </div>
-            <div className="bg-white px-3 py-2 rounded">
-              <span className="font-medium text-yellow-700">C+:</span> <span className="text-gray-700">60-64</span>
-            </div>
-            <div className="bg-white px-3 py-2 rounded">
-              <span className="font-medium text-yellow-600">C:</span> <span className="text-gray-700">55-59</span>
-            </div>
-            <div className="bg-white px-3 py-2 rounded">
-              <span className="font-medium text-yellow-500">C-:</span> <span className="text-gray-700">50-54</span>
-            </div>
-            <div className="bg-white px-3 py-2 rounded">
-              <span className="font-medium text-orange-600">D:</span> <span className="text-gray-700">45-49</span>
-            </div>
-            <div className="bg-white px-3 py-2 rounded">
-              <span className="font-medium text-red-600">E:</span> <span className="text-gray-700">0-44</span>
-            </div>
+            {gradingScale.map(scale => (
+              <div key={scale.id} className="bg-white px-3 py-2 rounded">
+                <span className="font-medium text-gray-900">{scale.letter_grade}:</span>{' '}
+                <span className="text-gray-700">{scale.min_score}-{scale.max_score}</span>{' '}
+                <span className="text-gray-500">({Number(scale.grade_point).toFixed(2)})</span>
+              </div>
+            ))}
           </div>
         </div>
       )}
@@ -0,0 +1,127 @@
+import { Navigate, useLocation } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useAdminAuth } from '../contexts/AdminAuthContext';
+import { useLecturerAuth } from '../contexts/LecturerAuthContext';
+
+const LOADER_BORDERS = {
+  blue: 'border-blue-600',
+  purple: 'border-purple-600',
+  emerald: 'border-emerald-600',
+};
+
+function FullPageLoader({ color }: { color: keyof typeof LOADER_BORDERS }) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-blue-100 flex items-center justify-center">
+      <div className="text-center">
+        <div className={`w-16 h-16 border-4 ${LOADER_BORDERS[color]} border-t-transparent rounded-full animate-spin mx-auto mb-4`}></div>
+        <p className="text-gray-600">Memuat...</p>
+      </div>
+    </div>
+  );
+}
+
+export function RequireStudent({ children }: { children: React.ReactNode }) {
+  const { user, loading, isStudent, signOut } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return <FullPageLoader color="blue" />;
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  if (!isStudent) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-xl p-8 max-w-md text-center">
+          <ShieldAlert className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">Access Denied</h2>
+          <p className="text-gray-600 mb-6">
+            Akun {user.email} tidak terdaftar sebagai mahasiswa.
+          </p>
+          <button
+            onClick={() => signOut()}
+            className="bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+          >
+            Login dengan akun lain
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
+
+export function RequireAdmin({ children }: { children: React.ReactNode }) {
+  const { user, loading, isAdmin, signOut } = useAdminAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return <FullPageLoader color="purple" />;
+  }
+
+  if (!user) {
+    return <Navigate to="/admin/login" replace state={{ from: location.pathname }} />;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-xl p-8 max-w-md text-center">
+          <ShieldAlert className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">Access Denied</h2>
+          <p className="text-gray-600 mb-6">
+            Akun {user.email} tidak terdaftar sebagai admin.
+          </p>
+          <button
+            onClick={() => signOut()}
+            className="bg-purple-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-purple-700 transition-colors"
+          >
+            Login dengan akun lain
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
+
+export function RequireLecturer({ children }: { children: React.ReactNode }) {
+  const { user, loading, isLecturer, signOut } = useLecturerAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return <FullPageLoader color="emerald" />;
+  }
+
+  if (!user) {
+    return <Navigate to="/lecturer/login" replace state={{ from: location.pathname }} />;
+  }
+
+  if (!isLecturer) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-xl p-8 max-w-md text-center">
+          <ShieldAlert className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">Access Denied</h2>
+          <p className="text-gray-600 mb-6">
+            Akun {user.email} tidak terdaftar sebagai dosen.
+          </p>
+          <button
+            onClick={() => signOut()}
+            className="bg-emerald-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-emerald-700 transition-colors"
+          >
+            Login dengan akun lain
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
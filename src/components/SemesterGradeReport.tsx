@@ -1,37 +1,47 @@
 import { useState, useEffect, Fragment } from 'react';
 import { FileSpreadsheet, Printer, Download, TrendingUp, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { gradingEngine, resolveGrade } from '../lib/grading';
+import { formatTerm } from '../lib/academicTerms';
+import {
+  academicTermRepository,
+  courseOfferingRepository,
+  courseRepository,
+  documentTemplateRepository,
+  enrollmentRepository,
+  gradeRepository,
+  institutionProfileRepository,
+  studentRepository,
+  type AcademicTerm,
+  type Course,
+} from '../lib/repositories';
 import * as XLSX from 'xlsx';
 import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
-
-interface Course {
-  id: string;
-  code: string;
-  name: string;
-  credits: number;
-  semester: number;
-  curriculum: string;
-}
-
-interface Grade {
-  score: number;
-  letter_grade: string;
-  course_id: string;
-  student_id: string;
-}
+import autoTable, { type CellInput, type Styles } from 'jspdf-autotable';
+import { hexToRgb, resolveLayout, TEMPLATE_COLUMNS, type DocumentLayout } from '../lib/documentTemplates';
+import {
+  drawPdfFooters,
+  drawPdfLetterhead,
+  drawPdfSignature,
+  lastTableY,
+  sheetLetterhead,
+  sheetSignature,
+} from '../lib/documentRendering';
 
 interface StudentGrade {
   student_id: string;
   nim: string;
   name: string;
   angkatan: string;
+  /** Class sections the student attends in the report's courses. */
+  sections: string[];
   courses: {
     [courseId: string]: {
       score: number;
       letter_grade: string;
       grade_point: number;
       credits: number;
+      /** The student took the course in an earlier term (mengulang). */
+      retake: boolean;
     };
   };
   totalScore: number;
@@ -41,78 +51,68 @@ interface StudentGrade {
   rank: number;
 }
 
+const STUDENT_COLUMNS = ['no', 'nim', 'name'];
+const COURSE_COLUMNS = ['score', 'letter', 'grade_point', 'credits'];
+const TOTAL_COLUMNS = ['total_score', 'total_grade_point', 'total_credits', 'ipk', 'rank'];
+const COLUMN_LABELS = Object.fromEntries(TEMPLATE_COLUMNS.semester_report.map(c => [c.key, c.label]));
+
+/** Letter grade for exports, marking a retaken course with "(U)". */
+const letterWithRetake = (grade: StudentGrade['courses'][string]) =>
+  grade.retake ? `${grade.letter_grade} (U)` : grade.letter_grade;
+
 export function SemesterGradeReport() {
   const [angkatanList, setAngkatanList] = useState<string[]>([]);
-  const [semesterList, setSemesterList] = useState<number[]>([]);
+  const [terms, setTerms] = useState<AcademicTerm[]>([]);
   const [selectedAngkatan, setSelectedAngkatan] = useState<string>('');
-  const [selectedSemester, setSelectedSemester] = useState<number>(1);
+  const [selectedTermId, setSelectedTermId] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [studentGrades, setStudentGrades] = useState<StudentGrade[]>([]);
   const [courses, setCourses] = useState<Course[]>([]);
   const [curriculumFilter, setCurriculumFilter] = useState<string>('');
+  const [sectionList, setSectionList] = useState<string[]>([]);
+  const [sectionFilter, setSectionFilter] = useState<string>('');
   const [sortField, setSortField] = useState<'nim' | 'name' | 'rank'>('rank');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [layout, setLayout] = useState<DocumentLayout>(() => resolveLayout('semester_report', null, null));
 
   useEffect(() => {
     loadAngkatanList();
-    loadSemesterList();
+    loadTerms();
+    Promise.all([institutionProfileRepository.get(), documentTemplateRepository.get('semester_report')])
+      .then(([profile, template]) => setLayout(resolveLayout('semester_report', template, profile)))
+      .catch(err => console.error('Error loading report template:', err));
   }, []);
 
   const loadAngkatanList = async () => {
     try {
-      const { data } = await supabase
-        .from('students')
-        .select('angkatan')
-        .order('angkatan', { ascending: false });
-
-      if (data) {
-        const unique = Array.from(new Set(data.map(s => s.angkatan))).filter(Boolean);
-        setAngkatanList(unique);
-        if (unique.length > 0) {
-          setSelectedAngkatan(unique[0]);
-        }
+      const unique = await studentRepository.listAngkatan();
+      setAngkatanList(unique);
+      if (unique.length > 0) {
+        setSelectedAngkatan(unique[0]);
       }
     } catch (err) {
       console.error('Error loading angkatan:', err);
     }
   };
 
-  const loadSemesterList = async () => {
+  const loadTerms = async () => {
     try {
-      const { data } = await supabase
-        .from('courses')
-        .select('semester')
-        .order('semester');
-
-      if (data) {
-        const unique = Array.from(new Set(data.map(c => c.semester))).filter(Boolean);
-        setSemesterList(unique);
-      }
+      const termsData = await academicTermRepository.list();
+      setTerms(termsData);
+      setSelectedTermId((termsData.find(t => t.is_active) ?? termsData[0])?.id ?? '');
     } catch (err) {
-      console.error('Error loading semesters:', err);
+      console.error('Error loading academic terms:', err);
     }
   };
 
-  const getGradePoint = async (score: number, curriculum: string): Promise<number> => {
-    try {
-      const { data } = await supabase
-        .from('grading_scales')
-        .select('grade_point')
-        .eq('curriculum', curriculum)
-        .lte('min_score', score)
-        .gte('max_score', score)
-        .maybeSingle();
-
-      return data?.grade_point || 0;
-    } catch (err) {
-      console.error('Error getting grade point:', err);
-      return 0;
-    }
-  };
+  const selectedTerm = terms.find(t => t.id === selectedTermId);
+  const termName = selectedTerm ? formatTerm(selectedTerm) : '';
+  // Sheet and file names cannot contain the slash of the academic year
+  const termFileName = termName.replace(/[/ ]/g, '_');
 
   const loadReport = async () => {
-    if (!selectedAngkatan || !selectedSemester) {
-      alert('Pilih angkatan dan semester terlebih dahulu');
+    if (!selectedAngkatan || !selectedTerm) {
+      alert('Pilih angkatan dan periode terlebih dahulu');
       return;
     }
 
@@ -120,39 +120,48 @@ export function SemesterGradeReport() {
     try {
       const curriculum = curriculumFilter || selectedAngkatan;
 
-      const { data: coursesData } = await supabase
-        .from('courses')
-        .select('*')
-        .eq('semester', selectedSemester)
-        .eq('curriculum', curriculum)
-        .order('code');
+      const coursesData = await courseRepository.list({ termId: selectedTerm.id, curriculum });
 
-      if (!coursesData || coursesData.length === 0) {
-        alert(`Tidak ada mata kuliah untuk semester ${selectedSemester} kurikulum ${curriculum}`);
+      if (coursesData.length === 0) {
+        alert(`Tidak ada mata kuliah pada periode ${termName} kurikulum ${curriculum}`);
         setLoading(false);
         return;
       }
 
       setCourses(coursesData);
 
-      const { data: studentsData } = await supabase
-        .from('students')
-        .select('*')
-        .eq('angkatan', selectedAngkatan)
-        .order('nim');
+      const studentsData = await studentRepository.list({ angkatan: selectedAngkatan });
 
-      if (!studentsData || studentsData.length === 0) {
+      if (studentsData.length === 0) {
         alert('Tidak ada mahasiswa untuk angkatan ini');
         setLoading(false);
         return;
       }
 
-      const { data: gradesData } = await supabase
-        .from('grades')
-        .select('*')
-        .in('course_id', coursesData.map(c => c.id))
-        .in('student_id', studentsData.map(s => s.id));
+      // Only grades earned in the selected term count towards the report
+      const [gradesData, enrollmentsData, offeringsData, priorAttempts] = await Promise.all([
+        gradeRepository.listForTerm(selectedTerm.id, studentsData.map(s => s.id)),
+        enrollmentRepository.listForCourses(coursesData.map(c => c.id), studentsData.map(s => s.id)),
+        courseOfferingRepository.list(coursesData.map(c => c.id)),
+        gradeRepository.listPriorAttempts(
+          coursesData.map(c => c.code),
+          studentsData.map(s => s.id),
+          selectedTerm.start_date
+        ),
+      ]);
+      const retaken = new Set(priorAttempts.map(a => `${a.student_id}:${a.course.code}`));
+
+      const sectionByOffering = new Map(offeringsData.map(o => [o.id, o.section]));
+      const sectionsByStudent = new Map<string, Set<string>>();
+      for (const enrollment of enrollmentsData) {
+        const section = sectionByOffering.get(enrollment.offering_id);
+        if (!section) continue;
+        const sections = sectionsByStudent.get(enrollment.student_id) ?? new Set<string>();
+        sections.add(section);
+        sectionsByStudent.set(enrollment.student_id, sections);
+      }
 
+      const gradingScale = await gradingEngine.getScale(curriculum);
       const studentGradesMap: { [key: string]: StudentGrade } = {};
 
       for (const student of studentsData) {
@@ -161,6 +170,7 @@ export function SemesterGradeReport() {
           nim: student.nim,
           name: student.name,
           angkatan: student.angkatan,
+          sections: [...(sectionsByStudent.get(student.id) ?? [])].sort(),
           courses: {},
           totalScore: 0,
           totalGradePoint: 0,
@@ -170,16 +180,17 @@ export function SemesterGradeReport() {
         };
       }
 
-      for (const grade of gradesData || []) {
+      for (const grade of gradesData) {
         const course = coursesData.find(c => c.id === grade.course_id);
         if (course && studentGradesMap[grade.student_id]) {
-          const gradePoint = await getGradePoint(grade.score, curriculum);
+          const { gradePoint } = resolveGrade(grade.score, gradingScale);
 
           studentGradesMap[grade.student_id].courses[grade.course_id] = {
             score: grade.score,
             letter_grade: grade.letter_grade,
             grade_point: gradePoint,
             credits: course.credits,
+            retake: retaken.has(`${grade.student_id}:${course.code}`),
           };
         }
       }
@@ -217,6 +228,8 @@ export function SemesterGradeReport() {
         student.rank = index + 1;
       });
 
+      setSectionList([...new Set(offeringsData.map(o => o.section))].sort());
+      setSectionFilter('');
       setStudentGrades(studentsList);
     } catch (err) {
       console.error('Error loading report:', err);
@@ -235,8 +248,11 @@ export function SemesterGradeReport() {
     }
   };
 
+  // Ranks stay those of the whole angkatan; the class filter only narrows the list
   const getSortedStudents = () => {
-    const sorted = [...studentGrades];
+    const sorted = sectionFilter
+      ? studentGrades.filter(student => student.sections.includes(sectionFilter))
+      : [...studentGrades];
 
     sorted.sort((a, b) => {
       let compareValue = 0;
@@ -257,105 +273,124 @@ export function SemesterGradeReport() {
 
   const sortedStudentGrades = getSortedStudents();
 
+  // Columns picked by the semester report template, split into the student, per-course and total groups
+  const identityColumns = STUDENT_COLUMNS.filter(key => layout.columns.includes(key));
+  const courseColumns = COURSE_COLUMNS.filter(key => layout.columns.includes(key));
+  const totalColumns = TOTAL_COLUMNS.filter(key => layout.columns.includes(key));
+
+  const studentRow = (student: StudentGrade, index: number): (string | number)[] => {
+    const identity: Record<string, string | number> = { no: index + 1, nim: student.nim, name: student.name };
+    const totals: Record<string, string | number> = {
+      total_score: student.totalScore.toFixed(2),
+      total_grade_point: student.totalGradePoint.toFixed(2),
+      total_credits: student.totalCredits,
+      ipk: student.gpa.toFixed(2),
+      rank: student.rank,
+    };
+
+    return [
+      ...identityColumns.map(key => identity[key]),
+      ...courses.flatMap(course => {
+        const grade = student.courses[course.id];
+        if (!grade) return courseColumns.map(() => '-');
+        const values: Record<string, string | number> = {
+          score: grade.score,
+          letter: letterWithRetake(grade),
+          grade_point: grade.grade_point.toFixed(2),
+          credits: grade.credits,
+        };
+        return courseColumns.map(key => values[key]);
+      }),
+      ...totalColumns.map(key => totals[key]),
+    ];
+  };
+
+  const reportTitle = `Nilai ${termName} - Angkatan ${selectedAngkatan}`;
+  const reportSubtitle = `Kurikulum: ${curriculumFilter || selectedAngkatan}${sectionFilter ? ` - Kelas ${sectionFilter}` : ''}`;
+
   const exportToExcel = () => {
-    const worksheetData: any[] = [];
+    const worksheetData: (string | number)[][] = [...sheetLetterhead(layout), [reportTitle], [reportSubtitle], []];
+    const headerRowIndex = worksheetData.length;
 
-    const headerRow1 = ['No', 'NIM', 'Nama Mahasiswa'];
-    courses.forEach(course => {
-      headerRow1.push(course.code, '', '', '');
-    });
-    headerRow1.push('Total Nilai', 'Total Grade Point', 'Total SKS', 'IPK', 'Peringkat');
+    const headerRow1: string[] = identityColumns.map(key => COLUMN_LABELS[key]);
+    if (courseColumns.length > 0) {
+      courses.forEach(course => {
+        headerRow1.push(course.code, ...courseColumns.slice(1).map(() => ''));
+      });
+    }
+    headerRow1.push(...totalColumns.map(key => COLUMN_LABELS[key]));
 
-    const headerRow2 = ['', '', ''];
+    const headerRow2: string[] = identityColumns.map(() => '');
     courses.forEach(() => {
-      headerRow2.push('Nilai', 'Grade', 'GP', 'SKS');
+      headerRow2.push(...courseColumns.map(key => COLUMN_LABELS[key]));
     });
-    headerRow2.push('', '', '', '', '');
+    headerRow2.push(...totalColumns.map(() => ''));
 
     worksheetData.push(headerRow1);
     worksheetData.push(headerRow2);
 
     sortedStudentGrades.forEach((student, index) => {
-      const row = [index + 1, student.nim, student.name];
-
-      courses.forEach(course => {
-        const grade = student.courses[course.id];
-        if (grade) {
-          row.push(
-            grade.score,
-            grade.letter_grade,
-            grade.grade_point.toFixed(2),
-            grade.credits
-          );
-        } else {
-          row.push('-', '-', '-', '-');
-        }
-      });
-
-      row.push(
-        student.totalScore.toFixed(2),
-        student.totalGradePoint.toFixed(2),
-        student.totalCredits,
-        student.gpa.toFixed(2),
-        student.rank
-      );
-
-      worksheetData.push(row);
+      worksheetData.push(studentRow(student, index));
     });
 
+    worksheetData.push([], ...sheetSignature(layout, new Date(), Math.max(headerRow1.length - 3, 1)));
+    if (layout.footer) worksheetData.push([], [layout.footer]);
+
     const worksheet = XLSX.utils.aoa_to_sheet(worksheetData);
 
     // Apply cell styling for score highlighting
-    const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+    const firstStudentRow = headerRowIndex + 2; // after both header rows
+    const scoreOffset = courseColumns.indexOf('score');
+    const letterOffset = courseColumns.indexOf('letter');
 
-    for (let row = 2; row < worksheetData.length; row++) { // Start from row 2 (after headers)
-      let colIndex = 3; // Start after No, NIM, Nama
+    for (let row = firstStudentRow; row < firstStudentRow + sortedStudentGrades.length; row++) {
+      let colIndex = identityColumns.length;
 
       courses.forEach(course => {
-        const studentIndex = row - 2;
-        const student = sortedStudentGrades[studentIndex];
+        const student = sortedStudentGrades[row - firstStudentRow];
         const grade = student?.courses[course.id];
 
         if (grade && grade.score < 75) {
-          const scoreCell = XLSX.utils.encode_cell({ r: row, c: colIndex });
-          const gradeCell = XLSX.utils.encode_cell({ r: row, c: colIndex + 1 });
-
           const fillColor = grade.score < 70 ? 'FFCCCC' : 'FFFFCC'; // Red or Yellow
           const fontColor = grade.score < 70 ? 'CC0000' : 'CC8800'; // Dark red or Dark yellow
 
-          if (!worksheet[scoreCell]) worksheet[scoreCell] = { t: 'n', v: grade.score };
-          if (!worksheet[gradeCell]) worksheet[gradeCell] = { t: 's', v: grade.letter_grade };
+          for (const offset of [scoreOffset, letterOffset]) {
+            if (offset < 0) continue;
+            const cell = XLSX.utils.encode_cell({ r: row, c: colIndex + offset });
+            if (!worksheet[cell]) continue;
 
-          worksheet[scoreCell].s = {
-            fill: { fgColor: { rgb: fillColor } },
-            font: { bold: true, color: { rgb: fontColor } },
-            alignment: { horizontal: 'center', vertical: 'center' }
-          };
-
-          worksheet[gradeCell].s = {
-            fill: { fgColor: { rgb: fillColor } },
-            font: { bold: true, color: { rgb: fontColor } },
-            alignment: { horizontal: 'center', vertical: 'center' }
-          };
+            worksheet[cell].s = {
+              fill: { fgColor: { rgb: fillColor } },
+              font: { bold: true, color: { rgb: fontColor } },
+              alignment: { horizontal: 'center', vertical: 'center' }
+            };
+          }
         }
 
-        colIndex += 4; // Move to next course (Nilai, Grade, GP, SKS)
+        colIndex += courseColumns.length;
       });
     }
 
     const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, `Semester ${selectedSemester}`);
+    XLSX.utils.book_append_sheet(workbook, worksheet, termName.replace('/', '-'));
 
     XLSX.writeFile(
       workbook,
-      `Nilai_Semester_${selectedSemester}_Angkatan_${selectedAngkatan}.xlsx`
+      `Nilai_${termFileName}_Angkatan_${selectedAngkatan}${sectionFilter ? `_Kelas_${sectionFilter}` : ''}.xlsx`
     );
   };
 
   const exportToPDF = () => {
-    // Calculate dynamic width based on number of courses
-    const baseWidth = 100; // For No, NIM, Nama, Totals, IPK, Rank
-    const courseWidth = courses.length * 40; // 40mm per course (4 columns x 10mm)
+    const identityWidths: Record<string, number> = { no: 10, nim: 25, name: 45 };
+    const totalWidths: Record<string, number> = { total_score: 15, total_grade_point: 15, total_credits: 10, ipk: 15, rank: 10 };
+    const courseColumnWidth = (key: string) => (key === 'score' || key === 'letter' ? 12 : 10);
+
+    // Calculate dynamic width based on number of courses and the template's columns
+    const baseWidth =
+      identityColumns.reduce((sum, key) => sum + identityWidths[key], 0) +
+      totalColumns.reduce((sum, key) => sum + totalWidths[key], 0) +
+      20; // margins
+    const courseWidth = courses.length * courseColumns.reduce((sum, key) => sum + courseColumnWidth(key), 0);
     const totalWidth = baseWidth + courseWidth;
 
     // Use custom page size with dynamic width
@@ -368,109 +403,76 @@ export function SemesterGradeReport() {
       format: [pageWidth, pageHeight],
     });
 
+    let y = drawPdfLetterhead(doc, layout);
+
+    doc.setFont(layout.fontFamily, 'bold');
     doc.setFontSize(16);
-    doc.text(`Nilai Semester ${selectedSemester} - Angkatan ${selectedAngkatan}`, 14, 15);
+    doc.text(reportTitle, 14, y);
 
+    doc.setFont(layout.fontFamily, 'normal');
     doc.setFontSize(10);
-    doc.text(`Kurikulum: ${curriculumFilter || selectedAngkatan}`, 14, 22);
+    doc.text(reportSubtitle, 14, y + 7);
+    y += 13;
 
     // Build headers with course names
-    const headerRow1: any[] = [
-      { content: 'No', rowSpan: 2 },
-      { content: 'NIM', rowSpan: 2 },
-      { content: 'Nama', rowSpan: 2 },
-    ];
+    const headerRow1: CellInput[] = identityColumns.map(key => ({ content: COLUMN_LABELS[key], rowSpan: 2 }));
 
-    courses.forEach(course => {
-      headerRow1.push({
-        content: `${course.code}\n${course.name}`,
-        colSpan: 4,
+    if (courseColumns.length > 0) {
+      courses.forEach(course => {
+        headerRow1.push({
+          content: `${course.code}\n${course.name}`,
+          colSpan: courseColumns.length,
+        });
       });
-    });
+    }
 
-    headerRow1.push(
-      { content: 'Total\nNilai', rowSpan: 2 },
-      { content: 'Total\nGP', rowSpan: 2 },
-      { content: 'SKS', rowSpan: 2 },
-      { content: 'IPK', rowSpan: 2 },
-      { content: 'Rank', rowSpan: 2 }
-    );
+    headerRow1.push(...totalColumns.map(key => ({ content: COLUMN_LABELS[key].replace(' ', '\n'), rowSpan: 2 })));
 
-    const headerRow2: string[] = ['', '', ''];
+    const headerRow2: string[] = [];
     courses.forEach(() => {
-      headerRow2.push('Nilai', 'Grade', 'GP', 'SKS');
+      headerRow2.push(...courseColumns.map(key => COLUMN_LABELS[key]));
     });
-    headerRow2.push('', '', '', '', '');
-
-    const headers = [headerRow1, headerRow2];
 
-    const tableData = sortedStudentGrades.map((student, index) => {
-      const row = [
-        (index + 1).toString(),
-        student.nim,
-        student.name,
-      ];
+    const headers = courseColumns.length > 0 ? [headerRow1, headerRow2] : [headerRow1];
 
-      courses.forEach(course => {
-        const grade = student.courses[course.id];
-        if (grade) {
-          row.push(
-            grade.score.toString(),
-            grade.letter_grade,
-            grade.grade_point.toFixed(2),
-            grade.credits.toString()
-          );
-        } else {
-          row.push('-', '-', '-', '-');
-        }
-      });
-
-      row.push(
-        student.totalScore.toFixed(2),
-        student.totalGradePoint.toFixed(2),
-        student.totalCredits.toString(),
-        student.gpa.toFixed(2),
-        student.rank.toString()
-      );
-
-      return row;
-    });
+    const tableData = sortedStudentGrades.map((student, index) => studentRow(student, index).map(String));
 
     // Build column styles dynamically
-    const columnStyles: any = {
-      0: { cellWidth: 10, halign: 'center' }, // No
-      1: { cellWidth: 25, halign: 'left' }, // NIM
-      2: { cellWidth: 45, halign: 'left' }, // Nama
-    };
+    const columnStyles: { [column: number]: Partial<Styles> } = {};
+    identityColumns.forEach((key, idx) => {
+      columnStyles[idx] = { cellWidth: identityWidths[key], halign: key === 'no' ? 'center' : 'left' };
+    });
 
-    let colIndex = 3;
+    let colIndex = identityColumns.length;
     courses.forEach(() => {
-      columnStyles[colIndex] = { cellWidth: 12, halign: 'center' }; // Nilai
-      columnStyles[colIndex + 1] = { cellWidth: 12, halign: 'center' }; // Grade
-      columnStyles[colIndex + 2] = { cellWidth: 10, halign: 'center' }; // GP
-      columnStyles[colIndex + 3] = { cellWidth: 10, halign: 'center' }; // SKS
-      colIndex += 4;
+      courseColumns.forEach(key => {
+        columnStyles[colIndex++] = { cellWidth: courseColumnWidth(key), halign: 'center' };
+      });
     });
 
-    // Total columns
-    columnStyles[colIndex] = { cellWidth: 15, halign: 'center', fontStyle: 'bold' }; // Total Nilai
-    columnStyles[colIndex + 1] = { cellWidth: 15, halign: 'center', fontStyle: 'bold' }; // Total GP
-    columnStyles[colIndex + 2] = { cellWidth: 10, halign: 'center', fontStyle: 'bold' }; // SKS
-    columnStyles[colIndex + 3] = { cellWidth: 15, halign: 'center', fontStyle: 'bold', fontSize: 9 }; // IPK
-    columnStyles[colIndex + 4] = { cellWidth: 10, halign: 'center', fontStyle: 'bold' }; // Rank
+    const totalColStart = colIndex;
+    totalColumns.forEach(key => {
+      columnStyles[colIndex++] = {
+        cellWidth: totalWidths[key],
+        halign: 'center',
+        fontStyle: 'bold',
+        ...(key === 'ipk' ? { fontSize: 9 } : {}),
+      };
+    });
 
     autoTable(doc, {
       head: headers,
       body: tableData,
-      startY: 28,
+      startY: y,
       styles: {
+        font: layout.fontFamily,
         fontSize: 8,
         cellPadding: 2,
         lineWidth: 0.1,
         lineColor: [200, 200, 200],
       },
       headStyles: {
-        fillColor: [41, 128, 185],
+        fillColor: hexToRgb(layout.primaryColor),
         textColor: [255, 255, 255],
         fontSize: 8,
         fontStyle: 'bold',
@@ -480,39 +482,38 @@ export function SemesterGradeReport() {
       },
       columnStyles: columnStyles,
       alternateRowStyles: {
-        fillColor: [245, 245, 245],
+        fillColor: hexToRgb(layout.accentColor),
       },
       didParseCell: function(data) {
         if (data.section === 'body') {
           const rowIndex = data.row.index;
           const colIndex = data.column.index;
 
-          // Total columns styling
-          const totalColStart = 3 + (courses.length * 4);
-          if (colIndex >= totalColStart && colIndex < totalColStart + 3) {
-            data.cell.styles.fillColor = [255, 248, 220]; // Light yellow for totals
-            data.cell.styles.fontStyle = 'bold';
-          }
+          if (colIndex >= totalColStart) {
+            const key = totalColumns[colIndex - totalColStart];
 
-          // IPK column styling
-          if (colIndex === totalColStart + 3) {
-            data.cell.styles.fillColor = [220, 255, 220]; // Light green for IPK
-            data.cell.styles.fontStyle = 'bold';
-            data.cell.styles.fontSize = 9;
-          }
+            // Total columns styling
+            if (key === 'total_score' || key === 'total_grade_point' || key === 'total_credits') {
+              data.cell.styles.fillColor = [255, 248, 220]; // Light yellow for totals
+              data.cell.styles.fontStyle = 'bold';
+            }
 
-          // Rank column styling
-          if (colIndex === totalColStart + 4) {
-            data.cell.styles.fontStyle = 'bold';
+            // IPK column styling
+            if (key === 'ipk') {
+              data.cell.styles.fillColor = [220, 255, 220]; // Light green for IPK
+              data.cell.styles.fontStyle = 'bold';
+              data.cell.styles.fontSize = 9;
+            }
           }
 
-          // Calculate which course column this is (after No, NIM, Nama)
-          if (colIndex >= 3 && colIndex < totalColStart) {
-            const relativeCourseCol = (colIndex - 3) % 4;
-            const courseIndex = Math.floor((colIndex - 3) / 4);
+          // Calculate which course column this is (after the student columns)
+          if (colIndex >= identityColumns.length && colIndex < totalColStart) {
+            const relativeCourseCol = (colIndex - identityColumns.length) % courseColumns.length;
+            const courseIndex = Math.floor((colIndex - identityColumns.length) / courseColumns.length);
 
-            // Check if this is a Nilai (0) or Grade (1) column
-            if ((relativeCourseCol === 0 || relativeCourseCol === 1) && courseIndex < courses.length) {
+            // Check if this is a Nilai or Grade column
+            const key = courseColumns[relativeCourseCol];
+            if ((key === 'score' || key === 'letter') && courseIndex < courses.length) {
               const student = sortedStudentGrades[rowIndex];
               const course = courses[courseIndex];
               const grade = student?.courses[course.id];
@@ -536,20 +537,19 @@ export function SemesterGradeReport() {
 
         // Header styling for course names
         if (data.section === 'head' && data.row.index === 0) {
-          if (data.column.index >= 3) {
-            const courseIndex = Math.floor((data.column.index - 3) / 4);
-            if (courseIndex < courses.length) {
-              data.cell.styles.fillColor = [52, 152, 219]; // Blue for course headers
-              data.cell.styles.fontSize = 7;
-            }
+          if (data.column.index >= identityColumns.length && data.column.index < totalColStart) {
+            data.cell.styles.fontSize = 7;
           }
         }
       },
-      margin: { top: 28, left: 10, right: 10, bottom: 10 },
+      margin: { top: 15, left: 10, right: 10, bottom: 15 },
       tableWidth: 'auto',
     });
 
-    doc.save(`Nilai_Semester_${selectedSemester}_Angkatan_${selectedAngkatan}.pdf`);
+    drawPdfSignature(doc, layout, new Date(), lastTableY(doc, y) + 12);
+    drawPdfFooters(doc, layout);
+
+    doc.save(`Nilai_${termFileName}_Angkatan_${selectedAngkatan}${sectionFilter ? `_Kelas_${sectionFilter}` : ''}.pdf`);
   };
 
   const printReport = () => {
@@ -568,11 +568,12 @@ export function SemesterGradeReport() {
       <div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4">
         <h4 className="font-semibold text-blue-900 mb-2">Tentang Laporan:</h4>
         <ul className="text-sm text-blue-800 space-y-1">
-          <li>• Menampilkan nilai seluruh mahasiswa dalam satu semester</li>
+          <li>• Menampilkan nilai seluruh mahasiswa dalam satu periode akademik</li>
           <li>• Format landscape dengan mata kuliah memanjang ke kanan</li>
           <li>• Setiap mata kuliah menampilkan: Nilai, Grade, Grade Point, SKS</li>
           <li>• Menampilkan Total Nilai, Total Grade Point, IPK, dan Peringkat</li>
           <li>• Peringkat berdasarkan IPK → Total Grade Point → Total Nilai</li>
+          <li>• Filter kelas paralel hanya menyaring daftar, peringkat tetap untuk seluruh angkatan</li>
         </ul>
       </div>
 
@@ -595,15 +596,18 @@ export function SemesterGradeReport() {
 
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
-            Semester *
+            Periode *
           </label>
           <select
-            value={selectedSemester}
-            onChange={(e) => setSelectedSemester(parseInt(e.target.value))}
+            value={selectedTermId}
+            onChange={(e) => setSelectedTermId(e.target.value)}
             className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
-            {semesterList.map(sem => (
-              <option key={sem} value={sem}>Semester {sem}</option>
+            <option value="">Pilih Periode</option>
+            {terms.map(term => (
+              <option key={term.id} value={term.id}>
+                {formatTerm(term)}{term.is_active ? ' (aktif)' : ''}
+              </option>
             ))}
           </select>
         </div>
@@ -634,6 +638,18 @@ export function SemesterGradeReport() {
 
         {studentGrades.length > 0 && (
           <>
+            {sectionList.length > 1 && (
+              <select
+                value={sectionFilter}
+                onChange={(e) => setSectionFilter(e.target.value)}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Semua Kelas</option>
+                {sectionList.map(section => (
+                  <option key={section} value={section}>Kelas {section}</option>
+                ))}
+              </select>
+            )}
             <button
               onClick={exportToExcel}
               className="flex items-center gap-2 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
@@ -731,7 +747,12 @@ export function SemesterGradeReport() {
                 <tr key={student.student_id} className={idx % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
                   <td className="px-3 py-2 border border-gray-300 text-center">{idx + 1}</td>
                   <td className="px-3 py-2 border border-gray-300">{student.nim}</td>
-                  <td className="px-3 py-2 border border-gray-300">{student.name}</td>
+                  <td className="px-3 py-2 border border-gray-300">
+                    {student.name}
+                    {sectionList.length > 1 && student.sections.length > 0 && (
+                      <div className="text-xs text-gray-500">Kelas {student.sections.join(', ')}</div>
+                    )}
+                  </td>
                   {courses.map(course => {
                     const grade = student.courses[course.id];
                     if (grade) {
@@ -750,6 +771,7 @@ export function SemesterGradeReport() {
                           </td>
                           <td className={`px-2 py-2 border border-gray-300 text-center font-semibold ${scoreColorClass}`}>
                             {grade.letter_grade}
+                            {grade.retake && <sup className="ml-0.5 text-xs text-purple-700" title="Mengulang">U</sup>}
                           </td>
                           <td className="px-2 py-2 border border-gray-300 text-center">{grade.grade_point.toFixed(2)}</td>
                           <td className="px-2 py-2 border border-gray-300 text-center">{grade.credits}</td>
@@ -788,6 +810,12 @@ export function SemesterGradeReport() {
         </div>
       )}
 
+      {sortedStudentGrades.some(student => Object.values(student.courses).some(grade => grade.retake)) && (
+        <p className="text-xs text-gray-500 mt-2">
+          U: mata kuliah diulang (mengulang); IPS periode ini menghitung nilai ulangan tersebut.
+        </p>
+      )}
+
       {!loading && studentGrades.length === 0 && selectedAngkatan && (
         <div className="text-center py-12 text-gray-500">
           <p>Belum ada data. Klik "Tampilkan Laporan" untuk memuat data.</p>
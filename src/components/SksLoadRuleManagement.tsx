@@ -0,0 +1,282 @@
+import { useEffect, useState } from 'react';
+import { Edit3, Gauge, Plus, Trash2, X } from 'lucide-react';
+import { RepositoryError, sksLoadRuleRepository, type SksLoadRule } from '../lib/repositories';
+
+interface SksLoadRuleForm {
+  min_ips: string;
+  max_credits: string;
+  description: string;
+}
+
+const EMPTY_FORM: SksLoadRuleForm = { min_ips: '', max_credits: '', description: '' };
+
+export function SksLoadRuleManagement() {
+  const [rules, setRules] = useState<SksLoadRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<SksLoadRuleForm>(EMPTY_FORM);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      setRules(await sksLoadRuleRepository.list());
+    } catch (err) {
+      console.error('Error loading SKS load rules:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+    setError('');
+  };
+
+  const handleEdit = (rule: SksLoadRule) => {
+    setEditingId(rule.id);
+    setFormData({
+      min_ips: rule.min_ips === null ? '' : rule.min_ips.toFixed(2),
+      max_credits: String(rule.max_credits),
+      description: rule.description || '',
+    });
+    setError('');
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const minIps = formData.min_ips.trim() === '' ? null : parseFloat(formData.min_ips);
+    const maxCredits = parseInt(formData.max_credits, 10);
+
+    if ((minIps !== null && (isNaN(minIps) || minIps < 0 || minIps > 4)) || isNaN(maxCredits)) {
+      setError('IPS minimum harus antara 0-4 dan batas SKS harus berupa angka');
+      return;
+    }
+
+    if (maxCredits <= 0 || maxCredits > 40) {
+      setError('Batas SKS harus antara 1-40');
+      return;
+    }
+
+    try {
+      const dataToSave = {
+        min_ips: minIps,
+        max_credits: maxCredits,
+        description: formData.description.trim() || null,
+      };
+
+      if (editingId) {
+        await sksLoadRuleRepository.update(editingId, dataToSave);
+      } else {
+        await sksLoadRuleRepository.create(dataToSave);
+      }
+
+      closeForm();
+      loadRules();
+    } catch (err) {
+      if (err instanceof RepositoryError && err.isUniqueViolation) {
+        setError(minIps === null ? 'Aturan mahasiswa baru sudah ada' : `Aturan untuk IPS ${minIps.toFixed(2)} sudah ada`);
+      } else {
+        setError(err instanceof Error ? err.message : 'Gagal menyimpan aturan');
+      }
+    }
+  };
+
+  const handleDelete = async (rule: SksLoadRule) => {
+    if (!confirm('Hapus aturan batas SKS ini?')) return;
+
+    try {
+      await sksLoadRuleRepository.remove(rule.id);
+      loadRules();
+    } catch (err) {
+      alert('Gagal menghapus aturan: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  // Rules are sorted by threshold, so each rule's range ends where the one above starts
+  const describeRange = (rule: SksLoadRule, index: number) => {
+    if (rule.min_ips === null) return 'Mahasiswa baru (belum ada IPS)';
+    const above = rules[index - 1];
+    if (!above || above.min_ips === null) return `IPS ≥ ${rule.min_ips.toFixed(2)}`;
+    return `${rule.min_ips.toFixed(2)} ≤ IPS < ${above.min_ips.toFixed(2)}`;
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
+        <div className="w-12 h-12 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-gray-600">Memuat data...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Batas SKS</h2>
+          <p className="text-gray-600 mt-1">
+            Batas SKS per semester ditentukan dari IPS mahasiswa pada semester sebelumnya
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            closeForm();
+            setShowForm(true);
+          }}
+          className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+        >
+          <Plus className="w-5 h-5" />
+          Tambah Aturan
+        </button>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg overflow-hidden">
+        {rules.length === 0 ? (
+          <div className="p-12 text-center">
+            <Gauge className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">Belum ada aturan, jumlah SKS tidak dibatasi</p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  IPS Semester Lalu
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Maks. SKS
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Keterangan
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Aksi
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rules.map((rule, index) => (
+                <tr key={rule.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">{describeRange(rule, index)}</td>
+                  <td className="px-6 py-4 text-sm text-center">
+                    <span className="px-3 py-1 bg-purple-100 text-purple-800 rounded-full font-semibold">
+                      {rule.max_credits}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{rule.description}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center space-x-2">
+                    <button
+                      onClick={() => handleEdit(rule)}
+                      className="inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium bg-blue-50 text-blue-600 hover:bg-blue-100"
+                    >
+                      <Edit3 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      className="inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium bg-red-50 text-red-600 hover:bg-red-100"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-xl max-w-md w-full p-6">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-2xl font-bold text-gray-800">
+                {editingId ? 'Edit Aturan' : 'Tambah Aturan'}
+              </h3>
+              <button onClick={closeForm} className="p-2 hover:bg-gray-100 rounded-lg">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+                {error}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  IPS Minimum
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="4"
+                  value={formData.min_ips}
+                  onChange={(e) => setFormData({ ...formData, min_ips: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  placeholder="Kosongkan untuk mahasiswa baru"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Maksimal SKS *
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max="40"
+                  value={formData.max_credits}
+                  onChange={(e) => setFormData({ ...formData, max_credits: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Keterangan
+                </label>
+                <input
+                  type="text"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  placeholder="Contoh: IPS 2.50 - 2.99"
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50"
+                >
+                  Batal
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700"
+                >
+                  Simpan
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
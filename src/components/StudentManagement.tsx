@@ -1,16 +1,9 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import { courseRepository, lecturerRepository, studentRepository, type Lecturer, type Student } from '../lib/repositories';
 import { UserPlus, Trash2, Search, Mail, User, Calendar, Upload } from 'lucide-react';
 import { BulkStudentUpload } from './BulkStudentUpload';
 
-interface Student {
-  id: string;
-  email: string;
-  name: string;
-  student_id: string;
-  created_at: string;
-}
-
 export default function StudentManagement() {
   const [students, setStudents] = useState<Student[]>([]);
   const [loading, setLoading] = useState(true);
@@ -21,25 +14,27 @@ export default function StudentManagement() {
     email: '',
     password: '',
     name: '',
-    student_id: '',
+    nim: '',
     angkatan: '',
   });
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState('');
+  const [curricula, setCurricula] = useState<string[]>([]);
+  const [lecturers, setLecturers] = useState<Lecturer[]>([]);
 
   useEffect(() => {
     fetchStudents();
+    Promise.all([courseRepository.listCurricula(), lecturerRepository.list()])
+      .then(([curriculumList, lecturerList]) => {
+        setCurricula(curriculumList);
+        setLecturers(lecturerList);
+      })
+      .catch(err => console.error('Error fetching curricula and lecturers:', err));
   }, []);
 
   const fetchStudents = async () => {
     try {
-      const { data, error } = await supabase
-        .from('students')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setStudents(data || []);
+      setStudents(await studentRepository.listNewestFirst());
     } catch (err) {
       console.error('Error fetching students:', err);
     } finally {
@@ -61,19 +56,15 @@ export default function StudentManagement() {
       if (authError) throw authError;
 
       if (authData.user) {
-        const { error: studentError } = await supabase
-          .from('students')
-          .insert({
-            id: authData.user.id,
-            email: formData.email,
-            name: formData.name,
-            student_id: formData.student_id,
-            angkatan: formData.angkatan,
-          });
+        await studentRepository.create({
+          id: authData.user.id,
+          email: formData.email,
+          name: formData.name,
+          nim: formData.nim,
+          angkatan: formData.angkatan,
+        });
 
-        if (studentError) throw studentError;
-
-        setFormData({ email: '', password: '', name: '', student_id: '', angkatan: '' });
+        setFormData({ email: '', password: '', name: '', nim: '', angkatan: '' });
         setShowAddForm(false);
         fetchStudents();
       }
@@ -88,12 +79,7 @@ export default function StudentManagement() {
     if (!confirm('Are you sure you want to delete this student?')) return;
 
     try {
-      const { error } = await supabase
-        .from('students')
-        .delete()
-        .eq('id', studentId);
-
-      if (error) throw error;
+      await studentRepository.remove(studentId);
       fetchStudents();
     } catch (err) {
       console.error('Error deleting student:', err);
@@ -101,11 +87,22 @@ export default function StudentManagement() {
     }
   };
 
+  // Curriculum and advisor decide which courses a student can put in a KRS and who approves it
+  const handleAcademicChange = async (student: Student, fields: Pick<Student, 'curriculum' | 'advisor_id'>) => {
+    try {
+      await studentRepository.updateAcademic(student.id, fields);
+      setStudents(prev => prev.map(s => (s.id === student.id ? { ...s, ...fields } : s)));
+    } catch (err) {
+      console.error('Error updating student:', err);
+      alert('Failed to update student');
+    }
+  };
+
   const filteredStudents = students.filter(
     (student) =>
       student.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       student.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      student.student_id.toLowerCase().includes(searchTerm.toLowerCase())
+      student.nim.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
   if (loading) {
@@ -178,8 +175,8 @@ export default function StudentManagement() {
               <input
                 type="text"
                 required
-                value={formData.student_id}
-                onChange={(e) => setFormData({ ...formData, student_id: e.target.value })}
+                value={formData.nim}
+                onChange={(e) => setFormData({ ...formData, nim: e.target.value })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 placeholder="STU001"
               />
@@ -237,7 +234,7 @@ export default function StudentManagement() {
                 onClick={() => {
                   setShowAddForm(false);
                   setError('');
-                  setFormData({ email: '', password: '', name: '', student_id: '', angkatan: '' });
+                  setFormData({ email: '', password: '', name: '', nim: '', angkatan: '' });
                 }}
                 className="px-6 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
               >
@@ -278,6 +275,12 @@ export default function StudentManagement() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Angkatan
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Curriculum
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Advisor
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Registered
                 </th>
@@ -289,7 +292,7 @@ export default function StudentManagement() {
             <tbody className="bg-white divide-y divide-gray-200">
               {filteredStudents.length === 0 ? (
                 <tr>
-                  <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                  <td colSpan={8} className="px-6 py-12 text-center text-gray-500">
                     {searchTerm ? 'No students found matching your search' : 'No students registered yet'}
                   </td>
                 </tr>
@@ -299,7 +302,7 @@ export default function StudentManagement() {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center gap-2">
                         <User className="w-4 h-4 text-gray-400" />
-                        <span className="text-sm font-medium text-gray-900">{student.student_id}</span>
+                        <span className="text-sm font-medium text-gray-900">{student.nim}</span>
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -313,9 +316,37 @@ export default function StudentManagement() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className="inline-flex px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded-full">
-                        {(student as any).angkatan || '2024'}
+                        {student.angkatan || '2024'}
                       </span>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <select
+                        value={student.curriculum || ''}
+                        onChange={(e) => handleAcademicChange(student, { curriculum: e.target.value || null, advisor_id: student.advisor_id })}
+                        className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">-</option>
+                        {curricula.map(curriculum => (
+                          <option key={curriculum} value={curriculum}>
+                            {curriculum}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <select
+                        value={student.advisor_id || ''}
+                        onChange={(e) => handleAcademicChange(student, { curriculum: student.curriculum, advisor_id: e.target.value || null })}
+                        className="max-w-[12rem] px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">-</option>
+                        {lecturers.map(lecturer => (
+                          <option key={lecturer.id} value={lecturer.id}>
+                            {lecturer.name}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center gap-2">
                         <Calendar className="w-4 h-4 text-gray-400" />
@@ -1,34 +1,35 @@
-import { useState, useEffect } from 'react';
-import { Printer, Download, FileText, Table, FileSpreadsheet } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
+import { useState, useEffect, useRef } from 'react';
+import { Printer, Download, FileText, Table, FileSpreadsheet, Files } from 'lucide-react';
+import { gradingEngine, lookupRetakePolicy } from '../lib/grading';
+import { buildTranscript, type TranscriptData } from '../lib/transcript';
+import { SYSTEM_FONTS, resolveLayout, signatureLines, type DocumentLayout } from '../lib/documentTemplates';
+import {
+  mergedTranscriptPdf,
+  transcriptDocx,
+  transcriptFileName,
+  transcriptIdentity,
+  transcriptPdf,
+  transcriptSheet,
+  transcriptSummary,
+  transcriptTable,
+} from '../lib/transcriptDocuments';
+import { issueTranscript, type TranscriptIssue } from '../lib/transcriptVerification';
+import {
+  documentTemplateRepository,
+  institutionProfileRepository,
+  retakePolicyRepository,
+  studentRepository,
+  type Student,
+  type StudentFilter,
+} from '../lib/repositories';
 import * as XLSX from 'xlsx';
-import { Document, Packer, Paragraph, Table as DocxTable, TableCell, TableRow, WidthType, AlignmentType, HeadingLevel } from 'docx';
+import { Packer } from 'docx';
 import { saveAs } from 'file-saver';
+import JSZip from 'jszip';
 
-interface Student {
-  id: string;
-  nim: string;
+interface ExportFile {
   name: string;
-  angkatan: string;
-  email: string;
-}
-
-interface TranscriptData {
-  nim: string;
-  studentName: string;
-  angkatan: string;
-  email: string;
-  courses: {
-    courseCode: string;
-    courseName: string;
-    sks: number;
-    score: number;
-    letterGrade: string;
-  }[];
-  totalSKS: number;
-  averageScore: number;
+  content: Blob;
 }
 
 export function TranscriptPrint() {
@@ -39,21 +40,22 @@ export function TranscriptPrint() {
   const [filterMode, setFilterMode] = useState<'all' | 'angkatan' | 'single'>('all');
   const [loading, setLoading] = useState(false);
   const [transcriptData, setTranscriptData] = useState<TranscriptData[]>([]);
+  const [layout, setLayout] = useState<DocumentLayout>(() => resolveLayout('transcript', null, null));
   const [previewMode, setPreviewMode] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const cancelRequested = useRef(false);
 
   useEffect(() => {
     loadStudents();
     loadAngkatan();
+    Promise.all([institutionProfileRepository.get(), documentTemplateRepository.get('transcript')])
+      .then(([profile, template]) => setLayout(resolveLayout('transcript', template, profile)))
+      .catch(err => console.error('Error loading transcript template:', err));
   }, []);
 
   const loadStudents = async () => {
     try {
-      const { data } = await supabase
-        .from('students')
-        .select('id, nim, name, angkatan, email')
-        .order('nim');
-
-      setStudents(data || []);
+      setStudents(await studentRepository.list());
     } catch (err) {
       console.error('Error loading students:', err);
     }
@@ -61,81 +63,32 @@ export function TranscriptPrint() {
 
   const loadAngkatan = async () => {
     try {
-      const { data } = await supabase
-        .from('students')
-        .select('angkatan')
-        .order('angkatan');
-
-      if (data) {
-        const unique = Array.from(new Set(data.map(s => s.angkatan)));
-        setAngkatanList(unique);
-      }
+      setAngkatanList(await studentRepository.listAngkatan());
     } catch (err) {
       console.error('Error loading angkatan:', err);
     }
   };
 
   const fetchTranscriptData = async (): Promise<TranscriptData[]> => {
-    let query = supabase
-      .from('students')
-      .select(`
-        id,
-        nim,
-        name,
-        angkatan,
-        email,
-        grades (
-          score,
-          letter_grade,
-          course:courses (
-            code,
-            name,
-            credits
-          )
-        )
-      `);
-
+    const filter: StudentFilter = {};
     if (filterMode === 'angkatan' && selectedAngkatan) {
-      query = query.eq('angkatan', selectedAngkatan);
+      filter.angkatan = selectedAngkatan;
     } else if (filterMode === 'single' && selectedStudent) {
-      query = query.eq('id', selectedStudent);
+      filter.id = selectedStudent;
     }
 
-    const { data, error } = await query;
+    const [students, retakePolicies] = await Promise.all([
+      studentRepository.listWithGrades(filter),
+      retakePolicyRepository.list(),
+    ]);
 
-    if (error) {
-      console.error('Error fetching transcript:', error);
-      return [];
-    }
+    const scales = await gradingEngine.getScales(
+      students.flatMap(student => student.grades.map(g => g.course?.curriculum))
+    );
 
-    const transcripts: TranscriptData[] = (data || []).map((student: any) => {
-      const courses = (student.grades || [])
-        .filter((g: any) => g.course)
-        .map((grade: any) => ({
-          courseCode: grade.course.code,
-          courseName: grade.course.name,
-          sks: grade.course.credits,
-          score: parseFloat(grade.score),
-          letterGrade: grade.letter_grade,
-        }));
-
-      const totalSKS = courses.reduce((sum: number, c: any) => sum + c.sks, 0);
-      const averageScore = courses.length > 0
-        ? courses.reduce((sum: number, c: any) => sum + c.score, 0) / courses.length
-        : 0;
-
-      return {
-        nim: student.nim,
-        studentName: student.name,
-        angkatan: student.angkatan,
-        email: student.email,
-        courses,
-        totalSKS,
-        averageScore,
-      };
-    });
-
-    return transcripts;
+    return students.map(student =>
+      buildTranscript(student, scales, lookupRetakePolicy(retakePolicies, student.curriculum))
+    );
   };
 
   const handlePreview = async () => {
@@ -151,54 +104,67 @@ export function TranscriptPrint() {
     }
   };
 
+  /** Base name of a file holding every transcript of the current filter. */
+  const bulkFileName = (data: TranscriptData[]) =>
+    filterMode === 'single'
+      ? `Transkrip_${data[0].nim}`
+      : `Transkrip_${filterMode === 'angkatan' ? selectedAngkatan : 'Semua'}`;
+
+  /**
+   * Issues each transcript and renders the issued copy, one at a time so the
+   * progress bar can follow and Batal can stop between students. A student
+   * whose transcript is unchanged since the last export gets that document
+   * back with its number. Returns null when cancelled; transcripts issued
+   * before that stay recorded.
+   */
+  const issueEach = async <T,>(
+    data: TranscriptData[],
+    render: (transcript: TranscriptData, issue: TranscriptIssue) => Promise<T>
+  ): Promise<T[] | null> => {
+    cancelRequested.current = false;
+    setProgress({ done: 0, total: data.length });
+
+    const results: T[] = [];
+    try {
+      for (const transcript of data) {
+        if (cancelRequested.current) return null;
+        const issued = await issueTranscript(transcript.studentId);
+        results.push(await render(issued.transcript, issued.issue));
+        setProgress({ done: results.length, total: data.length });
+      }
+      return results;
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  /** A single file is saved as is; several are bundled into one ZIP, a single download. */
+  const saveFiles = async (files: ExportFile[], zipName: string) => {
+    if (files.length === 1) {
+      saveAs(files[0].content, files[0].name);
+      return;
+    }
+
+    const zip = new JSZip();
+    files.forEach(file => zip.file(file.name, file.content));
+    saveAs(await zip.generateAsync({ type: 'blob' }), `${zipName}.zip`);
+  };
+
   const exportToPDF = async () => {
     setLoading(true);
     try {
       const data = transcriptData.length > 0 ? transcriptData : await fetchTranscriptData();
 
-      data.forEach((transcript, index) => {
-        const doc = new jsPDF();
-
-        doc.setFontSize(18);
-        doc.text('TRANSKRIP NILAI MAHASISWA', 105, 20, { align: 'center' });
-
-        doc.setFontSize(12);
-        doc.text(`NIM: ${transcript.nim}`, 20, 40);
-        doc.text(`Nama: ${transcript.studentName}`, 20, 48);
-        doc.text(`Angkatan: ${transcript.angkatan}`, 20, 56);
-        doc.text(`Email: ${transcript.email}`, 20, 64);
-
-        const tableData = transcript.courses.map((course, idx) => [
-          idx + 1,
-          course.courseCode,
-          course.courseName,
-          course.sks,
-          course.score.toFixed(2),
-          course.letterGrade,
-        ]);
-
-        autoTable(doc, {
-          startY: 75,
-          head: [['No', 'Kode MK', 'Nama Mata Kuliah', 'SKS', 'Nilai', 'Grade']],
-          body: tableData,
-          foot: [
-            ['', '', 'Total SKS', transcript.totalSKS, '', ''],
-            ['', '', 'Rata-rata Nilai', transcript.averageScore.toFixed(2), '', ''],
-          ],
-          theme: 'grid',
-          headStyles: { fillColor: [79, 70, 229] },
-          footStyles: { fillColor: [243, 244, 246], textColor: [0, 0, 0], fontStyle: 'bold' },
-        });
-
-        const fileName = `Transkrip_${transcript.nim}_${transcript.studentName.replace(/\s+/g, '_')}.pdf`;
-
-        if (index === data.length - 1) {
-          doc.save(fileName);
-        } else {
-          doc.save(fileName);
-        }
-      });
+      const files = await issueEach(data, async (transcript, issue) => ({
+        name: transcriptFileName(transcript, 'pdf'),
+        content: transcriptPdf(transcript, layout, issue).output('blob'),
+      }));
+      if (!files) {
+        alert('Export PDF dibatalkan');
+        return;
+      }
 
+      await saveFiles(files, bulkFileName(data));
       alert(`Berhasil export ${data.length} transkrip ke PDF`);
     } catch (err) {
       alert('Error exporting PDF: ' + (err instanceof Error ? err.message : 'Unknown error'));
@@ -207,6 +173,26 @@ export function TranscriptPrint() {
     }
   };
 
+  const exportToMergedPDF = async () => {
+    setLoading(true);
+    try {
+      const data = transcriptData.length > 0 ? transcriptData : await fetchTranscriptData();
+
+      const entries = await issueEach(data, async (transcript, issue) => ({ transcript, issue }));
+      if (!entries) {
+        alert('Export PDF dibatalkan');
+        return;
+      }
+
+      mergedTranscriptPdf(entries, layout).save(`${bulkFileName(data)}.pdf`);
+      alert(`Berhasil export ${data.length} transkrip ke satu PDF`);
+    } catch (err) {
+      alert('Error exporting PDF: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const exportToExcel = async () => {
     setLoading(true);
     try {
@@ -215,38 +201,11 @@ export function TranscriptPrint() {
       const workbook = XLSX.utils.book_new();
 
       data.forEach(transcript => {
-        const worksheetData = [
-          ['TRANSKRIP NILAI MAHASISWA'],
-          [],
-          ['NIM', transcript.nim],
-          ['Nama', transcript.studentName],
-          ['Angkatan', transcript.angkatan],
-          ['Email', transcript.email],
-          [],
-          ['No', 'Kode MK', 'Nama Mata Kuliah', 'SKS', 'Nilai', 'Grade'],
-          ...transcript.courses.map((course, idx) => [
-            idx + 1,
-            course.courseCode,
-            course.courseName,
-            course.sks,
-            course.score.toFixed(2),
-            course.letterGrade,
-          ]),
-          [],
-          ['', '', 'Total SKS', transcript.totalSKS, '', ''],
-          ['', '', 'Rata-rata Nilai', transcript.averageScore.toFixed(2), '', ''],
-        ];
-
-        const worksheet = XLSX.utils.aoa_to_sheet(worksheetData);
         const sheetName = `${transcript.nim}`.substring(0, 31);
-        XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+        XLSX.utils.book_append_sheet(workbook, transcriptSheet(transcript, layout), sheetName);
       });
 
-      const fileName = filterMode === 'single'
-        ? `Transkrip_${data[0].nim}.xlsx`
-        : `Transkrip_${filterMode === 'angkatan' ? selectedAngkatan : 'Semua'}.xlsx`;
-
-      XLSX.writeFile(workbook, fileName);
+      XLSX.writeFile(workbook, `${bulkFileName(data)}.xlsx`);
       alert(`Berhasil export ${data.length} transkrip ke Excel`);
     } catch (err) {
       alert('Error exporting Excel: ' + (err instanceof Error ? err.message : 'Unknown error'));
@@ -260,62 +219,16 @@ export function TranscriptPrint() {
     try {
       const data = transcriptData.length > 0 ? transcriptData : await fetchTranscriptData();
 
-      for (const transcript of data) {
-        const tableRows = [
-          new TableRow({
-            children: [
-              new TableCell({ children: [new Paragraph({ text: 'No', bold: true })] }),
-              new TableCell({ children: [new Paragraph({ text: 'Kode MK', bold: true })] }),
-              new TableCell({ children: [new Paragraph({ text: 'Nama Mata Kuliah', bold: true })] }),
-              new TableCell({ children: [new Paragraph({ text: 'SKS', bold: true })] }),
-              new TableCell({ children: [new Paragraph({ text: 'Nilai', bold: true })] }),
-              new TableCell({ children: [new Paragraph({ text: 'Grade', bold: true })] }),
-            ],
-          }),
-          ...transcript.courses.map((course, idx) =>
-            new TableRow({
-              children: [
-                new TableCell({ children: [new Paragraph((idx + 1).toString())] }),
-                new TableCell({ children: [new Paragraph(course.courseCode)] }),
-                new TableCell({ children: [new Paragraph(course.courseName)] }),
-                new TableCell({ children: [new Paragraph(course.sks.toString())] }),
-                new TableCell({ children: [new Paragraph(course.score.toFixed(2))] }),
-                new TableCell({ children: [new Paragraph(course.letterGrade)] }),
-              ],
-            })
-          ),
-        ];
-
-        const doc = new Document({
-          sections: [{
-            children: [
-              new Paragraph({
-                text: 'TRANSKRIP NILAI MAHASISWA',
-                heading: HeadingLevel.HEADING_1,
-                alignment: AlignmentType.CENTER,
-              }),
-              new Paragraph({ text: '' }),
-              new Paragraph({ text: `NIM: ${transcript.nim}` }),
-              new Paragraph({ text: `Nama: ${transcript.studentName}` }),
-              new Paragraph({ text: `Angkatan: ${transcript.angkatan}` }),
-              new Paragraph({ text: `Email: ${transcript.email}` }),
-              new Paragraph({ text: '' }),
-              new DocxTable({
-                width: { size: 100, type: WidthType.PERCENTAGE },
-                rows: tableRows,
-              }),
-              new Paragraph({ text: '' }),
-              new Paragraph({ text: `Total SKS: ${transcript.totalSKS}`, bold: true }),
-              new Paragraph({ text: `Rata-rata Nilai: ${transcript.averageScore.toFixed(2)}`, bold: true }),
-            ],
-          }],
-        });
-
-        const blob = await Packer.toBlob(doc);
-        const fileName = `Transkrip_${transcript.nim}_${transcript.studentName.replace(/\s+/g, '_')}.docx`;
-        saveAs(blob, fileName);
+      const files = await issueEach(data, async (transcript, issue) => ({
+        name: transcriptFileName(transcript, 'docx'),
+        content: await Packer.toBlob(transcriptDocx(transcript, layout, issue)),
+      }));
+      if (!files) {
+        alert('Export DOCX dibatalkan');
+        return;
       }
 
+      await saveFiles(files, bulkFileName(data));
       alert(`Berhasil export ${data.length} transkrip ke DOCX`);
     } catch (err) {
       alert('Error exporting DOCX: ' + (err instanceof Error ? err.message : 'Unknown error'));
@@ -369,69 +282,133 @@ export function TranscriptPrint() {
             <FileSpreadsheet className="w-5 h-5" />
             Export DOCX
           </button>
+          {filterMode !== 'single' && (
+            <button
+              onClick={exportToMergedPDF}
+              disabled={loading}
+              className="flex items-center gap-2 px-4 py-3 bg-gray-700 text-white rounded-lg font-medium hover:bg-gray-800 disabled:bg-gray-400"
+            >
+              <Files className="w-5 h-5" />
+              PDF Gabungan
+            </button>
+          )}
         </div>
 
+        {progress && (
+          <div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm text-blue-800">
+                Menerbitkan transkrip {progress.done} dari {progress.total}...
+              </p>
+              <button
+                onClick={() => {
+                  cancelRequested.current = true;
+                }}
+                className="px-3 py-1 bg-white border border-red-300 text-red-600 rounded-lg text-sm font-medium hover:bg-red-50"
+              >
+                Batal
+              </button>
+            </div>
+            <div className="w-full bg-blue-100 rounded-full h-2">
+              <div
+                className="bg-blue-600 h-2 rounded-full transition-all"
+                style={{ width: `${(progress.done / progress.total) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
         <div className="space-y-8">
-          {transcriptData.map((transcript, idx) => (
-            <div key={idx} className="border border-gray-200 rounded-lg p-6">
-              <div className="mb-6">
-                <h4 className="text-xl font-bold text-gray-800 mb-4">TRANSKRIP NILAI MAHASISWA</h4>
-                <div className="grid grid-cols-2 gap-3 text-sm">
-                  <div>
-                    <span className="font-semibold">NIM:</span> {transcript.nim}
-                  </div>
-                  <div>
-                    <span className="font-semibold">Nama:</span> {transcript.studentName}
+          {transcriptData.map(transcript => {
+            const { columns, rows } = transcriptTable(transcript, layout);
+            const signature = signatureLines(layout, new Date());
+            return (
+              <div
+                key={transcript.studentId}
+                className="border border-gray-200 rounded-lg p-6"
+                style={{ fontFamily: SYSTEM_FONTS[layout.fontFamily] }}
+              >
+                {layout.headerLines.length > 0 && (
+                  <div className="flex items-center gap-4 border-b-4 border-double border-gray-800 pb-3 mb-4">
+                    {layout.logoDataUrl && (
+                      <img src={layout.logoDataUrl} alt="Logo" className="w-20 h-20 object-contain" />
+                    )}
+                    <div className="flex-1 text-center">
+                      {layout.headerLines.map((line, idx) => (
+                        <p
+                          key={idx}
+                          className={idx === 0 ? 'text-lg font-bold' : idx === 1 ? 'font-bold' : 'text-sm text-gray-700'}
+                        >
+                          {line}
+                        </p>
+                      ))}
+                    </div>
                   </div>
-                  <div>
-                    <span className="font-semibold">Angkatan:</span> {transcript.angkatan}
-                  </div>
-                  <div>
-                    <span className="font-semibold">Email:</span> {transcript.email}
+                )}
+
+                <div className="mb-6">
+                  <h4 className="text-xl font-bold text-gray-800 mb-4 text-center">TRANSKRIP AKADEMIK</h4>
+                  <div className="grid grid-cols-2 gap-3 text-sm">
+                    {transcriptIdentity(transcript, layout).map(([label, value]) => (
+                      <div key={label}>
+                        <span className="font-semibold">{label}:</span> {value}
+                      </div>
+                    ))}
                   </div>
                 </div>
-              </div>
 
-              <div className="overflow-x-auto">
-                <table className="w-full text-sm">
-                  <thead className="bg-blue-600 text-white">
-                    <tr>
-                      <th className="px-4 py-3 text-left">No</th>
-                      <th className="px-4 py-3 text-left">Kode MK</th>
-                      <th className="px-4 py-3 text-left">Nama Mata Kuliah</th>
-                      <th className="px-4 py-3 text-center">SKS</th>
-                      <th className="px-4 py-3 text-center">Nilai</th>
-                      <th className="px-4 py-3 text-center">Grade</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-gray-200">
-                    {transcript.courses.map((course, courseIdx) => (
-                      <tr key={courseIdx} className="hover:bg-gray-50">
-                        <td className="px-4 py-3">{courseIdx + 1}</td>
-                        <td className="px-4 py-3 font-medium">{course.courseCode}</td>
-                        <td className="px-4 py-3">{course.courseName}</td>
-                        <td className="px-4 py-3 text-center">{course.sks}</td>
-                        <td className="px-4 py-3 text-center">{course.score.toFixed(2)}</td>
-                        <td className="px-4 py-3 text-center font-bold">{course.letterGrade}</td>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="text-white" style={{ backgroundColor: layout.primaryColor }}>
+                      <tr>
+                        {columns.map(column => (
+                          <th key={column.key} className="px-4 py-3 text-left">{column.label}</th>
+                        ))}
                       </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {rows.map((row, rowIdx) =>
+                        row.kind === 'semester' ? (
+                          <tr key={rowIdx} style={{ backgroundColor: layout.accentColor }}>
+                            <td colSpan={columns.length} className="px-4 py-2 font-semibold">{row.label}</td>
+                          </tr>
+                        ) : (
+                          <tr key={rowIdx} className={row.kind === 'subtotal' ? 'font-semibold' : 'hover:bg-gray-50'}>
+                            {row.cells.map((cell, idx) => (
+                              <td key={idx} className="px-4 py-3">{cell}</td>
+                            ))}
+                          </tr>
+                        )
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+
+                <dl className="mt-4 text-sm font-bold space-y-1">
+                  {transcriptSummary(transcript).map(([label, value]) => (
+                    <div key={label} className="flex">
+                      <dt className="w-64">{label}</dt>
+                      <dd>: {value}</dd>
+                    </div>
+                  ))}
+                </dl>
+
+                <div className="mt-8 flex justify-end">
+                  <div className="text-sm text-gray-800 w-64">
+                    {signature.map((line, idx) => (
+                      <p key={idx} className={idx === signature.length - 2 ? 'font-bold underline' : ''}>
+                        {line || '\u00a0'}
+                      </p>
                     ))}
-                  </tbody>
-                  <tfoot className="bg-gray-100 font-bold">
-                    <tr>
-                      <td colSpan={3} className="px-4 py-3 text-right">Total SKS:</td>
-                      <td className="px-4 py-3 text-center">{transcript.totalSKS}</td>
-                      <td colSpan={2}></td>
-                    </tr>
-                    <tr>
-                      <td colSpan={3} className="px-4 py-3 text-right">Rata-rata Nilai:</td>
-                      <td className="px-4 py-3 text-center">{transcript.averageScore.toFixed(2)}</td>
-                      <td colSpan={2}></td>
-                    </tr>
-                  </tfoot>
-                </table>
+                  </div>
+                </div>
+
+                {layout.footer && (
+                  <p className="mt-6 pt-2 border-t border-gray-200 text-xs text-gray-500">{layout.footer}</p>
+                )}
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </div>
     );
@@ -548,7 +525,8 @@ export function TranscriptPrint() {
           <strong>Informasi:</strong><br />
           - Preview akan menampilkan semua transkrip sesuai filter<br />
           - Anda bisa export ke PDF, Excel, atau DOCX<br />
-          - Setiap mahasiswa akan mendapat file terpisah untuk PDF dan DOCX<br />
+          - PDF dan DOCX beberapa mahasiswa diunduh sekaligus dalam satu file ZIP, atau sebagai satu PDF gabungan<br />
+          - Setiap PDF dan DOCX diterbitkan dengan nomor dokumen dan QR code untuk verifikasi keaslian<br />
           - Excel akan berisi semua mahasiswa dalam satu file dengan sheet berbeda
         </p>
       </div>
@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { ShieldAlert, ShieldCheck, ShieldX } from 'lucide-react';
+import { issuedTranscriptRepository, type TranscriptVerificationResult } from '../lib/repositories';
+import { courseLabel } from '../lib/transcript';
+import { verifiedSnapshot } from '../lib/transcriptVerification';
+import { formatYudisiumDate } from '../lib/yudisium';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Public page the QR code on an issued transcript links to; needs no sign-in. */
+export function VerifyTranscript() {
+  const { id = '' } = useParams<{ id: string }>();
+  const [result, setResult] = useState<TranscriptVerificationResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!UUID_PATTERN.test(id)) {
+      setLoading(false);
+      return;
+    }
+
+    issuedTranscriptRepository
+      .verify(id)
+      .then(setResult)
+      .catch(err => setError(err instanceof Error ? err.message : 'Gagal memeriksa dokumen'))
+      .finally(() => setLoading(false));
+  }, [id]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-blue-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Memeriksa dokumen...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const snapshot = result && verifiedSnapshot(result);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-blue-100 py-10 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <h1 className="text-2xl font-bold text-gray-900 text-center">Verifikasi Transkrip Akademik</h1>
+
+        {error ? (
+          <div className="bg-white rounded-2xl shadow-lg p-6 flex items-start gap-4">
+            <ShieldAlert className="w-10 h-10 text-yellow-600 flex-shrink-0" />
+            <div>
+              <p className="text-lg font-semibold text-gray-900">Dokumen tidak dapat diperiksa</p>
+              <p className="text-gray-600 mt-1">{error}. Silakan coba beberapa saat lagi.</p>
+            </div>
+          </div>
+        ) : !result || !snapshot ? (
+          <div className="bg-white rounded-2xl shadow-lg p-6 flex items-start gap-4">
+            <ShieldX className="w-10 h-10 text-red-600 flex-shrink-0" />
+            <div>
+              <p className="text-lg font-semibold text-red-700">Dokumen tidak ditemukan</p>
+              <p className="text-gray-600 mt-1">
+                Tidak ada transkrip yang diterbitkan dengan kode ini. Dokumen yang menautkan ke halaman ini
+                bukan transkrip resmi.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-2xl shadow-lg p-6 flex items-start gap-4">
+              {result.grades_current === false ? (
+                <ShieldAlert className="w-10 h-10 text-yellow-600 flex-shrink-0" />
+              ) : (
+                <ShieldCheck className="w-10 h-10 text-green-600 flex-shrink-0" />
+              )}
+              <div className="min-w-0">
+                <p className="text-lg font-semibold text-green-700">Dokumen asli</p>
+                <p className="text-gray-600 mt-1">
+                  Transkrip ini diterbitkan oleh institusi. Pastikan nilai pada dokumen yang Anda terima sama
+                  dengan nilai di bawah, yaitu nilai pada saat diterbitkan.
+                </p>
+                {result.grades_current === false && (
+                  <p className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                    Nilai mahasiswa telah berubah sejak transkrip ini diterbitkan, sehingga transkrip ini tidak lagi
+                    mencerminkan nilai terkini. Hubungi bagian akademik untuk transkrip terbaru.
+                  </p>
+                )}
+                <dl className="mt-4 text-sm space-y-1">
+                  <div className="flex gap-2">
+                    <dt className="w-32 text-gray-500">No. Dokumen</dt>
+                    <dd className="font-semibold">{result.document_number}</dd>
+                  </div>
+                  <div className="flex gap-2">
+                    <dt className="w-32 text-gray-500">Diterbitkan</dt>
+                    <dd>
+                      {new Date(result.issued_at).toLocaleString('id-ID', { dateStyle: 'long', timeStyle: 'short' })}
+                    </dd>
+                  </div>
+                  <div className="flex gap-2">
+                    <dt className="w-32 text-gray-500 flex-shrink-0">SHA-256</dt>
+                    <dd className="font-mono text-xs break-all">{result.content_hash}</dd>
+                  </div>
+                </dl>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-lg p-6">
+              <div className="grid grid-cols-2 gap-3 text-sm mb-6">
+                <div><span className="font-semibold">Nama:</span> {snapshot.studentName}</div>
+                <div><span className="font-semibold">NIM:</span> {snapshot.nim}</div>
+                <div><span className="font-semibold">Angkatan:</span> {snapshot.angkatan}</div>
+                {snapshot.graduation && (
+                  <>
+                    <div>
+                      <span className="font-semibold">Tanggal Lulus:</span>{' '}
+                      {formatYudisiumDate(snapshot.graduation.yudisiumDate)}
+                    </div>
+                    <div><span className="font-semibold">Predikat:</span> {snapshot.graduation.predicate ?? '-'}</div>
+                  </>
+                )}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-100 text-gray-700">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Kode MK</th>
+                      <th className="px-3 py-2 text-left">Mata Kuliah</th>
+                      <th className="px-3 py-2 text-center">SKS</th>
+                      <th className="px-3 py-2 text-center">Nilai</th>
+                      <th className="px-3 py-2 text-center">Huruf</th>
+                      <th className="px-3 py-2 text-center">Bobot</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {snapshot.semesters.map(semester => [
+                      <tr key={`semester-${semester.semester}`} className="bg-blue-50">
+                        <td colSpan={6} className="px-3 py-2 font-semibold">Semester {semester.semester}</td>
+                      </tr>,
+                      ...semester.courses.map(course => (
+                        <tr key={`${semester.semester}-${course.courseCode}`}>
+                          <td className="px-3 py-2">{course.courseCode}</td>
+                          <td className="px-3 py-2">{courseLabel(course)}</td>
+                          <td className="px-3 py-2 text-center">{course.sks}</td>
+                          <td className="px-3 py-2 text-center">{course.score.toFixed(2)}</td>
+                          <td className="px-3 py-2 text-center">{course.letterGrade}</td>
+                          <td className="px-3 py-2 text-center">{course.gradePoint.toFixed(2)}</td>
+                        </tr>
+                      )),
+                    ])}
+                  </tbody>
+                </table>
+              </div>
+
+              <dl className="mt-4 text-sm font-bold space-y-1">
+                <div className="flex">
+                  <dt className="w-64">Total SKS</dt>
+                  <dd>: {snapshot.totalSKS}</dd>
+                </div>
+                <div className="flex">
+                  <dt className="w-64">Indeks Prestasi Kumulatif (IPK)</dt>
+                  <dd>: {snapshot.ipk.toFixed(2)}</dd>
+                </div>
+              </dl>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
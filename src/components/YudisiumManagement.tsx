@@ -0,0 +1,755 @@
+import { useEffect, useState } from 'react';
+import { Edit3, FileSpreadsheet, FileText, Medal, Plus, Trash2, X } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { gradingEngine, lookupRetakePolicy } from '../lib/grading';
+import { auditGraduation, transcriptAttempts, transcriptTotals, type DegreeAudit } from '../lib/degreeAudit';
+import {
+  describePredicate,
+  formatStudyDuration,
+  formatYudisiumDate,
+  resolvePredicate,
+  studyDuration,
+  type StudyDuration,
+} from '../lib/yudisium';
+import {
+  graduationRequirementRepository,
+  retakePolicyRepository,
+  studentRepository,
+  yudisiumRepository,
+  type GraduationPredicate,
+  type YudisiumBatch,
+  type YudisiumEntryWithStudent,
+} from '../lib/repositories';
+
+interface PredicateForm {
+  name: string;
+  min_ipk: string;
+  max_study_semesters: string;
+  requires_no_retakes: boolean;
+}
+
+const EMPTY_PREDICATE_FORM: PredicateForm = {
+  name: '',
+  min_ipk: '',
+  max_study_semesters: '',
+  requires_no_retakes: false,
+};
+
+interface YudisiumCandidate {
+  studentId: string;
+  nim: string;
+  name: string;
+  credits: number;
+  ipk: number;
+  duration: StudyDuration;
+  hasRetakes: boolean;
+  predicate: string | null;
+  /** null when the curriculum has no graduation requirements. */
+  audit: DegreeAudit | null;
+}
+
+const ENTRY_HEADERS = ['No', 'NIM', 'Nama', 'Angkatan', 'SKS', 'IPK', 'Masa Studi', 'Predikat'];
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export function YudisiumManagement() {
+  const [predicates, setPredicates] = useState<GraduationPredicate[]>([]);
+  const [batches, setBatches] = useState<YudisiumBatch[]>([]);
+  const [angkatanList, setAngkatanList] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [showPredicateForm, setShowPredicateForm] = useState(false);
+  const [editingPredicateId, setEditingPredicateId] = useState<string | null>(null);
+  const [predicateForm, setPredicateForm] = useState<PredicateForm>(EMPTY_PREDICATE_FORM);
+  const [predicateError, setPredicateError] = useState('');
+  const [savingPredicate, setSavingPredicate] = useState(false);
+
+  const [selectedAngkatan, setSelectedAngkatan] = useState('');
+  const [batchName, setBatchName] = useState('');
+  const [yudisiumDate, setYudisiumDate] = useState(today());
+  const [candidates, setCandidates] = useState<YudisiumCandidate[]>([]);
+  const [graduatedCount, setGraduatedCount] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [calculating, setCalculating] = useState(false);
+  const [processing, setProcessing] = useState(false);
+
+  const [selectedBatchId, setSelectedBatchId] = useState('');
+  const [entries, setEntries] = useState<YudisiumEntryWithStudent[]>([]);
+
+  useEffect(() => {
+    Promise.all([yudisiumRepository.listPredicates(), yudisiumRepository.listBatches(), studentRepository.listAngkatan()])
+      .then(([predicatesData, batchesData, angkatanData]) => {
+        setPredicates(predicatesData);
+        setBatches(batchesData);
+        setAngkatanList(angkatanData);
+        if (angkatanData.length > 0) setSelectedAngkatan(angkatanData[0]);
+        if (batchesData.length > 0) setSelectedBatchId(batchesData[0].id);
+      })
+      .catch(err => console.error('Error loading yudisium data:', err))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    if (!selectedBatchId) {
+      setEntries([]);
+      return;
+    }
+
+    yudisiumRepository
+      .listEntries(selectedBatchId)
+      .then(setEntries)
+      .catch(err => console.error('Error loading yudisium entries:', err));
+  }, [selectedBatchId]);
+
+  const loadPredicates = async () => {
+    try {
+      setPredicates(await yudisiumRepository.listPredicates());
+    } catch (err) {
+      console.error('Error loading graduation predicates:', err);
+    }
+  };
+
+  const loadBatches = async (selectId?: string) => {
+    try {
+      const batchesData = await yudisiumRepository.listBatches();
+      setBatches(batchesData);
+      setSelectedBatchId(selectId ?? batchesData[0]?.id ?? '');
+    } catch (err) {
+      console.error('Error loading yudisium batches:', err);
+    }
+  };
+
+  const closePredicateForm = () => {
+    setShowPredicateForm(false);
+    setEditingPredicateId(null);
+    setPredicateForm(EMPTY_PREDICATE_FORM);
+    setPredicateError('');
+  };
+
+  const handleEditPredicate = (predicate: GraduationPredicate) => {
+    setEditingPredicateId(predicate.id);
+    setPredicateForm({
+      name: predicate.name,
+      min_ipk: Number(predicate.min_ipk).toFixed(2),
+      max_study_semesters: predicate.max_study_semesters === null ? '' : String(predicate.max_study_semesters),
+      requires_no_retakes: predicate.requires_no_retakes,
+    });
+    setPredicateError('');
+    setShowPredicateForm(true);
+  };
+
+  const handleSubmitPredicate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPredicateError('');
+
+    const name = predicateForm.name.trim();
+    const minIpk = parseFloat(predicateForm.min_ipk);
+    const maxSemesters = predicateForm.max_study_semesters.trim() === ''
+      ? null
+      : parseInt(predicateForm.max_study_semesters, 10);
+
+    if (!name) {
+      setPredicateError('Nama predikat wajib diisi');
+      return;
+    }
+
+    if (isNaN(minIpk) || minIpk < 0 || minIpk > 4) {
+      setPredicateError('IPK minimal harus antara 0-4');
+      return;
+    }
+
+    if (maxSemesters !== null && (isNaN(maxSemesters) || maxSemesters <= 0)) {
+      setPredicateError('Masa studi maksimal tidak valid, kosongkan jika tidak dibatasi');
+      return;
+    }
+
+    const input = {
+      name,
+      min_ipk: minIpk,
+      max_study_semesters: maxSemesters,
+      requires_no_retakes: predicateForm.requires_no_retakes,
+    };
+
+    setSavingPredicate(true);
+    try {
+      if (editingPredicateId) {
+        await yudisiumRepository.updatePredicate(editingPredicateId, input);
+      } else {
+        await yudisiumRepository.createPredicate(input);
+      }
+      closePredicateForm();
+      loadPredicates();
+    } catch (err) {
+      setPredicateError(err instanceof Error ? err.message : 'Gagal menyimpan predikat');
+    } finally {
+      setSavingPredicate(false);
+    }
+  };
+
+  const handleDeletePredicate = async (predicate: GraduationPredicate) => {
+    if (!confirm(`Hapus predikat "${predicate.name}"?`)) return;
+
+    try {
+      await yudisiumRepository.removePredicate(predicate.id);
+      loadPredicates();
+    } catch (err) {
+      alert('Gagal menghapus predikat: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const calculateCandidates = async () => {
+    if (!selectedAngkatan || !yudisiumDate) {
+      alert('Pilih angkatan dan tanggal yudisium terlebih dahulu');
+      return;
+    }
+
+    setCalculating(true);
+    try {
+      const [studentsData, requirements, requiredCourses, retakePolicies] = await Promise.all([
+        studentRepository.listWithGrades({ angkatan: selectedAngkatan }),
+        graduationRequirementRepository.list(),
+        graduationRequirementRepository.listRequiredCourses(),
+        retakePolicyRepository.list(),
+      ]);
+      const scales = await gradingEngine.getScales(
+        studentsData.flatMap(student => student.grades.map(g => g.course?.curriculum))
+      );
+
+      const pending = studentsData.filter(student => !student.yudisium);
+      const results = pending.map(student => {
+        const curriculum = student.curriculum || student.angkatan;
+        const policy = lookupRetakePolicy(retakePolicies, curriculum);
+        const attempts = transcriptAttempts(student.grades, scales);
+        const { credits, ipk, hasRetakes } = transcriptTotals(attempts, policy);
+        const duration = studyDuration(student.angkatan, yudisiumDate);
+
+        const requirement = requirements.find(r => r.curriculum === curriculum);
+        const requiredCodes = requiredCourses.filter(c => c.curriculum === curriculum).map(c => c.course_code);
+
+        return {
+          studentId: student.id,
+          nim: student.nim,
+          name: student.name,
+          credits,
+          ipk,
+          duration,
+          hasRetakes,
+          predicate: resolvePredicate(predicates, { ipk, studySemesters: duration.semesters, hasRetakes })?.name ?? null,
+          audit: requirement ? auditGraduation(attempts, requirement, requiredCodes, policy) : null,
+        };
+      });
+
+      setCandidates(results);
+      setGraduatedCount(studentsData.length - pending.length);
+      // Only students who pass the degree audit are proposed; the rest can still be ticked by hand
+      setSelectedIds(new Set(results.filter(r => r.audit?.eligible).map(r => r.studentId)));
+      if (!batchName) setBatchName(`Yudisium ${formatYudisiumDate(yudisiumDate)}`);
+    } catch (err) {
+      alert('Error menghitung yudisium: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setCalculating(false);
+    }
+  };
+
+  const toggleCandidate = (studentId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(studentId)) {
+      next.delete(studentId);
+    } else {
+      next.add(studentId);
+    }
+    setSelectedIds(next);
+  };
+
+  const handleProcess = async () => {
+    const selected = candidates.filter(c => selectedIds.has(c.studentId));
+    if (selected.length === 0) {
+      alert('Pilih minimal satu mahasiswa');
+      return;
+    }
+
+    if (!batchName.trim()) {
+      alert('Nama yudisium wajib diisi');
+      return;
+    }
+
+    const ineligible = selected.filter(c => !c.audit?.eligible).length;
+    const warning = ineligible > 0 ? `\n\n${ineligible} mahasiswa belum memenuhi atau belum memiliki syarat kelulusan.` : '';
+    if (!confirm(`Luluskan ${selected.length} mahasiswa pada ${batchName.trim()}?${warning}`)) return;
+
+    setProcessing(true);
+    try {
+      const batch = await yudisiumRepository.process(
+        batchName.trim(),
+        yudisiumDate,
+        selected.map(c => c.studentId)
+      );
+
+      alert(`${selected.length} mahasiswa berhasil diyudisium`);
+      setCandidates([]);
+      setSelectedIds(new Set());
+      setBatchName('');
+      loadBatches(batch.id);
+    } catch (err) {
+      alert('Gagal memproses yudisium: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const selectedBatch = batches.find(b => b.id === selectedBatchId);
+
+  const handleDeleteBatch = async () => {
+    if (!selectedBatch) return;
+    if (!confirm(`Hapus ${selectedBatch.name}? Status lulus ${entries.length} mahasiswa akan dibatalkan.`)) return;
+
+    try {
+      await yudisiumRepository.removeBatch(selectedBatch.id);
+      loadBatches();
+    } catch (err) {
+      alert('Gagal menghapus yudisium: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const entryRows = () =>
+    entries.map((entry, idx) => [
+      String(idx + 1),
+      entry.student.nim,
+      entry.student.name,
+      entry.student.angkatan,
+      String(entry.credits),
+      Number(entry.ipk).toFixed(2),
+      `${entry.study_semesters} semester`,
+      entry.predicate ?? '-',
+    ]);
+
+  const exportBatchToExcel = () => {
+    if (!selectedBatch) return;
+
+    const worksheet = XLSX.utils.aoa_to_sheet([
+      [`Daftar Yudisium - ${selectedBatch.name}`],
+      [`Tanggal: ${formatYudisiumDate(selectedBatch.yudisium_date)}`],
+      [],
+      ENTRY_HEADERS,
+      ...entryRows(),
+    ]);
+    worksheet['!cols'] = [
+      { wch: 5 }, { wch: 15 }, { wch: 30 }, { wch: 10 }, { wch: 8 }, { wch: 8 }, { wch: 14 }, { wch: 20 },
+    ];
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Yudisium');
+    XLSX.writeFile(workbook, `Yudisium_${selectedBatch.yudisium_date}.xlsx`);
+  };
+
+  const exportBatchToPDF = () => {
+    if (!selectedBatch) return;
+
+    const doc = new jsPDF();
+
+    doc.setFontSize(16);
+    doc.text(`Daftar Yudisium - ${selectedBatch.name}`, 14, 15);
+
+    doc.setFontSize(10);
+    doc.text(`Tanggal: ${formatYudisiumDate(selectedBatch.yudisium_date)}`, 14, 22);
+    doc.text(`Jumlah lulusan: ${entries.length} mahasiswa`, 14, 28);
+
+    autoTable(doc, {
+      head: [ENTRY_HEADERS],
+      body: entryRows(),
+      startY: 34,
+      styles: { fontSize: 8, cellPadding: 2 },
+      headStyles: { fillColor: [41, 128, 185], textColor: [255, 255, 255], fontStyle: 'bold', halign: 'center' },
+      columnStyles: {
+        0: { halign: 'center', cellWidth: 10 },
+        3: { halign: 'center' },
+        4: { halign: 'center' },
+        5: { halign: 'center', fontStyle: 'bold' },
+        6: { halign: 'center' },
+      },
+      alternateRowStyles: { fillColor: [245, 245, 245] },
+    });
+
+    doc.save(`Yudisium_${selectedBatch.yudisium_date}.pdf`);
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
+        <div className="w-12 h-12 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-gray-600">Memuat data...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Yudisium</h2>
+          <p className="text-gray-600 mt-1">
+            Menghitung IPK akhir, masa studi dan predikat kelulusan, lalu meluluskan mahasiswa per angkatan
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-800">Predikat Kelulusan</h3>
+          <button
+            onClick={() => {
+              closePredicateForm();
+              setShowPredicateForm(true);
+            }}
+            className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            Tambah Predikat
+          </button>
+        </div>
+
+        {predicates.length === 0 ? (
+          <p className="text-sm text-gray-500">Belum ada predikat, semua lulusan akan tercatat tanpa predikat</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Predikat</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Syarat</th>
+                <th className="px-4 py-3 text-center font-semibold text-gray-700">Aksi</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {predicates.map(predicate => (
+                <tr key={predicate.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 font-medium text-gray-900">{predicate.name}</td>
+                  <td className="px-4 py-3 text-gray-600">{describePredicate(predicate)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-center space-x-2">
+                    <button
+                      onClick={() => handleEditPredicate(predicate)}
+                      className="inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium bg-blue-50 text-blue-600 hover:bg-blue-100"
+                    >
+                      <Edit3 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeletePredicate(predicate)}
+                      className="inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium bg-red-50 text-red-600 hover:bg-red-100"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">Yudisium Baru</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Angkatan *
+            </label>
+            <select
+              value={selectedAngkatan}
+              onChange={(e) => {
+                setSelectedAngkatan(e.target.value);
+                setCandidates([]);
+              }}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              <option value="">Pilih Angkatan</option>
+              {angkatanList.map(angkatan => (
+                <option key={angkatan} value={angkatan}>{angkatan}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Tanggal Yudisium *
+            </label>
+            <input
+              type="date"
+              value={yudisiumDate}
+              onChange={(e) => {
+                setYudisiumDate(e.target.value);
+                setCandidates([]);
+              }}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Nama Yudisium *
+            </label>
+            <input
+              type="text"
+              value={batchName}
+              onChange={(e) => setBatchName(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              placeholder="Yudisium Periode I"
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-3 mb-4">
+          <button
+            onClick={calculateCandidates}
+            disabled={calculating || !selectedAngkatan || !yudisiumDate}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors font-medium"
+          >
+            {calculating ? 'Menghitung...' : 'Hitung'}
+          </button>
+          {candidates.length > 0 && (
+            <button
+              onClick={handleProcess}
+              disabled={processing || selectedIds.size === 0}
+              className="px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-400 transition-colors font-medium"
+            >
+              {processing ? 'Memproses...' : `Proses Yudisium (${selectedIds.size} mahasiswa)`}
+            </button>
+          )}
+        </div>
+
+        {graduatedCount > 0 && candidates.length > 0 && (
+          <p className="text-sm text-gray-500 mb-4">
+            {graduatedCount} mahasiswa angkatan {selectedAngkatan} sudah diyudisium dan tidak ditampilkan.
+          </p>
+        )}
+
+        {candidates.length > 0 && (
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3"></th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-700">NIM</th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-700">Nama</th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">SKS</th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">IPK</th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">Masa Studi</th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">Mengulang</th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">Predikat</th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">Audit</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {candidates.map(candidate => (
+                  <tr key={candidate.studentId} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-center">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(candidate.studentId)}
+                        onChange={() => toggleCandidate(candidate.studentId)}
+                        className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                      />
+                    </td>
+                    <td className="px-4 py-3 font-medium text-gray-900">{candidate.nim}</td>
+                    <td className="px-4 py-3 text-gray-700">{candidate.name}</td>
+                    <td className="px-4 py-3 text-center">{candidate.credits}</td>
+                    <td className="px-4 py-3 text-center font-semibold">{candidate.ipk.toFixed(2)}</td>
+                    <td className="px-4 py-3 text-center">
+                      {formatStudyDuration(candidate.duration)}
+                      <span className="block text-xs text-gray-500">{candidate.duration.semesters} semester</span>
+                    </td>
+                    <td className="px-4 py-3 text-center">{candidate.hasRetakes ? 'Ya' : 'Tidak'}</td>
+                    <td className="px-4 py-3 text-center font-medium text-purple-700">{candidate.predicate ?? '-'}</td>
+                    <td className="px-4 py-3 text-center">
+                      {!candidate.audit ? (
+                        <span className="px-3 py-1 bg-gray-100 text-gray-600 rounded-full text-xs font-semibold">
+                          Syarat belum diatur
+                        </span>
+                      ) : candidate.audit.eligible ? (
+                        <span className="px-3 py-1 bg-green-100 text-green-800 rounded-full text-xs font-semibold">
+                          Memenuhi
+                        </span>
+                      ) : (
+                        <span className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-xs font-semibold">
+                          Belum Memenuhi
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">Riwayat Yudisium</h3>
+
+        {batches.length === 0 ? (
+          <div className="py-8 text-center">
+            <Medal className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">Belum ada yudisium</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-3 mb-4">
+              <select
+                value={selectedBatchId}
+                onChange={(e) => setSelectedBatchId(e.target.value)}
+                className="flex-1 min-w-[16rem] px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                {batches.map(batch => (
+                  <option key={batch.id} value={batch.id}>
+                    {batch.name} ({formatYudisiumDate(batch.yudisium_date)})
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={exportBatchToPDF}
+                disabled={entries.length === 0}
+                className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-gray-400 transition-colors"
+              >
+                <FileText className="w-5 h-5" />
+                Export PDF
+              </button>
+              <button
+                onClick={exportBatchToExcel}
+                disabled={entries.length === 0}
+                className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 transition-colors"
+              >
+                <FileSpreadsheet className="w-5 h-5" />
+                Export Excel
+              </button>
+              <button
+                onClick={handleDeleteBatch}
+                className="flex items-center gap-2 px-4 py-2 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors"
+              >
+                <Trash2 className="w-5 h-5" />
+                Hapus
+              </button>
+            </div>
+
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {ENTRY_HEADERS.map(header => (
+                      <th key={header} className="px-4 py-3 text-left font-semibold text-gray-700">{header}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {entryRows().map(row => (
+                    <tr key={row[1]} className="hover:bg-gray-50">
+                      {row.map((cell, idx) => (
+                        <td key={idx} className="px-4 py-3 text-gray-700">{cell}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+
+      {showPredicateForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full p-6">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-2xl font-bold text-gray-800">
+                {editingPredicateId ? 'Edit Predikat' : 'Tambah Predikat'}
+              </h3>
+              <button onClick={closePredicateForm} className="p-2 hover:bg-gray-100 rounded-lg">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {predicateError && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+                {predicateError}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmitPredicate} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Nama Predikat *
+                </label>
+                <input
+                  type="text"
+                  value={predicateForm.name}
+                  onChange={(e) => setPredicateForm({ ...predicateForm, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  placeholder="Dengan Pujian"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    IPK Minimal *
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="4"
+                    value={predicateForm.min_ipk}
+                    onChange={(e) => setPredicateForm({ ...predicateForm, min_ipk: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Masa Studi Maks. (semester)
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={predicateForm.max_study_semesters}
+                    onChange={(e) => setPredicateForm({ ...predicateForm, max_study_semesters: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    placeholder="Tanpa batas"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={predicateForm.requires_no_retakes}
+                  onChange={(e) => setPredicateForm({ ...predicateForm, requires_no_retakes: e.target.checked })}
+                  className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+                Tidak pernah mengulang mata kuliah
+              </label>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closePredicateForm}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50"
+                >
+                  Batal
+                </button>
+                <button
+                  type="submit"
+                  disabled={savingPredicate}
+                  className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 disabled:opacity-50"
+                >
+                  {savingPredicate ? 'Menyimpan...' : 'Simpan'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,22 +2,41 @@ import { createContext, useContext, useEffect, useState } from 'react';
 import { User } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
 import { activityLogger } from '../lib/activityLogger';
+import { isAdminRole, type AdminPermission, type AdminRole } from '../lib/adminRoles';
+import { adminUserRepository } from '../lib/repositories';
 
 interface AdminAuthContextType {
   user: User | null;
   loading: boolean;
   isAdmin: boolean;
+  role: AdminRole | null;
+  hasPermission: (permission: AdminPermission) => boolean;
   signIn: (email: string, password: string) => Promise<void>;
-  signUp: (email: string, password: string, name: string) => Promise<void>;
   signOut: () => Promise<void>;
 }
 
+// The tab list is only a convenience: RLS enforces the same matrix through
+// has_admin_permission(), so a stale permission list can't grant anything.
+async function loadAdminAccess(userId: string): Promise<{ role: AdminRole | null; permissions: AdminPermission[] }> {
+  try {
+    const adminUser = await adminUserRepository.findById(userId);
+    if (!adminUser || !isAdminRole(adminUser.role)) return { role: null, permissions: [] };
+    return { role: adminUser.role, permissions: await adminUserRepository.listPermissionsForRole(adminUser.role) };
+  } catch (err) {
+    console.error('[AdminAuth] Error loading admin role:', err);
+    return { role: null, permissions: [] };
+  }
+}
+
 const AdminAuthContext = createContext<AdminAuthContextType | undefined>(undefined);
 
 export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [isAdmin, setIsAdmin] = useState(false);
+  const [role, setRole] = useState<AdminRole | null>(null);
+  const [permissions, setPermissions] = useState<AdminPermission[]>([]);
+  const [checkedUserId, setCheckedUserId] = useState<string | null>(null);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -36,6 +55,8 @@ export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
           await checkAdminStatus(session.user.id);
         } else {
           setIsAdmin(false);
+          setRole(null);
+          setPermissions([]);
           setLoading(false);
         }
       })();
@@ -87,7 +108,6 @@ export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
       if (error) {
         console.error('[AdminAuth] RPC Error checking admin status:', error);
         setIsAdmin(false);
-        setLoading(false);
         return;
       }
 
@@ -96,18 +116,28 @@ export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
       if (data === true) {
         console.log('[AdminAuth] ✓ User IS admin');
         setIsAdmin(true);
+        const access = await loadAdminAccess(userId);
+        setRole(access.role);
+        setPermissions(access.permissions);
       } else {
         console.log('[AdminAuth] ✗ User is NOT admin');
         setIsAdmin(false);
+        setRole(null);
+        setPermissions([]);
       }
     } catch (err) {
       console.error('[AdminAuth] Exception checking admin status:', err);
       setIsAdmin(false);
+      setRole(null);
+      setPermissions([]);
     } finally {
+      setCheckedUserId(userId);
       setLoading(false);
     }
   };
 
+  const hasPermission = (permission: AdminPermission) => permissions.includes(permission);
+
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({
       email,
@@ -122,28 +152,6 @@ export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
     await activityLogger.logLogin(email, 'admin', true);
   };
 
-  const signUp = async (email: string, password: string, name: string) => {
-    const { data, error } = await supabase.auth.signUp({
-      email,
-      password,
-    });
-
-    if (error) throw error;
-
-    if (data.user) {
-      const { error: adminError } = await supabase
-        .from('admin_users')
-        .insert({
-          id: data.user.id,
-          email,
-          name,
-          role: 'admin',
-        } as any);
-
-      if (adminError) throw adminError;
-    }
-  };
-
   const signOut = async () => {
     if (user?.email) {
       await activityLogger.logLogout(user.email, 'admin');
@@ -153,8 +161,12 @@ export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
     localStorage.removeItem('user_role');
   };
 
+  // isAdmin only describes the user it was checked for; until the RPC answers
+  // for a newly signed-in user, report loading so guards don't decide early.
+  const checkingAdmin = !!user && checkedUserId !== user.id;
+
   return (
-    <AdminAuthContext.Provider value={{ user, loading, isAdmin, signIn, signUp, signOut }}>
+    <AdminAuthContext.Provider value={{ user, loading: loading || checkingAdmin, isAdmin, role, hasPermission, signIn, signOut }}>
       {children}
     </AdminAuthContext.Provider>
   );
@@ -2,10 +2,13 @@ import { createContext, useContext, useEffect, useState } from 'react';
 import { User } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
 import { activityLogger } from '../lib/activityLogger';
+import { studentRepository } from '../lib/repositories';
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
+  /** Whether the signed-in user has a `students` row. */
+  isStudent: boolean;
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string, nim: string, name: string) => Promise<void>;
   signOut: () => Promise<void>;
@@ -16,16 +19,28 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [isStudent, setIsStudent] = useState(false);
+  const [checkedUserId, setCheckedUserId] = useState<string | null>(null);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setUser(session?.user ?? null);
-      setLoading(false);
+      if (session?.user) {
+        checkStudentStatus(session.user.id);
+      } else {
+        setLoading(false);
+      }
     });
 
     const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
       (async () => {
         setUser(session?.user ?? null);
+        if (session?.user) {
+          await checkStudentStatus(session.user.id);
+        } else {
+          setIsStudent(false);
+          setLoading(false);
+        }
       })();
     });
 
@@ -64,6 +79,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, [user]);
 
+  const checkStudentStatus = async (userId: string) => {
+    try {
+      setIsStudent((await studentRepository.findById(userId)) !== null);
+    } catch (err) {
+      console.error('[Auth] Exception checking student status:', err);
+      setIsStudent(false);
+    } finally {
+      setCheckedUserId(userId);
+      setLoading(false);
+    }
+  };
+
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({
       email,
@@ -87,16 +114,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (error) throw error;
 
     if (data.user) {
-      const { error: profileError } = await supabase
-        .from('students')
-        .insert({
-          id: data.user.id,
-          nim,
-          name,
-          email,
-        } as any);
-
-      if (profileError) throw profileError;
+      await studentRepository.create({
+        id: data.user.id,
+        nim,
+        name,
+        email,
+      });
+      // The session switched before the row existed, so the first check came up empty
+      await checkStudentStatus(data.user.id);
     }
   };
 
@@ -109,8 +134,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     localStorage.removeItem('user_role');
   };
 
+  // Same as AdminAuthContext: report loading until the check has answered for
+  // the current user so guards don't decide early.
+  const checkingStudent = !!user && checkedUserId !== user.id;
+
   return (
-    <AuthContext.Provider value={{ user, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider value={{ user, loading: loading || checkingStudent, isStudent, signIn, signUp, signOut }}>
       {children}
     </AuthContext.Provider>
   );
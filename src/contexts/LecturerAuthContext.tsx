@@ -0,0 +1,141 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { User } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { activityLogger } from '../lib/activityLogger';
+
+interface LecturerAuthContextType {
+  user: User | null;
+  loading: boolean;
+  isLecturer: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const LecturerAuthContext = createContext<LecturerAuthContextType | undefined>(undefined);
+
+export function LecturerAuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isLecturer, setIsLecturer] = useState(false);
+  const [checkedUserId, setCheckedUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+      if (session?.user) {
+        checkLecturerStatus(session.user.id);
+      } else {
+        setLoading(false);
+      }
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      (async () => {
+        setUser(session?.user ?? null);
+        if (session?.user) {
+          await checkLecturerStatus(session.user.id);
+        } else {
+          setIsLecturer(false);
+          setLoading(false);
+        }
+      })();
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const INACTIVITY_TIMEOUT = 10 * 60 * 1000;
+    let inactivityTimer: NodeJS.Timeout;
+
+    const resetTimer = () => {
+      if (inactivityTimer) clearTimeout(inactivityTimer);
+
+      inactivityTimer = setTimeout(async () => {
+        console.log('User inactive for 10 minutes, logging out...');
+        await signOut();
+        alert('You have been logged out due to inactivity.');
+      }, INACTIVITY_TIMEOUT);
+    };
+
+    const events = ['mousedown', 'mousemove', 'keypress', 'scroll', 'touchstart', 'click'];
+
+    events.forEach(event => {
+      document.addEventListener(event, resetTimer, true);
+    });
+
+    resetTimer();
+
+    return () => {
+      if (inactivityTimer) clearTimeout(inactivityTimer);
+      events.forEach(event => {
+        document.removeEventListener(event, resetTimer, true);
+      });
+    };
+  }, [user]);
+
+  const checkLecturerStatus = async (userId: string) => {
+    try {
+      const { data, error } = await supabase.rpc('is_lecturer', {
+        user_id: userId
+      });
+
+      if (error) {
+        console.error('[LecturerAuth] RPC Error checking lecturer status:', error);
+        setIsLecturer(false);
+        return;
+      }
+
+      setIsLecturer(data === true);
+    } catch (err) {
+      console.error('[LecturerAuth] Exception checking lecturer status:', err);
+      setIsLecturer(false);
+    } finally {
+      setCheckedUserId(userId);
+      setLoading(false);
+    }
+  };
+
+  const signIn = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({
+      email,
+      password,
+    });
+
+    if (error) {
+      await activityLogger.logLogin(email, 'lecturer', false);
+      throw error;
+    }
+
+    await activityLogger.logLogin(email, 'lecturer', true);
+  };
+
+  const signOut = async () => {
+    if (user?.email) {
+      await activityLogger.logLogout(user.email, 'lecturer');
+    }
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+    localStorage.removeItem('user_role');
+  };
+
+  // Same as AdminAuthContext: report loading until the check has answered for
+  // the current user so guards don't decide early.
+  const checkingLecturer = !!user && checkedUserId !== user.id;
+
+  return (
+    <LecturerAuthContext.Provider value={{ user, loading: loading || checkingLecturer, isLecturer, signIn, signOut }}>
+      {children}
+    </LecturerAuthContext.Provider>
+  );
+}
+
+export function useLecturerAuth() {
+  const context = useContext(LecturerAuthContext);
+  if (context === undefined) {
+    throw new Error('useLecturerAuth must be used within a LecturerAuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,44 @@
+import type { AcademicTerm, TermPeriod } from './repositories';
+
+export type { AcademicTerm, TermPeriod };
+
+export const TERM_PERIODS: TermPeriod[] = ['ganjil', 'genap', 'pendek'];
+
+export const TERM_PERIOD_LABELS: Record<TermPeriod, string> = {
+  ganjil: 'Ganjil',
+  genap: 'Genap',
+  pendek: 'Pendek',
+};
+
+export function isTermPeriod(value: string): value is TermPeriod {
+  return (TERM_PERIODS as string[]).includes(value);
+}
+
+/** e.g. "2025/2026 Ganjil" */
+export function formatTerm(term: Pick<AcademicTerm, 'academic_year' | 'period'>): string {
+  return `${term.academic_year} ${isTermPeriod(term.period) ? TERM_PERIOD_LABELS[term.period] : term.period}`;
+}
+
+/** Label for a term looked up by id, '-' when the term is unknown. */
+export function termLabel(terms: Map<string, AcademicTerm>, termId: string | null | undefined): string {
+  const term = termId ? terms.get(termId) : undefined;
+  return term ? formatTerm(term) : '-';
+}
+
+/**
+ * The usual dates of a term, as suggested defaults in the term form: ganjil
+ * runs September - January, genap February - July, pendek in August.
+ */
+export function defaultTermDates(academicYear: string, period: TermPeriod): { start_date: string; end_date: string } {
+  const startYear = parseInt(academicYear.slice(0, 4), 10);
+  const endYear = startYear + 1;
+
+  switch (period) {
+    case 'ganjil':
+      return { start_date: `${startYear}-09-01`, end_date: `${endYear}-01-31` };
+    case 'genap':
+      return { start_date: `${endYear}-02-01`, end_date: `${endYear}-07-31` };
+    case 'pendek':
+      return { start_date: `${endYear}-08-01`, end_date: `${endYear}-08-31` };
+  }
+}
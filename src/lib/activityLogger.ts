@@ -1,4 +1,13 @@
 import { supabase } from './supabase';
+import { activityLogRepository, type ActivityUserType } from './repositories';
+
+type SignInUserType = Exclude<ActivityUserType, 'system'>;
+
+const USER_TYPE_LABELS: Record<SignInUserType, string> = {
+  admin: 'Admin',
+  student: 'Student',
+  lecturer: 'Lecturer',
+};
 
 export interface LogActivity {
   action: string;
@@ -23,12 +32,23 @@ class ActivityLogger {
     return !!data;
   }
 
+  private async userTypeOf(userId: string): Promise<SignInUserType> {
+    if (await this.isAdmin(userId)) return 'admin';
+
+    const { data } = await supabase
+      .from('lecturers')
+      .select('id')
+      .eq('id', userId)
+      .maybeSingle();
+    return data ? 'lecturer' : 'student';
+  }
+
   async log(params: LogActivity) {
     try {
       const user = await this.getCurrentUser();
 
       if (!user) {
-        await supabase.from('activity_logs').insert({
+        await activityLogRepository.insert({
           user_email: 'anonymous',
           user_type: 'system',
           action: params.action,
@@ -40,12 +60,10 @@ class ActivityLogger {
         return;
       }
 
-      const isAdminUser = await this.isAdmin(user.id);
-
-      await supabase.from('activity_logs').insert({
+      await activityLogRepository.insert({
         user_id: user.id,
         user_email: user.email || 'unknown',
-        user_type: isAdminUser ? 'admin' : 'student',
+        user_type: await this.userTypeOf(user.id),
         action: params.action,
         entity_type: params.entityType || null,
         entity_id: params.entityId || null,
@@ -57,14 +75,14 @@ class ActivityLogger {
     }
   }
 
-  async logLogin(email: string, userType: 'admin' | 'student', success: boolean) {
+  async logLogin(email: string, userType: SignInUserType, success: boolean) {
     try {
-      await supabase.from('activity_logs').insert({
+      await activityLogRepository.insert({
         user_email: email,
         user_type: userType,
         action: success ? 'login_success' : 'login_failed',
         description: success
-          ? `${userType === 'admin' ? 'Admin' : 'Student'} ${email} logged in successfully`
+          ? `${USER_TYPE_LABELS[userType]} ${email} logged in successfully`
           : `Failed login attempt for ${email}`,
         metadata: { success },
       });
@@ -73,13 +91,13 @@ class ActivityLogger {
     }
   }
 
-  async logLogout(email: string, userType: 'admin' | 'student') {
+  async logLogout(email: string, userType: SignInUserType) {
     try {
-      await supabase.from('activity_logs').insert({
+      await activityLogRepository.insert({
         user_email: email,
         user_type: userType,
         action: 'logout',
-        description: `${userType === 'admin' ? 'Admin' : 'Student'} ${email} logged out`,
+        description: `${USER_TYPE_LABELS[userType]} ${email} logged out`,
         metadata: {},
       });
     } catch (error) {
@@ -0,0 +1,29 @@
+import type { AdminPermission, AdminRole } from './repositories';
+
+export type { AdminPermission, AdminRole };
+
+export const ADMIN_ROLES: AdminRole[] = ['super_admin', 'academic_operator', 'prodi_admin', 'auditor'];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  super_admin: 'Super Admin',
+  academic_operator: 'Operator Akademik',
+  prodi_admin: 'Admin Prodi',
+  auditor: 'Auditor (Read-only)',
+};
+
+export const ADMIN_PERMISSION_LABELS: Record<AdminPermission, string> = {
+  'grades.write': 'Input & upload nilai',
+  'grades.status': 'Ubah status & publikasi nilai',
+  'students.manage': 'Kelola mahasiswa',
+  'courses.manage': 'Kelola mata kuliah',
+  'enrollments.manage': 'Kelola enrollment',
+  'lecturers.manage': 'Kelola dosen',
+  'grading_scales.manage': 'Kelola grading scale',
+  'activity_logs.view': 'Lihat activity log',
+  'admins.manage': 'Kelola akun admin',
+  'transcripts.issue': 'Terbitkan transkrip',
+};
+
+export function isAdminRole(value: string | null | undefined): value is AdminRole {
+  return ADMIN_ROLES.some(role => role === value);
+}
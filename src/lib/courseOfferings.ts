@@ -0,0 +1,23 @@
+import type { CourseOfferingWithLecturer } from './repositories';
+
+export type { CourseOfferingWithLecturer };
+
+/** Same rule as the `course_offerings.section` check constraint, e.g. A, B, C2. */
+export const SECTION_PATTERN = /^[A-Z][A-Z0-9]{0,3}$/;
+
+export function isOfferingFull(offering: CourseOfferingWithLecturer): boolean {
+  return offering.capacity !== null && offering.enrolled >= offering.capacity;
+}
+
+/** "12/40" for a capped class, "12" when the class has no capacity. */
+export function formatSeats(offering: CourseOfferingWithLecturer): string {
+  return offering.capacity === null ? `${offering.enrolled}` : `${offering.enrolled}/${offering.capacity}`;
+}
+
+/** The letter after the last single-letter section, as the default for a new class. */
+export function nextSection(offerings: Pick<CourseOfferingWithLecturer, 'section'>[]): string {
+  const letters = offerings.map(o => o.section).filter(s => /^[A-Z]$/.test(s)).sort();
+  const last = letters[letters.length - 1];
+  if (!last) return 'A';
+  return last === 'Z' ? '' : String.fromCharCode(last.charCodeAt(0) + 1);
+}
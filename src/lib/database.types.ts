@@ -9,130 +9,1296 @@ export type Json =
 export interface Database {
   public: {
     Tables: {
-      students: {
+      academic_terms: {
         Row: {
+          academic_year: string
+          created_at: string | null
+          end_date: string
           id: string
-          nim: string
-          name: string
-          email: string
-          created_at: string
+          is_active: boolean
+          period: string
+          start_date: string
+          updated_at: string | null
         }
         Insert: {
+          academic_year: string
+          created_at?: string | null
+          end_date: string
+          id?: string
+          is_active?: boolean
+          period: string
+          start_date: string
+          updated_at?: string | null
+        }
+        Update: {
+          academic_year?: string
+          created_at?: string | null
+          end_date?: string
+          id?: string
+          is_active?: boolean
+          period?: string
+          start_date?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      activity_logs: {
+        Row: {
+          action: string
+          created_at: string | null
+          description: string
+          entity_id: string | null
+          entity_type: string | null
+          id: string
+          ip_address: string | null
+          metadata: Json | null
+          user_email: string
+          user_id: string | null
+          user_type: string
+        }
+        Insert: {
+          action: string
+          created_at?: string | null
+          description: string
+          entity_id?: string | null
+          entity_type?: string | null
+          id?: string
+          ip_address?: string | null
+          metadata?: Json | null
+          user_email: string
+          user_id?: string | null
+          user_type: string
+        }
+        Update: {
+          action?: string
+          created_at?: string | null
+          description?: string
+          entity_id?: string | null
+          entity_type?: string | null
+          id?: string
+          ip_address?: string | null
+          metadata?: Json | null
+          user_email?: string
+          user_id?: string | null
+          user_type?: string
+        }
+        Relationships: []
+      }
+      admin_role_permissions: {
+        Row: {
+          permission: string
+          role: string
+        }
+        Insert: {
+          permission: string
+          role: string
+        }
+        Update: {
+          permission?: string
+          role?: string
+        }
+        Relationships: []
+      }
+      admin_users: {
+        Row: {
+          created_at: string
+          email: string
           id: string
-          nim: string
           name: string
+          role: string
+        }
+        Insert: {
+          created_at?: string
           email: string
+          id: string
+          name: string
+          role?: string
+        }
+        Update: {
           created_at?: string
+          email?: string
+          id?: string
+          name?: string
+          role?: string
+        }
+        Relationships: []
+      }
+      assessment_components: {
+        Row: {
+          course_id: string
+          created_at: string | null
+          id: string
+          name: string
+          sort_order: number
+          weight: number
+        }
+        Insert: {
+          course_id: string
+          created_at?: string | null
+          id?: string
+          name: string
+          sort_order?: number
+          weight: number
         }
         Update: {
+          course_id?: string
+          created_at?: string | null
           id?: string
-          nim?: string
           name?: string
-          email?: string
-          created_at?: string
+          sort_order?: number
+          weight?: number
         }
+        Relationships: [
+          {
+            foreignKeyName: "assessment_components_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      courses: {
+      component_scores: {
+        Row: {
+          component_id: string
+          created_at: string | null
+          id: string
+          score: number
+          student_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          component_id: string
+          created_at?: string | null
+          id?: string
+          score: number
+          student_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          component_id?: string
+          created_at?: string | null
+          id?: string
+          score?: number
+          student_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "component_scores_component_id_fkey"
+            columns: ["component_id"]
+            isOneToOne: false
+            referencedRelation: "assessment_components"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "component_scores_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_grade_status: {
+        Row: {
+          course_id: string
+          reason: string | null
+          release_at: string | null
+          status: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          course_id: string
+          reason?: string | null
+          release_at?: string | null
+          status?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          course_id?: string
+          reason?: string | null
+          release_at?: string | null
+          status?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_grade_status_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: true
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_lecturers: {
+        Row: {
+          course_id: string
+          created_at: string | null
+          id: string
+          lecturer_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string | null
+          id?: string
+          lecturer_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string | null
+          id?: string
+          lecturer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_lecturers_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_lecturers_lecturer_id_fkey"
+            columns: ["lecturer_id"]
+            isOneToOne: false
+            referencedRelation: "lecturers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_offerings: {
+        Row: {
+          capacity: number | null
+          course_id: string
+          created_at: string | null
+          id: string
+          lecturer_id: string | null
+          section: string
+        }
+        Insert: {
+          capacity?: number | null
+          course_id: string
+          created_at?: string | null
+          id?: string
+          lecturer_id?: string | null
+          section: string
+        }
+        Update: {
+          capacity?: number | null
+          course_id?: string
+          created_at?: string | null
+          id?: string
+          lecturer_id?: string | null
+          section?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_offerings_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_offerings_lecturer_id_fkey"
+            columns: ["lecturer_id"]
+            isOneToOne: false
+            referencedRelation: "lecturers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_prerequisites: {
         Row: {
+          course_id: string
+          created_at: string | null
           id: string
+          kind: string
+          min_letter_grade: string | null
+          prerequisite_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string | null
+          id?: string
+          kind?: string
+          min_letter_grade?: string | null
+          prerequisite_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string | null
+          id?: string
+          kind?: string
+          min_letter_grade?: string | null
+          prerequisite_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_prerequisites_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_prerequisites_prerequisite_id_fkey"
+            columns: ["prerequisite_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      courses: {
+        Row: {
+          academic_year: string
           code: string
+          created_at: string
+          credits: number
+          curriculum: string
+          id: string
           name: string
-          academic_year: string
           semester: number
-          credits: number
-          created_at: string
+          term_id: string
         }
         Insert: {
-          id?: string
+          academic_year: string
           code: string
+          created_at?: string
+          credits?: number
+          curriculum?: string
+          id?: string
           name: string
-          academic_year: string
           semester: number
-          credits?: number
-          created_at?: string
+          term_id: string
         }
         Update: {
-          id?: string
+          academic_year?: string
           code?: string
+          created_at?: string
+          credits?: number
+          curriculum?: string
+          id?: string
           name?: string
-          academic_year?: string
           semester?: number
-          credits?: number
-          created_at?: string
+          term_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "courses_term_id_fkey"
+            columns: ["term_id"]
+            isOneToOne: false
+            referencedRelation: "academic_terms"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      grades: {
+      document_templates: {
         Row: {
+          accent_color: string
+          columns: string[]
+          document_type: string
+          font_family: string
+          footer_text: string
+          header_text: string | null
+          logo_data_url: string | null
+          primary_color: string
+          signatory_name: string | null
+          signatory_nip: string | null
+          signatory_title: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          accent_color?: string
+          columns?: string[]
+          document_type: string
+          font_family?: string
+          footer_text?: string
+          header_text?: string | null
+          logo_data_url?: string | null
+          primary_color?: string
+          signatory_name?: string | null
+          signatory_nip?: string | null
+          signatory_title?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          accent_color?: string
+          columns?: string[]
+          document_type?: string
+          font_family?: string
+          footer_text?: string
+          header_text?: string | null
+          logo_data_url?: string | null
+          primary_color?: string
+          signatory_name?: string | null
+          signatory_nip?: string | null
+          signatory_title?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      enrollments: {
+        Row: {
+          course_id: string
+          created_at: string
           id: string
+          offering_id: string
           student_id: string
+        }
+        Insert: {
           course_id: string
-          score: number
-          letter_grade: string
-          created_at: string
-          updated_at: string
+          created_at?: string
+          id?: string
+          offering_id?: string
+          student_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          id?: string
+          offering_id?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollments_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_offering_id_fkey"
+            columns: ["offering_id"]
+            isOneToOne: false
+            referencedRelation: "course_offerings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grade_revisions: {
+        Row: {
+          changed_by: string | null
+          changed_by_email: string | null
+          course_id: string
+          created_at: string | null
+          id: string
+          new_letter_grade: string | null
+          new_score: number | null
+          old_letter_grade: string | null
+          old_score: number | null
+          reason: string | null
+          source: string
+          student_id: string
         }
         Insert: {
+          changed_by?: string | null
+          changed_by_email?: string | null
+          course_id: string
+          created_at?: string | null
           id?: string
+          new_letter_grade?: string | null
+          new_score?: number | null
+          old_letter_grade?: string | null
+          old_score?: number | null
+          reason?: string | null
+          source?: string
           student_id: string
+        }
+        Update: {
+          changed_by?: string | null
+          changed_by_email?: string | null
+          course_id?: string
+          created_at?: string | null
+          id?: string
+          new_letter_grade?: string | null
+          new_score?: number | null
+          old_letter_grade?: string | null
+          old_score?: number | null
+          reason?: string | null
+          source?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grade_revisions_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grade_revisions_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grades: {
+        Row: {
           course_id: string
-          score: number
+          created_at: string
+          id: string
           letter_grade: string
+          score: number
+          student_id: string
+          term_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          course_id: string
           created_at?: string
+          id?: string
+          letter_grade: string
+          score: number
+          student_id: string
+          term_id?: string | null
           updated_at?: string
         }
         Update: {
-          id?: string
-          student_id?: string
           course_id?: string
-          score?: number
-          letter_grade?: string
           created_at?: string
+          id?: string
+          letter_grade?: string
+          score?: number
+          student_id?: string
+          term_id?: string | null
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "grades_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grades_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grades_term_id_fkey"
+            columns: ["term_id"]
+            isOneToOne: false
+            referencedRelation: "academic_terms"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      admin_users: {
+      grading_scales: {
+        Row: {
+          created_at: string | null
+          curriculum: string
+          description: string | null
+          grade_point: number
+          id: string
+          letter_grade: string
+          max_score: number
+          min_score: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          curriculum: string
+          description?: string | null
+          grade_point: number
+          id?: string
+          letter_grade: string
+          max_score: number
+          min_score: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          curriculum?: string
+          description?: string | null
+          grade_point?: number
+          id?: string
+          letter_grade?: string
+          max_score?: number
+          min_score?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      graduation_predicates: {
+        Row: {
+          created_at: string | null
+          id: string
+          max_study_semesters: number | null
+          min_ipk: number
+          name: string
+          requires_no_retakes: boolean
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          max_study_semesters?: number | null
+          min_ipk: number
+          name: string
+          requires_no_retakes?: boolean
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          max_study_semesters?: number | null
+          min_ipk?: number
+          name?: string
+          requires_no_retakes?: boolean
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      graduation_required_courses: {
         Row: {
+          course_code: string
+          created_at: string | null
+          curriculum: string
           id: string
+        }
+        Insert: {
+          course_code: string
+          created_at?: string | null
+          curriculum: string
+          id?: string
+        }
+        Update: {
+          course_code?: string
+          created_at?: string | null
+          curriculum?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "graduation_required_courses_curriculum_fkey"
+            columns: ["curriculum"]
+            isOneToOne: false
+            referencedRelation: "graduation_requirements"
+            referencedColumns: ["curriculum"]
+          },
+        ]
+      }
+      graduation_requirements: {
+        Row: {
+          allow_e_grades: boolean
+          curriculum: string
+          max_d_grades: number | null
+          min_credits: number
+          min_ipk: number
+          updated_at: string | null
+        }
+        Insert: {
+          allow_e_grades?: boolean
+          curriculum: string
+          max_d_grades?: number | null
+          min_credits: number
+          min_ipk?: number
+          updated_at?: string | null
+        }
+        Update: {
+          allow_e_grades?: boolean
+          curriculum?: string
+          max_d_grades?: number | null
+          min_credits?: number
+          min_ipk?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      institution_profile: {
+        Row: {
+          address: string
+          city: string
+          dean_name: string
+          dean_nip: string
+          faculty_name: string
+          id: boolean
+          institution_name: string
+          logo_data_url: string | null
+          study_program_name: string
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string
+          city?: string
+          dean_name?: string
+          dean_nip?: string
+          faculty_name?: string
+          id?: boolean
+          institution_name?: string
+          logo_data_url?: string | null
+          study_program_name?: string
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string
+          city?: string
+          dean_name?: string
+          dean_nip?: string
+          faculty_name?: string
+          id?: boolean
+          institution_name?: string
+          logo_data_url?: string | null
+          study_program_name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      issued_transcripts: {
+        Row: {
+          content_hash: string
+          document_number: string
+          id: string
+          issued_at: string
+          issued_by: string | null
+          snapshot: Json
+          student_id: string | null
+          term_ids: string[]
+        }
+        Insert: {
+          content_hash: string
+          document_number: string
+          id?: string
+          issued_at?: string
+          issued_by?: string | null
+          snapshot: Json
+          student_id?: string | null
+          term_ids?: string[]
+        }
+        Update: {
+          content_hash?: string
+          document_number?: string
+          id?: string
+          issued_at?: string
+          issued_by?: string | null
+          snapshot?: Json
+          student_id?: string | null
+          term_ids?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "issued_transcripts_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      krs_items: {
+        Row: {
+          course_id: string
+          id: string
+          krs_id: string
+        }
+        Insert: {
+          course_id: string
+          id?: string
+          krs_id: string
+        }
+        Update: {
+          course_id?: string
+          id?: string
+          krs_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "krs_items_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "krs_items_krs_id_fkey"
+            columns: ["krs_id"]
+            isOneToOne: false
+            referencedRelation: "krs_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      krs_submissions: {
+        Row: {
+          id: string
+          note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          student_id: string
+          submitted_at: string
+          term_id: string
+        }
+        Insert: {
+          id?: string
+          note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          student_id: string
+          submitted_at?: string
+          term_id: string
+        }
+        Update: {
+          id?: string
+          note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          student_id?: string
+          submitted_at?: string
+          term_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "krs_submissions_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "krs_submissions_term_id_fkey"
+            columns: ["term_id"]
+            isOneToOne: false
+            referencedRelation: "academic_terms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lecturers: {
+        Row: {
+          created_at: string | null
           email: string
+          id: string
           name: string
-          role: string
-          created_at: string
+          nidn: string
         }
         Insert: {
+          created_at?: string | null
+          email: string
           id: string
+          name: string
+          nidn: string
+        }
+        Update: {
+          created_at?: string | null
+          email?: string
+          id?: string
+          name?: string
+          nidn?: string
+        }
+        Relationships: []
+      }
+      retake_policies: {
+        Row: {
+          curriculum: string
+          policy: string
+          updated_at: string | null
+        }
+        Insert: {
+          curriculum: string
+          policy?: string
+          updated_at?: string | null
+        }
+        Update: {
+          curriculum?: string
+          policy?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      sks_load_rules: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string
+          max_credits: number
+          min_ips: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          max_credits: number
+          min_ips?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          max_credits?: number
+          min_ips?: number | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      students: {
+        Row: {
+          advisor_id: string | null
+          angkatan: string
+          created_at: string
+          curriculum: string | null
           email: string
+          id: string
           name: string
-          role?: string
+          nim: string
+        }
+        Insert: {
+          advisor_id?: string | null
+          angkatan?: string
           created_at?: string
+          curriculum?: string | null
+          email: string
+          id: string
+          name: string
+          nim: string
         }
         Update: {
-          id?: string
+          advisor_id?: string | null
+          angkatan?: string
+          created_at?: string
+          curriculum?: string | null
           email?: string
+          id?: string
           name?: string
-          role?: string
-          created_at?: string
+          nim?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "students_advisor_id_fkey"
+            columns: ["advisor_id"]
+            isOneToOne: false
+            referencedRelation: "lecturers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      enrollments: {
+      yudisium_batches: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          name: string
+          yudisium_date: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name: string
+          yudisium_date: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name?: string
+          yudisium_date?: string
+        }
+        Relationships: []
+      }
+      yudisium_entries: {
         Row: {
+          batch_id: string
+          created_at: string | null
+          credits: number
           id: string
+          ipk: number
+          predicate: string | null
           student_id: string
-          course_id: string
-          created_at: string
+          study_semesters: number
         }
         Insert: {
+          batch_id: string
+          created_at?: string | null
+          credits: number
           id?: string
+          ipk: number
+          predicate?: string | null
           student_id: string
-          course_id: string
-          created_at?: string
+          study_semesters: number
         }
         Update: {
+          batch_id?: string
+          created_at?: string | null
+          credits?: number
           id?: string
+          ipk?: number
+          predicate?: string | null
           student_id?: string
-          course_id?: string
-          created_at?: string
+          study_semesters?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "yudisium_entries_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "yudisium_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "yudisium_entries_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: true
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      advises_student: {
+        Args: { p_student_id: string }
+        Returns: boolean
+      }
+      get_grade_point: {
+        Args: { p_curriculum: string; p_score: number }
+        Returns: number
+      }
+      get_letter_grade: {
+        Args: { p_curriculum: string; p_score: number }
+        Returns: string
+      }
+      get_sks_allowance: {
+        Args: { p_student_id: string; p_term_id: string }
+        Returns: {
+          enrolled_credits: number
+          last_ips: number | null
+          max_credits: number | null
+        }[]
+      }
+      graduation_summary: {
+        Args: { p_student_id: string; p_yudisium_date: string }
+        Returns: {
+          credits: number
+          has_retakes: boolean
+          ipk: number
+          predicate: string | null
+          study_semesters: number
+        }[]
+      }
+      has_admin_permission: {
+        Args: { p_permission: string }
+        Returns: boolean
+      }
+      has_passed_course: {
+        Args: {
+          p_course_id: string
+          p_min_letter_grade?: string
+          p_student_id: string
+        }
+        Returns: boolean
+      }
+      is_admin:
+        | { Args: Record<PropertyKey, never>; Returns: boolean }
+        | { Args: { user_id: string }; Returns: boolean }
+      is_grade_locked: {
+        Args: { p_course_id: string }
+        Returns: boolean
+      }
+      is_grade_released: {
+        Args: { p_course_id: string }
+        Returns: boolean
+      }
+      is_lecturer: {
+        Args: { user_id: string }
+        Returns: boolean
+      }
+      issue_transcript: {
+        Args: { p_student_id: string }
+        Returns: {
+          content_hash: string
+          document_number: string
+          id: string
+          issued_at: string
+          issued_by: string | null
+          snapshot: Json
+          student_id: string | null
+          term_ids: string[]
+        }
+      }
+      letter_grade_point: {
+        Args: { p_curriculum: string; p_letter_grade: string }
+        Returns: number
+      }
+      process_yudisium: {
+        Args: { p_name: string; p_student_ids: string[]; p_yudisium_date: string }
+        Returns: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          name: string
+          yudisium_date: string
+        }
+      }
+      resolve_grade: {
+        Args: { p_curriculum: string; p_score: number }
+        Returns: {
+          grade_point: number
+          letter_grade: string
+        }[]
+      }
+      review_krs: {
+        Args: { p_approve: boolean; p_krs_id: string; p_note?: string }
+        Returns: {
+          id: string
+          note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          student_id: string
+          submitted_at: string
+          term_id: string
+        }
+      }
+      save_assessment_components: {
+        Args: { p_components: Json; p_course_id: string }
+        Returns: {
+          course_id: string
+          created_at: string | null
+          id: string
+          name: string
+          sort_order: number
+          weight: number
+        }[]
+      }
+      set_active_academic_term: {
+        Args: { p_term_id: string }
+        Returns: {
+          academic_year: string
+          created_at: string | null
+          end_date: string
+          id: string
+          is_active: boolean
+          period: string
+          start_date: string
+          updated_at: string | null
+        }
+      }
+      submit_krs: {
+        Args: { p_course_ids: string[]; p_term_id: string }
+        Returns: {
+          id: string
+          note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          student_id: string
+          submitted_at: string
+          term_id: string
         }
       }
+      teaches_course: {
+        Args: { p_course_id: string }
+        Returns: boolean
+      }
+      teaches_course_student: {
+        Args: { p_course_id: string; p_student_id: string }
+        Returns: boolean
+      }
+      teaches_student: {
+        Args: { p_student_id: string }
+        Returns: boolean
+      }
+      teaches_whole_course: {
+        Args: { p_course_id: string }
+        Returns: boolean
+      }
+      transcript_snapshot: {
+        Args: { p_student_id: string; p_term_ids?: string[] }
+        Returns: Json
+      }
+      transition_course_grade_status: {
+        Args: {
+          p_course_id: string
+          p_reason?: string
+          p_release_at?: string
+          p_status: string
+        }
+        Returns: {
+          course_id: string
+          reason: string | null
+          release_at: string | null
+          status: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+      }
+      unmet_prerequisites: {
+        Args: { p_course_ids: string[]; p_student_id: string }
+        Returns: {
+          course_id: string
+          kind: string
+          message: string
+          prerequisite_id: string
+        }[]
+      }
+      upsert_grades_batch: {
+        Args: { p_reason?: string; p_rows: Json; p_source?: string }
+        Returns: {
+          letter_grade: string | null
+          message: string | null
+          nim: string
+          row_index: number
+          score: number | null
+          status: string
+        }[]
+      }
+      verify_transcript: {
+        Args: { p_id: string }
+        Returns: {
+          content_hash: string
+          document_number: string
+          grades_current: boolean | null
+          issued_at: string
+          snapshot: Json
+        }[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
     }
   }
 }
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Row"]
+
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Insert"]
+
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Update"]
@@ -0,0 +1,149 @@
+import {
+  calculateGPA,
+  countedAttempts,
+  isPassingGrade,
+  lookupScale,
+  resolveGrade,
+  type CourseAttempt,
+  type GradingScale,
+  type RetakePolicy,
+} from './grading';
+import type { GraduationRequirement, StudentWithGrades } from './repositories';
+
+export type { GraduationRequirement };
+
+export interface AuditAttempt extends CourseAttempt {
+  letterGrade: string;
+}
+
+/** Every graded attempt on a student's transcript, retakes included. */
+export function transcriptAttempts(
+  grades: StudentWithGrades['grades'],
+  scales: Map<string, GradingScale[]>
+): AuditAttempt[] {
+  return grades.flatMap(grade => grade.course ? [{
+    courseCode: grade.course.code,
+    credits: grade.course.credits,
+    letterGrade: grade.letter_grade,
+    gradePoint: resolveGrade(Number(grade.score), lookupScale(scales, grade.course.curriculum)).gradePoint,
+    startDate: grade.term?.start_date ?? '',
+  }] : []);
+}
+
+export interface TranscriptTotals {
+  /** SKS of passed courses, each course counted once. */
+  credits: number;
+  /** Rounded to two decimals, as printed on the transcript. */
+  ipk: number;
+  dGrades: number;
+  eGrades: number;
+  /** Whether any course was taken more than once. */
+  hasRetakes: boolean;
+  passedCodes: Set<string>;
+}
+
+export function transcriptTotals(attempts: AuditAttempt[], policy: RetakePolicy): TranscriptTotals {
+  const counted = countedAttempts(attempts, policy);
+  const passed = counted.filter(a => isPassingGrade(a.gradePoint));
+
+  return {
+    credits: passed.reduce((sum, a) => sum + a.credits, 0),
+    ipk: Math.round(calculateGPA(counted) * 100) / 100,
+    dGrades: passed.filter(a => isDGrade(a.letterGrade)).length,
+    eGrades: counted.length - passed.length,
+    hasRetakes: counted.length < attempts.length,
+    passedCodes: new Set(passed.map(a => a.courseCode)),
+  };
+}
+
+export type AuditCheckKey = 'credits' | 'required_courses' | 'd_grades' | 'ipk' | 'e_grades';
+
+export const AUDIT_CHECK_LABELS: Record<AuditCheckKey, string> = {
+  credits: 'Total SKS',
+  required_courses: 'Mata Kuliah Wajib',
+  d_grades: 'Nilai D',
+  ipk: 'IPK',
+  e_grades: 'Nilai E',
+};
+
+export interface AuditCheck {
+  key: AuditCheckKey;
+  satisfied: boolean;
+  /** What the transcript has against the rule, e.g. "132/144 SKS". */
+  detail: string;
+}
+
+export interface DegreeAudit {
+  eligible: boolean;
+  credits: number;
+  ipk: number;
+  dGrades: number;
+  eGrades: number;
+  /** Required course codes without a passing counted attempt. */
+  missingCourses: string[];
+  checks: AuditCheck[];
+}
+
+export function isDGrade(letterGrade: string): boolean {
+  return letterGrade.trim().toUpperCase().startsWith('D');
+}
+
+/**
+ * Checks a transcript against the graduation requirements of its curriculum.
+ * Retaken courses count once, picked by the curriculum's retake policy, so
+ * an E that was later retaken and passed no longer blocks graduation under
+ * the 'best' policy.
+ */
+export function auditGraduation(
+  attempts: AuditAttempt[],
+  requirement: GraduationRequirement,
+  requiredCodes: string[],
+  policy: RetakePolicy
+): DegreeAudit {
+  // IPK is compared as printed, so 1.995 does not pass a 2.00 minimum
+  const { credits, ipk, dGrades, eGrades, passedCodes } = transcriptTotals(attempts, policy);
+  const missingCourses = requiredCodes.filter(code => !passedCodes.has(code));
+
+  const minIpk = Number(requirement.min_ipk);
+  const maxD = requirement.max_d_grades;
+
+  const checks: AuditCheck[] = [
+    {
+      key: 'credits',
+      satisfied: credits >= requirement.min_credits,
+      detail: `${credits}/${requirement.min_credits} SKS`,
+    },
+    {
+      key: 'required_courses',
+      satisfied: missingCourses.length === 0,
+      detail: missingCourses.length === 0
+        ? `${requiredCodes.length} mata kuliah lulus`
+        : `Belum lulus: ${missingCourses.join(', ')}`,
+    },
+    {
+      key: 'd_grades',
+      satisfied: maxD === null || dGrades <= maxD,
+      detail: maxD === null ? `${dGrades} (tanpa batas)` : `${dGrades} dari maksimal ${maxD}`,
+    },
+    {
+      key: 'ipk',
+      satisfied: ipk >= minIpk,
+      detail: `${ipk.toFixed(2)} (minimal ${minIpk.toFixed(2)})`,
+    },
+    {
+      key: 'e_grades',
+      satisfied: requirement.allow_e_grades || eGrades === 0,
+      detail: requirement.allow_e_grades ? `${eGrades} (diperbolehkan)` : `${eGrades} (tidak boleh ada)`,
+    },
+  ];
+
+  return {
+    eligible: checks.every(c => c.satisfied),
+    credits,
+    ipk,
+    dGrades,
+    eGrades,
+    missingCourses,
+    checks,
+  };
+}
@@ -0,0 +1,151 @@
+import jsPDF from 'jspdf';
+import { AlignmentType, Footer, ImageRun, Paragraph, TableCell, TextRun } from 'docx';
+import { SYSTEM_FONTS, signatureLines, type DocumentLayout } from './documentTemplates';
+
+/**
+ * Letterhead, signature block and footer of a document template, drawn the
+ * same way by every generator. Logos are stored as square PNG data URLs
+ * (see toSquarePng), so they are placed at a fixed size.
+ */
+
+const PDF_MARGIN = 15;
+
+/** Draws the letterhead and returns the y position below it. */
+export function drawPdfLetterhead(doc: jsPDF, layout: DocumentLayout): number {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let y = PDF_MARGIN;
+  if (layout.headerLines.length === 0) return y;
+
+  if (layout.logoDataUrl) doc.addImage(layout.logoDataUrl, 'PNG', PDF_MARGIN, 10, 24, 24);
+
+  layout.headerLines.forEach((line, idx) => {
+    doc.setFont(layout.fontFamily, idx < 2 ? 'bold' : 'normal');
+    doc.setFontSize(idx === 0 ? 14 : 11);
+    doc.text(line, pageWidth / 2 + 8, y, { align: 'center' });
+    y += 6;
+  });
+
+  y = Math.max(y, 36);
+  doc.setLineWidth(0.8);
+  doc.line(PDF_MARGIN, y, pageWidth - PDF_MARGIN, y);
+  return y + 10;
+}
+
+/** Where the last jspdf-autotable table ended; the plugin records it on the document. */
+export function lastTableY(doc: jsPDF, fallback: number): number {
+  return (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? fallback;
+}
+
+/** Signature block at the right margin, on a new page when it does not fit below `y`. */
+export function drawPdfSignature(doc: jsPDF, layout: DocumentLayout, issuedAt: Date, y: number) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const lines = signatureLines(layout, issuedAt);
+  if (y + lines.length * 6 > doc.internal.pageSize.getHeight() - PDF_MARGIN) {
+    doc.addPage();
+    y = PDF_MARGIN + 5;
+  }
+
+  doc.setFontSize(10);
+  lines.forEach((line, idx) => {
+    doc.setFont(layout.fontFamily, idx === lines.length - 2 ? 'bold' : 'normal');
+    doc.text(line, pageWidth - 75, y + idx * 6);
+  });
+}
+
+/**
+ * Footer text and page numbers on every page from `firstPage` to the last;
+ * call once the document is complete. Pages are numbered from `firstPage`,
+ * so documents merged into one file each keep their own numbering.
+ */
+export function drawPdfFooters(doc: jsPDF, layout: DocumentLayout, firstPage = 1) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const lastPage = doc.getNumberOfPages();
+  const pages = lastPage - firstPage + 1;
+
+  doc.setFont(layout.fontFamily, 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(120, 120, 120);
+  for (let page = firstPage; page <= lastPage; page++) {
+    doc.setPage(page);
+    if (layout.footer) doc.text(layout.footer, PDF_MARGIN, pageHeight - 8);
+    doc.text(`Halaman ${page - firstPage + 1} dari ${pages}`, pageWidth - PDF_MARGIN, pageHeight - 8, { align: 'right' });
+  }
+  doc.setPage(lastPage);
+  doc.setTextColor(0, 0, 0);
+}
+
+export function docxLetterhead(layout: DocumentLayout): Paragraph[] {
+  if (layout.headerLines.length === 0) return [];
+
+  return [
+    ...(layout.logoDataUrl
+      ? [new Paragraph({
+          alignment: AlignmentType.CENTER,
+          children: [new ImageRun({ type: 'png', data: layout.logoDataUrl, transformation: { width: 80, height: 80 } })],
+        })]
+      : []),
+    ...layout.headerLines.map((line, idx) =>
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ text: line, bold: idx < 2, size: idx === 0 ? 28 : 22 })],
+      })
+    ),
+    new Paragraph({
+      border: { bottom: { style: 'single', size: 12, color: '000000', space: 1 } },
+      children: [],
+    }),
+  ];
+}
+
+export function docxSignature(layout: DocumentLayout, issuedAt: Date): Paragraph[] {
+  const lines = signatureLines(layout, issuedAt);
+  return lines.map((line, idx) =>
+    new Paragraph({
+      indent: { left: 5670 },
+      children: [new TextRun({ text: line, bold: idx === lines.length - 2 })],
+    })
+  );
+}
+
+export function docxFooters(layout: DocumentLayout) {
+  if (!layout.footer) return undefined;
+  return {
+    default: new Footer({
+      children: [new Paragraph({ children: [new TextRun({ text: layout.footer, size: 16, color: '787878' })] })],
+    }),
+  };
+}
+
+/** Document-wide default font, for the `styles` option of a docx Document. */
+export function docxStyles(layout: DocumentLayout) {
+  return { default: { document: { run: { font: SYSTEM_FONTS[layout.fontFamily] } } } };
+}
+
+/** Docx shading colour, which takes hex without the leading '#'. */
+export const docxColor = (hex: string) => hex.replace('#', '');
+
+/** A table cell in the 9pt size every generated table uses. */
+export const docxTableCell = (
+  text: string | number,
+  options: { bold?: boolean; color?: string; fill?: string; columnSpan?: number; center?: boolean } = {}
+) =>
+  new TableCell({
+    columnSpan: options.columnSpan,
+    shading: options.fill ? { fill: options.fill } : undefined,
+    children: [
+      new Paragraph({
+        alignment: options.center ? AlignmentType.CENTER : undefined,
+        children: [new TextRun({ text: String(text), bold: options.bold, color: options.color, size: 18 })],
+      }),
+    ],
+  });
+
+/** Letterhead rows for a worksheet, followed by a blank row when there is one. */
+export function sheetLetterhead(layout: DocumentLayout): string[][] {
+  return layout.headerLines.length > 0 ? [...layout.headerLines.map(line => [line]), []] : [];
+}
+
+export function sheetSignature(layout: DocumentLayout, issuedAt: Date, column: number): string[][] {
+  return signatureLines(layout, issuedAt).map(line => [...Array<string>(column).fill(''), line]);
+}
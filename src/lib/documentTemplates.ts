@@ -0,0 +1,161 @@
+import type { DocumentTemplate, DocumentType, InstitutionProfile } from './repositories';
+
+export type { DocumentTemplate, DocumentType };
+
+export const DOCUMENT_TYPES: DocumentType[] = ['transcript', 'semester_report', 'khs'];
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  transcript: 'Transkrip Akademik',
+  semester_report: 'Laporan Nilai Semester',
+  khs: 'Kartu Hasil Studi (KHS)',
+};
+
+export interface TemplateColumn {
+  key: string;
+  label: string;
+  /** Columns that identify a row cannot be hidden. */
+  required?: boolean;
+}
+
+/**
+ * The columns each document type knows, in table order. For the semester
+ * report, score/letter/grade_point/credits repeat under every course.
+ */
+export const TEMPLATE_COLUMNS: Record<DocumentType, TemplateColumn[]> = {
+  transcript: [
+    { key: 'no', label: 'No' },
+    { key: 'code', label: 'Kode MK', required: true },
+    { key: 'name', label: 'Nama Mata Kuliah', required: true },
+    { key: 'credits', label: 'SKS' },
+    { key: 'score', label: 'Nilai' },
+    { key: 'letter', label: 'Huruf' },
+    { key: 'grade_point', label: 'Bobot' },
+    { key: 'quality_points', label: 'SKS x Bobot' },
+  ],
+  semester_report: [
+    { key: 'no', label: 'No' },
+    { key: 'nim', label: 'NIM', required: true },
+    { key: 'name', label: 'Nama', required: true },
+    { key: 'score', label: 'Nilai' },
+    { key: 'letter', label: 'Grade' },
+    { key: 'grade_point', label: 'GP' },
+    { key: 'credits', label: 'SKS' },
+    { key: 'total_score', label: 'Total Nilai' },
+    { key: 'total_grade_point', label: 'Total GP' },
+    { key: 'total_credits', label: 'Total SKS' },
+    { key: 'ipk', label: 'IPK' },
+    { key: 'rank', label: 'Rank' },
+  ],
+  khs: [
+    { key: 'no', label: 'No' },
+    { key: 'code', label: 'Kode MK', required: true },
+    { key: 'name', label: 'Nama Mata Kuliah', required: true },
+    { key: 'credits', label: 'SKS' },
+    { key: 'score', label: 'Nilai' },
+    { key: 'letter', label: 'Huruf' },
+    { key: 'grade_point', label: 'Bobot' },
+    { key: 'quality_points', label: 'SKS x Bobot' },
+  ],
+};
+
+export type FontFamily = 'helvetica' | 'times' | 'courier';
+
+export const FONT_FAMILY_LABELS: Record<FontFamily, string> = {
+  helvetica: 'Helvetica / Arial',
+  times: 'Times New Roman',
+  courier: 'Courier',
+};
+
+export function isFontFamily(value: string): value is FontFamily {
+  return value in FONT_FAMILY_LABELS;
+}
+
+/** The installed font closest to each built-in PDF font, for DOCX and the on-screen preview. */
+export const SYSTEM_FONTS: Record<FontFamily, string> = {
+  helvetica: 'Arial',
+  times: 'Times New Roman',
+  courier: 'Courier New',
+};
+
+export type RGB = [number, number, number];
+
+export function hexToRgb(hex: string): RGB {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/** A template with the institution profile filled in where it leaves a field empty. */
+export interface DocumentLayout {
+  headerLines: string[];
+  logoDataUrl: string | null;
+  studyProgram: string;
+  city: string;
+  signatory: { title: string; name: string; nip: string };
+  footer: string;
+  fontFamily: FontFamily;
+  /** Hex colours, e.g. "#4f46e5". */
+  primaryColor: string;
+  accentColor: string;
+  columns: string[];
+}
+
+const DEFAULT_COLORS: Record<DocumentType, { primary: string; accent: string }> = {
+  transcript: { primary: '#4f46e5', accent: '#eef2ff' },
+  semester_report: { primary: '#2980b9', accent: '#f5f5f5' },
+  khs: { primary: '#4f46e5', accent: '#eef2ff' },
+};
+
+/** Letterhead lines from the institution profile, empty when it has not been filled in. */
+export function institutionHeaderLines(profile: InstitutionProfile | null): string[] {
+  if (!profile) return [];
+  return [
+    profile.institution_name.toUpperCase(),
+    profile.faculty_name && `FAKULTAS ${profile.faculty_name.toUpperCase()}`,
+    profile.study_program_name && `PROGRAM STUDI ${profile.study_program_name.toUpperCase()}`,
+    profile.address,
+  ].filter(line => line.trim() !== '');
+}
+
+export function resolveLayout(
+  documentType: DocumentType,
+  template: DocumentTemplate | null,
+  profile: InstitutionProfile | null
+): DocumentLayout {
+  const headerText = template?.header_text?.trim();
+  const known = TEMPLATE_COLUMNS[documentType];
+  // Keep table order and required columns whatever order the row lists them in
+  const columns = template?.columns.length
+    ? known.filter(c => c.required || template.columns.includes(c.key)).map(c => c.key)
+    : known.map(c => c.key);
+
+  return {
+    headerLines: headerText ? headerText.split('\n').map(line => line.trim()).filter(Boolean) : institutionHeaderLines(profile),
+    logoDataUrl: template?.logo_data_url ?? profile?.logo_data_url ?? null,
+    studyProgram: profile?.study_program_name ?? '',
+    city: profile?.city ?? '',
+    signatory: {
+      title: template?.signatory_title || (profile?.faculty_name ? `Dekan Fakultas ${profile.faculty_name}` : 'Dekan'),
+      name: template?.signatory_name || profile?.dean_name || '',
+      nip: template?.signatory_nip || profile?.dean_nip || '',
+    },
+    footer: template?.footer_text ?? '',
+    fontFamily: template && isFontFamily(template.font_family) ? template.font_family : 'helvetica',
+    primaryColor: template?.primary_color ?? DEFAULT_COLORS[documentType].primary,
+    accentColor: template?.accent_color ?? DEFAULT_COLORS[documentType].accent,
+    columns,
+  };
+}
+
+/** Place and date, the signatory's title, room for the signature, then name and NIP. */
+export function signatureLines(layout: DocumentLayout, issuedAt: Date): string[] {
+  const date = issuedAt.toLocaleDateString('id-ID', { year: 'numeric', month: 'long', day: 'numeric' });
+  return [
+    layout.city ? `${layout.city}, ${date}` : date,
+    layout.signatory.title,
+    '',
+    '',
+    '',
+    layout.signatory.name || '(.................................)',
+    layout.signatory.nip ? `NIP. ${layout.signatory.nip}` : '',
+  ];
+}
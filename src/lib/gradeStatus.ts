@@ -0,0 +1,53 @@
+import type { CourseGradeStatus, GradeStatus } from './repositories';
+
+export type { GradeStatus };
+
+export const GRADE_STATUS_LABELS: Record<GradeStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Diajukan',
+  finalized: 'Final',
+  published: 'Dipublikasikan',
+};
+
+export interface GradeStatusAction {
+  to: GradeStatus;
+  label: string;
+  requiresReason: boolean;
+}
+
+// Mirrors the transitions allowed by transition_course_grade_status in SQL.
+const TRANSITIONS: Record<GradeStatus, GradeStatusAction[]> = {
+  draft: [{ to: 'submitted', label: 'Ajukan', requiresReason: false }],
+  submitted: [
+    { to: 'finalized', label: 'Finalisasi', requiresReason: false },
+    { to: 'draft', label: 'Kembalikan ke Draft', requiresReason: false },
+  ],
+  finalized: [
+    { to: 'published', label: 'Publikasikan', requiresReason: false },
+    { to: 'draft', label: 'Buka Kembali', requiresReason: true },
+  ],
+  published: [{ to: 'draft', label: 'Buka Kembali', requiresReason: true }],
+};
+
+/** Courses without a status row have never left draft. */
+export function gradeStatusOf(row: Pick<CourseGradeStatus, 'status'> | null | undefined): GradeStatus {
+  return (row?.status as GradeStatus | undefined) ?? 'draft';
+}
+
+export function availableGradeStatusActions(status: GradeStatus): GradeStatusAction[] {
+  return TRANSITIONS[status];
+}
+
+/** Finalized and published grades are rejected by the database until reopened. */
+export function isGradeLocked(status: GradeStatus): boolean {
+  return status === 'finalized' || status === 'published';
+}
+
+/** Published grades are visible to students once the release date, if any, has passed. */
+export function isGradeReleased(
+  row: Pick<CourseGradeStatus, 'status' | 'release_at'> | null | undefined,
+  now = new Date()
+): boolean {
+  if (gradeStatusOf(row) !== 'published') return false;
+  return !row?.release_at || new Date(row.release_at) <= now;
+}
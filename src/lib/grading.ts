@@ -0,0 +1,232 @@
+import { formatTerm } from './academicTerms';
+import { gradingScaleRepository, type GradingScale, type RetakePolicy, type RetakePolicyRow } from './repositories';
+
+export type { GradingScale, RetakePolicy };
+
+export interface GradeResult {
+  letterGrade: string;
+  gradePoint: number;
+}
+
+export interface WeightedGrade {
+  gradePoint: number;
+  credits: number;
+}
+
+// Curriculum seeded by the grading_scales migration. Used when a curriculum
+// has no scale of its own, mirroring get_letter_grade/get_grade_point in SQL.
+export const DEFAULT_CURRICULUM = '2024';
+
+const FAILING_GRADE: GradeResult = { letterGrade: 'E', gradePoint: 0 };
+
+/**
+ * Converts a numeric score using a curriculum's grading scale. The band with
+ * the highest min_score not above the score wins, so fractional scores that
+ * fall between two bands (e.g. 84.995) still land in the lower band.
+ */
+export function resolveGrade(score: number, scale: GradingScale[]): GradeResult {
+  const band = [...scale]
+    .sort((a, b) => Number(b.min_score) - Number(a.min_score))
+    .find(s => score >= Number(s.min_score));
+
+  if (!band) return FAILING_GRADE;
+
+  return {
+    letterGrade: band.letter_grade,
+    gradePoint: Number(band.grade_point),
+  };
+}
+
+export function lookupScale(
+  scales: Map<string, GradingScale[]>,
+  curriculum: string | null | undefined
+): GradingScale[] {
+  return scales.get(curriculum || DEFAULT_CURRICULUM) || [];
+}
+
+export function calculateGPA(grades: WeightedGrade[]): number {
+  const totalCredits = grades.reduce((sum, g) => sum + g.credits, 0);
+  if (totalCredits === 0) return 0;
+
+  const totalPoints = grades.reduce((sum, g) => sum + g.gradePoint * g.credits, 0);
+  return totalPoints / totalCredits;
+}
+
+// Assessment component weights of a course must add up to exactly this.
+export const TOTAL_COMPONENT_WEIGHT = 100;
+
+export interface ComponentScoreInput {
+  weight: number;
+  score: number | null | undefined;
+}
+
+export function totalComponentWeight(components: { weight: number }[]): number {
+  const total = components.reduce((sum, c) => sum + Number(c.weight), 0);
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * Weighted final score from component scores, rounded to two decimals like
+ * upsert_grades_batch. Returns null while any component has no score yet.
+ */
+export function computeFinalScore(components: ComponentScoreInput[]): number | null {
+  if (components.some(c => c.score === null || c.score === undefined || isNaN(c.score))) return null;
+
+  const total = components.reduce((sum, c) => sum + Number(c.score) * Number(c.weight), 0);
+  return Math.round((total / TOTAL_COMPONENT_WEIGHT) * 100) / 100;
+}
+
+/** A course counts towards earned SKS unless it resolved to a failing band. */
+export function isPassingGrade(gradePoint: number): boolean {
+  return gradePoint > FAILING_GRADE.gradePoint;
+}
+
+// Used for curricula without a row in retake_policies.
+export const DEFAULT_RETAKE_POLICY: RetakePolicy = 'best';
+
+export const RETAKE_POLICIES: RetakePolicy[] = ['best', 'latest'];
+
+export const RETAKE_POLICY_LABELS: Record<RetakePolicy, string> = {
+  best: 'Nilai terbaik',
+  latest: 'Nilai terakhir',
+};
+
+export function isRetakePolicy(value: string): value is RetakePolicy {
+  return (RETAKE_POLICIES as string[]).includes(value);
+}
+
+export function lookupRetakePolicy(
+  policies: RetakePolicyRow[],
+  curriculum: string | null | undefined
+): RetakePolicy {
+  const row = policies.find(p => p.curriculum === curriculum);
+  return row && isRetakePolicy(row.policy) ? row.policy : DEFAULT_RETAKE_POLICY;
+}
+
+/** One graded attempt at a course; retakes share the course code. */
+export interface CourseAttempt extends WeightedGrade {
+  courseCode: string;
+  /** Start date of the term the attempt was graded in. */
+  startDate: string;
+}
+
+function supersedes(attempt: CourseAttempt, current: CourseAttempt, policy: RetakePolicy): boolean {
+  const later = attempt.startDate > current.startDate;
+  if (policy === 'latest') return later;
+  return attempt.gradePoint > current.gradePoint || (attempt.gradePoint === current.gradePoint && later);
+}
+
+/**
+ * The attempt that counts towards IPK for each course: the highest grade
+ * point (the later one on a tie) under 'best', the most recent under 'latest'.
+ */
+export function countedAttempts<T extends CourseAttempt>(attempts: T[], policy: RetakePolicy): T[] {
+  const counted = new Map<string, T>();
+  for (const attempt of attempts) {
+    const current = counted.get(attempt.courseCode);
+    if (!current || supersedes(attempt, current, policy)) counted.set(attempt.courseCode, attempt);
+  }
+  return [...counted.values()];
+}
+
+export interface TermGrade extends CourseAttempt {
+  academicYear: string;
+  period: string;
+}
+
+export interface SemesterSummary {
+  key: string;
+  academicYear: string;
+  period: string;
+  ips: number;
+  ipk: number;
+  creditsAttempted: number;
+  creditsEarned: number;
+  cumulativeCreditsAttempted: number;
+  cumulativeCreditsEarned: number;
+}
+
+export function semesterKey(academicYear: string, period: string): string {
+  return formatTerm({ academic_year: academicYear, period });
+}
+
+/**
+ * Groups grades by the academic term they were earned in, in chronological
+ * order, and computes IPS for each term plus the running IPK after it. IPS
+ * counts every grade of the term; IPK and the cumulative SKS count one
+ * attempt per course, picked by `policy`.
+ */
+export function summarizeSemesters(grades: TermGrade[], policy: RetakePolicy = DEFAULT_RETAKE_POLICY): SemesterSummary[] {
+  const terms = new Map<string, TermGrade[]>();
+  for (const grade of grades) {
+    const key = semesterKey(grade.academicYear, grade.period);
+    terms.set(key, [...(terms.get(key) || []), grade]);
+  }
+
+  const ordered = [...terms.entries()].sort(([, a], [, b]) => a[0].startDate.localeCompare(b[0].startDate));
+
+  const taken: TermGrade[] = [];
+  return ordered.map(([key, termGrades]) => {
+    taken.push(...termGrades);
+    const counted = countedAttempts(taken, policy);
+    const earned = (list: TermGrade[]) =>
+      list.filter(g => isPassingGrade(g.gradePoint)).reduce((sum, g) => sum + g.credits, 0);
+    const attempted = (list: TermGrade[]) => list.reduce((sum, g) => sum + g.credits, 0);
+
+    return {
+      key,
+      academicYear: termGrades[0].academicYear,
+      period: termGrades[0].period,
+      ips: calculateGPA(termGrades),
+      ipk: calculateGPA(counted),
+      creditsAttempted: attempted(termGrades),
+      creditsEarned: earned(termGrades),
+      cumulativeCreditsAttempted: attempted(counted),
+      cumulativeCreditsEarned: earned(counted),
+    };
+  });
+}
+
+class GradingEngine {
+  private scales = new Map<string, Promise<GradingScale[]>>();
+
+  /**
+   * Returns the grading scale for a curriculum, loading it at most once per
+   * session. Falls back to the default curriculum when none is configured.
+   */
+  getScale(curriculum: string | null | undefined): Promise<GradingScale[]> {
+    const key = curriculum || DEFAULT_CURRICULUM;
+
+    let pending = this.scales.get(key);
+    if (!pending) {
+      pending = gradingScaleRepository.listForCurriculum(key).then(async scale => {
+        if (scale.length > 0 || key === DEFAULT_CURRICULUM) return scale;
+        return this.getScale(DEFAULT_CURRICULUM);
+      });
+      pending.catch(() => this.scales.delete(key));
+      this.scales.set(key, pending);
+    }
+
+    return pending;
+  }
+
+  async getScales(curricula: Array<string | null | undefined>): Promise<Map<string, GradingScale[]>> {
+    const keys = [...new Set(curricula.map(c => c || DEFAULT_CURRICULUM))];
+    const scales = await Promise.all(keys.map(key => this.getScale(key)));
+    return new Map(keys.map((key, idx) => [key, scales[idx]]));
+  }
+
+  async grade(score: number, curriculum: string | null | undefined): Promise<GradeResult> {
+    return resolveGrade(score, await this.getScale(curriculum));
+  }
+
+  invalidate(curriculum?: string) {
+    if (curriculum) {
+      this.scales.delete(curriculum);
+    } else {
+      this.scales.clear();
+    }
+  }
+}
+
+export const gradingEngine = new GradingEngine();
@@ -0,0 +1,27 @@
+const LOGO_SIZE = 256;
+
+/**
+ * Redraws the uploaded image centred on a transparent square PNG, so the
+ * document generators can place it at a fixed size without distorting it.
+ */
+export const toSquarePng = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = LOGO_SIZE;
+      canvas.height = LOGO_SIZE;
+      const scale = Math.min(LOGO_SIZE / image.width, LOGO_SIZE / image.height);
+      const width = image.width * scale;
+      const height = image.height * scale;
+      canvas.getContext('2d')?.drawImage(image, (LOGO_SIZE - width) / 2, (LOGO_SIZE - height) / 2, width, height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('File bukan gambar yang valid'));
+    };
+    image.src = url;
+  });
@@ -0,0 +1,127 @@
+import { formatTerm } from './academicTerms';
+import {
+  lookupScale,
+  resolveGrade,
+  summarizeSemesters,
+  type GradingScale,
+  type RetakePolicy,
+} from './grading';
+import type { AcademicTerm, Course, Student } from './repositories';
+
+/** A graded attempt as the grade queries return it, with its course and term. */
+export interface KhsGrade {
+  score: number;
+  course: Pick<Course, 'code' | 'name' | 'credits' | 'curriculum'> | null;
+  term: Pick<AcademicTerm, 'id' | 'academic_year' | 'period' | 'start_date'> | null;
+}
+
+export type KhsTerm = NonNullable<KhsGrade['term']>;
+
+export interface KhsCourse {
+  courseCode: string;
+  courseName: string;
+  sks: number;
+  score: number;
+  letterGrade: string;
+  gradePoint: number;
+  /** SKS × bobot. */
+  qualityPoints: number;
+  /** The course was already taken in an earlier term. */
+  retake: boolean;
+}
+
+/** Kartu Hasil Studi: a student's results for one term. */
+export interface KhsData {
+  studentId: string;
+  nim: string;
+  studentName: string;
+  angkatan: string;
+  termId: string;
+  termLabel: string;
+  courses: KhsCourse[];
+  totalSKS: number;
+  totalQualityPoints: number;
+  ips: number;
+  /** IPK over every term up to and including this one, under the retake policy. */
+  ipk: number;
+  cumulativeSKS: number;
+}
+
+/** The terms a student has grades in, oldest first. */
+export function gradedTerms(grades: KhsGrade[]): KhsTerm[] {
+  const terms = new Map<string, KhsTerm>();
+  for (const grade of grades) {
+    if (grade.term) terms.set(grade.term.id, grade.term);
+  }
+  return [...terms.values()].sort((a, b) => a.start_date.localeCompare(b.start_date));
+}
+
+/**
+ * Builds the KHS of one term. IPS counts every grade of the term; IPK and
+ * the cumulative SKS count the terms up to it, as the student dashboard
+ * does. Returns null when the student has no grades in the term.
+ */
+export function buildKhs(
+  student: Pick<Student, 'id' | 'nim' | 'name' | 'angkatan'>,
+  grades: KhsGrade[],
+  termId: string,
+  scales: Map<string, GradingScale[]>,
+  policy: RetakePolicy
+): KhsData | null {
+  const attempts = grades.flatMap(grade => {
+    if (!grade.course || !grade.term) return [];
+    const score = parseFloat(String(grade.score));
+    const resolved = resolveGrade(score, lookupScale(scales, grade.course.curriculum));
+    return [{
+      courseCode: grade.course.code,
+      courseName: grade.course.name,
+      credits: grade.course.credits,
+      score,
+      letterGrade: resolved.letterGrade,
+      gradePoint: resolved.gradePoint,
+      termId: grade.term.id,
+      academicYear: grade.term.academic_year,
+      period: grade.term.period,
+      startDate: grade.term.start_date,
+    }];
+  });
+
+  const termAttempts = attempts.filter(a => a.termId === termId);
+  if (termAttempts.length === 0) return null;
+
+  const { academicYear, period, startDate } = termAttempts[0];
+  const summary = summarizeSemesters(attempts, policy)
+    .find(s => s.academicYear === academicYear && s.period === period);
+
+  const courses = termAttempts
+    .map(attempt => ({
+      courseCode: attempt.courseCode,
+      courseName: attempt.courseName,
+      sks: attempt.credits,
+      score: attempt.score,
+      letterGrade: attempt.letterGrade,
+      gradePoint: attempt.gradePoint,
+      qualityPoints: attempt.gradePoint * attempt.credits,
+      retake: attempts.some(a => a.courseCode === attempt.courseCode && a.startDate < startDate),
+    }))
+    .sort((a, b) => a.courseCode.localeCompare(b.courseCode));
+
+  return {
+    studentId: student.id,
+    nim: student.nim,
+    studentName: student.name,
+    angkatan: student.angkatan,
+    termId,
+    termLabel: formatTerm({ academic_year: academicYear, period }),
+    courses,
+    totalSKS: courses.reduce((sum, c) => sum + c.sks, 0),
+    totalQualityPoints: courses.reduce((sum, c) => sum + c.qualityPoints, 0),
+    ips: summary?.ips ?? 0,
+    ipk: summary?.ipk ?? 0,
+    cumulativeSKS: summary?.cumulativeCreditsAttempted ?? 0,
+  };
+}
+
+/** Course name with a marker for a course the student is retaking. */
+export const khsCourseLabel = (course: KhsCourse) =>
+  course.retake ? `${course.courseName} (mengulang)` : course.courseName;
@@ -0,0 +1,187 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { AlignmentType, Document, Paragraph, Table, TableRow, TextRun, WidthType } from 'docx';
+import { khsCourseLabel, type KhsCourse, type KhsData } from './khs';
+import { hexToRgb, TEMPLATE_COLUMNS, type DocumentLayout, type TemplateColumn } from './documentTemplates';
+import {
+  docxColor,
+  docxFooters,
+  docxLetterhead,
+  docxSignature,
+  docxStyles,
+  docxTableCell,
+  drawPdfFooters,
+  drawPdfLetterhead,
+  drawPdfSignature,
+  lastTableY,
+} from './documentRendering';
+
+const TITLE = 'KARTU HASIL STUDI';
+
+const CELL_VALUES: Record<string, (course: KhsCourse, no: number) => string | number> = {
+  no: (_, no) => no,
+  code: course => course.courseCode,
+  name: course => khsCourseLabel(course),
+  credits: course => course.sks,
+  score: course => course.score.toFixed(2),
+  letter: course => course.letterGrade,
+  grade_point: course => course.gradePoint.toFixed(2),
+  quality_points: course => course.qualityPoints.toFixed(2),
+};
+
+/** Left-aligned columns; the others are centred. */
+const TEXT_COLUMNS = new Set(['code', 'name']);
+
+export interface KhsTable {
+  columns: TemplateColumn[];
+  rows: (string | number)[][];
+  /** SKS and SKS x bobot of the term, under their columns. */
+  total: (string | number)[];
+}
+
+export function khsTable(khs: KhsData, layout: DocumentLayout): KhsTable {
+  const columns = TEMPLATE_COLUMNS.khs.filter(c => layout.columns.includes(c.key));
+  const total: Record<string, string | number> = {
+    name: 'Jumlah',
+    credits: khs.totalSKS,
+    quality_points: khs.totalQualityPoints.toFixed(2),
+  };
+
+  return {
+    columns,
+    rows: khs.courses.map((course, idx) => columns.map(c => CELL_VALUES[c.key](course, idx + 1))),
+    total: columns.map(c => total[c.key] ?? ''),
+  };
+}
+
+export function khsSummary(khs: KhsData): [string, string][] {
+  return [
+    ['Indeks Prestasi Semester (IPS)', khs.ips.toFixed(2)],
+    ['SKS Kumulatif', String(khs.cumulativeSKS)],
+    ['Indeks Prestasi Kumulatif (IPK)', khs.ipk.toFixed(2)],
+  ];
+}
+
+export function khsIdentity(khs: KhsData, layout: DocumentLayout): [string, string][] {
+  const rows: [string, string][] = [
+    ['Nama', khs.studentName],
+    ['NIM', khs.nim],
+    ['Angkatan', khs.angkatan],
+  ];
+  if (layout.studyProgram) rows.push(['Program Studi', layout.studyProgram]);
+  rows.push(['Periode', khs.termLabel]);
+  return rows;
+}
+
+export function khsFileName(khs: KhsData, extension: string): string {
+  return `KHS_${khs.nim}_${khs.termLabel.replace(/[\s/]+/g, '_')}.${extension}`;
+}
+
+function drawKhs(doc: jsPDF, khs: KhsData, layout: DocumentLayout, issuedAt: Date) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let y = drawPdfLetterhead(doc, layout);
+
+  doc.setFont(layout.fontFamily, 'bold');
+  doc.setFontSize(14);
+  doc.text(TITLE, pageWidth / 2, y, { align: 'center' });
+  y += 10;
+
+  doc.setFont(layout.fontFamily, 'normal');
+  doc.setFontSize(10);
+  for (const [label, value] of khsIdentity(khs, layout)) {
+    doc.text(label, 15, y);
+    doc.text(`: ${value}`, 50, y);
+    y += 6;
+  }
+
+  const { columns, rows, total } = khsTable(khs, layout);
+  autoTable(doc, {
+    startY: y + 2,
+    head: [columns.map(c => c.label)],
+    body: [...rows, total.map(cell => ({ content: cell, styles: { fontStyle: 'bold' } }))],
+    theme: 'grid',
+    styles: { font: layout.fontFamily, fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fillColor: hexToRgb(layout.primaryColor), halign: 'center' },
+    alternateRowStyles: { fillColor: hexToRgb(layout.accentColor) },
+    columnStyles: Object.fromEntries(
+      columns.map((c, idx) => [idx, { halign: TEXT_COLUMNS.has(c.key) ? 'left' : 'center' }])
+    ),
+    margin: { left: 15, right: 15, bottom: 15 },
+  });
+
+  y = lastTableY(doc, y) + 8;
+  doc.setFont(layout.fontFamily, 'bold');
+  doc.setFontSize(10);
+  for (const [label, value] of khsSummary(khs)) {
+    doc.text(label, 15, y);
+    doc.text(`: ${value}`, 80, y);
+    y += 6;
+  }
+
+  drawPdfSignature(doc, layout, issuedAt, y + 6);
+}
+
+/** One KHS per page, so a whole angkatan prints as a single file. */
+export function khsPdf(list: KhsData[], layout: DocumentLayout, issuedAt = new Date()): jsPDF {
+  const doc = new jsPDF();
+  list.forEach((khs, idx) => {
+    if (idx > 0) doc.addPage();
+    const firstPage = doc.getNumberOfPages();
+    drawKhs(doc, khs, layout, issuedAt);
+    drawPdfFooters(doc, layout, firstPage);
+  });
+  return doc;
+}
+
+function khsDocxChildren(khs: KhsData, layout: DocumentLayout, issuedAt: Date) {
+  const { columns, rows, total } = khsTable(khs, layout);
+  const centered = columns.map(c => !TEXT_COLUMNS.has(c.key));
+
+  const tableRows = [
+    new TableRow({
+      tableHeader: true,
+      children: columns.map(c =>
+        docxTableCell(c.label, { bold: true, color: 'FFFFFF', fill: docxColor(layout.primaryColor), center: true })
+      ),
+    }),
+    ...rows.map(row =>
+      new TableRow({ children: row.map((cell, idx) => docxTableCell(cell, { center: centered[idx] })) })
+    ),
+    new TableRow({ children: total.map((cell, idx) => docxTableCell(cell, { bold: true, center: centered[idx] })) }),
+  ];
+
+  return [
+    ...docxLetterhead(layout),
+    new Paragraph({ text: '' }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new TextRun({ text: TITLE, bold: true, size: 28 })],
+    }),
+    new Paragraph({ text: '' }),
+    ...khsIdentity(khs, layout).map(([label, value]) =>
+      new Paragraph({ tabStops: [{ type: 'left', position: 2000 }], text: `${label}\t: ${value}` })
+    ),
+    new Paragraph({ text: '' }),
+    new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: tableRows }),
+    new Paragraph({ text: '' }),
+    ...khsSummary(khs).map(([label, value]) =>
+      new Paragraph({
+        tabStops: [{ type: 'left', position: 4000 }],
+        children: [new TextRun({ text: `${label}\t: ${value}`, bold: true })],
+      })
+    ),
+    new Paragraph({ text: '' }),
+    ...docxSignature(layout, issuedAt),
+  ];
+}
+
+/** One section, and so one page, per KHS. */
+export function khsDocx(list: KhsData[], layout: DocumentLayout, issuedAt = new Date()): Document {
+  return new Document({
+    styles: docxStyles(layout),
+    sections: list.map(khs => ({
+      footers: docxFooters(layout),
+      children: khsDocxChildren(khs, layout, issuedAt),
+    })),
+  });
+}
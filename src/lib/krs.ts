@@ -0,0 +1,39 @@
+import type { AcademicTerm, Course, KrsStatus, KrsSubmission } from './repositories';
+
+export type { KrsStatus };
+
+export const KRS_STATUS_LABELS: Record<KrsStatus, string> = {
+  submitted: 'Menunggu Persetujuan',
+  approved: 'Disetujui',
+  rejected: 'Ditolak',
+};
+
+export const KRS_STATUS_STYLES: Record<KrsStatus, string> = {
+  submitted: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+export function krsStatusOf(krs: Pick<KrsSubmission, 'status'>): KrsStatus {
+  return krs.status as KrsStatus;
+}
+
+/**
+ * Terms a KRS can be filled in for, earliest first: the active term and terms
+ * that have not started yet, when the curriculum offers courses in them.
+ * submit_krs accepts the same terms.
+ */
+export function listKrsTerms(
+  terms: AcademicTerm[],
+  courses: Pick<Course, 'term_id'>[],
+  today = new Date().toISOString().slice(0, 10)
+): AcademicTerm[] {
+  const offered = new Set(courses.map(course => course.term_id));
+  return terms
+    .filter(term => offered.has(term.id) && (term.is_active || term.start_date > today))
+    .sort((a, b) => a.start_date.localeCompare(b.start_date));
+}
+
+export function totalCredits(courses: Pick<Course, 'credits'>[]): number {
+  return courses.reduce((sum, course) => sum + course.credits, 0);
+}
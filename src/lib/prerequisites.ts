@@ -0,0 +1,40 @@
+import {
+  coursePrerequisiteRepository,
+  type PrerequisiteKind,
+  type UnmetPrerequisite,
+} from './repositories';
+
+export type { PrerequisiteKind, UnmetPrerequisite };
+
+export const PREREQUISITE_KIND_LABELS: Record<PrerequisiteKind, string> = {
+  prerequisite: 'Prasyarat',
+  corequisite: 'Ko-requisit',
+};
+
+/** Messages from `unmet_prerequisites`, joined for a single line of output. */
+export function describeUnmet(unmet: UnmetPrerequisite[]): string {
+  return unmet.map(u => u.message).join('; ');
+}
+
+/**
+ * Checks prerequisites for a run of enrollments. Each student is checked
+ * once against every course of the run, so co-requisites enrolled together in
+ * the run count as taken.
+ */
+export class PrerequisiteChecker {
+  private unmet = new Map<string, Promise<UnmetPrerequisite[]>>();
+
+  constructor(private readonly courseIds: string[]) {}
+
+  /** Requirements of `courseId` the student does not meet; empty when eligible. */
+  async check(studentId: string, courseId: string): Promise<UnmetPrerequisite[]> {
+    let pending = this.unmet.get(studentId);
+    if (!pending) {
+      pending = coursePrerequisiteRepository.findUnmet(studentId, this.courseIds);
+      pending.catch(() => this.unmet.delete(studentId));
+      this.unmet.set(studentId, pending);
+    }
+
+    return (await pending).filter(u => u.course_id === courseId);
+  }
+}
@@ -0,0 +1,45 @@
+import { assertOk, unwrap, unwrapRows } from './errors';
+import type { AcademicTerm, AcademicTermInput, DataClient } from './types';
+
+export class AcademicTermRepository {
+  constructor(private readonly client: DataClient) {}
+
+  /** Most recent term first. */
+  async list(): Promise<AcademicTerm[]> {
+    return unwrapRows<AcademicTerm>(
+      'academicTerms.list',
+      await this.client.from('academic_terms').select('*').order('start_date', { ascending: false })
+    );
+  }
+
+  async findActive(): Promise<AcademicTerm | null> {
+    return unwrap<AcademicTerm>(
+      'academicTerms.findActive',
+      await this.client.from('academic_terms').select('*').eq('is_active', true).maybeSingle()
+    );
+  }
+
+  async create(input: AcademicTermInput) {
+    assertOk('academicTerms.create', await this.client.from('academic_terms').insert(input));
+  }
+
+  async update(id: string, input: Partial<AcademicTermInput>) {
+    assertOk(
+      'academicTerms.update',
+      await this.client
+        .from('academic_terms')
+        .update({ ...input, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    );
+  }
+
+  /** Fails with a foreign key violation while courses or grades still use the term. */
+  async remove(id: string) {
+    assertOk('academicTerms.remove', await this.client.from('academic_terms').delete().eq('id', id));
+  }
+
+  /** Makes the term the only active one. */
+  async setActive(id: string) {
+    assertOk('academicTerms.setActive', await this.client.rpc('set_active_academic_term', { p_term_id: id }));
+  }
+}
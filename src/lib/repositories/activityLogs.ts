@@ -0,0 +1,21 @@
+import { assertOk, unwrapRows } from './errors';
+import type { ActivityLogEntry, ActivityLogInput, DataClient } from './types';
+
+export class ActivityLogRepository {
+  constructor(private readonly client: DataClient) {}
+
+  async listRecent(limit = 500): Promise<ActivityLogEntry[]> {
+    return unwrapRows<ActivityLogEntry>(
+      'activityLogs.listRecent',
+      await this.client
+        .from('activity_logs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit)
+    );
+  }
+
+  async insert(entry: ActivityLogInput) {
+    assertOk('activityLogs.insert', await this.client.from('activity_logs').insert(entry));
+  }
+}
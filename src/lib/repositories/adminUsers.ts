@@ -0,0 +1,57 @@
+import { assertOk, unwrap, unwrapFunction, unwrapRows } from './errors';
+import type { AdminPermission, AdminRole, AdminRolePermission, AdminUser, DataClient, NewAdminAccount } from './types';
+
+export class AdminUserRepository {
+  constructor(private readonly client: DataClient) {}
+
+  async list(): Promise<AdminUser[]> {
+    return unwrapRows<AdminUser>(
+      'adminUsers.list',
+      await this.client.from('admin_users').select('*').order('name')
+    );
+  }
+
+  async findById(id: string): Promise<AdminUser | null> {
+    return unwrap<AdminUser>(
+      'adminUsers.findById',
+      await this.client.from('admin_users').select('*').eq('id', id).maybeSingle()
+    );
+  }
+
+  /**
+   * Creates the login and the admin row through the `create-admin-user` edge
+   * function; signing the new user up from here would replace the caller's
+   * session. Returns the new admin's id.
+   */
+  async createAccount(input: NewAdminAccount): Promise<string> {
+    const { id } = await unwrapFunction(
+      'adminUsers.createAccount',
+      await this.client.functions.invoke<{ id: string }>('create-admin-user', { body: input })
+    );
+    return id;
+  }
+
+  async updateRole(id: string, role: AdminRole) {
+    assertOk('adminUsers.updateRole', await this.client.from('admin_users').update({ role }).eq('id', id));
+  }
+
+  async remove(id: string) {
+    assertOk('adminUsers.remove', await this.client.from('admin_users').delete().eq('id', id));
+  }
+
+  /** The whole permission matrix, one row per granted (role, permission) pair. */
+  async listRolePermissions(): Promise<AdminRolePermission[]> {
+    return unwrapRows<AdminRolePermission>(
+      'adminUsers.listRolePermissions',
+      await this.client.from('admin_role_permissions').select('*')
+    );
+  }
+
+  async listPermissionsForRole(role: string): Promise<AdminPermission[]> {
+    const rows = unwrapRows<Pick<AdminRolePermission, 'permission'>>(
+      'adminUsers.listPermissionsForRole',
+      await this.client.from('admin_role_permissions').select('permission').eq('role', role)
+    );
+    return rows.map(row => row.permission as AdminPermission);
+  }
+}
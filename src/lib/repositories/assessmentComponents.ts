@@ -0,0 +1,40 @@
+import { unwrapRows } from './errors';
+import type { AssessmentComponent, AssessmentComponentInput, ComponentScore, DataClient } from './types';
+
+export class AssessmentComponentRepository {
+  constructor(private readonly client: DataClient) {}
+
+  async listForCourse(courseId: string): Promise<AssessmentComponent[]> {
+    return unwrapRows<AssessmentComponent>(
+      'assessmentComponents.listForCourse',
+      await this.client
+        .from('assessment_components')
+        .select('*')
+        .eq('course_id', courseId)
+        .order('sort_order')
+    );
+  }
+
+  /**
+   * Replaces the component list of a course. The server rejects weights that
+   * do not sum to 100 and recalculates grades derived from the old weights.
+   */
+  async save(courseId: string, components: AssessmentComponentInput[]): Promise<AssessmentComponent[]> {
+    return unwrapRows<AssessmentComponent>(
+      'assessmentComponents.save',
+      await this.client.rpc('save_assessment_components', {
+        p_course_id: courseId,
+        p_components: components.map(({ id, name, weight }) => (id ? { id, name, weight } : { name, weight })),
+      })
+    );
+  }
+
+  async listScores(componentIds: string[]): Promise<ComponentScore[]> {
+    if (componentIds.length === 0) return [];
+
+    return unwrapRows<ComponentScore>(
+      'assessmentComponents.listScores',
+      await this.client.from('component_scores').select('*').in('component_id', componentIds)
+    );
+  }
+}
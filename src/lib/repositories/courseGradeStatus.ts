@@ -0,0 +1,44 @@
+import { assertOk, unwrap, unwrapRows } from './errors';
+import type { CourseGradeStatus, DataClient, GradeStatus } from './types';
+
+export interface GradeStatusTransitionOptions {
+  reason?: string;
+  /** ISO timestamp; students see the grades from this moment on. */
+  releaseAt?: string;
+}
+
+export class CourseGradeStatusRepository {
+  constructor(private readonly client: DataClient) {}
+
+  /** Status rows that exist; courses without one are still in draft. */
+  async list(): Promise<CourseGradeStatus[]> {
+    return unwrapRows<CourseGradeStatus>(
+      'courseGradeStatus.list',
+      await this.client.from('course_grade_status').select('*')
+    );
+  }
+
+  async findForCourse(courseId: string): Promise<CourseGradeStatus | null> {
+    return unwrap<CourseGradeStatus>(
+      'courseGradeStatus.findForCourse',
+      await this.client.from('course_grade_status').select('*').eq('course_id', courseId).maybeSingle()
+    );
+  }
+
+  /**
+   * Moves a course to another grading status. The server rejects transitions
+   * outside the state machine and reopening without a reason, and writes the
+   * change to the activity log. `releaseAt` only applies when publishing.
+   */
+  async transition(courseId: string, status: GradeStatus, options: GradeStatusTransitionOptions = {}) {
+    assertOk(
+      'courseGradeStatus.transition',
+      await this.client.rpc('transition_course_grade_status', {
+        p_course_id: courseId,
+        p_status: status,
+        p_reason: options.reason || undefined,
+        p_release_at: options.releaseAt || undefined,
+      })
+    );
+  }
+}
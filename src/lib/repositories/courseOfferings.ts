@@ -0,0 +1,43 @@
+import { assertOk, unwrapRows } from './errors';
+import type { CourseOffering, CourseOfferingInput, CourseOfferingWithLecturer, DataClient } from './types';
+
+type CourseOfferingRow = Omit<CourseOfferingWithLecturer, 'enrolled'> & { enrollments: { count: number }[] };
+
+export class CourseOfferingRepository {
+  constructor(private readonly client: DataClient) {}
+
+  /**
+   * Classes with their lecturer and enrollment count, in section order.
+   * Limited to the given courses when `courseIds` is passed.
+   */
+  async list(courseIds?: string[]): Promise<CourseOfferingWithLecturer[]> {
+    if (courseIds && courseIds.length === 0) return [];
+
+    let query = this.client
+      .from('course_offerings')
+      .select(`
+        *,
+        lecturer:lecturers (id, nidn, name),
+        enrollments (count)
+      `);
+    if (courseIds) query = query.in('course_id', courseIds);
+
+    const rows = unwrapRows<CourseOfferingRow>('courseOfferings.list', await query.order('section'));
+    return rows.map(({ enrollments, ...offering }) => ({
+      ...offering,
+      enrolled: enrollments[0]?.count ?? 0,
+    }));
+  }
+
+  async create(input: CourseOfferingInput) {
+    assertOk('courseOfferings.create', await this.client.from('course_offerings').insert(input));
+  }
+
+  async update(id: string, patch: Partial<Pick<CourseOffering, 'section' | 'capacity' | 'lecturer_id'>>) {
+    assertOk('courseOfferings.update', await this.client.from('course_offerings').update(patch).eq('id', id));
+  }
+
+  async remove(id: string) {
+    assertOk('courseOfferings.remove', await this.client.from('course_offerings').delete().eq('id', id));
+  }
+}
@@ -0,0 +1,44 @@
+import { assertOk, unwrapRows } from './errors';
+import type {
+  CoursePrerequisiteInput,
+  CoursePrerequisiteWithCourse,
+  DataClient,
+  UnmetPrerequisite,
+} from './types';
+
+export class CoursePrerequisiteRepository {
+  constructor(private readonly client: DataClient) {}
+
+  /** Every requirement with the course it points to, oldest first. */
+  async list(): Promise<CoursePrerequisiteWithCourse[]> {
+    return unwrapRows<CoursePrerequisiteWithCourse>(
+      'coursePrerequisites.list',
+      await this.client
+        .from('course_prerequisites')
+        .select(`
+          *,
+          prerequisite:courses!course_prerequisites_prerequisite_id_fkey (id, code, name, curriculum)
+        `)
+        .order('created_at')
+    );
+  }
+
+  async create(input: CoursePrerequisiteInput) {
+    assertOk('coursePrerequisites.create', await this.client.from('course_prerequisites').insert(input));
+  }
+
+  async remove(id: string) {
+    assertOk('coursePrerequisites.remove', await this.client.from('course_prerequisites').delete().eq('id', id));
+  }
+
+  /**
+   * Requirements of the given courses the student does not meet. The courses
+   * count as taken together, so co-requisites among them are satisfied.
+   */
+  async findUnmet(studentId: string, courseIds: string[]): Promise<UnmetPrerequisite[]> {
+    return unwrapRows<UnmetPrerequisite>(
+      'coursePrerequisites.findUnmet',
+      await this.client.rpc('unmet_prerequisites', { p_student_id: studentId, p_course_ids: courseIds })
+    );
+  }
+}
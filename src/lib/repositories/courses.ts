@@ -0,0 +1,69 @@
+import { assertOk, unwrap, unwrapRows } from './errors';
+import type { Course, CourseInput, DataClient } from './types';
+
+export interface CourseFilter {
+  curriculum?: string;
+  semester?: number;
+  termId?: string;
+}
+
+export class CourseRepository {
+  constructor(private readonly client: DataClient) {}
+
+  /** Courses grouped by curriculum (newest first), then semester and code. */
+  async list(filter: CourseFilter = {}): Promise<Course[]> {
+    let query = this.client.from('courses').select('*');
+    if (filter.curriculum) query = query.eq('curriculum', filter.curriculum);
+    if (filter.semester !== undefined) query = query.eq('semester', filter.semester);
+    if (filter.termId) query = query.eq('term_id', filter.termId);
+
+    return unwrapRows<Course>(
+      'courses.list',
+      await query
+        .order('curriculum', { ascending: false })
+        .order('semester', { ascending: true, nullsFirst: false })
+        .order('code')
+    );
+  }
+
+  /** Distinct curriculum values, newest first. */
+  async listCurricula(): Promise<string[]> {
+    const rows = unwrapRows<Pick<Course, 'curriculum'>>(
+      'courses.listCurricula',
+      await this.client.from('courses').select('curriculum')
+    );
+    return [...new Set(rows.map(row => row.curriculum).filter(Boolean))].sort().reverse();
+  }
+
+  /** Codes repeat across terms; pass `termId` to get the offering of one term. */
+  async findByCode(code: string, curriculum?: string, termId?: string): Promise<Course | null> {
+    let query = this.client.from('courses').select('*').eq('code', code);
+    if (curriculum !== undefined) query = query.eq('curriculum', curriculum);
+    if (termId !== undefined) query = query.eq('term_id', termId);
+
+    const rows = unwrapRows<Course>(
+      'courses.findByCode',
+      await query.order('curriculum', { ascending: false }).limit(1)
+    );
+    return rows[0] ?? null;
+  }
+
+  async findById(id: string): Promise<Course | null> {
+    return unwrap<Course>(
+      'courses.findById',
+      await this.client.from('courses').select('*').eq('id', id).maybeSingle()
+    );
+  }
+
+  async create(input: CourseInput) {
+    assertOk('courses.create', await this.client.from('courses').insert(input));
+  }
+
+  async update(id: string, input: Partial<CourseInput>) {
+    assertOk('courses.update', await this.client.from('courses').update(input).eq('id', id));
+  }
+
+  async remove(id: string) {
+    assertOk('courses.remove', await this.client.from('courses').delete().eq('id', id));
+  }
+}
@@ -0,0 +1,31 @@
+import { assertOk, unwrap, unwrapRows } from './errors';
+import type { DataClient, DocumentTemplate, DocumentTemplateInput, DocumentType } from './types';
+
+export class DocumentTemplateRepository {
+  constructor(private readonly client: DataClient) {}
+
+  async list(): Promise<DocumentTemplate[]> {
+    return unwrapRows<DocumentTemplate>(
+      'documentTemplates.list',
+      await this.client.from('document_templates').select('*').order('document_type')
+    );
+  }
+
+  /** null only if the migration's seed row was deleted; callers fall back to the defaults. */
+  async get(documentType: DocumentType): Promise<DocumentTemplate | null> {
+    return unwrap<DocumentTemplate>(
+      'documentTemplates.get',
+      await this.client.from('document_templates').select('*').eq('document_type', documentType).maybeSingle()
+    );
+  }
+
+  async save(documentType: DocumentType, input: DocumentTemplateInput) {
+    assertOk(
+      'documentTemplates.save',
+      await this.client
+        .from('document_templates')
+        .update({ ...input, updated_at: new Date().toISOString() })
+        .eq('document_type', documentType)
+    );
+  }
+}
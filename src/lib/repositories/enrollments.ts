@@ -0,0 +1,91 @@
+import { assertOk, unwrap, unwrapRows } from './errors';
+import type { DataClient, EnrolledStudent, Enrollment, EnrollmentWithRelations } from './types';
+
+export class EnrollmentRepository {
+  constructor(private readonly client: DataClient) {}
+
+  async listWithRelations(): Promise<EnrollmentWithRelations[]> {
+    return unwrapRows<EnrollmentWithRelations>(
+      'enrollments.listWithRelations',
+      await this.client
+        .from('enrollments')
+        .select(`
+          id,
+          course_id,
+          offering_id,
+          student:students (nim, name),
+          course:courses (code, name)
+        `)
+        .order('created_at', { ascending: false })
+    );
+  }
+
+  async listStudentsForCourse(courseId: string): Promise<EnrolledStudent[]> {
+    return unwrapRows<EnrolledStudent>(
+      'enrollments.listStudentsForCourse',
+      await this.client
+        .from('enrollments')
+        .select(`
+          student_id,
+          offering_id,
+          student:students (
+            id,
+            nim,
+            name,
+            email,
+            angkatan
+          )
+        `)
+        .eq('course_id', courseId)
+        .order('student(name)')
+    );
+  }
+
+  /** Enrollments of the given students in the given courses, with their class. */
+  async listForCourses(courseIds: string[], studentIds: string[]): Promise<Enrollment[]> {
+    if (courseIds.length === 0 || studentIds.length === 0) return [];
+
+    return unwrapRows<Enrollment>(
+      'enrollments.listForCourses',
+      await this.client
+        .from('enrollments')
+        .select('*')
+        .in('course_id', courseIds)
+        .in('student_id', studentIds)
+    );
+  }
+
+  async find(studentId: string, courseId: string): Promise<Enrollment | null> {
+    return unwrap<Enrollment>(
+      'enrollments.find',
+      await this.client
+        .from('enrollments')
+        .select('*')
+        .eq('student_id', studentId)
+        .eq('course_id', courseId)
+        .maybeSingle()
+    );
+  }
+
+  /** Without `offeringId` the database places the student in the first class with room. */
+  async create(studentId: string, courseId: string, offeringId?: string) {
+    assertOk(
+      'enrollments.create',
+      await this.client
+        .from('enrollments')
+        .insert({ student_id: studentId, course_id: courseId, offering_id: offeringId })
+    );
+  }
+
+  /** Moves an enrollment to another class of the same course. */
+  async moveToOffering(id: string, offeringId: string) {
+    assertOk(
+      'enrollments.moveToOffering',
+      await this.client.from('enrollments').update({ offering_id: offeringId }).eq('id', id)
+    );
+  }
+
+  async remove(id: string) {
+    assertOk('enrollments.remove', await this.client.from('enrollments').delete().eq('id', id));
+  }
+}
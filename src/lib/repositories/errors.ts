@@ -0,0 +1,75 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+interface PostgrestLikeError {
+  message: string;
+  code?: string;
+  details?: string | null;
+  hint?: string | null;
+}
+
+/**
+ * Error thrown by every repository method. Wraps the PostgREST error so
+ * components can rely on `message` and check `code` without knowing which
+ * query failed.
+ */
+export class RepositoryError extends Error {
+  readonly operation: string;
+  readonly code: string | null;
+  readonly details: string | null;
+  readonly hint: string | null;
+
+  constructor(operation: string, cause: PostgrestLikeError) {
+    super(cause.message);
+    this.name = 'RepositoryError';
+    this.operation = operation;
+    this.code = cause.code ?? null;
+    this.details = cause.details ?? null;
+    this.hint = cause.hint ?? null;
+  }
+
+  get isUniqueViolation() {
+    return this.code === '23505';
+  }
+
+  get isForeignKeyViolation() {
+    return this.code === '23503';
+  }
+}
+
+interface QueryResult<T> {
+  data: T | null;
+  error: PostgrestLikeError | null;
+}
+
+export function unwrap<T>(operation: string, result: QueryResult<T>): T | null {
+  if (result.error) throw new RepositoryError(operation, result.error);
+  return result.data;
+}
+
+export function unwrapRows<T>(operation: string, result: QueryResult<T[]>): T[] {
+  return unwrap(operation, result) ?? [];
+}
+
+export function assertOk(operation: string, result: { error: PostgrestLikeError | null }) {
+  if (result.error) throw new RepositoryError(operation, result.error);
+}
+
+/**
+ * `unwrap` for edge function calls. A function that fails answers with
+ * `{ error }`, which becomes the message instead of the client's generic one.
+ */
+export async function unwrapFunction<T>(
+  operation: string,
+  result: { data: T | null; error: Error | null }
+): Promise<T> {
+  if (result.error) {
+    const body = result.error instanceof FunctionsHttpError
+      ? await result.error.context.json().catch(() => null)
+      : null;
+    throw new RepositoryError(operation, { message: body?.error ?? result.error.message });
+  }
+  if (result.data === null) {
+    throw new RepositoryError(operation, { message: 'Edge function returned no data' });
+  }
+  return result.data;
+}
@@ -0,0 +1,19 @@
+import { unwrapRows } from './errors';
+import type { DataClient, GradeRevision } from './types';
+
+export class GradeRevisionRepository {
+  constructor(private readonly client: DataClient) {}
+
+  /** Change history of one student's grade in one course, newest first. */
+  async listForStudentCourse(studentId: string, courseId: string): Promise<GradeRevision[]> {
+    return unwrapRows<GradeRevision>(
+      'gradeRevisions.listForStudentCourse',
+      await this.client
+        .from('grade_revisions')
+        .select('*')
+        .eq('student_id', studentId)
+        .eq('course_id', courseId)
+        .order('created_at', { ascending: false })
+    );
+  }
+}
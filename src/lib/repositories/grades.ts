@@ -0,0 +1,146 @@
+import { assertOk, unwrapRows } from './errors';
+import type {
+  DataClient,
+  Grade,
+  GradeBatchOptions,
+  GradeBatchResult,
+  GradeBatchRow,
+  GradeInput,
+  GradeWithCourse,
+  GradeWithRelations,
+  PriorAttempt,
+} from './types';
+
+export class GradeRepository {
+  constructor(private readonly client: DataClient) {}
+
+  async listForStudent(studentId: string): Promise<GradeWithCourse[]> {
+    return unwrapRows<GradeWithCourse>(
+      'grades.listForStudent',
+      await this.client
+        .from('grades')
+        .select(`
+          id,
+          score,
+          letter_grade,
+          course:courses (
+            code,
+            name,
+            academic_year,
+            semester,
+            credits,
+            curriculum
+          ),
+          term:academic_terms (
+            id,
+            academic_year,
+            period,
+            start_date
+          )
+        `)
+        .eq('student_id', studentId)
+        .order('created_at', { ascending: false })
+    );
+  }
+
+  async listWithRelations(): Promise<GradeWithRelations[]> {
+    return unwrapRows<GradeWithRelations>(
+      'grades.listWithRelations',
+      await this.client
+        .from('grades')
+        .select(`
+          student_id,
+          course_id,
+          term_id,
+          score,
+          letter_grade,
+          student:students (nim, name, angkatan),
+          course:courses (code, name, curriculum)
+        `)
+        .order('created_at', { ascending: false })
+    );
+  }
+
+  async listForCourse(courseId: string): Promise<Grade[]> {
+    return unwrapRows<Grade>(
+      'grades.listForCourse',
+      await this.client.from('grades').select('*').eq('course_id', courseId)
+    );
+  }
+
+  async listForCourses(courseIds: string[], studentIds: string[]): Promise<Grade[]> {
+    if (courseIds.length === 0 || studentIds.length === 0) return [];
+
+    return unwrapRows<Grade>(
+      'grades.listForCourses',
+      await this.client
+        .from('grades')
+        .select('*')
+        .in('course_id', courseIds)
+        .in('student_id', studentIds)
+    );
+  }
+
+  /** Grades the given students earned in a term. */
+  async listForTerm(termId: string, studentIds: string[]): Promise<Grade[]> {
+    if (studentIds.length === 0) return [];
+
+    return unwrapRows<Grade>(
+      'grades.listForTerm',
+      await this.client
+        .from('grades')
+        .select('*')
+        .eq('term_id', termId)
+        .in('student_id', studentIds)
+    );
+  }
+
+  /**
+   * Earlier attempts at the given course codes: grades of the students in
+   * terms that started before `beforeDate`, on any offering with that code.
+   */
+  async listPriorAttempts(courseCodes: string[], studentIds: string[], beforeDate: string): Promise<PriorAttempt[]> {
+    if (courseCodes.length === 0 || studentIds.length === 0) return [];
+
+    return unwrapRows<PriorAttempt>(
+      'grades.listPriorAttempts',
+      await this.client
+        .from('grades')
+        .select(`
+          student_id,
+          course:courses!inner (code),
+          term:academic_terms!inner (start_date)
+        `)
+        .in('student_id', studentIds)
+        .in('course.code', courseCodes)
+        .lt('term.start_date', beforeDate)
+    );
+  }
+
+  /** Inserts or replaces grades, keyed on (student_id, course_id). */
+  async upsert(grades: GradeInput | GradeInput[]) {
+    const rows = Array.isArray(grades) ? grades : [grades];
+    assertOk(
+      'grades.upsert',
+      await this.client.from('grades').upsert(rows, { onConflict: 'student_id,course_id' })
+    );
+  }
+
+  /**
+   * Validates and upserts a whole sheet in one transaction. Either every row
+   * is saved or none is; the result has one status entry per input row.
+   * Source and reason end up in the grade revision history.
+   */
+  async upsertBatch(rows: GradeBatchRow[], options: GradeBatchOptions): Promise<GradeBatchResult[]> {
+    if (rows.length === 0) return [];
+
+    return unwrapRows<GradeBatchResult>(
+      'grades.upsertBatch',
+      await this.client.rpc('upsert_grades_batch', {
+        p_rows: rows,
+        p_source: options.source,
+        p_reason: options.reason || undefined,
+      })
+    );
+  }
+}
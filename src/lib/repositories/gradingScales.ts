@@ -0,0 +1,51 @@
+import { assertOk, unwrapRows } from './errors';
+import type { DataClient, GradingScale, GradingScaleInput } from './types';
+
+export class GradingScaleRepository {
+  constructor(private readonly client: DataClient) {}
+
+  async list(): Promise<GradingScale[]> {
+    return unwrapRows<GradingScale>(
+      'gradingScales.list',
+      await this.client
+        .from('grading_scales')
+        .select('*')
+        .order('curriculum', { ascending: false })
+        .order('min_score', { ascending: false })
+    );
+  }
+
+  /** Bands of one curriculum, highest `min_score` first. */
+  async listForCurriculum(curriculum: string): Promise<GradingScale[]> {
+    return unwrapRows<GradingScale>(
+      'gradingScales.listForCurriculum',
+      await this.client
+        .from('grading_scales')
+        .select('*')
+        .eq('curriculum', curriculum)
+        .order('min_score', { ascending: false })
+    );
+  }
+
+  /** Curricula that have a grading scale, newest first. */
+  async listCurricula(): Promise<string[]> {
+    const rows = unwrapRows<Pick<GradingScale, 'curriculum'>>(
+      'gradingScales.listCurricula',
+      await this.client.from('grading_scales').select('curriculum')
+    );
+    return [...new Set(rows.map(row => row.curriculum))].sort().reverse();
+  }
+
+  async create(input: GradingScaleInput | GradingScaleInput[]) {
+    const rows = Array.isArray(input) ? input : [input];
+    assertOk('gradingScales.create', await this.client.from('grading_scales').insert(rows));
+  }
+
+  async update(id: string, input: Partial<GradingScaleInput>) {
+    assertOk('gradingScales.update', await this.client.from('grading_scales').update(input).eq('id', id));
+  }
+
+  async remove(id: string) {
+    assertOk('gradingScales.remove', await this.client.from('grading_scales').delete().eq('id', id));
+  }
+}
@@ -0,0 +1,67 @@
+import { assertOk, unwrapRows } from './errors';
+import type {
+  DataClient,
+  GraduationRequiredCourse,
+  GraduationRequirement,
+  GraduationRequirementInput,
+} from './types';
+
+export class GraduationRequirementRepository {
+  constructor(private readonly client: DataClient) {}
+
+  /** Requirements of every curriculum that has them, newest curriculum first. */
+  async list(): Promise<GraduationRequirement[]> {
+    return unwrapRows<GraduationRequirement>(
+      'graduationRequirements.list',
+      await this.client.from('graduation_requirements').select('*').order('curriculum', { ascending: false })
+    );
+  }
+
+  /** Required course codes, of one curriculum when `curriculum` is passed. */
+  async listRequiredCourses(curriculum?: string): Promise<GraduationRequiredCourse[]> {
+    let query = this.client.from('graduation_required_courses').select('*');
+    if (curriculum) query = query.eq('curriculum', curriculum);
+
+    return unwrapRows<GraduationRequiredCourse>(
+      'graduationRequirements.listRequiredCourses',
+      await query.order('course_code')
+    );
+  }
+
+  async save(input: GraduationRequirementInput) {
+    assertOk(
+      'graduationRequirements.save',
+      await this.client
+        .from('graduation_requirements')
+        .upsert({ ...input, updated_at: new Date().toISOString() }, { onConflict: 'curriculum' })
+    );
+  }
+
+  /** Makes `courseCodes` the required courses of a curriculum. */
+  async setRequiredCourses(curriculum: string, courseCodes: string[]) {
+    let removal = this.client.from('graduation_required_courses').delete().eq('curriculum', curriculum);
+    if (courseCodes.length > 0) {
+      removal = removal.not('course_code', 'in', `(${courseCodes.map(code => `"${code}"`).join(',')})`);
+    }
+    assertOk('graduationRequirements.setRequiredCourses', await removal);
+
+    if (courseCodes.length === 0) return;
+    assertOk(
+      'graduationRequirements.setRequiredCourses',
+      await this.client
+        .from('graduation_required_courses')
+        .upsert(
+          courseCodes.map(course_code => ({ curriculum, course_code })),
+          { onConflict: 'curriculum,course_code', ignoreDuplicates: true }
+        )
+    );
+  }
+
+  /** Also removes the curriculum's required courses. */
+  async remove(curriculum: string) {
+    assertOk(
+      'graduationRequirements.remove',
+      await this.client.from('graduation_requirements').delete().eq('curriculum', curriculum)
+    );
+  }
+}
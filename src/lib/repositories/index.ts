@@ -0,0 +1,109 @@
+import { supabase } from '../supabase';
+import { AcademicTermRepository } from './academicTerms';
+import { ActivityLogRepository } from './activityLogs';
+import { AdminUserRepository } from './adminUsers';
+import { AssessmentComponentRepository } from './assessmentComponents';
+import { CourseGradeStatusRepository } from './courseGradeStatus';
+import { CourseOfferingRepository } from './courseOfferings';
+import { CoursePrerequisiteRepository } from './coursePrerequisites';
+import { CourseRepository } from './courses';
+import { DocumentTemplateRepository } from './documentTemplates';
+import { EnrollmentRepository } from './enrollments';
+import { GradeRepository } from './grades';
+import { GradeRevisionRepository } from './gradeRevisions';
+import { GradingScaleRepository } from './gradingScales';
+import { GraduationRequirementRepository } from './graduationRequirements';
+import { InstitutionProfileRepository } from './institutionProfile';
+import { IssuedTranscriptRepository } from './issuedTranscripts';
+import { KrsRepository } from './krs';
+import { LecturerRepository } from './lecturers';
+import { RetakePolicyRepository } from './retakePolicies';
+import { SksLoadRuleRepository } from './sksLoadRules';
+import { StudentRepository } from './students';
+import { YudisiumRepository } from './yudisium';
+import type { DataClient } from './types';
+
+export * from './types';
+export { RepositoryError } from './errors';
+export {
+  AcademicTermRepository,
+  ActivityLogRepository,
+  AdminUserRepository,
+  AssessmentComponentRepository,
+  CourseGradeStatusRepository,
+  CourseOfferingRepository,
+  CoursePrerequisiteRepository,
+  CourseRepository,
+  DocumentTemplateRepository,
+  EnrollmentRepository,
+  GradeRepository,
+  GradeRevisionRepository,
+  GradingScaleRepository,
+  GraduationRequirementRepository,
+  InstitutionProfileRepository,
+  IssuedTranscriptRepository,
+  KrsRepository,
+  LecturerRepository,
+  RetakePolicyRepository,
+  SksLoadRuleRepository,
+  StudentRepository,
+  YudisiumRepository,
+};
+export type { GradeStatusTransitionOptions } from './courseGradeStatus';
+export type { CourseFilter } from './courses';
+export type { KrsReviewFilter } from './krs';
+export type { StudentFilter } from './students';
+
+export function createRepositories(client: DataClient) {
+  return {
+    students: new StudentRepository(client),
+    lecturers: new LecturerRepository(client),
+    academicTerms: new AcademicTermRepository(client),
+    courses: new CourseRepository(client),
+    courseOfferings: new CourseOfferingRepository(client),
+    coursePrerequisites: new CoursePrerequisiteRepository(client),
+    courseGradeStatus: new CourseGradeStatusRepository(client),
+    enrollments: new EnrollmentRepository(client),
+    krs: new KrsRepository(client),
+    sksLoadRules: new SksLoadRuleRepository(client),
+    grades: new GradeRepository(client),
+    gradeRevisions: new GradeRevisionRepository(client),
+    gradingScales: new GradingScaleRepository(client),
+    retakePolicies: new RetakePolicyRepository(client),
+    graduationRequirements: new GraduationRequirementRepository(client),
+    yudisium: new YudisiumRepository(client),
+    institutionProfile: new InstitutionProfileRepository(client),
+    documentTemplates: new DocumentTemplateRepository(client),
+    issuedTranscripts: new IssuedTranscriptRepository(client),
+    assessmentComponents: new AssessmentComponentRepository(client),
+    activityLogs: new ActivityLogRepository(client),
+    adminUsers: new AdminUserRepository(client),
+  };
+}
+
+export type Repositories = ReturnType<typeof createRepositories>;
+
+export const {
+  students: studentRepository,
+  lecturers: lecturerRepository,
+  academicTerms: academicTermRepository,
+  courses: courseRepository,
+  courseOfferings: courseOfferingRepository,
+  coursePrerequisites: coursePrerequisiteRepository,
+  courseGradeStatus: courseGradeStatusRepository,
+  enrollments: enrollmentRepository,
+  krs: krsRepository,
+  sksLoadRules: sksLoadRuleRepository,
+  grades: gradeRepository,
+  gradeRevisions: gradeRevisionRepository,
+  gradingScales: gradingScaleRepository,
+  retakePolicies: retakePolicyRepository,
+  graduationRequirements: graduationRequirementRepository,
+  yudisium: yudisiumRepository,
+  institutionProfile: institutionProfileRepository,
+  documentTemplates: documentTemplateRepository,
+  issuedTranscripts: issuedTranscriptRepository,
+  assessmentComponents: assessmentComponentRepository,
+  activityLogs: activityLogRepository,
+  adminUsers: adminUserRepository,
+} = createRepositories(supabase);
@@ -0,0 +1,24 @@
+import { assertOk, unwrap } from './errors';
+import type { DataClient, InstitutionProfile, InstitutionProfileInput } from './types';
+
+export class InstitutionProfileRepository {
+  constructor(private readonly client: DataClient) {}
+
+  /** The single profile row; null only if the migration's seed row was deleted. */
+  async get(): Promise<InstitutionProfile | null> {
+    return unwrap<InstitutionProfile>(
+      'institutionProfile.get',
+      await this.client.from('institution_profile').select('*').eq('id', true).maybeSingle()
+    );
+  }
+
+  async save(input: InstitutionProfileInput) {
+    assertOk(
+      'institutionProfile.save',
+      await this.client
+        .from('institution_profile')
+        .update({ ...input, updated_at: new Date().toISOString() })
+        .eq('id', true)
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { RepositoryError, unwrap, unwrapRows } from './errors';
+import type { DataClient, IssuedTranscript, TranscriptVerificationResult } from './types';
+
+export class IssuedTranscriptRepository {
+  constructor(private readonly client: DataClient) {}
+
+  /**
+   * Builds the student's transcript from their grades on the server, then
+   * numbers, hashes and records it; render the returned snapshot so the
+   * printed grades are the recorded ones. Returns the student's latest
+   * issuance instead when nothing changed since.
+   */
+  async issue(studentId: string): Promise<IssuedTranscript> {
+    const issued = unwrap<IssuedTranscript>(
+      'issuedTranscripts.issue',
+      await this.client.rpc('issue_transcript', { p_student_id: studentId })
+    );
+    if (!issued) {
+      throw new RepositoryError('issuedTranscripts.issue', { message: 'issue_transcript returned no row' });
+    }
+    return issued;
+  }
+
+  /** Works without a session; null when no transcript was issued with this id. */
+  async verify(id: string): Promise<TranscriptVerificationResult | null> {
+    const rows = unwrapRows<TranscriptVerificationResult>(
+      'issuedTranscripts.verify',
+      await this.client.rpc('verify_transcript', { p_id: id })
+    );
+    return rows[0] ?? null;
+  }
+}
@@ -0,0 +1,70 @@
+import { assertOk, unwrapRows } from './errors';
+import type { DataClient, KrsStatus, KrsWithCourses, KrsWithStudent } from './types';
+
+export interface KrsReviewFilter {
+  /** Only KRS of this lecturer's advisees. */
+  advisorId?: string;
+  status?: KrsStatus;
+}
+
+const KRS_WITH_COURSES = `
+  *,
+  term:academic_terms (id, academic_year, period, start_date),
+  items:krs_items (
+    course:courses (*)
+  )
+`;
+
+export class KrsRepository {
+  constructor(private readonly client: DataClient) {}
+
+  /** A student's KRS, most recent term first. */
+  async listForStudent(studentId: string): Promise<KrsWithCourses[]> {
+    const rows = unwrapRows<KrsWithCourses>(
+      'krs.listForStudent',
+      await this.client.from('krs_submissions').select(KRS_WITH_COURSES).eq('student_id', studentId)
+    );
+    return rows.sort((a, b) => b.term.start_date.localeCompare(a.term.start_date));
+  }
+
+  /** KRS waiting for (or past) review, oldest submission first. */
+  async listForReview(filter: KrsReviewFilter = {}): Promise<KrsWithStudent[]> {
+    let query = this.client
+      .from('krs_submissions')
+      .select(`
+        ${KRS_WITH_COURSES},
+        student:students!inner (id, nim, name, angkatan, curriculum, advisor_id)
+      `);
+    if (filter.advisorId) query = query.eq('student.advisor_id', filter.advisorId);
+    if (filter.status) query = query.eq('status', filter.status);
+
+    return unwrapRows<KrsWithStudent>(
+      'krs.listForReview',
+      await query.order('submitted_at', { ascending: true })
+    );
+  }
+
+  /**
+   * Submits the signed-in student's KRS for a term, replacing a pending or
+   * rejected one. The server checks the courses against the student's
+   * curriculum and the term, and that the term is active or upcoming.
+   */
+  async submit(termId: string, courseIds: string[]) {
+    assertOk(
+      'krs.submit',
+      await this.client.rpc('submit_krs', { p_term_id: termId, p_course_ids: courseIds })
+    );
+  }
+
+  /** Approving enrolls the student in every course of the KRS; rejecting needs a note. */
+  async review(krsId: string, approve: boolean, note?: string) {
+    assertOk(
+      'krs.review',
+      await this.client.rpc('review_krs', {
+        p_krs_id: krsId,
+        p_approve: approve,
+        p_note: note || undefined,
+      })
+    );
+  }
+}
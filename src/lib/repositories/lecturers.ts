@@ -0,0 +1,83 @@
+import { assertOk, unwrap, unwrapFunction, unwrapRows } from './errors';
+import type { Course, CourseLecturer, DataClient, Lecturer, NewLecturerAccount } from './types';
+
+export class LecturerRepository {
+  constructor(private readonly client: DataClient) {}
+
+  async list(): Promise<Lecturer[]> {
+    return unwrapRows<Lecturer>(
+      'lecturers.list',
+      await this.client.from('lecturers').select('*').order('name')
+    );
+  }
+
+  async findById(id: string): Promise<Lecturer | null> {
+    return unwrap<Lecturer>(
+      'lecturers.findById',
+      await this.client.from('lecturers').select('*').eq('id', id).maybeSingle()
+    );
+  }
+
+  /**
+   * Creates the login and the lecturer row through the `create-lecturer-user`
+   * edge function, like `AdminUserRepository.createAccount`. Returns the new
+   * lecturer's id.
+   */
+  async createAccount(input: NewLecturerAccount): Promise<string> {
+    const { id } = await unwrapFunction(
+      'lecturers.createAccount',
+      await this.client.functions.invoke<{ id: string }>('create-lecturer-user', { body: input })
+    );
+    return id;
+  }
+
+  async remove(id: string) {
+    assertOk('lecturers.remove', await this.client.from('lecturers').delete().eq('id', id));
+  }
+
+  /** Every course assignment; admins see all of them, a lecturer only their own. */
+  async listAssignments(): Promise<CourseLecturer[]> {
+    return unwrapRows<CourseLecturer>(
+      'lecturers.listAssignments',
+      await this.client.from('course_lecturers').select('*')
+    );
+  }
+
+  /**
+   * Courses a lecturer teaches, either by assignment or as the lecturer of
+   * one of its classes, in the same order as `CourseRepository.list`.
+   */
+  async listCourses(lecturerId: string): Promise<Course[]> {
+    const [assigned, classes] = await Promise.all([
+      this.client.from('course_lecturers').select('course:courses (*)').eq('lecturer_id', lecturerId),
+      this.client.from('course_offerings').select('course:courses (*)').eq('lecturer_id', lecturerId),
+    ]);
+    const rows = [
+      ...unwrapRows<{ course: Course | null }>('lecturers.listCourses', assigned),
+      ...unwrapRows<{ course: Course | null }>('lecturers.listCourses', classes),
+    ];
+
+    const courses = new Map(rows.flatMap(row => (row.course ? [[row.course.id, row.course] as const] : [])));
+    return [...courses.values()].sort((a, b) =>
+      b.curriculum.localeCompare(a.curriculum) || a.semester - b.semester || a.code.localeCompare(b.code)
+    );
+  }
+
+  async assignCourse(lecturerId: string, courseId: string) {
+    assertOk(
+      'lecturers.assignCourse',
+      await this.client.from('course_lecturers').insert({ lecturer_id: lecturerId, course_id: courseId })
+    );
+  }
+
+  async unassignCourse(lecturerId: string, courseId: string) {
+    assertOk(
+      'lecturers.unassignCourse',
+      await this.client
+        .from('course_lecturers')
+        .delete()
+        .eq('lecturer_id', lecturerId)
+        .eq('course_id', courseId)
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { assertOk, unwrapRows } from './errors';
+import type { DataClient, RetakePolicy, RetakePolicyRow } from './types';
+
+export class RetakePolicyRepository {
+  constructor(private readonly client: DataClient) {}
+
+  /** Policies of the curricula that have one; the others use the default. */
+  async list(): Promise<RetakePolicyRow[]> {
+    return unwrapRows<RetakePolicyRow>(
+      'retakePolicies.list',
+      await this.client.from('retake_policies').select('*').order('curriculum', { ascending: false })
+    );
+  }
+
+  async set(curriculum: string, policy: RetakePolicy) {
+    assertOk(
+      'retakePolicies.set',
+      await this.client
+        .from('retake_policies')
+        .upsert({ curriculum, policy, updated_at: new Date().toISOString() }, { onConflict: 'curriculum' })
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { assertOk, RepositoryError, unwrapRows } from './errors';
+import type { DataClient, SksAllowance, SksLoadRule, SksLoadRuleInput } from './types';
+
+export class SksLoadRuleRepository {
+  constructor(private readonly client: DataClient) {}
+
+  /** Highest IPS threshold first; the new-student rule (no threshold) last. */
+  async list(): Promise<SksLoadRule[]> {
+    return unwrapRows<SksLoadRule>(
+      'sksLoadRules.list',
+      await this.client
+        .from('sks_load_rules')
+        .select('*')
+        .order('min_ips', { ascending: false, nullsFirst: false })
+    );
+  }
+
+  async create(input: SksLoadRuleInput) {
+    assertOk('sksLoadRules.create', await this.client.from('sks_load_rules').insert(input));
+  }
+
+  async update(id: string, input: Partial<SksLoadRuleInput>) {
+    assertOk(
+      'sksLoadRules.update',
+      await this.client
+        .from('sks_load_rules')
+        .update({ ...input, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    );
+  }
+
+  async remove(id: string) {
+    assertOk('sksLoadRules.remove', await this.client.from('sks_load_rules').delete().eq('id', id));
+  }
+
+  /**
+   * The credit limit for a student in a term, from their IPS in the
+   * previous term, plus the credits already enrolled in the term.
+   */
+  async getAllowance(studentId: string, termId: string): Promise<SksAllowance> {
+    const [allowance] = unwrapRows<SksAllowance>(
+      'sksLoadRules.getAllowance',
+      await this.client.rpc('get_sks_allowance', { p_student_id: studentId, p_term_id: termId })
+    );
+    if (!allowance) {
+      throw new RepositoryError('sksLoadRules.getAllowance', { message: 'get_sks_allowance returned no row' });
+    }
+    return allowance;
+  }
+}
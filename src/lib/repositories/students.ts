@@ -0,0 +1,102 @@
+import { assertOk, unwrap, unwrapRows } from './errors';
+import type { DataClient, Student, StudentInput, StudentWithGrades } from './types';
+
+export interface StudentFilter {
+  angkatan?: string;
+  id?: string;
+}
+
+export class StudentRepository {
+  constructor(private readonly client: DataClient) {}
+
+  async list(filter: StudentFilter = {}): Promise<Student[]> {
+    let query = this.client.from('students').select('*');
+    if (filter.angkatan) query = query.eq('angkatan', filter.angkatan);
+    if (filter.id) query = query.eq('id', filter.id);
+
+    return unwrapRows<Student>('students.list', await query.order('nim'));
+  }
+
+  async listNewestFirst(): Promise<Student[]> {
+    return unwrapRows<Student>(
+      'students.listNewestFirst',
+      await this.client.from('students').select('*').order('created_at', { ascending: false })
+    );
+  }
+
+  /** Distinct angkatan values, newest first. */
+  async listAngkatan(): Promise<string[]> {
+    const rows = unwrapRows<Pick<Student, 'angkatan'>>(
+      'students.listAngkatan',
+      await this.client.from('students').select('angkatan')
+    );
+    return [...new Set(rows.map(row => row.angkatan).filter(Boolean))].sort().reverse();
+  }
+
+  async findById(id: string): Promise<Student | null> {
+    return unwrap<Student>(
+      'students.findById',
+      await this.client.from('students').select('*').eq('id', id).maybeSingle()
+    );
+  }
+
+  async findByNim(nim: string, angkatan?: string): Promise<Student | null> {
+    let query = this.client.from('students').select('*').eq('nim', nim);
+    if (angkatan !== undefined) query = query.eq('angkatan', angkatan);
+
+    return unwrap<Student>('students.findByNim', await query.maybeSingle());
+  }
+
+  async listWithGrades(filter: StudentFilter = {}): Promise<StudentWithGrades[]> {
+    let query = this.client
+      .from('students')
+      .select(`
+        id,
+        nim,
+        name,
+        angkatan,
+        email,
+        curriculum,
+        grades (
+          score,
+          letter_grade,
+          course:courses (
+            code,
+            name,
+            credits,
+            semester,
+            curriculum
+          ),
+          term:academic_terms (
+            id,
+            academic_year,
+            period,
+            start_date
+          )
+        ),
+        yudisium:yudisium_entries (
+          predicate,
+          batch:yudisium_batches (
+            yudisium_date
+          )
+        )
+      `);
+    if (filter.angkatan) query = query.eq('angkatan', filter.angkatan);
+    if (filter.id) query = query.eq('id', filter.id);
+
+    return unwrapRows<StudentWithGrades>('students.listWithGrades', await query.order('nim'));
+  }
+
+  async create(input: StudentInput) {
+    assertOk('students.create', await this.client.from('students').insert(input));
+  }
+
+  /** Sets the fields that drive KRS: the curriculum to pick from and the dosen wali. */
+  async updateAcademic(id: string, fields: Pick<StudentInput, 'curriculum' | 'advisor_id'>) {
+    assertOk('students.updateAcademic', await this.client.from('students').update(fields).eq('id', id));
+  }
+
+  async remove(id: string) {
+    assertOk('students.remove', await this.client.from('students').delete().eq('id', id));
+  }
+}
@@ -0,0 +1,229 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables, TablesInsert, TablesUpdate } from '../database.types';
+
+// Repositories are handed the client explicitly so they can run against a
+// fake in tests.
+export type DataClient = SupabaseClient<Database>;
+
+export type AdminRole = 'super_admin' | 'academic_operator' | 'prodi_admin' | 'auditor';
+
+/** Keys of `admin_role_permissions.permission`; reads need no permission, any admin may read. */
+export type AdminPermission =
+  | 'grades.write'
+  | 'grades.status'
+  | 'students.manage'
+  | 'courses.manage'
+  | 'enrollments.manage'
+  | 'lecturers.manage'
+  | 'grading_scales.manage'
+  | 'activity_logs.view'
+  | 'admins.manage'
+  | 'transcripts.issue';
+
+export type AdminUser = Tables<'admin_users'>;
+
+export type NewAdminAccount = Pick<AdminUser, 'email' | 'name'> & { password: string; role: AdminRole };
+
+export type AdminRolePermission = Tables<'admin_role_permissions'>;
+
+export type Student = Tables<'students'>;
+
+export type StudentInput = TablesInsert<'students'>;
+
+export type Lecturer = Tables<'lecturers'>;
+
+export type NewLecturerAccount = Pick<Lecturer, 'email' | 'name' | 'nidn'> & { password: string };
+
+export type CourseLecturer = Tables<'course_lecturers'>;
+
+export type TermPeriod = 'ganjil' | 'genap' | 'pendek';
+
+export type AcademicTerm = Tables<'academic_terms'>;
+
+export type AcademicTermInput = TablesInsert<'academic_terms'> & { period: TermPeriod };
+
+export type Course = Tables<'courses'>;
+
+export type CourseInput = Omit<Course, 'id' | 'created_at'>;
+
+export type CourseOffering = Tables<'course_offerings'>;
+
+export type CourseOfferingInput = TablesInsert<'course_offerings'>;
+
+export interface CourseOfferingWithLecturer extends CourseOffering {
+  lecturer: Pick<Lecturer, 'id' | 'nidn' | 'name'> | null;
+  /** Number of students enrolled in the class. */
+  enrolled: number;
+}
+
+export type PrerequisiteKind = 'prerequisite' | 'corequisite';
+
+export type CoursePrerequisite = Tables<'course_prerequisites'>;
+
+export type CoursePrerequisiteInput = TablesInsert<'course_prerequisites'> & { kind: PrerequisiteKind };
+
+export interface CoursePrerequisiteWithCourse extends CoursePrerequisite {
+  prerequisite: Pick<Course, 'id' | 'code' | 'name' | 'curriculum'>;
+}
+
+export type UnmetPrerequisite = Database['public']['Functions']['unmet_prerequisites']['Returns'][number];
+
+export type GradeStatus = 'draft' | 'submitted' | 'finalized' | 'published';
+
+export type CourseGradeStatus = Tables<'course_grade_status'>;
+
+export type Enrollment = Tables<'enrollments'>;
+
+export interface EnrollmentWithRelations extends Pick<Enrollment, 'id' | 'course_id' | 'offering_id'> {
+  student: Pick<Student, 'nim' | 'name'>;
+  course: Pick<Course, 'code' | 'name'>;
+}
+
+export interface EnrolledStudent {
+  student_id: string;
+  offering_id: string;
+  student: Pick<Student, 'id' | 'nim' | 'name' | 'email' | 'angkatan'>;
+}
+
+export type KrsStatus = 'submitted' | 'approved' | 'rejected';
+
+export type KrsSubmission = Tables<'krs_submissions'>;
+
+export interface KrsWithCourses extends KrsSubmission {
+  term: Pick<AcademicTerm, 'id' | 'academic_year' | 'period' | 'start_date'>;
+  items: { course: Course | null }[];
+}
+
+export interface KrsWithStudent extends KrsWithCourses {
+  student: Pick<Student, 'id' | 'nim' | 'name' | 'angkatan' | 'curriculum' | 'advisor_id'>;
+}
+
+export type SksLoadRule = Tables<'sks_load_rules'>;
+
+export type SksLoadRuleInput = TablesInsert<'sks_load_rules'>;
+
+export type SksAllowance = Database['public']['Functions']['get_sks_allowance']['Returns'][number];
+
+export type Grade = Tables<'grades'>;
+
+export type GradeInput = Pick<Grade, 'student_id' | 'course_id' | 'score' | 'letter_grade'>;
+
+/** One spreadsheet row for `upsert_grades_batch`; IDs are resolved server-side. */
+export type GradeBatchRow = {
+  nim: string;
+  angkatan: string;
+  course_code: string;
+  /** The course offering to grade; without it `course_code` is looked up in the active term. */
+  course_id?: string;
+  score: number;
+  /** Component name -> score, for courses graded by assessment components. */
+  components?: Record<string, number>;
+};
+
+export type GradeBatchResult = Database['public']['Functions']['upsert_grades_batch']['Returns'][number];
+
+/** Where a grade change came from, recorded in `grade_revisions.source`. */
+export type GradeChangeSource = 'excel' | 'manual' | 'api';
+
+export interface GradeBatchOptions {
+  source: GradeChangeSource;
+  reason?: string;
+}
+
+export type GradeRevision = Tables<'grade_revisions'>;
+
+export interface GradeWithCourse {
+  id: string;
+  score: number;
+  letter_grade: string;
+  course: Pick<Course, 'code' | 'name' | 'academic_year' | 'semester' | 'credits' | 'curriculum'> | null;
+  /** The term the grade was earned in. */
+  term: Pick<AcademicTerm, 'id' | 'academic_year' | 'period' | 'start_date'> | null;
+}
+
+/** A grade on an earlier offering of a course, used to recognise retakes. */
+export interface PriorAttempt extends Pick<Grade, 'student_id'> {
+  course: Pick<Course, 'code'>;
+  term: Pick<AcademicTerm, 'start_date'>;
+}
+
+export interface GradeWithRelations {
+  student_id: string;
+  course_id: string;
+  term_id: string | null;
+  score: number;
+  letter_grade: string;
+  student: Pick<Student, 'nim' | 'name' | 'angkatan'>;
+  course: Pick<Course, 'code' | 'name' | 'curriculum'>;
+}
+
+export interface StudentWithGrades extends Pick<Student, 'id' | 'nim' | 'name' | 'angkatan' | 'email' | 'curriculum'> {
+  /** Every attempt, including retakes of the same course in later terms. */
+  grades: {
+    score: number;
+    letter_grade: string;
+    course: Pick<Course, 'code' | 'name' | 'credits' | 'semester' | 'curriculum'> | null;
+    term: Pick<AcademicTerm, 'id' | 'academic_year' | 'period' | 'start_date'> | null;
+  }[];
+  /** Set once the student has graduated at a yudisium. */
+  yudisium: (Pick<YudisiumEntry, 'predicate'> & { batch: Pick<YudisiumBatch, 'yudisium_date'> | null }) | null;
+}
+
+export type AssessmentComponent = Tables<'assessment_components'>;
+
+/** A component as edited in the form; `id` is absent for components not saved yet. */
+export interface AssessmentComponentInput {
+  id?: string;
+  name: string;
+  weight: number;
+}
+
+export type ComponentScore = Tables<'component_scores'>;
+
+export type GradingScale = Tables<'grading_scales'>;
+
+export type GradingScaleInput = TablesInsert<'grading_scales'>;
+
+/** Which attempt of a retaken course counts towards IPK. */
+export type RetakePolicy = 'best' | 'latest';
+
+export type RetakePolicyRow = Tables<'retake_policies'>;
+
+export type GraduationRequirement = Tables<'graduation_requirements'>;
+
+export type GraduationRequirementInput = TablesInsert<'graduation_requirements'>;
+
+export type GraduationRequiredCourse = Tables<'graduation_required_courses'>;
+
+export type GraduationPredicate = Tables<'graduation_predicates'>;
+
+export type GraduationPredicateInput = TablesInsert<'graduation_predicates'>;
+
+export type YudisiumBatch = Tables<'yudisium_batches'>;
+
+export type YudisiumEntry = Tables<'yudisium_entries'>;
+
+/** One graduating student for `process_yudisium`. */
+export interface YudisiumEntryWithStudent extends YudisiumEntry {
+  student: Pick<Student, 'id' | 'nim' | 'name' | 'angkatan' | 'email'>;
+}
+
+export type InstitutionProfile = Tables<'institution_profile'>;
+
+export type InstitutionProfileInput = Omit<TablesUpdate<'institution_profile'>, 'id' | 'updated_at'>;
+
+export type DocumentType = 'transcript' | 'semester_report' | 'khs';
+
+export type DocumentTemplate = Tables<'document_templates'>;
+
+export type DocumentTemplateInput = Omit<TablesUpdate<'document_templates'>, 'document_type' | 'updated_at'>;
+
+export type IssuedTranscript = Tables<'issued_transcripts'>;
+
+export type TranscriptVerificationResult = Database['public']['Functions']['verify_transcript']['Returns'][number];
+
+export type ActivityUserType = 'admin' | 'student' | 'lecturer' | 'system';
+
+export type ActivityLogEntry = Tables<'activity_logs'>;
+
+export type ActivityLogInput = TablesInsert<'activity_logs'> & { user_type: ActivityUserType };
@@ -0,0 +1,99 @@
+import { assertOk, RepositoryError, unwrap, unwrapRows } from './errors';
+import type {
+  DataClient,
+  GraduationPredicate,
+  GraduationPredicateInput,
+  YudisiumBatch,
+  YudisiumEntry,
+  YudisiumEntryWithStudent,
+} from './types';
+
+export class YudisiumRepository {
+  constructor(private readonly client: DataClient) {}
+
+  /** Highest IPK threshold first, the order predicates are tried in. */
+  async listPredicates(): Promise<GraduationPredicate[]> {
+    return unwrapRows<GraduationPredicate>(
+      'yudisium.listPredicates',
+      await this.client.from('graduation_predicates').select('*').order('min_ipk', { ascending: false })
+    );
+  }
+
+  async createPredicate(input: GraduationPredicateInput) {
+    assertOk('yudisium.createPredicate', await this.client.from('graduation_predicates').insert(input));
+  }
+
+  async updatePredicate(id: string, input: Partial<GraduationPredicateInput>) {
+    assertOk(
+      'yudisium.updatePredicate',
+      await this.client
+        .from('graduation_predicates')
+        .update({ ...input, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    );
+  }
+
+  async removePredicate(id: string) {
+    assertOk('yudisium.removePredicate', await this.client.from('graduation_predicates').delete().eq('id', id));
+  }
+
+  /** Most recent yudisium first. */
+  async listBatches(): Promise<YudisiumBatch[]> {
+    return unwrapRows<YudisiumBatch>(
+      'yudisium.listBatches',
+      await this.client
+        .from('yudisium_batches')
+        .select('*')
+        .order('yudisium_date', { ascending: false })
+        .order('created_at', { ascending: false })
+    );
+  }
+
+  async listEntries(batchId: string): Promise<YudisiumEntryWithStudent[]> {
+    const rows = unwrapRows<YudisiumEntryWithStudent>(
+      'yudisium.listEntries',
+      await this.client
+        .from('yudisium_entries')
+        .select(`
+          *,
+          student:students (id, nim, name, angkatan, email)
+        `)
+        .eq('batch_id', batchId)
+    );
+    return rows.sort((a, b) => a.student.nim.localeCompare(b.student.nim));
+  }
+
+  /** Entries of the given students that have already graduated. */
+  async listEntriesForStudents(studentIds: string[]): Promise<YudisiumEntry[]> {
+    if (studentIds.length === 0) return [];
+
+    return unwrapRows<YudisiumEntry>(
+      'yudisium.listEntriesForStudents',
+      await this.client.from('yudisium_entries').select('*').in('student_id', studentIds)
+    );
+  }
+
+  /**
+   * Records the batch and graduates every student in it, all or nothing. The
+   * IPK, SKS, study duration and predicate are computed on the server.
+   */
+  async process(name: string, yudisiumDate: string, studentIds: string[]): Promise<YudisiumBatch> {
+    const batch = unwrap<YudisiumBatch>(
+      'yudisium.process',
+      await this.client.rpc('process_yudisium', {
+        p_name: name,
+        p_yudisium_date: yudisiumDate,
+        p_student_ids: studentIds,
+      })
+    );
+    if (!batch) {
+      throw new RepositoryError('yudisium.process', { message: 'process_yudisium returned no row' });
+    }
+    return batch;
+  }
+
+  /** Deleting a batch ungraduates its students. */
+  async removeBatch(id: string) {
+    assertOk('yudisium.removeBatch', await this.client.from('yudisium_batches').delete().eq('id', id));
+  }
+}
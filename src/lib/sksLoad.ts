@@ -0,0 +1,54 @@
+import { sksLoadRuleRepository, type Course, type SksAllowance } from './repositories';
+
+export type { SksAllowance };
+
+export interface SksLoadCheck {
+  allowance: SksAllowance;
+  /** Credits in the term if the course is added. */
+  creditsAfter: number;
+  overLimit: boolean;
+}
+
+/** e.g. "Batas 24 SKS (IPS semester lalu 3.21)" */
+export function describeAllowance(allowance: SksAllowance): string {
+  if (allowance.max_credits === null) return 'Tanpa batas SKS';
+  const basis = allowance.last_ips === null
+    ? 'mahasiswa baru'
+    : `IPS semester lalu ${allowance.last_ips.toFixed(2)}`;
+  return `Batas ${allowance.max_credits} SKS (${basis})`;
+}
+
+export function exceedsAllowance(allowance: SksAllowance, credits: number): boolean {
+  return allowance.max_credits !== null && credits > allowance.max_credits;
+}
+
+/**
+ * Checks SKS load for a run of enrollments. Each student's allowance is
+ * fetched once per term, and credits enrolled during the run are added on top,
+ * so enrolling an angkatan into a whole curriculum stays within the limit.
+ */
+export class SksLoadTracker {
+  private allowances = new Map<string, Promise<SksAllowance>>();
+  private added = new Map<string, number>();
+
+  async check(studentId: string, course: Pick<Course, 'term_id' | 'credits'>): Promise<SksLoadCheck> {
+    const key = `${studentId}|${course.term_id}`;
+
+    let pending = this.allowances.get(key);
+    if (!pending) {
+      pending = sksLoadRuleRepository.getAllowance(studentId, course.term_id);
+      pending.catch(() => this.allowances.delete(key));
+      this.allowances.set(key, pending);
+    }
+
+    const allowance = await pending;
+    const creditsAfter = allowance.enrolled_credits + (this.added.get(key) ?? 0) + course.credits;
+    return { allowance, creditsAfter, overLimit: exceedsAllowance(allowance, creditsAfter) };
+  }
+
+  /** Call after a successful enrollment so later checks in the run include it. */
+  record(studentId: string, course: Pick<Course, 'term_id' | 'credits'>) {
+    const key = `${studentId}|${course.term_id}`;
+    this.added.set(key, (this.added.get(key) ?? 0) + course.credits);
+  }
+}
@@ -0,0 +1,108 @@
+import { calculateGPA, countedAttempts, lookupScale, resolveGrade, type GradingScale, type RetakePolicy } from './grading';
+import type { StudentWithGrades } from './repositories';
+
+export interface TranscriptCourse {
+  courseCode: string;
+  courseName: string;
+  sks: number;
+  score: number;
+  letterGrade: string;
+  /** Bobot of the letter grade under the course's curriculum scale. */
+  gradePoint: number;
+  /** SKS × bobot. */
+  qualityPoints: number;
+  /** How many times the course was taken; only the counted attempt is listed. */
+  attempts: number;
+}
+
+export interface TranscriptSemester {
+  /** Curriculum semester of the courses, not the term they were taken in. */
+  semester: number;
+  courses: TranscriptCourse[];
+  credits: number;
+  qualityPoints: number;
+}
+
+export interface TranscriptData {
+  studentId: string;
+  nim: string;
+  studentName: string;
+  angkatan: string;
+  email: string;
+  semesters: TranscriptSemester[];
+  totalSKS: number;
+  totalQualityPoints: number;
+  ipk: number;
+  /** Set once the student has graduated at a yudisium. */
+  graduation: { predicate: string | null; yudisiumDate: string } | null;
+}
+
+/** Course name with a marker for courses taken more than once. */
+export const courseLabel = (course: TranscriptCourse) =>
+  course.attempts > 1 ? `${course.courseName} (diulang ${course.attempts}x)` : course.courseName;
+
+/**
+ * Builds a student's transcript: one row per course, the attempt picked by
+ * the retake policy, grouped by curriculum semester.
+ */
+export function buildTranscript(
+  student: StudentWithGrades,
+  scales: Map<string, GradingScale[]>,
+  policy: RetakePolicy
+): TranscriptData {
+  const attempts = student.grades.flatMap(grade => {
+    if (!grade.course) return [];
+    const score = parseFloat(String(grade.score));
+    return [{
+      courseCode: grade.course.code,
+      courseName: grade.course.name,
+      semester: grade.course.semester,
+      credits: grade.course.credits,
+      score,
+      letterGrade: grade.letter_grade,
+      gradePoint: resolveGrade(score, lookupScale(scales, grade.course.curriculum)).gradePoint,
+      startDate: grade.term?.start_date ?? '',
+    }];
+  });
+
+  const bySemester = new Map<number, TranscriptCourse[]>();
+  for (const attempt of countedAttempts(attempts, policy)) {
+    const courses = bySemester.get(attempt.semester) ?? [];
+    courses.push({
+      courseCode: attempt.courseCode,
+      courseName: attempt.courseName,
+      sks: attempt.credits,
+      score: attempt.score,
+      letterGrade: attempt.letterGrade,
+      gradePoint: attempt.gradePoint,
+      qualityPoints: attempt.gradePoint * attempt.credits,
+      attempts: attempts.filter(a => a.courseCode === attempt.courseCode).length,
+    });
+    bySemester.set(attempt.semester, courses);
+  }
+
+  const semesters = [...bySemester.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([semester, courses]) => ({
+      semester,
+      courses: courses.sort((a, b) => a.courseCode.localeCompare(b.courseCode)),
+      credits: courses.reduce((sum, c) => sum + c.sks, 0),
+      qualityPoints: courses.reduce((sum, c) => sum + c.qualityPoints, 0),
+    }));
+  const courses = semesters.flatMap(s => s.courses);
+
+  return {
+    studentId: student.id,
+    nim: student.nim,
+    studentName: student.name,
+    angkatan: student.angkatan,
+    email: student.email,
+    semesters,
+    totalSKS: semesters.reduce((sum, s) => sum + s.credits, 0),
+    totalQualityPoints: semesters.reduce((sum, s) => sum + s.qualityPoints, 0),
+    ipk: calculateGPA(courses.map(c => ({ gradePoint: c.gradePoint, credits: c.sks }))),
+    graduation: student.yudisium?.batch
+      ? { predicate: student.yudisium.predicate, yudisiumDate: student.yudisium.batch.yudisium_date }
+      : null,
+  };
+}
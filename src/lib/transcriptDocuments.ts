@@ -0,0 +1,295 @@
+import jsPDF from 'jspdf';
+import autoTable, { type RowInput } from 'jspdf-autotable';
+import * as XLSX from 'xlsx';
+import { AlignmentType, Document, ImageRun, Paragraph, Table, TableRow, TextRun, WidthType } from 'docx';
+import { courseLabel, type TranscriptCourse, type TranscriptData } from './transcript';
+import { hexToRgb, TEMPLATE_COLUMNS, type DocumentLayout, type TemplateColumn } from './documentTemplates';
+import {
+  docxColor,
+  docxFooters,
+  docxLetterhead,
+  docxSignature,
+  docxStyles,
+  docxTableCell,
+  drawPdfFooters,
+  drawPdfLetterhead,
+  drawPdfSignature,
+  lastTableY,
+  sheetLetterhead,
+  sheetSignature,
+} from './documentRendering';
+import { verificationLines, type TranscriptIssue } from './transcriptVerification';
+import { formatYudisiumDate } from './yudisium';
+
+const TITLE = 'TRANSKRIP AKADEMIK';
+
+/** Height of the QR code and the lines under it, in mm. */
+const VERIFICATION_HEIGHT = 45;
+
+const CELL_VALUES: Record<string, (course: TranscriptCourse, no: number) => string | number> = {
+  no: (_, no) => no,
+  code: course => course.courseCode,
+  name: course => courseLabel(course),
+  credits: course => course.sks,
+  score: course => course.score.toFixed(2),
+  letter: course => course.letterGrade,
+  grade_point: course => course.gradePoint.toFixed(2),
+  quality_points: course => course.qualityPoints.toFixed(2),
+};
+
+/** Left-aligned columns; the others are centred. */
+const TEXT_COLUMNS = new Set(['code', 'name']);
+
+export type TranscriptTableRow =
+  | { kind: 'semester'; label: string }
+  | { kind: 'course' | 'subtotal'; cells: (string | number)[] };
+
+export interface TranscriptTable {
+  columns: TemplateColumn[];
+  rows: TranscriptTableRow[];
+}
+
+/** The transcript table with the template's columns, grouped by semester with a subtotal per semester. */
+export function transcriptTable(transcript: TranscriptData, layout: DocumentLayout): TranscriptTable {
+  const columns = TEMPLATE_COLUMNS.transcript.filter(c => layout.columns.includes(c.key));
+  const rows: TranscriptTableRow[] = [];
+  let no = 0;
+
+  for (const semester of transcript.semesters) {
+    rows.push({ kind: 'semester', label: `Semester ${semester.semester}` });
+    for (const course of semester.courses) {
+      no++;
+      rows.push({ kind: 'course', cells: columns.map(c => CELL_VALUES[c.key](course, no)) });
+    }
+    const subtotal: Record<string, string | number> = {
+      name: `Jumlah Semester ${semester.semester}`,
+      credits: semester.credits,
+      quality_points: semester.qualityPoints.toFixed(2),
+    };
+    rows.push({ kind: 'subtotal', cells: columns.map(c => subtotal[c.key] ?? '') });
+  }
+
+  return { columns, rows };
+}
+
+export function transcriptSummary(transcript: TranscriptData): [string, string][] {
+  return [
+    ['Total SKS', String(transcript.totalSKS)],
+    ['Total SKS x Bobot', transcript.totalQualityPoints.toFixed(2)],
+    ['Indeks Prestasi Kumulatif (IPK)', transcript.ipk.toFixed(2)],
+  ];
+}
+
+export function transcriptIdentity(transcript: TranscriptData, layout: DocumentLayout): [string, string][] {
+  const rows: [string, string][] = [
+    ['Nama', transcript.studentName],
+    ['NIM', transcript.nim],
+    ['Angkatan', transcript.angkatan],
+  ];
+  if (layout.studyProgram) rows.push(['Program Studi', layout.studyProgram]);
+  if (transcript.graduation) {
+    rows.push(['Tanggal Lulus', formatYudisiumDate(transcript.graduation.yudisiumDate)]);
+    rows.push(['Predikat', transcript.graduation.predicate ?? '-']);
+  }
+  return rows;
+}
+
+export function transcriptFileName(transcript: TranscriptData, extension: string): string {
+  return `Transkrip_${transcript.nim}_${transcript.studentName.replace(/\s+/g, '_')}.${extension}`;
+}
+
+function drawTranscript(doc: jsPDF, transcript: TranscriptData, layout: DocumentLayout, issue?: TranscriptIssue) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const issuedAt = issue?.issuedAt ?? new Date();
+  let y = drawPdfLetterhead(doc, layout);
+
+  doc.setFont(layout.fontFamily, 'bold');
+  doc.setFontSize(14);
+  doc.text(TITLE, pageWidth / 2, y, { align: 'center' });
+  y += 10;
+
+  if (issue) {
+    doc.setFont(layout.fontFamily, 'normal');
+    doc.setFontSize(10);
+    doc.text(`Nomor: ${issue.documentNumber}`, pageWidth / 2, y - 4, { align: 'center' });
+    y += 4;
+  }
+
+  doc.setFont(layout.fontFamily, 'normal');
+  doc.setFontSize(10);
+  for (const [label, value] of transcriptIdentity(transcript, layout)) {
+    doc.text(label, 15, y);
+    doc.text(`: ${value}`, 50, y);
+    y += 6;
+  }
+
+  const { columns, rows } = transcriptTable(transcript, layout);
+  const accent = hexToRgb(layout.accentColor);
+  const body: RowInput[] = rows.map(row =>
+    row.kind === 'semester'
+      ? [{ content: row.label, colSpan: columns.length, styles: { fontStyle: 'bold', fillColor: accent } }]
+      : row.kind === 'subtotal'
+        ? row.cells.map(cell => ({ content: cell, styles: { fontStyle: 'bold' } }))
+        : row.cells
+  );
+
+  autoTable(doc, {
+    startY: y + 2,
+    head: [columns.map(c => c.label)],
+    body,
+    theme: 'grid',
+    styles: { font: layout.fontFamily, fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fillColor: hexToRgb(layout.primaryColor), halign: 'center' },
+    columnStyles: Object.fromEntries(
+      columns.map((c, idx) => [idx, { halign: TEXT_COLUMNS.has(c.key) ? 'left' : 'center' }])
+    ),
+    margin: { left: 15, right: 15, bottom: 15 },
+  });
+
+  y = lastTableY(doc, y) + 8;
+  doc.setFont(layout.fontFamily, 'bold');
+  doc.setFontSize(10);
+  for (const [label, value] of transcriptSummary(transcript)) {
+    doc.text(label, 15, y);
+    doc.text(`: ${value}`, 80, y);
+    y += 6;
+  }
+
+  y += 6;
+  if (issue) {
+    // QR code and hash at the left, level with the signature block at the right
+    if (y + VERIFICATION_HEIGHT > doc.internal.pageSize.getHeight() - 15) {
+      doc.addPage();
+      y = 20;
+    }
+    doc.addImage(issue.qrDataUrl, 'PNG', 15, y, 28, 28);
+    doc.setFont(layout.fontFamily, 'normal');
+    doc.setFontSize(6.5);
+    verificationLines(issue).forEach(([label, value], idx) => {
+      doc.text(`${label}: ${value}`, 15, y + 32 + idx * 3.5);
+    });
+  }
+
+  drawPdfSignature(doc, layout, issuedAt, y);
+}
+
+/**
+ * The transcript as a PDF. With `issue` (see issueTranscript) it carries the
+ * document number, and a QR code and hash for verifying it.
+ */
+export function transcriptPdf(transcript: TranscriptData, layout: DocumentLayout, issue?: TranscriptIssue): jsPDF {
+  const doc = new jsPDF();
+  drawTranscript(doc, transcript, layout, issue);
+  drawPdfFooters(doc, layout);
+  return doc;
+}
+
+/** Several transcripts in one file, each starting on a new page with its own page numbers. */
+export function mergedTranscriptPdf(
+  entries: { transcript: TranscriptData; issue?: TranscriptIssue }[],
+  layout: DocumentLayout
+): jsPDF {
+  const doc = new jsPDF();
+  entries.forEach(({ transcript, issue }, idx) => {
+    if (idx > 0) doc.addPage();
+    const firstPage = doc.getNumberOfPages();
+    drawTranscript(doc, transcript, layout, issue);
+    drawPdfFooters(doc, layout, firstPage);
+  });
+  return doc;
+}
+
+function docxVerification(issue: TranscriptIssue): Paragraph[] {
+  return [
+    new Paragraph({
+      children: [new ImageRun({ type: 'png', data: issue.qrDataUrl, transformation: { width: 96, height: 96 } })],
+    }),
+    ...verificationLines(issue).map(([label, value]) =>
+      new Paragraph({ children: [new TextRun({ text: `${label}: ${value}`, size: 14 })] })
+    ),
+    new Paragraph({ text: '' }),
+  ];
+}
+
+export function transcriptDocx(transcript: TranscriptData, layout: DocumentLayout, issue?: TranscriptIssue): Document {
+  const { columns, rows } = transcriptTable(transcript, layout);
+  const issuedAt = issue?.issuedAt ?? new Date();
+  const centered = columns.map(c => !TEXT_COLUMNS.has(c.key));
+
+  const tableRows = [
+    new TableRow({
+      tableHeader: true,
+      children: columns.map(c =>
+        docxTableCell(c.label, { bold: true, color: 'FFFFFF', fill: docxColor(layout.primaryColor), center: true })
+      ),
+    }),
+    ...rows.map(row =>
+      new TableRow({
+        children: row.kind === 'semester'
+          ? [docxTableCell(row.label, { bold: true, fill: docxColor(layout.accentColor), columnSpan: columns.length })]
+          : row.cells.map((cell, idx) => docxTableCell(cell, { bold: row.kind === 'subtotal', center: centered[idx] })),
+      })
+    ),
+  ];
+
+  return new Document({
+    styles: docxStyles(layout),
+    sections: [{
+      footers: docxFooters(layout),
+      children: [
+        ...docxLetterhead(layout),
+        new Paragraph({ text: '' }),
+        new Paragraph({
+          alignment: AlignmentType.CENTER,
+          children: [new TextRun({ text: TITLE, bold: true, size: 28 })],
+        }),
+        ...(issue
+          ? [new Paragraph({ alignment: AlignmentType.CENTER, text: `Nomor: ${issue.documentNumber}` })]
+          : []),
+        new Paragraph({ text: '' }),
+        ...transcriptIdentity(transcript, layout).map(([label, value]) =>
+          new Paragraph({ tabStops: [{ type: 'left', position: 2000 }], text: `${label}\t: ${value}` })
+        ),
+        new Paragraph({ text: '' }),
+        new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: tableRows }),
+        new Paragraph({ text: '' }),
+        ...transcriptSummary(transcript).map(([label, value]) =>
+          new Paragraph({
+            tabStops: [{ type: 'left', position: 4000 }],
+            children: [new TextRun({ text: `${label}\t: ${value}`, bold: true })],
+          })
+        ),
+        new Paragraph({ text: '' }),
+        ...(issue ? docxVerification(issue) : []),
+        ...docxSignature(layout, issuedAt),
+      ],
+    }],
+  });
+}
+
+export function transcriptSheet(transcript: TranscriptData, layout: DocumentLayout, issuedAt = new Date()): XLSX.WorkSheet {
+  const { columns, rows } = transcriptTable(transcript, layout);
+  const letterhead = sheetLetterhead(layout);
+
+  const data: (string | number)[][] = [
+    ...letterhead,
+    [TITLE],
+    [],
+    ...transcriptIdentity(transcript, layout),
+    [],
+    columns.map(c => c.label),
+    ...rows.map(row => (row.kind === 'semester' ? [row.label] : row.cells)),
+    [],
+    ...transcriptSummary(transcript),
+    [],
+    ...sheetSignature(layout, issuedAt, Math.max(columns.length - 3, 1)),
+    ...(layout.footer ? [[], [layout.footer]] : []),
+  ];
+
+  const worksheet = XLSX.utils.aoa_to_sheet(data);
+  worksheet['!cols'] = columns.map(c => ({ wch: c.key === 'name' ? 40 : c.key === 'code' ? 12 : 8 }));
+  // Letterhead lines and the title span the whole table
+  const spanned = [...layout.headerLines.map((_, row) => row), letterhead.length];
+  worksheet['!merges'] = spanned.map(row => ({ s: { r: row, c: 0 }, e: { r: row, c: columns.length - 1 } }));
+  return worksheet;
+}
@@ -0,0 +1,58 @@
+import QRCode from 'qrcode';
+import { issuedTranscriptRepository, type TranscriptVerificationResult } from './repositories';
+import type { TranscriptData } from './transcript';
+
+/** What is printed on an issued transcript so its reader can check it at /verify/:id. */
+export interface TranscriptIssue {
+  documentNumber: string;
+  /** SHA-256 of the transcript as issued, hex. */
+  contentHash: string;
+  issuedAt: Date;
+  verifyUrl: string;
+  /** QR code of `verifyUrl`, a PNG data URL. */
+  qrDataUrl: string;
+}
+
+/** The transcript as recorded at issuance; verification leaves the email out. */
+export type TranscriptSnapshot = Omit<TranscriptData, 'email'>;
+
+export interface IssuedTranscriptDocument {
+  /** Built by the server from the student's grades; render this, not a local transcript. */
+  transcript: TranscriptData;
+  issue: TranscriptIssue;
+}
+
+export const verificationUrl = (id: string) => `${window.location.origin}/verify/${id}`;
+
+/**
+ * Issues a student's transcript: the server builds and records it, and the
+ * result carries the number, hash and QR code to print on it.
+ */
+export async function issueTranscript(studentId: string): Promise<IssuedTranscriptDocument> {
+  const issued = await issuedTranscriptRepository.issue(studentId);
+  const verifyUrl = verificationUrl(issued.id);
+
+  return {
+    // issue_transcript builds the snapshot with the TranscriptData keys
+    transcript: issued.snapshot as unknown as TranscriptData,
+    issue: {
+      documentNumber: issued.document_number,
+      contentHash: issued.content_hash,
+      issuedAt: new Date(issued.issued_at),
+      verifyUrl,
+      qrDataUrl: await QRCode.toDataURL(verifyUrl, { margin: 1, width: 256 }),
+    },
+  };
+}
+
+export function verificationLines(issue: TranscriptIssue): [string, string][] {
+  return [
+    ['No. Dokumen', issue.documentNumber],
+    ['SHA-256', issue.contentHash],
+    ['Verifikasi', issue.verifyUrl],
+  ];
+}
+
+/** The snapshot is built by issue_transcript, so it has the transcript's shape. */
+export const verifiedSnapshot = (result: TranscriptVerificationResult) =>
+  result.snapshot as unknown as TranscriptSnapshot;
@@ -0,0 +1,76 @@
+import { defaultTermDates } from './academicTerms';
+import type { GraduationPredicate } from './repositories';
+
+export type { GraduationPredicate };
+
+export interface StudyDuration {
+  months: number;
+  /** Regular (ganjil/genap) semesters started by the end of the study. */
+  semesters: number;
+}
+
+/**
+ * Study duration of an angkatan up to `untilDate` (YYYY-MM-DD), counted from
+ * the start of the ganjil term of the angkatan's year.
+ */
+export function studyDuration(angkatan: string, untilDate: string): StudyDuration {
+  const startYear = parseInt(angkatan, 10);
+  const start = defaultTermDates(`${startYear}/${startYear + 1}`, 'ganjil').start_date;
+
+  const [fromYear, fromMonth] = start.split('-').map(Number);
+  const [toYear, toMonth] = untilDate.split('-').map(Number);
+  const months = Math.max((toYear - fromYear) * 12 + (toMonth - fromMonth), 0);
+
+  return { months, semesters: Math.max(Math.ceil(months / 6), 1) };
+}
+
+/** e.g. "3 tahun 11 bulan" */
+export function formatStudyDuration(duration: StudyDuration): string {
+  const years = Math.floor(duration.months / 12);
+  const months = duration.months % 12;
+  if (years === 0) return `${months} bulan`;
+  return months === 0 ? `${years} tahun` : `${years} tahun ${months} bulan`;
+}
+
+export interface PredicateCandidate {
+  ipk: number;
+  studySemesters: number;
+  /** Whether any course was taken more than once. */
+  hasRetakes: boolean;
+}
+
+export function meetsPredicate(predicate: GraduationPredicate, candidate: PredicateCandidate): boolean {
+  return (
+    candidate.ipk >= Number(predicate.min_ipk) &&
+    (predicate.max_study_semesters === null || candidate.studySemesters <= predicate.max_study_semesters) &&
+    !(predicate.requires_no_retakes && candidate.hasRetakes)
+  );
+}
+
+/**
+ * The highest predicate whose conditions all hold, so a student who misses
+ * Dengan Pujian only by study duration or a retake still gets the next one.
+ */
+export function resolvePredicate(
+  predicates: GraduationPredicate[],
+  candidate: PredicateCandidate
+): GraduationPredicate | null {
+  return (
+    [...predicates]
+      .sort((a, b) => Number(b.min_ipk) - Number(a.min_ipk))
+      .find(p => meetsPredicate(p, candidate)) ?? null
+  );
+}
+
+/** e.g. "IPK ≥ 3.51, maks. 8 semester, tanpa mengulang" */
+export function describePredicate(predicate: GraduationPredicate): string {
+  const rules = [`IPK ≥ ${Number(predicate.min_ipk).toFixed(2)}`];
+  if (predicate.max_study_semesters !== null) rules.push(`maks. ${predicate.max_study_semesters} semester`);
+  if (predicate.requires_no_retakes) rules.push('tanpa mengulang');
+  return rules.join(', ');
+}
+
+/** e.g. "13 Desember 2025" */
+export function formatYudisiumDate(value: string): string {
+  return new Date(value).toLocaleDateString('id-ID', { year: 'numeric', month: 'long', day: 'numeric' });
+}
@@ -0,0 +1,87 @@
+/*
+  Creates a staff account: the auth user and its profile row.
+
+  The browser cannot do this itself. `auth.signUp` signs the new user in,
+  which replaces the calling admin's session, and the profile insert that
+  follows then runs as the new user. Here the auth user is created with the
+  service role, which leaves every session alone, and the profile row is
+  inserted with the caller's token so the table's insert policy still
+  decides who may add accounts.
+
+  Body: { email, password, ...fields }. Responds with { id } or { error }.
+*/
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-application-name',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+export function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+export interface AccountOptions {
+  /** Admin permission the caller needs, checked before any user is created. */
+  permission: string;
+  deniedMessage: string;
+  /** Profile table keyed by the auth user id. */
+  table: 'admin_users' | 'lecturers';
+  /** Body fields copied into the profile row besides id and email. */
+  fields: string[];
+}
+
+export async function createAccount(req: Request, options: AccountOptions): Promise<Response> {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const caller = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  const service = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { data: allowed, error: permissionError } = await caller.rpc('has_admin_permission', {
+    p_permission: options.permission,
+  });
+  if (permissionError || !allowed) return json({ error: options.deniedMessage }, 403);
+
+  const body: Record<string, unknown> = await req.json().catch(() => ({}));
+  const { email, password } = body;
+  if (typeof email !== 'string' || !email || typeof password !== 'string' || !password) {
+    return json({ error: 'Email dan password wajib diisi' }, 400);
+  }
+
+  const profile: Record<string, unknown> = { email };
+  for (const field of options.fields) {
+    if (!body[field]) return json({ error: `${field} wajib diisi` }, 400);
+    profile[field] = body[field];
+  }
+
+  const { data: created, error: createError } = await service.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true,
+  });
+  if (createError || !created.user) {
+    return json({ error: createError?.message ?? 'Gagal membuat akun' }, 400);
+  }
+
+  const { error: insertError } = await caller
+    .from(options.table)
+    .insert({ id: created.user.id, ...profile });
+  if (insertError) {
+    // Do not leave a login behind that has no profile
+    await service.auth.admin.deleteUser(created.user.id);
+    return json({ error: insertError.message }, 400);
+  }
+
+  return json({ id: created.user.id });
+}
@@ -0,0 +1,11 @@
+// Body: { email, password, name, role }. See ../_shared/accounts.ts.
+import { createAccount } from '../_shared/accounts.ts';
+
+Deno.serve(req =>
+  createAccount(req, {
+    permission: 'admins.manage',
+    deniedMessage: 'Anda tidak memiliki izin mengelola akun admin',
+    table: 'admin_users',
+    fields: ['name', 'role'],
+  })
+);
@@ -0,0 +1,11 @@
+// Body: { email, password, name, nidn }. See ../_shared/accounts.ts.
+import { createAccount } from '../_shared/accounts.ts';
+
+Deno.serve(req =>
+  createAccount(req, {
+    permission: 'lecturers.manage',
+    deniedMessage: 'Anda tidak memiliki izin mengelola dosen',
+    table: 'lecturers',
+    fields: ['name', 'nidn'],
+  })
+);
@@ -0,0 +1,64 @@
+/*
+  # Align Grade Functions With Client Grading Engine
+
+  ## Problem
+
+  `get_letter_grade` and `get_grade_point` only match a band when the score lies
+  between `min_score` and `max_score`, so fractional scores in the gap between
+  two bands (e.g. 84.995) fall through to 'E'. Curricula without their own
+  grading scale also always resolve to 'E'.
+
+  ## Solution
+
+  1. Both functions pick the band with the highest `min_score` not above the
+     score, the same rule used by `src/lib/grading.ts`
+  2. When a curriculum has no grading scale rows, the default curriculum
+     ('2024') is used instead
+  3. A shared `resolve_grade` helper returns both values in one lookup
+
+  ## Notes
+
+  - Function signatures are unchanged, existing callers keep working
+*/
+
+CREATE OR REPLACE FUNCTION resolve_grade(p_score numeric, p_curriculum text)
+RETURNS TABLE (letter_grade text, grade_point numeric)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_curriculum text := COALESCE(NULLIF(p_curriculum, ''), '2024');
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM grading_scales gs WHERE gs.curriculum = v_curriculum) THEN
+    v_curriculum := '2024';
+  END IF;
+
+  RETURN QUERY
+  SELECT gs.letter_grade, gs.grade_point
+  FROM grading_scales gs
+  WHERE gs.curriculum = v_curriculum
+    AND p_score >= gs.min_score
+  ORDER BY gs.min_score DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'E'::text, 0.00::numeric;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_letter_grade(p_score numeric, p_curriculum text)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT letter_grade FROM resolve_grade(p_score, p_curriculum);
+$$;
+
+CREATE OR REPLACE FUNCTION get_grade_point(p_score numeric, p_curriculum text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT grade_point FROM resolve_grade(p_score, p_curriculum);
+$$;
@@ -0,0 +1,119 @@
+/*
+  # Batch Grade Upsert
+
+  ## Problem
+
+  The Excel grade upload resolves the student, resolves the course and upserts
+  the grade one row at a time from the browser. A 200 row sheet costs 600
+  requests, and a failure halfway through leaves the earlier rows applied.
+
+  ## Solution
+
+  1. `upsert_grades_batch(p_rows jsonb)` takes the whole sheet as an array of
+     `{ nim, angkatan, course_code, score }` objects
+  2. Every row is validated first: score range, student (NIM + angkatan),
+     course code, and NIM repeated within the batch
+  3. Letter grades come from `resolve_grade` using the course curriculum
+  4. If any row is invalid nothing is written; otherwise all rows are upserted
+     in the same statement
+  5. One result row is returned per input row (`row_index` is zero based) with
+     status `success` or `error` and a message
+
+  ## Notes
+
+  - Runs as the caller, so the existing admin RLS policies on `grades` apply;
+    non-admins are rejected up front with a clear message
+*/
+
+CREATE OR REPLACE FUNCTION upsert_grades_batch(p_rows jsonb)
+RETURNS TABLE (row_index integer, nim text, status text, message text, letter_grade text)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_has_errors boolean;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Hanya admin yang dapat mengunggah nilai' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_rows) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'p_rows harus berupa array JSON' USING ERRCODE = '22023';
+  END IF;
+
+  DROP TABLE IF EXISTS pg_temp.grade_batch;
+  CREATE TEMP TABLE grade_batch ON COMMIT DROP AS
+  SELECT
+    (r.ordinality - 1)::integer AS row_index,
+    COALESCE(trim(r.value->>'nim'), '') AS nim,
+    COALESCE(trim(r.value->>'angkatan'), '') AS angkatan,
+    COALESCE(trim(r.value->>'course_code'), '') AS course_code,
+    CASE WHEN jsonb_typeof(r.value->'score') = 'number'
+      THEN (r.value->>'score')::numeric
+    END AS score,
+    NULL::uuid AS student_id,
+    NULL::uuid AS course_id,
+    NULL::text AS curriculum,
+    NULL::text AS letter_grade,
+    NULL::text AS message
+  FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS r(value, ordinality);
+
+  UPDATE grade_batch b
+  SET student_id = s.id
+  FROM students s
+  WHERE s.nim = b.nim AND s.angkatan = b.angkatan;
+
+  UPDATE grade_batch b
+  SET course_id = c.id, curriculum = c.curriculum
+  FROM courses c
+  WHERE c.code = b.course_code;
+
+  UPDATE grade_batch b
+  SET message = CASE
+    WHEN b.nim = '' OR b.score IS NULL OR b.score < 0 OR b.score > 100
+      THEN 'NIM atau nilai tidak valid'
+    WHEN b.student_id IS NULL
+      THEN format('Mahasiswa dengan NIM %s angkatan %s tidak ditemukan', b.nim, b.angkatan)
+    WHEN b.course_id IS NULL
+      THEN format('Mata kuliah %s tidak ditemukan', b.course_code)
+    WHEN EXISTS (
+      SELECT 1 FROM grade_batch d
+      WHERE d.student_id = b.student_id
+        AND d.course_id = b.course_id
+        AND d.row_index < b.row_index
+    )
+      THEN format('NIM %s muncul lebih dari sekali dalam file', b.nim)
+  END;
+
+  UPDATE grade_batch b
+  SET letter_grade = (SELECT g.letter_grade FROM resolve_grade(b.score, b.curriculum) g)
+  WHERE b.message IS NULL;
+
+  SELECT EXISTS (SELECT 1 FROM grade_batch WHERE message IS NOT NULL) INTO v_has_errors;
+
+  IF v_has_errors THEN
+    RETURN QUERY
+    SELECT b.row_index, b.nim, 'error'::text,
+      COALESCE(b.message, 'Tidak disimpan karena ada baris lain yang gagal'),
+      NULL::text
+    FROM grade_batch b
+    ORDER BY b.row_index;
+    RETURN;
+  END IF;
+
+  INSERT INTO grades (student_id, course_id, score, letter_grade)
+  SELECT b.student_id, b.course_id, b.score, b.letter_grade
+  FROM grade_batch b
+  ON CONFLICT (student_id, course_id) DO UPDATE
+  SET score = EXCLUDED.score,
+      letter_grade = EXCLUDED.letter_grade,
+      updated_at = now();
+
+  RETURN QUERY
+  SELECT b.row_index, b.nim, 'success'::text, NULL::text, b.letter_grade
+  FROM grade_batch b
+  ORDER BY b.row_index;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION upsert_grades_batch(jsonb) TO authenticated;
@@ -0,0 +1,338 @@
+/*
+  # Weighted Assessment Components
+
+  1. New Tables
+    - `assessment_components`
+      - `id` (uuid, primary key)
+      - `course_id` (uuid, references courses) - Course the component belongs to
+      - `name` (text) - Component name, e.g. 'Tugas', 'Kuis', 'UTS', 'UAS', 'Praktikum'
+      - `weight` (numeric) - Percentage of the final score, all weights of a course sum to 100
+      - `sort_order` (integer) - Display order in forms and Excel templates
+      - `created_at` (timestamptz)
+    - `component_scores`
+      - `id` (uuid, primary key)
+      - `component_id` (uuid, references assessment_components)
+      - `student_id` (uuid, references students)
+      - `score` (numeric) - Component score 0-100
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Functions
+    - `save_assessment_components(p_course_id, p_components)` replaces the
+      component list of a course in one transaction and rejects weights that
+      do not sum to 100. Grades already derived from components are
+      recalculated with the new weights.
+    - `upsert_grades_batch(p_rows)` accepts an optional `components` object per
+      row (component name -> score). For courses with components the final
+      score is the weighted sum and the row's `score` is ignored. The function
+      now also returns the final score it stored.
+
+  3. Security
+    - Everyone signed in can read a course's components
+    - Students can read their own component scores, admins can read all
+    - Only admins can write either table
+
+  ## Notes
+
+  - Courses without components keep working exactly as before: one score per
+    student, entered directly
+*/
+
+CREATE TABLE IF NOT EXISTS assessment_components (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id uuid NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  weight numeric(5,2) NOT NULL CHECK (weight > 0 AND weight <= 100),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT assessment_components_course_name_key UNIQUE (course_id, name) DEFERRABLE INITIALLY DEFERRED
+);
+
+CREATE INDEX IF NOT EXISTS idx_assessment_components_course_id ON assessment_components(course_id);
+
+CREATE TABLE IF NOT EXISTS component_scores (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  component_id uuid NOT NULL REFERENCES assessment_components(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  score numeric(5,2) NOT NULL CHECK (score >= 0 AND score <= 100),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (component_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_component_scores_student_id ON component_scores(student_id);
+
+ALTER TABLE assessment_components ENABLE ROW LEVEL SECURITY;
+ALTER TABLE component_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view assessment components"
+  ON assessment_components
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert assessment components"
+  ON assessment_components
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update assessment components"
+  ON assessment_components
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can delete assessment components"
+  ON assessment_components
+  FOR DELETE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE POLICY "Authenticated users can view component scores"
+  ON component_scores
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = student_id OR is_admin(auth.uid()));
+
+CREATE POLICY "Admins can insert component scores"
+  ON component_scores
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update component scores"
+  ON component_scores
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can delete component scores"
+  ON component_scores
+  FOR DELETE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION save_assessment_components(p_course_id uuid, p_components jsonb)
+RETURNS SETOF assessment_components
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_total numeric;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Hanya admin yang dapat mengatur komponen penilaian' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_components) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'p_components harus berupa array JSON' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(sum((c.value->>'weight')::numeric), 0)
+  INTO v_total
+  FROM jsonb_array_elements(p_components) AS c(value);
+
+  IF jsonb_array_length(p_components) > 0 AND v_total <> 100 THEN
+    RAISE EXCEPTION 'Total bobot komponen harus 100%%, saat ini %', v_total USING ERRCODE = '23514';
+  END IF;
+
+  DELETE FROM assessment_components ac
+  WHERE ac.course_id = p_course_id
+    AND ac.id NOT IN (
+      SELECT (c.value->>'id')::uuid
+      FROM jsonb_array_elements(p_components) AS c(value)
+      WHERE c.value->>'id' IS NOT NULL
+    );
+
+  UPDATE assessment_components ac
+  SET name = trim(c.value->>'name'),
+      weight = (c.value->>'weight')::numeric,
+      sort_order = (c.ordinality - 1)::integer
+  FROM jsonb_array_elements(p_components) WITH ORDINALITY AS c(value, ordinality)
+  WHERE ac.id = (c.value->>'id')::uuid
+    AND ac.course_id = p_course_id;
+
+  INSERT INTO assessment_components (course_id, name, weight, sort_order)
+  SELECT p_course_id, trim(c.value->>'name'), (c.value->>'weight')::numeric, (c.ordinality - 1)::integer
+  FROM jsonb_array_elements(p_components) WITH ORDINALITY AS c(value, ordinality)
+  WHERE c.value->>'id' IS NULL;
+
+  -- Grades derived from a complete set of component scores follow the new weights
+  UPDATE grades g
+  SET score = f.final_score,
+      letter_grade = (SELECT r.letter_grade FROM resolve_grade(f.final_score, co.curriculum) r),
+      updated_at = now()
+  FROM (
+    SELECT cs.student_id, round(sum(cs.score * ac.weight) / 100, 2) AS final_score, count(*) AS scored
+    FROM component_scores cs
+    JOIN assessment_components ac ON ac.id = cs.component_id
+    WHERE ac.course_id = p_course_id
+    GROUP BY cs.student_id
+  ) f,
+  courses co
+  WHERE co.id = p_course_id
+    AND g.course_id = p_course_id
+    AND g.student_id = f.student_id
+    AND f.scored = (SELECT count(*) FROM assessment_components ac WHERE ac.course_id = p_course_id);
+
+  RETURN QUERY
+  SELECT ac.*
+  FROM assessment_components ac
+  WHERE ac.course_id = p_course_id
+  ORDER BY ac.sort_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_assessment_components(uuid, jsonb) TO authenticated;
+
+-- The return type gains the final score, which CREATE OR REPLACE cannot change
+DROP FUNCTION IF EXISTS upsert_grades_batch(jsonb);
+
+CREATE FUNCTION upsert_grades_batch(p_rows jsonb)
+RETURNS TABLE (row_index integer, nim text, status text, message text, score numeric, letter_grade text)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_has_errors boolean;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Hanya admin yang dapat mengunggah nilai' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_rows) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'p_rows harus berupa array JSON' USING ERRCODE = '22023';
+  END IF;
+
+  DROP TABLE IF EXISTS pg_temp.grade_batch;
+  CREATE TEMP TABLE grade_batch ON COMMIT DROP AS
+  SELECT
+    (r.ordinality - 1)::integer AS row_index,
+    COALESCE(trim(r.value->>'nim'), '') AS nim,
+    COALESCE(trim(r.value->>'angkatan'), '') AS angkatan,
+    COALESCE(trim(r.value->>'course_code'), '') AS course_code,
+    CASE WHEN jsonb_typeof(r.value->'score') = 'number'
+      THEN (r.value->>'score')::numeric
+    END AS score,
+    CASE WHEN jsonb_typeof(r.value->'components') = 'object'
+      THEN r.value->'components'
+      ELSE '{}'::jsonb
+    END AS components,
+    NULL::uuid AS student_id,
+    NULL::uuid AS course_id,
+    NULL::text AS curriculum,
+    NULL::text AS letter_grade,
+    NULL::text AS message
+  FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS r(value, ordinality);
+
+  UPDATE grade_batch b
+  SET student_id = s.id
+  FROM students s
+  WHERE s.nim = b.nim AND s.angkatan = b.angkatan;
+
+  UPDATE grade_batch b
+  SET course_id = c.id, curriculum = c.curriculum
+  FROM courses c
+  WHERE c.code = b.course_code;
+
+  -- One row per batch row and course component; component names match case-insensitively
+  DROP TABLE IF EXISTS pg_temp.grade_batch_components;
+  CREATE TEMP TABLE grade_batch_components ON COMMIT DROP AS
+  SELECT
+    b.row_index,
+    ac.id AS component_id,
+    ac.name,
+    ac.weight,
+    ac.sort_order,
+    CASE WHEN jsonb_typeof(e.value) = 'number'
+      THEN (e.value #>> '{}')::numeric
+    END AS score
+  FROM grade_batch b
+  JOIN assessment_components ac ON ac.course_id = b.course_id
+  LEFT JOIN LATERAL (
+    SELECT kv.value
+    FROM jsonb_each(b.components) AS kv(key, value)
+    WHERE lower(trim(kv.key)) = lower(ac.name)
+    LIMIT 1
+  ) e ON true;
+
+  UPDATE grade_batch b
+  SET score = (
+    SELECT round(sum(c.score * c.weight) / 100, 2)
+    FROM grade_batch_components c
+    WHERE c.row_index = b.row_index
+  )
+  WHERE EXISTS (SELECT 1 FROM grade_batch_components c WHERE c.row_index = b.row_index);
+
+  UPDATE grade_batch b
+  SET message = CASE
+    WHEN b.nim = ''
+      THEN 'NIM atau nilai tidak valid'
+    WHEN b.student_id IS NULL
+      THEN format('Mahasiswa dengan NIM %s angkatan %s tidak ditemukan', b.nim, b.angkatan)
+    WHEN b.course_id IS NULL
+      THEN format('Mata kuliah %s tidak ditemukan', b.course_code)
+    WHEN EXISTS (
+      SELECT 1 FROM grade_batch_components c
+      WHERE c.row_index = b.row_index
+        AND (c.score IS NULL OR c.score < 0 OR c.score > 100)
+    )
+      THEN format('Nilai komponen %s tidak valid', (
+        SELECT string_agg(c.name, ', ' ORDER BY c.sort_order)
+        FROM grade_batch_components c
+        WHERE c.row_index = b.row_index
+          AND (c.score IS NULL OR c.score < 0 OR c.score > 100)
+      ))
+    WHEN b.score IS NULL OR b.score < 0 OR b.score > 100
+      THEN 'NIM atau nilai tidak valid'
+    WHEN EXISTS (
+      SELECT 1 FROM grade_batch d
+      WHERE d.student_id = b.student_id
+        AND d.course_id = b.course_id
+        AND d.row_index < b.row_index
+    )
+      THEN format('NIM %s muncul lebih dari sekali dalam file', b.nim)
+  END;
+
+  UPDATE grade_batch b
+  SET letter_grade = (SELECT g.letter_grade FROM resolve_grade(b.score, b.curriculum) g)
+  WHERE b.message IS NULL;
+
+  SELECT EXISTS (SELECT 1 FROM grade_batch b WHERE b.message IS NOT NULL) INTO v_has_errors;
+
+  IF v_has_errors THEN
+    RETURN QUERY
+    SELECT b.row_index, b.nim, 'error'::text,
+      COALESCE(b.message, 'Tidak disimpan karena ada baris lain yang gagal'),
+      NULL::numeric,
+      NULL::text
+    FROM grade_batch b
+    ORDER BY b.row_index;
+    RETURN;
+  END IF;
+
+  INSERT INTO component_scores (component_id, student_id, score)
+  SELECT c.component_id, b.student_id, c.score
+  FROM grade_batch_components c
+  JOIN grade_batch b ON b.row_index = c.row_index
+  ON CONFLICT (component_id, student_id) DO UPDATE
+  SET score = EXCLUDED.score,
+      updated_at = now();
+
+  INSERT INTO grades (student_id, course_id, score, letter_grade)
+  SELECT b.student_id, b.course_id, b.score, b.letter_grade
+  FROM grade_batch b
+  ON CONFLICT (student_id, course_id) DO UPDATE
+  SET score = EXCLUDED.score,
+      letter_grade = EXCLUDED.letter_grade,
+      updated_at = now();
+
+  RETURN QUERY
+  SELECT b.row_index, b.nim, 'success'::text, NULL::text, b.score, b.letter_grade
+  FROM grade_batch b
+  ORDER BY b.row_index;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION upsert_grades_batch(jsonb) TO authenticated;
@@ -0,0 +1,285 @@
+/*
+  # Grade Revision History
+
+  1. New Tables
+    - `grade_revisions`
+      - `id` (uuid, primary key)
+      - `student_id` (uuid, references students)
+      - `course_id` (uuid, references courses)
+      - `old_score`, `old_letter_grade` - Values before the change, null for a first grade
+      - `new_score`, `new_letter_grade` - Values after the change, null when the
+        grade was deleted
+      - `changed_by` (uuid, nullable) - auth user that made the change
+      - `changed_by_email` (text, nullable)
+      - `source` (text) - 'excel', 'manual' or 'api'
+      - `reason` (text, nullable) - Why the grade was changed
+      - `created_at` (timestamptz)
+
+  2. Triggers
+    - `log_grade_revision` runs after every insert, update or delete on
+      `grades` and records the before/after values. Updates that change
+      neither score nor letter grade are not recorded. Deletes that cascade
+      from removing the student or course are not recorded either, since
+      that removes the grade's history with it.
+    - Source and reason are taken from the transaction settings
+      `app.grade_change_source` / `app.grade_change_reason`; writes that do not
+      set them (direct table access, weight recalculation) are recorded as 'api'.
+
+  3. Functions
+    - `upsert_grades_batch` gains `p_source` and `p_reason` and sets the
+      settings above before writing
+
+  4. Security
+    - Only admins can read the history
+    - Rows are only written by the trigger; there are no insert/update/delete
+      policies, so the history cannot be edited from the client
+*/
+
+CREATE TABLE IF NOT EXISTS grade_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  course_id uuid NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  old_score numeric(5,2),
+  new_score numeric(5,2),
+  old_letter_grade text,
+  new_letter_grade text,
+  changed_by uuid,
+  changed_by_email text,
+  source text NOT NULL DEFAULT 'api' CHECK (source IN ('excel', 'manual', 'api')),
+  reason text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_grade_revisions_student_course ON grade_revisions(student_id, course_id, created_at DESC);
+
+ALTER TABLE grade_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view grade revisions"
+  ON grade_revisions
+  FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION log_grade_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source text := COALESCE(NULLIF(current_setting('app.grade_change_source', true), ''), 'api');
+  v_reason text := NULLIF(current_setting('app.grade_change_reason', true), '');
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF NOT EXISTS (SELECT 1 FROM students WHERE id = OLD.student_id)
+      OR NOT EXISTS (SELECT 1 FROM courses WHERE id = OLD.course_id) THEN
+      RETURN OLD;
+    END IF;
+
+    INSERT INTO grade_revisions (
+      student_id, course_id,
+      old_score, new_score,
+      old_letter_grade, new_letter_grade,
+      changed_by, changed_by_email,
+      source, reason
+    )
+    VALUES (
+      OLD.student_id, OLD.course_id,
+      OLD.score, NULL,
+      OLD.letter_grade, NULL,
+      auth.uid(), auth.jwt() ->> 'email',
+      v_source, v_reason
+    );
+
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.score IS NOT DISTINCT FROM OLD.score
+    AND NEW.letter_grade IS NOT DISTINCT FROM OLD.letter_grade THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO grade_revisions (
+    student_id, course_id,
+    old_score, new_score,
+    old_letter_grade, new_letter_grade,
+    changed_by, changed_by_email,
+    source, reason
+  )
+  VALUES (
+    NEW.student_id, NEW.course_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.score END, NEW.score,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.letter_grade END, NEW.letter_grade,
+    auth.uid(), auth.jwt() ->> 'email',
+    v_source, v_reason
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS grades_log_revision ON grades;
+CREATE TRIGGER grades_log_revision
+  AFTER INSERT OR UPDATE OR DELETE ON grades
+  FOR EACH ROW
+  EXECUTE FUNCTION log_grade_revision();
+
+-- New parameters change the signature, so the old version has to go first
+DROP FUNCTION IF EXISTS upsert_grades_batch(jsonb);
+
+CREATE FUNCTION upsert_grades_batch(p_rows jsonb, p_source text DEFAULT 'api', p_reason text DEFAULT NULL)
+RETURNS TABLE (row_index integer, nim text, status text, message text, score numeric, letter_grade text)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_has_errors boolean;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Hanya admin yang dapat mengunggah nilai' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_rows) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'p_rows harus berupa array JSON' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_source NOT IN ('excel', 'manual', 'api') THEN
+    RAISE EXCEPTION 'Sumber perubahan nilai tidak dikenal: %', p_source USING ERRCODE = '22023';
+  END IF;
+
+  -- Read by log_grade_revision for every grade this call writes
+  PERFORM set_config('app.grade_change_source', p_source, true);
+  PERFORM set_config('app.grade_change_reason', COALESCE(p_reason, ''), true);
+
+  DROP TABLE IF EXISTS pg_temp.grade_batch;
+  CREATE TEMP TABLE grade_batch ON COMMIT DROP AS
+  SELECT
+    (r.ordinality - 1)::integer AS row_index,
+    COALESCE(trim(r.value->>'nim'), '') AS nim,
+    COALESCE(trim(r.value->>'angkatan'), '') AS angkatan,
+    COALESCE(trim(r.value->>'course_code'), '') AS course_code,
+    CASE WHEN jsonb_typeof(r.value->'score') = 'number'
+      THEN (r.value->>'score')::numeric
+    END AS score,
+    CASE WHEN jsonb_typeof(r.value->'components') = 'object'
+      THEN r.value->'components'
+      ELSE '{}'::jsonb
+    END AS components,
+    NULL::uuid AS student_id,
+    NULL::uuid AS course_id,
+    NULL::text AS curriculum,
+    NULL::text AS letter_grade,
+    NULL::text AS message
+  FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS r(value, ordinality);
+
+  UPDATE grade_batch b
+  SET student_id = s.id
+  FROM students s
+  WHERE s.nim = b.nim AND s.angkatan = b.angkatan;
+
+  UPDATE grade_batch b
+  SET course_id = c.id, curriculum = c.curriculum
+  FROM courses c
+  WHERE c.code = b.course_code;
+
+  -- One row per batch row and course component; component names match case-insensitively
+  DROP TABLE IF EXISTS pg_temp.grade_batch_components;
+  CREATE TEMP TABLE grade_batch_components ON COMMIT DROP AS
+  SELECT
+    b.row_index,
+    ac.id AS component_id,
+    ac.name,
+    ac.weight,
+    ac.sort_order,
+    CASE WHEN jsonb_typeof(e.value) = 'number'
+      THEN (e.value #>> '{}')::numeric
+    END AS score
+  FROM grade_batch b
+  JOIN assessment_components ac ON ac.course_id = b.course_id
+  LEFT JOIN LATERAL (
+    SELECT kv.value
+    FROM jsonb_each(b.components) AS kv(key, value)
+    WHERE lower(trim(kv.key)) = lower(ac.name)
+    LIMIT 1
+  ) e ON true;
+
+  UPDATE grade_batch b
+  SET score = (
+    SELECT round(sum(c.score * c.weight) / 100, 2)
+    FROM grade_batch_components c
+    WHERE c.row_index = b.row_index
+  )
+  WHERE EXISTS (SELECT 1 FROM grade_batch_components c WHERE c.row_index = b.row_index);
+
+  UPDATE grade_batch b
+  SET message = CASE
+    WHEN b.nim = ''
+      THEN 'NIM atau nilai tidak valid'
+    WHEN b.student_id IS NULL
+      THEN format('Mahasiswa dengan NIM %s angkatan %s tidak ditemukan', b.nim, b.angkatan)
+    WHEN b.course_id IS NULL
+      THEN format('Mata kuliah %s tidak ditemukan', b.course_code)
+    WHEN EXISTS (
+      SELECT 1 FROM grade_batch_components c
+      WHERE c.row_index = b.row_index
+        AND (c.score IS NULL OR c.score < 0 OR c.score > 100)
+    )
+      THEN format('Nilai komponen %s tidak valid', (
+        SELECT string_agg(c.name, ', ' ORDER BY c.sort_order)
+        FROM grade_batch_components c
+        WHERE c.row_index = b.row_index
+          AND (c.score IS NULL OR c.score < 0 OR c.score > 100)
+      ))
+    WHEN b.score IS NULL OR b.score < 0 OR b.score > 100
+      THEN 'NIM atau nilai tidak valid'
+    WHEN EXISTS (
+      SELECT 1 FROM grade_batch d
+      WHERE d.student_id = b.student_id
+        AND d.course_id = b.course_id
+        AND d.row_index < b.row_index
+    )
+      THEN format('NIM %s muncul lebih dari sekali dalam file', b.nim)
+  END;
+
+  UPDATE grade_batch b
+  SET letter_grade = (SELECT g.letter_grade FROM resolve_grade(b.score, b.curriculum) g)
+  WHERE b.message IS NULL;
+
+  SELECT EXISTS (SELECT 1 FROM grade_batch b WHERE b.message IS NOT NULL) INTO v_has_errors;
+
+  IF v_has_errors THEN
+    RETURN QUERY
+    SELECT b.row_index, b.nim, 'error'::text,
+      COALESCE(b.message, 'Tidak disimpan karena ada baris lain yang gagal'),
+      NULL::numeric,
+      NULL::text
+    FROM grade_batch b
+    ORDER BY b.row_index;
+    RETURN;
+  END IF;
+
+  INSERT INTO component_scores (component_id, student_id, score)
+  SELECT c.component_id, b.student_id, c.score
+  FROM grade_batch_components c
+  JOIN grade_batch b ON b.row_index = c.row_index
+  ON CONFLICT (component_id, student_id) DO UPDATE
+  SET score = EXCLUDED.score,
+      updated_at = now();
+
+  INSERT INTO grades (student_id, course_id, score, letter_grade)
+  SELECT b.student_id, b.course_id, b.score, b.letter_grade
+  FROM grade_batch b
+  ON CONFLICT (student_id, course_id) DO UPDATE
+  SET score = EXCLUDED.score,
+      letter_grade = EXCLUDED.letter_grade,
+      updated_at = now();
+
+  RETURN QUERY
+  SELECT b.row_index, b.nim, 'success'::text, NULL::text, b.score, b.letter_grade
+  FROM grade_batch b
+  ORDER BY b.row_index;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION upsert_grades_batch(jsonb, text, text) TO authenticated;
@@ -0,0 +1,177 @@
+/*
+  # Grade Finalization and Locking
+
+  ## Problem
+
+  Grades can be overwritten at any time, including months after transcripts
+  were printed. There is no notion of a course's grades being done.
+
+  ## Solution
+
+  1. New table `course_grade_status` holds the grading state of each course
+     (a course row is already one offering in one academic year/semester):
+     draft -> submitted -> finalized -> published. Courses without a row are
+     in draft.
+  2. `transition_course_grade_status(p_course_id, p_status, p_reason)` is the
+     only way to change the state. Allowed moves:
+       - draft -> submitted
+       - submitted -> draft (returned for correction) or finalized
+       - finalized -> published
+       - finalized/published -> draft (reopen, reason required)
+     Every move is written to `activity_logs` together with the reason.
+  3. `is_grade_locked(p_course_id)` is true for finalized and published
+     courses. A trigger on `grades` and `component_scores` rejects inserts and
+     updates for locked courses, so the Excel upload, manual input and any
+     direct API call are all covered.
+
+  ## Security
+
+  - Everyone signed in can read the status (students need it once grades are
+    published)
+  - The table has no write policies; the transition function runs as
+    SECURITY DEFINER and checks `is_admin` itself
+
+  ## Notes
+
+  - Deletes are not blocked so removing a student or course still cascades
+*/
+
+CREATE TABLE IF NOT EXISTS course_grade_status (
+  course_id uuid PRIMARY KEY REFERENCES courses(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'finalized', 'published')),
+  reason text,
+  updated_by uuid,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE course_grade_status ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view course grade status"
+  ON course_grade_status
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION is_grade_locked(p_course_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM course_grade_status cgs
+    WHERE cgs.course_id = p_course_id
+      AND cgs.status IN ('finalized', 'published')
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_grade_locked(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION transition_course_grade_status(p_course_id uuid, p_status text, p_reason text DEFAULT NULL)
+RETURNS course_grade_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_course courses%ROWTYPE;
+  v_current text;
+  v_reason text := NULLIF(trim(COALESCE(p_reason, '')), '');
+  v_reopen boolean;
+  v_result course_grade_status;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Hanya admin yang dapat mengubah status nilai' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_course FROM courses WHERE id = p_course_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mata kuliah tidak ditemukan' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT cgs.status INTO v_current
+  FROM course_grade_status cgs
+  WHERE cgs.course_id = p_course_id
+  FOR UPDATE;
+  v_current := COALESCE(v_current, 'draft');
+
+  IF NOT (
+    (v_current = 'draft' AND p_status = 'submitted')
+    OR (v_current = 'submitted' AND p_status IN ('draft', 'finalized'))
+    OR (v_current = 'finalized' AND p_status IN ('published', 'draft'))
+    OR (v_current = 'published' AND p_status = 'draft')
+  ) THEN
+    RAISE EXCEPTION 'Status nilai % tidak dapat diubah dari % ke %', v_course.code, v_current, p_status
+      USING ERRCODE = '22023';
+  END IF;
+
+  v_reopen := v_current IN ('finalized', 'published') AND p_status = 'draft';
+  IF v_reopen AND v_reason IS NULL THEN
+    RAISE EXCEPTION 'Alasan wajib diisi untuk membuka kembali nilai %', v_course.code USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO course_grade_status (course_id, status, reason, updated_by, updated_at)
+  VALUES (p_course_id, p_status, v_reason, auth.uid(), now())
+  ON CONFLICT (course_id) DO UPDATE
+  SET status = EXCLUDED.status,
+      reason = EXCLUDED.reason,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = EXCLUDED.updated_at
+  RETURNING * INTO v_result;
+
+  INSERT INTO activity_logs (user_id, user_email, user_type, action, entity_type, entity_id, description, metadata)
+  VALUES (
+    auth.uid(),
+    COALESCE(auth.jwt() ->> 'email', 'unknown'),
+    'admin',
+    CASE WHEN v_reopen THEN 'reopen_grades' ELSE 'change_grade_status' END,
+    'course',
+    p_course_id::text,
+    format('Status nilai %s diubah dari %s ke %s', v_course.code, v_current, p_status),
+    jsonb_build_object('course_code', v_course.code, 'from', v_current, 'to', p_status, 'reason', v_reason)
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transition_course_grade_status(uuid, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_grade_lock()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_course_id uuid;
+  v_old_course_id uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'component_scores' THEN
+    SELECT ac.course_id INTO v_course_id FROM assessment_components ac WHERE ac.id = NEW.component_id;
+  ELSE
+    v_course_id := NEW.course_id;
+    IF TG_OP = 'UPDATE' THEN
+      v_old_course_id := OLD.course_id;
+    END IF;
+  END IF;
+
+  IF is_grade_locked(v_course_id) OR is_grade_locked(v_old_course_id) THEN
+    RAISE EXCEPTION 'Nilai mata kuliah % sudah difinalisasi dan tidak dapat diubah',
+      (SELECT c.code FROM courses c WHERE c.id = v_course_id)
+      USING ERRCODE = '55000',
+            HINT = 'Buka kembali status nilai mata kuliah ini untuk melakukan perubahan';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS grades_enforce_lock ON grades;
+CREATE TRIGGER grades_enforce_lock
+  BEFORE INSERT OR UPDATE ON grades
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_grade_lock();
+
+DROP TRIGGER IF EXISTS component_scores_enforce_lock ON component_scores;
+CREATE TRIGGER component_scores_enforce_lock
+  BEFORE INSERT OR UPDATE ON component_scores
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_grade_lock();
@@ -0,0 +1,171 @@
+/*
+  # Grade Publication and Student Visibility
+
+  ## Problem
+
+  Students can read every row in `grades` for themselves as soon as it is
+  written, including grades that are still being entered or reviewed.
+
+  ## Solution
+
+  1. `course_grade_status.release_at` (nullable) lets a course be published
+     ahead of time; grades become visible at that moment. Null means visible
+     as soon as the course is published.
+  2. `is_grade_released(p_course_id)` is true when the course is published and
+     its release date, if any, has passed.
+  3. The student branch of the SELECT policies on `grades` and
+     `component_scores` now also requires `is_grade_released`. Admins still see
+     everything. The initial schema's "Students can view own grades" policy,
+     which has no release check, is dropped: permissive policies are OR-ed, so
+     it would otherwise keep unpublished grades readable.
+  4. `transition_course_grade_status` takes an optional `p_release_at` (only
+     allowed when publishing) and logs publishing as `publish_grades` in
+     `activity_logs`.
+
+  ## Notes
+
+  - Reopening a published course clears the release date and hides its grades
+    from students again until it is published anew
+  - `enrollments` keeps "Students can view own enrollments": it only lists
+    the courses a student is enrolled in, not any score
+*/
+
+ALTER TABLE course_grade_status ADD COLUMN IF NOT EXISTS release_at timestamptz;
+
+CREATE OR REPLACE FUNCTION is_grade_released(p_course_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM course_grade_status cgs
+    WHERE cgs.course_id = p_course_id
+      AND cgs.status = 'published'
+      AND (cgs.release_at IS NULL OR cgs.release_at <= now())
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_grade_released(uuid) TO authenticated;
+
+DROP POLICY IF EXISTS "Students can view own grades" ON grades;
+DROP POLICY IF EXISTS "Authenticated users can view grades" ON grades;
+
+CREATE POLICY "Authenticated users can view grades"
+  ON grades
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR (auth.uid() = student_id AND is_grade_released(course_id))
+  );
+
+DROP POLICY IF EXISTS "Authenticated users can view component scores" ON component_scores;
+
+CREATE POLICY "Authenticated users can view component scores"
+  ON component_scores
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR (
+      auth.uid() = student_id
+      AND EXISTS (
+        SELECT 1 FROM assessment_components ac
+        WHERE ac.id = component_id
+          AND is_grade_released(ac.course_id)
+      )
+    )
+  );
+
+-- The release date adds a parameter, so the old signature has to go first
+DROP FUNCTION IF EXISTS transition_course_grade_status(uuid, text, text);
+
+CREATE FUNCTION transition_course_grade_status(
+  p_course_id uuid,
+  p_status text,
+  p_reason text DEFAULT NULL,
+  p_release_at timestamptz DEFAULT NULL
+)
+RETURNS course_grade_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_course courses%ROWTYPE;
+  v_current text;
+  v_reason text := NULLIF(trim(COALESCE(p_reason, '')), '');
+  v_reopen boolean;
+  v_result course_grade_status;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Hanya admin yang dapat mengubah status nilai' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_course FROM courses WHERE id = p_course_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mata kuliah tidak ditemukan' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT cgs.status INTO v_current
+  FROM course_grade_status cgs
+  WHERE cgs.course_id = p_course_id
+  FOR UPDATE;
+  v_current := COALESCE(v_current, 'draft');
+
+  IF NOT (
+    (v_current = 'draft' AND p_status = 'submitted')
+    OR (v_current = 'submitted' AND p_status IN ('draft', 'finalized'))
+    OR (v_current = 'finalized' AND p_status IN ('published', 'draft'))
+    OR (v_current = 'published' AND p_status = 'draft')
+  ) THEN
+    RAISE EXCEPTION 'Status nilai % tidak dapat diubah dari % ke %', v_course.code, v_current, p_status
+      USING ERRCODE = '22023';
+  END IF;
+
+  v_reopen := v_current IN ('finalized', 'published') AND p_status = 'draft';
+  IF v_reopen AND v_reason IS NULL THEN
+    RAISE EXCEPTION 'Alasan wajib diisi untuk membuka kembali nilai %', v_course.code USING ERRCODE = '22023';
+  END IF;
+
+  IF p_release_at IS NOT NULL AND p_status <> 'published' THEN
+    RAISE EXCEPTION 'Tanggal rilis hanya dapat diatur saat mempublikasikan nilai' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO course_grade_status (course_id, status, reason, release_at, updated_by, updated_at)
+  VALUES (p_course_id, p_status, v_reason, p_release_at, auth.uid(), now())
+  ON CONFLICT (course_id) DO UPDATE
+  SET status = EXCLUDED.status,
+      reason = EXCLUDED.reason,
+      release_at = EXCLUDED.release_at,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = EXCLUDED.updated_at
+  RETURNING * INTO v_result;
+
+  INSERT INTO activity_logs (user_id, user_email, user_type, action, entity_type, entity_id, description, metadata)
+  VALUES (
+    auth.uid(),
+    COALESCE(auth.jwt() ->> 'email', 'unknown'),
+    'admin',
+    CASE
+      WHEN v_reopen THEN 'reopen_grades'
+      WHEN p_status = 'published' THEN 'publish_grades'
+      ELSE 'change_grade_status'
+    END,
+    'course',
+    p_course_id::text,
+    format('Status nilai %s diubah dari %s ke %s', v_course.code, v_current, p_status),
+    jsonb_build_object(
+      'course_code', v_course.code,
+      'from', v_current,
+      'to', p_status,
+      'reason', v_reason,
+      'release_at', p_release_at
+    )
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transition_course_grade_status(uuid, text, text, timestamptz) TO authenticated;
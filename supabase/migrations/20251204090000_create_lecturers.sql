@@ -0,0 +1,485 @@
+/*
+  # Lecturer Accounts and Course Assignment
+
+  ## Problem
+
+  Only `admin_users` and `students` exist, so every grade has to be keyed in
+  by an admin even though the lecturer (dosen) teaching the course is the one
+  who has the scores.
+
+  ## Solution
+
+  1. New table `lecturers` (one row per lecturer account, keyed by the auth
+     user like `students`) and `course_lecturers` assigning lecturers to
+     courses.
+  2. `is_lecturer(user_id)` mirrors `is_admin` for the frontend guard.
+     `teaches_course(p_course_id)` is true when the signed-in user is assigned
+     to the course, `teaches_student(p_student_id)` when the student is
+     enrolled in one of those courses.
+  3. Lecturers get their own policies on `grades`, `component_scores`,
+     `assessment_components`, `enrollments` and `students`, all limited to the
+     courses they teach. Admin policies are left as they are.
+  4. `upsert_grades_batch` and `save_assessment_components` accept lecturers
+     for their own courses. Batch rows for a course the caller does not teach
+     fail like any other invalid row, so the whole batch is rejected.
+  5. `activity_logs.user_type` accepts 'lecturer'.
+
+  ## Security
+
+  - Admins manage `lecturers` and `course_lecturers`; a lecturer can read
+    their own profile and assignments
+  - Only admins insert `lecturers` rows; the admin screen creates the login
+    and the row through the `create-lecturer-user` edge function. Nobody can
+    make themselves a lecturer, and a lecturer row alone grants nothing
+    besides: only `course_lecturers` entries do and those are admin-only
+  - Finalized grades stay locked for lecturers through `enforce_grade_lock`
+*/
+
+CREATE TABLE IF NOT EXISTS lecturers (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  nidn text UNIQUE NOT NULL,
+  name text NOT NULL,
+  email text UNIQUE NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS course_lecturers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id uuid NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  lecturer_id uuid NOT NULL REFERENCES lecturers(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (course_id, lecturer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_lecturers_lecturer_id ON course_lecturers(lecturer_id);
+
+ALTER TABLE lecturers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_lecturers ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_lecturer(user_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM lecturers
+    WHERE id = user_id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION is_lecturer(uuid) TO authenticated;
+
+-- SECURITY DEFINER so policies on other tables can call it without tripping
+-- over the course_lecturers policies
+CREATE OR REPLACE FUNCTION teaches_course(p_course_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM course_lecturers cl
+    WHERE cl.course_id = p_course_id
+      AND cl.lecturer_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION teaches_course(uuid) TO authenticated;
+
+-- Same idea for the students policy, which would otherwise read enrollments
+-- whose own policy reads students again
+CREATE OR REPLACE FUNCTION teaches_student(p_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM enrollments e
+    JOIN course_lecturers cl ON cl.course_id = e.course_id
+    WHERE e.student_id = p_student_id
+      AND cl.lecturer_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION teaches_student(uuid) TO authenticated;
+
+CREATE POLICY "Lecturers can view own profile"
+  ON lecturers
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = id OR is_admin(auth.uid()));
+
+CREATE POLICY "Admins can insert lecturers"
+  ON lecturers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update lecturers"
+  ON lecturers
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can delete lecturers"
+  ON lecturers
+  FOR DELETE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE POLICY "Lecturers can view own course assignments"
+  ON course_lecturers
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = lecturer_id OR is_admin(auth.uid()));
+
+CREATE POLICY "Admins can insert course assignments"
+  ON course_lecturers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can delete course assignments"
+  ON course_lecturers
+  FOR DELETE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+-- Lecturer access to grading data, limited to the courses they teach
+
+CREATE POLICY "Lecturers can view students in their courses"
+  ON students
+  FOR SELECT
+  TO authenticated
+  USING (teaches_student(id));
+
+CREATE POLICY "Lecturers can view enrollments in their courses"
+  ON enrollments
+  FOR SELECT
+  TO authenticated
+  USING (teaches_course(course_id));
+
+CREATE POLICY "Lecturers can view grades in their courses"
+  ON grades
+  FOR SELECT
+  TO authenticated
+  USING (teaches_course(course_id));
+
+CREATE POLICY "Lecturers can insert grades in their courses"
+  ON grades
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (teaches_course(course_id));
+
+CREATE POLICY "Lecturers can update grades in their courses"
+  ON grades
+  FOR UPDATE
+  TO authenticated
+  USING (teaches_course(course_id))
+  WITH CHECK (teaches_course(course_id));
+
+CREATE POLICY "Lecturers can insert assessment components in their courses"
+  ON assessment_components
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (teaches_course(course_id));
+
+CREATE POLICY "Lecturers can update assessment components in their courses"
+  ON assessment_components
+  FOR UPDATE
+  TO authenticated
+  USING (teaches_course(course_id))
+  WITH CHECK (teaches_course(course_id));
+
+CREATE POLICY "Lecturers can delete assessment components in their courses"
+  ON assessment_components
+  FOR DELETE
+  TO authenticated
+  USING (teaches_course(course_id));
+
+CREATE POLICY "Lecturers can view component scores in their courses"
+  ON component_scores
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM assessment_components ac
+      WHERE ac.id = component_id
+        AND teaches_course(ac.course_id)
+    )
+  );
+
+CREATE POLICY "Lecturers can insert component scores in their courses"
+  ON component_scores
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM assessment_components ac
+      WHERE ac.id = component_id
+        AND teaches_course(ac.course_id)
+    )
+  );
+
+CREATE POLICY "Lecturers can update component scores in their courses"
+  ON component_scores
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM assessment_components ac
+      WHERE ac.id = component_id
+        AND teaches_course(ac.course_id)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM assessment_components ac
+      WHERE ac.id = component_id
+        AND teaches_course(ac.course_id)
+    )
+  );
+
+ALTER TABLE activity_logs DROP CONSTRAINT IF EXISTS activity_logs_user_type_check;
+ALTER TABLE activity_logs
+  ADD CONSTRAINT activity_logs_user_type_check
+  CHECK (user_type IN ('admin', 'student', 'lecturer', 'system'));
+
+CREATE OR REPLACE FUNCTION save_assessment_components(p_course_id uuid, p_components jsonb)
+RETURNS SETOF assessment_components
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_total numeric;
+BEGIN
+  IF NOT (is_admin(auth.uid()) OR teaches_course(p_course_id)) THEN
+    RAISE EXCEPTION 'Hanya admin atau dosen pengampu yang dapat mengatur komponen penilaian' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_components) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'p_components harus berupa array JSON' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(sum((c.value->>'weight')::numeric), 0)
+  INTO v_total
+  FROM jsonb_array_elements(p_components) AS c(value);
+
+  IF jsonb_array_length(p_components) > 0 AND v_total <> 100 THEN
+    RAISE EXCEPTION 'Total bobot komponen harus 100%%, saat ini %', v_total USING ERRCODE = '23514';
+  END IF;
+
+  DELETE FROM assessment_components ac
+  WHERE ac.course_id = p_course_id
+    AND ac.id NOT IN (
+      SELECT (c.value->>'id')::uuid
+      FROM jsonb_array_elements(p_components) AS c(value)
+      WHERE c.value->>'id' IS NOT NULL
+    );
+
+  UPDATE assessment_components ac
+  SET name = trim(c.value->>'name'),
+      weight = (c.value->>'weight')::numeric,
+      sort_order = (c.ordinality - 1)::integer
+  FROM jsonb_array_elements(p_components) WITH ORDINALITY AS c(value, ordinality)
+  WHERE ac.id = (c.value->>'id')::uuid
+    AND ac.course_id = p_course_id;
+
+  INSERT INTO assessment_components (course_id, name, weight, sort_order)
+  SELECT p_course_id, trim(c.value->>'name'), (c.value->>'weight')::numeric, (c.ordinality - 1)::integer
+  FROM jsonb_array_elements(p_components) WITH ORDINALITY AS c(value, ordinality)
+  WHERE c.value->>'id' IS NULL;
+
+  -- Grades derived from a complete set of component scores follow the new weights
+  UPDATE grades g
+  SET score = f.final_score,
+      letter_grade = (SELECT r.letter_grade FROM resolve_grade(f.final_score, co.curriculum) r),
+      updated_at = now()
+  FROM (
+    SELECT cs.student_id, round(sum(cs.score * ac.weight) / 100, 2) AS final_score, count(*) AS scored
+    FROM component_scores cs
+    JOIN assessment_components ac ON ac.id = cs.component_id
+    WHERE ac.course_id = p_course_id
+    GROUP BY cs.student_id
+  ) f,
+  courses co
+  WHERE co.id = p_course_id
+    AND g.course_id = p_course_id
+    AND g.student_id = f.student_id
+    AND f.scored = (SELECT count(*) FROM assessment_components ac WHERE ac.course_id = p_course_id);
+
+  RETURN QUERY
+  SELECT ac.*
+  FROM assessment_components ac
+  WHERE ac.course_id = p_course_id
+  ORDER BY ac.sort_order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION upsert_grades_batch(p_rows jsonb, p_source text DEFAULT 'api', p_reason text DEFAULT NULL)
+RETURNS TABLE (row_index integer, nim text, status text, message text, score numeric, letter_grade text)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_is_admin boolean := is_admin(auth.uid());
+  v_has_errors boolean;
+BEGIN
+  IF NOT (v_is_admin OR is_lecturer(auth.uid())) THEN
+    RAISE EXCEPTION 'Hanya admin atau dosen yang dapat mengunggah nilai' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_rows) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'p_rows harus berupa array JSON' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_source NOT IN ('excel', 'manual', 'api') THEN
+    RAISE EXCEPTION 'Sumber perubahan nilai tidak dikenal: %', p_source USING ERRCODE = '22023';
+  END IF;
+
+  -- Read by log_grade_revision for every grade this call writes
+  PERFORM set_config('app.grade_change_source', p_source, true);
+  PERFORM set_config('app.grade_change_reason', COALESCE(p_reason, ''), true);
+
+  DROP TABLE IF EXISTS pg_temp.grade_batch;
+  CREATE TEMP TABLE grade_batch ON COMMIT DROP AS
+  SELECT
+    (r.ordinality - 1)::integer AS row_index,
+    COALESCE(trim(r.value->>'nim'), '') AS nim,
+    COALESCE(trim(r.value->>'angkatan'), '') AS angkatan,
+    COALESCE(trim(r.value->>'course_code'), '') AS course_code,
+    CASE WHEN jsonb_typeof(r.value->'score') = 'number'
+      THEN (r.value->>'score')::numeric
+    END AS score,
+    CASE WHEN jsonb_typeof(r.value->'components') = 'object'
+      THEN r.value->'components'
+      ELSE '{}'::jsonb
+    END AS components,
+    NULL::uuid AS student_id,
+    NULL::uuid AS course_id,
+    NULL::text AS curriculum,
+    NULL::text AS letter_grade,
+    NULL::text AS message
+  FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS r(value, ordinality);
+
+  UPDATE grade_batch b
+  SET student_id = s.id
+  FROM students s
+  WHERE s.nim = b.nim AND s.angkatan = b.angkatan;
+
+  UPDATE grade_batch b
+  SET course_id = c.id, curriculum = c.curriculum
+  FROM courses c
+  WHERE c.code = b.course_code;
+
+  -- One row per batch row and course component; component names match case-insensitively
+  DROP TABLE IF EXISTS pg_temp.grade_batch_components;
+  CREATE TEMP TABLE grade_batch_components ON COMMIT DROP AS
+  SELECT
+    b.row_index,
+    ac.id AS component_id,
+    ac.name,
+    ac.weight,
+    ac.sort_order,
+    CASE WHEN jsonb_typeof(e.value) = 'number'
+      THEN (e.value #>> '{}')::numeric
+    END AS score
+  FROM grade_batch b
+  JOIN assessment_components ac ON ac.course_id = b.course_id
+  LEFT JOIN LATERAL (
+    SELECT kv.value
+    FROM jsonb_each(b.components) AS kv(key, value)
+    WHERE lower(trim(kv.key)) = lower(ac.name)
+    LIMIT 1
+  ) e ON true;
+
+  UPDATE grade_batch b
+  SET score = (
+    SELECT round(sum(c.score * c.weight) / 100, 2)
+    FROM grade_batch_components c
+    WHERE c.row_index = b.row_index
+  )
+  WHERE EXISTS (SELECT 1 FROM grade_batch_components c WHERE c.row_index = b.row_index);
+
+  -- Course checks come before the student lookup: a lecturer cannot see
+  -- students outside their own courses, so a missing student would hide the
+  -- real reason.
+  UPDATE grade_batch b
+  SET message = CASE
+    WHEN b.nim = ''
+      THEN 'NIM atau nilai tidak valid'
+    WHEN b.course_id IS NULL
+      THEN format('Mata kuliah %s tidak ditemukan', b.course_code)
+    WHEN NOT v_is_admin AND NOT teaches_course(b.course_id)
+      THEN format('Anda bukan dosen pengampu mata kuliah %s', b.course_code)
+    WHEN b.student_id IS NULL
+      THEN format('Mahasiswa dengan NIM %s angkatan %s tidak ditemukan', b.nim, b.angkatan)
+    WHEN EXISTS (
+      SELECT 1 FROM grade_batch_components c
+      WHERE c.row_index = b.row_index
+        AND (c.score IS NULL OR c.score < 0 OR c.score > 100)
+    )
+      THEN format('Nilai komponen %s tidak valid', (
+        SELECT string_agg(c.name, ', ' ORDER BY c.sort_order)
+        FROM grade_batch_components c
+        WHERE c.row_index = b.row_index
+          AND (c.score IS NULL OR c.score < 0 OR c.score > 100)
+      ))
+    WHEN b.score IS NULL OR b.score < 0 OR b.score > 100
+      THEN 'NIM atau nilai tidak valid'
+    WHEN EXISTS (
+      SELECT 1 FROM grade_batch d
+      WHERE d.student_id = b.student_id
+        AND d.course_id = b.course_id
+        AND d.row_index < b.row_index
+    )
+      THEN format('NIM %s muncul lebih dari sekali dalam file', b.nim)
+  END;
+
+  UPDATE grade_batch b
+  SET letter_grade = (SELECT g.letter_grade FROM resolve_grade(b.score, b.curriculum) g)
+  WHERE b.message IS NULL;
+
+  SELECT EXISTS (SELECT 1 FROM grade_batch b WHERE b.message IS NOT NULL) INTO v_has_errors;
+
+  IF v_has_errors THEN
+    RETURN QUERY
+    SELECT b.row_index, b.nim, 'error'::text,
+      COALESCE(b.message, 'Tidak disimpan karena ada baris lain yang gagal'),
+      NULL::numeric,
+      NULL::text
+    FROM grade_batch b
+    ORDER BY b.row_index;
+    RETURN;
+  END IF;
+
+  INSERT INTO component_scores (component_id, student_id, score)
+  SELECT c.component_id, b.student_id, c.score
+  FROM grade_batch_components c
+  JOIN grade_batch b ON b.row_index = c.row_index
+  ON CONFLICT (component_id, student_id) DO UPDATE
+  SET score = EXCLUDED.score,
+      updated_at = now();
+
+  INSERT INTO grades (student_id, course_id, score, letter_grade)
+  SELECT b.student_id, b.course_id, b.score, b.letter_grade
+  FROM grade_batch b
+  ON CONFLICT (student_id, course_id) DO UPDATE
+  SET score = EXCLUDED.score,
+      letter_grade = EXCLUDED.letter_grade,
+      updated_at = now();
+
+  RETURN QUERY
+  SELECT b.row_index, b.nim, 'success'::text, NULL::text, b.score, b.letter_grade
+  FROM grade_batch b
+  ORDER BY b.row_index;
+END;
+$$;
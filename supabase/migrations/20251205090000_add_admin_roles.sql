@@ -0,0 +1,674 @@
+/*
+  # Granular Admin Roles
+
+  ## Problem
+
+  `admin_users.role` exists but `is_admin` treats every admin the same, so an
+  operator who only uploads grades can also delete students and edit grading
+  scales. On top of that any signed-in user can insert their own
+  `admin_users` row.
+
+  ## Solution
+
+  1. `admin_users.role` is limited to four roles:
+       - super_admin: everything, including admin accounts
+       - academic_operator: grade entry and enrollments
+       - prodi_admin: grade entry and status, students, courses,
+         enrollments and lecturers
+       - auditor: read-only, plus the activity log
+     Existing admins become super_admin so nobody loses access. New rows
+     default to auditor.
+  2. New table `admin_role_permissions` is the permission matrix (role ->
+     permission). The dashboard reads it to decide which tabs to show.
+  3. `has_admin_permission(p_permission)` checks the signed-in admin's role
+     against the matrix. Every admin write policy, and the grade RPCs, now use
+     it instead of `is_admin`. Read policies keep `is_admin`: all four roles
+     can see grades, reports and transcripts.
+  4. Admin accounts are managed by admins with `admins.manage`. The
+     self-registration policy on `admin_users` is dropped. Nobody can change
+     or delete their own admin row, so the last super admin cannot lock
+     everyone out by accident.
+
+  ## Notes
+
+  - prodi_admin is not scoped to a study program yet; courses have no
+    program column to scope by
+*/
+
+ALTER TABLE admin_users DROP CONSTRAINT IF EXISTS admin_users_role_check;
+
+UPDATE admin_users
+SET role = 'super_admin'
+WHERE role IS NULL OR role NOT IN ('super_admin', 'academic_operator', 'prodi_admin', 'auditor');
+
+ALTER TABLE admin_users ALTER COLUMN role SET DEFAULT 'auditor';
+ALTER TABLE admin_users
+  ADD CONSTRAINT admin_users_role_check
+  CHECK (role IN ('super_admin', 'academic_operator', 'prodi_admin', 'auditor'));
+
+CREATE TABLE IF NOT EXISTS admin_role_permissions (
+  role text NOT NULL CHECK (role IN ('super_admin', 'academic_operator', 'prodi_admin', 'auditor')),
+  permission text NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE admin_role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view role permissions"
+  ON admin_role_permissions
+  FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+INSERT INTO admin_role_permissions (role, permission)
+VALUES
+  ('super_admin', 'grades.write'),
+  ('super_admin', 'grades.status'),
+  ('super_admin', 'students.manage'),
+  ('super_admin', 'courses.manage'),
+  ('super_admin', 'enrollments.manage'),
+  ('super_admin', 'lecturers.manage'),
+  ('super_admin', 'grading_scales.manage'),
+  ('super_admin', 'activity_logs.view'),
+  ('super_admin', 'admins.manage'),
+  ('academic_operator', 'grades.write'),
+  ('academic_operator', 'enrollments.manage'),
+  ('prodi_admin', 'grades.write'),
+  ('prodi_admin', 'grades.status'),
+  ('prodi_admin', 'students.manage'),
+  ('prodi_admin', 'courses.manage'),
+  ('prodi_admin', 'enrollments.manage'),
+  ('prodi_admin', 'lecturers.manage'),
+  ('auditor', 'activity_logs.view')
+ON CONFLICT (role, permission) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION has_admin_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM admin_users au
+    JOIN admin_role_permissions arp ON arp.role = au.role
+    WHERE au.id = auth.uid()
+      AND arp.permission = p_permission
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION has_admin_permission(text) TO authenticated;
+
+-- ============================================================================
+-- ADMIN ACCOUNTS
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Authenticated users can register as admin" ON admin_users;
+
+CREATE POLICY "Admins with admins.manage can insert admin users"
+  ON admin_users
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_admin_permission('admins.manage'));
+
+CREATE POLICY "Admins with admins.manage can update other admin users"
+  ON admin_users
+  FOR UPDATE
+  TO authenticated
+  USING (has_admin_permission('admins.manage') AND id <> auth.uid())
+  WITH CHECK (has_admin_permission('admins.manage') AND id <> auth.uid());
+
+CREATE POLICY "Admins with admins.manage can delete other admin users"
+  ON admin_users
+  FOR DELETE
+  TO authenticated
+  USING (has_admin_permission('admins.manage') AND id <> auth.uid());
+
+-- ============================================================================
+-- STUDENTS TABLE POLICIES
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Admins can insert students" ON students;
+DROP POLICY IF EXISTS "Admins can update students" ON students;
+DROP POLICY IF EXISTS "Admins can delete students" ON students;
+
+CREATE POLICY "Admins can insert students"
+  ON students
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_admin_permission('students.manage'));
+
+CREATE POLICY "Admins can update students"
+  ON students
+  FOR UPDATE
+  TO authenticated
+  USING (has_admin_permission('students.manage'))
+  WITH CHECK (has_admin_permission('students.manage'));
+
+CREATE POLICY "Admins can delete students"
+  ON students
+  FOR DELETE
+  TO authenticated
+  USING (has_admin_permission('students.manage'));
+
+-- ============================================================================
+-- COURSES TABLE POLICIES
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Admins can insert courses" ON courses;
+DROP POLICY IF EXISTS "Admins can update courses" ON courses;
+DROP POLICY IF EXISTS "Admins can delete courses" ON courses;
+
+CREATE POLICY "Admins can insert courses"
+  ON courses
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_admin_permission('courses.manage'));
+
+CREATE POLICY "Admins can update courses"
+  ON courses
+  FOR UPDATE
+  TO authenticated
+  USING (has_admin_permission('courses.manage'))
+  WITH CHECK (has_admin_permission('courses.manage'));
+
+CREATE POLICY "Admins can delete courses"
+  ON courses
+  FOR DELETE
+  TO authenticated
+  USING (has_admin_permission('courses.manage'));
+
+-- ============================================================================
+-- ENROLLMENTS TABLE POLICIES
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Admins can insert enrollments" ON enrollments;
+DROP POLICY IF EXISTS "Admins can update enrollments" ON enrollments;
+DROP POLICY IF EXISTS "Admins can delete enrollments" ON enrollments;
+
+CREATE POLICY "Admins can insert enrollments"
+  ON enrollments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_admin_permission('enrollments.manage'));
+
+CREATE POLICY "Admins can update enrollments"
+  ON enrollments
+  FOR UPDATE
+  TO authenticated
+  USING (has_admin_permission('enrollments.manage'))
+  WITH CHECK (has_admin_permission('enrollments.manage'));
+
+CREATE POLICY "Admins can delete enrollments"
+  ON enrollments
+  FOR DELETE
+  TO authenticated
+  USING (has_admin_permission('enrollments.manage'));
+
+-- ============================================================================
+-- GRADES TABLE POLICIES
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Admins can insert grades" ON grades;
+DROP POLICY IF EXISTS "Admins can update grades" ON grades;
+DROP POLICY IF EXISTS "Admins can delete grades" ON grades;
+
+CREATE POLICY "Admins can insert grades"
+  ON grades
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_admin_permission('grades.write'));
+
+CREATE POLICY "Admins can update grades"
+  ON grades
+  FOR UPDATE
+  TO authenticated
+  USING (has_admin_permission('grades.write'))
+  WITH CHECK (has_admin_permission('grades.write'));
+
+CREATE POLICY "Admins can delete grades"
+  ON grades
+  FOR DELETE
+  TO authenticated
+  USING (has_admin_permission('grades.write'));
+
+-- ============================================================================
+-- ASSESSMENT_COMPONENTS TABLE POLICIES
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Admins can insert assessment components" ON assessment_components;
+DROP POLICY IF EXISTS "Admins can update assessment components" ON assessment_components;
+DROP POLICY IF EXISTS "Admins can delete assessment components" ON assessment_components;
+
+CREATE POLICY "Admins can insert assessment components"
+  ON assessment_components
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_admin_permission('grades.write'));
+
+CREATE POLICY "Admins can update assessment components"
+  ON assessment_components
+  FOR UPDATE
+  TO authenticated
+  USING (has_admin_permission('grades.write'))
+  WITH CHECK (has_admin_permission('grades.write'));
+
+CREATE POLICY "Admins can delete assessment components"
+  ON assessment_components
+  FOR DELETE
+  TO authenticated
+  USING (has_admin_permission('grades.write'));
+
+-- ============================================================================
+-- COMPONENT_SCORES TABLE POLICIES
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Admins can insert component scores" ON component_scores;
+DROP POLICY IF EXISTS "Admins can update component scores" ON component_scores;
+DROP POLICY IF EXISTS "Admins can delete component scores" ON component_scores;
+
+CREATE POLICY "Admins can insert component scores"
+  ON component_scores
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_admin_permission('grades.write'));
+
+CREATE POLICY "Admins can update component scores"
+  ON component_scores
+  FOR UPDATE
+  TO authenticated
+  USING (has_admin_permission('grades.write'))
+  WITH CHECK (has_admin_permission('grades.write'));
+
+CREATE POLICY "Admins can delete component scores"
+  ON component_scores
+  FOR DELETE
+  TO authenticated
+  USING (has_admin_permission('grades.write'));
+
+-- ============================================================================
+-- GRADING SCALES, LECTURERS AND ACTIVITY LOG POLICIES
+-- ============================================================================
+
+-- The initial schema's per-command policies only check is_admin()
+DROP POLICY IF EXISTS "Admins can insert grading scales" ON grading_scales;
+DROP POLICY IF EXISTS "Admins can update grading scales" ON grading_scales;
+DROP POLICY IF EXISTS "Admins can delete grading scales" ON grading_scales;
+DROP POLICY IF EXISTS "Admins can manage grading scales" ON grading_scales;
+
+CREATE POLICY "Admins can manage grading scales"
+  ON grading_scales
+  FOR ALL
+  TO authenticated
+  USING (has_admin_permission('grading_scales.manage'))
+  WITH CHECK (has_admin_permission('grading_scales.manage'));
+
+DROP POLICY IF EXISTS "Admins can insert lecturers" ON lecturers;
+DROP POLICY IF EXISTS "Admins can update lecturers" ON lecturers;
+DROP POLICY IF EXISTS "Admins can delete lecturers" ON lecturers;
+
+CREATE POLICY "Admins can insert lecturers"
+  ON lecturers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_admin_permission('lecturers.manage'));
+
+CREATE POLICY "Admins can update lecturers"
+  ON lecturers
+  FOR UPDATE
+  TO authenticated
+  USING (has_admin_permission('lecturers.manage'))
+  WITH CHECK (has_admin_permission('lecturers.manage'));
+
+CREATE POLICY "Admins can delete lecturers"
+  ON lecturers
+  FOR DELETE
+  TO authenticated
+  USING (has_admin_permission('lecturers.manage'));
+
+DROP POLICY IF EXISTS "Admins can insert course assignments" ON course_lecturers;
+DROP POLICY IF EXISTS "Admins can delete course assignments" ON course_lecturers;
+
+CREATE POLICY "Admins can insert course assignments"
+  ON course_lecturers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_admin_permission('lecturers.manage'));
+
+CREATE POLICY "Admins can delete course assignments"
+  ON course_lecturers
+  FOR DELETE
+  TO authenticated
+  USING (has_admin_permission('lecturers.manage'));
+
+DROP POLICY IF EXISTS "Admins can view all activity logs" ON activity_logs;
+
+CREATE POLICY "Admins can view all activity logs"
+  ON activity_logs
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('activity_logs.view'));
+
+-- ============================================================================
+-- GRADE FUNCTIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION save_assessment_components(p_course_id uuid, p_components jsonb)
+RETURNS SETOF assessment_components
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_total numeric;
+BEGIN
+  IF NOT (has_admin_permission('grades.write') OR teaches_course(p_course_id)) THEN
+    RAISE EXCEPTION 'Anda tidak memiliki izin mengatur komponen penilaian mata kuliah ini' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_components) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'p_components harus berupa array JSON' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(sum((c.value->>'weight')::numeric), 0)
+  INTO v_total
+  FROM jsonb_array_elements(p_components) AS c(value);
+
+  IF jsonb_array_length(p_components) > 0 AND v_total <> 100 THEN
+    RAISE EXCEPTION 'Total bobot komponen harus 100%%, saat ini %', v_total USING ERRCODE = '23514';
+  END IF;
+
+  DELETE FROM assessment_components ac
+  WHERE ac.course_id = p_course_id
+    AND ac.id NOT IN (
+      SELECT (c.value->>'id')::uuid
+      FROM jsonb_array_elements(p_components) AS c(value)
+      WHERE c.value->>'id' IS NOT NULL
+    );
+
+  UPDATE assessment_components ac
+  SET name = trim(c.value->>'name'),
+      weight = (c.value->>'weight')::numeric,
+      sort_order = (c.ordinality - 1)::integer
+  FROM jsonb_array_elements(p_components) WITH ORDINALITY AS c(value, ordinality)
+  WHERE ac.id = (c.value->>'id')::uuid
+    AND ac.course_id = p_course_id;
+
+  INSERT INTO assessment_components (course_id, name, weight, sort_order)
+  SELECT p_course_id, trim(c.value->>'name'), (c.value->>'weight')::numeric, (c.ordinality - 1)::integer
+  FROM jsonb_array_elements(p_components) WITH ORDINALITY AS c(value, ordinality)
+  WHERE c.value->>'id' IS NULL;
+
+  -- Grades derived from a complete set of component scores follow the new weights
+  UPDATE grades g
+  SET score = f.final_score,
+      letter_grade = (SELECT r.letter_grade FROM resolve_grade(f.final_score, co.curriculum) r),
+      updated_at = now()
+  FROM (
+    SELECT cs.student_id, round(sum(cs.score * ac.weight) / 100, 2) AS final_score, count(*) AS scored
+    FROM component_scores cs
+    JOIN assessment_components ac ON ac.id = cs.component_id
+    WHERE ac.course_id = p_course_id
+    GROUP BY cs.student_id
+  ) f,
+  courses co
+  WHERE co.id = p_course_id
+    AND g.course_id = p_course_id
+    AND g.student_id = f.student_id
+    AND f.scored = (SELECT count(*) FROM assessment_components ac WHERE ac.course_id = p_course_id);
+
+  RETURN QUERY
+  SELECT ac.*
+  FROM assessment_components ac
+  WHERE ac.course_id = p_course_id
+  ORDER BY ac.sort_order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION upsert_grades_batch(p_rows jsonb, p_source text DEFAULT 'api', p_reason text DEFAULT NULL)
+RETURNS TABLE (row_index integer, nim text, status text, message text, score numeric, letter_grade text)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  -- Admins allowed to write grades may grade any course, lecturers only their own
+  v_all_courses boolean := has_admin_permission('grades.write');
+  v_has_errors boolean;
+BEGIN
+  IF NOT (v_all_courses OR is_lecturer(auth.uid())) THEN
+    RAISE EXCEPTION 'Anda tidak memiliki izin mengunggah nilai' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_rows) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'p_rows harus berupa array JSON' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_source NOT IN ('excel', 'manual', 'api') THEN
+    RAISE EXCEPTION 'Sumber perubahan nilai tidak dikenal: %', p_source USING ERRCODE = '22023';
+  END IF;
+
+  -- Read by log_grade_revision for every grade this call writes
+  PERFORM set_config('app.grade_change_source', p_source, true);
+  PERFORM set_config('app.grade_change_reason', COALESCE(p_reason, ''), true);
+
+  DROP TABLE IF EXISTS pg_temp.grade_batch;
+  CREATE TEMP TABLE grade_batch ON COMMIT DROP AS
+  SELECT
+    (r.ordinality - 1)::integer AS row_index,
+    COALESCE(trim(r.value->>'nim'), '') AS nim,
+    COALESCE(trim(r.value->>'angkatan'), '') AS angkatan,
+    COALESCE(trim(r.value->>'course_code'), '') AS course_code,
+    CASE WHEN jsonb_typeof(r.value->'score') = 'number'
+      THEN (r.value->>'score')::numeric
+    END AS score,
+    CASE WHEN jsonb_typeof(r.value->'components') = 'object'
+      THEN r.value->'components'
+      ELSE '{}'::jsonb
+    END AS components,
+    NULL::uuid AS student_id,
+    NULL::uuid AS course_id,
+    NULL::text AS curriculum,
+    NULL::text AS letter_grade,
+    NULL::text AS message
+  FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS r(value, ordinality);
+
+  UPDATE grade_batch b
+  SET student_id = s.id
+  FROM students s
+  WHERE s.nim = b.nim AND s.angkatan = b.angkatan;
+
+  UPDATE grade_batch b
+  SET course_id = c.id, curriculum = c.curriculum
+  FROM courses c
+  WHERE c.code = b.course_code;
+
+  -- One row per batch row and course component; component names match case-insensitively
+  DROP TABLE IF EXISTS pg_temp.grade_batch_components;
+  CREATE TEMP TABLE grade_batch_components ON COMMIT DROP AS
+  SELECT
+    b.row_index,
+    ac.id AS component_id,
+    ac.name,
+    ac.weight,
+    ac.sort_order,
+    CASE WHEN jsonb_typeof(e.value) = 'number'
+      THEN (e.value #>> '{}')::numeric
+    END AS score
+  FROM grade_batch b
+  JOIN assessment_components ac ON ac.course_id = b.course_id
+  LEFT JOIN LATERAL (
+    SELECT kv.value
+    FROM jsonb_each(b.components) AS kv(key, value)
+    WHERE lower(trim(kv.key)) = lower(ac.name)
+    LIMIT 1
+  ) e ON true;
+
+  UPDATE grade_batch b
+  SET score = (
+    SELECT round(sum(c.score * c.weight) / 100, 2)
+    FROM grade_batch_components c
+    WHERE c.row_index = b.row_index
+  )
+  WHERE EXISTS (SELECT 1 FROM grade_batch_components c WHERE c.row_index = b.row_index);
+
+  -- Course checks come before the student lookup: a lecturer cannot see
+  -- students outside their own courses, so a missing student would hide the
+  -- real reason.
+  UPDATE grade_batch b
+  SET message = CASE
+    WHEN b.nim = ''
+      THEN 'NIM atau nilai tidak valid'
+    WHEN b.course_id IS NULL
+      THEN format('Mata kuliah %s tidak ditemukan', b.course_code)
+    WHEN NOT v_all_courses AND NOT teaches_course(b.course_id)
+      THEN format('Anda bukan dosen pengampu mata kuliah %s', b.course_code)
+    WHEN b.student_id IS NULL
+      THEN format('Mahasiswa dengan NIM %s angkatan %s tidak ditemukan', b.nim, b.angkatan)
+    WHEN EXISTS (
+      SELECT 1 FROM grade_batch_components c
+      WHERE c.row_index = b.row_index
+        AND (c.score IS NULL OR c.score < 0 OR c.score > 100)
+    )
+      THEN format('Nilai komponen %s tidak valid', (
+        SELECT string_agg(c.name, ', ' ORDER BY c.sort_order)
+        FROM grade_batch_components c
+        WHERE c.row_index = b.row_index
+          AND (c.score IS NULL OR c.score < 0 OR c.score > 100)
+      ))
+    WHEN b.score IS NULL OR b.score < 0 OR b.score > 100
+      THEN 'NIM atau nilai tidak valid'
+    WHEN EXISTS (
+      SELECT 1 FROM grade_batch d
+      WHERE d.student_id = b.student_id
+        AND d.course_id = b.course_id
+        AND d.row_index < b.row_index
+    )
+      THEN format('NIM %s muncul lebih dari sekali dalam file', b.nim)
+  END;
+
+  UPDATE grade_batch b
+  SET letter_grade = (SELECT g.letter_grade FROM resolve_grade(b.score, b.curriculum) g)
+  WHERE b.message IS NULL;
+
+  SELECT EXISTS (SELECT 1 FROM grade_batch b WHERE b.message IS NOT NULL) INTO v_has_errors;
+
+  IF v_has_errors THEN
+    RETURN QUERY
+    SELECT b.row_index, b.nim, 'error'::text,
+      COALESCE(b.message, 'Tidak disimpan karena ada baris lain yang gagal'),
+      NULL::numeric,
+      NULL::text
+    FROM grade_batch b
+    ORDER BY b.row_index;
+    RETURN;
+  END IF;
+
+  INSERT INTO component_scores (component_id, student_id, score)
+  SELECT c.component_id, b.student_id, c.score
+  FROM grade_batch_components c
+  JOIN grade_batch b ON b.row_index = c.row_index
+  ON CONFLICT (component_id, student_id) DO UPDATE
+  SET score = EXCLUDED.score,
+      updated_at = now();
+
+  INSERT INTO grades (student_id, course_id, score, letter_grade)
+  SELECT b.student_id, b.course_id, b.score, b.letter_grade
+  FROM grade_batch b
+  ON CONFLICT (student_id, course_id) DO UPDATE
+  SET score = EXCLUDED.score,
+      letter_grade = EXCLUDED.letter_grade,
+      updated_at = now();
+
+  RETURN QUERY
+  SELECT b.row_index, b.nim, 'success'::text, NULL::text, b.score, b.letter_grade
+  FROM grade_batch b
+  ORDER BY b.row_index;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION transition_course_grade_status(
+  p_course_id uuid,
+  p_status text,
+  p_reason text DEFAULT NULL,
+  p_release_at timestamptz DEFAULT NULL
+)
+RETURNS course_grade_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_course courses%ROWTYPE;
+  v_current text;
+  v_reason text := NULLIF(trim(COALESCE(p_reason, '')), '');
+  v_reopen boolean;
+  v_result course_grade_status;
+BEGIN
+  IF NOT has_admin_permission('grades.status') THEN
+    RAISE EXCEPTION 'Anda tidak memiliki izin mengubah status nilai' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_course FROM courses WHERE id = p_course_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mata kuliah tidak ditemukan' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT cgs.status INTO v_current
+  FROM course_grade_status cgs
+  WHERE cgs.course_id = p_course_id
+  FOR UPDATE;
+  v_current := COALESCE(v_current, 'draft');
+
+  IF NOT (
+    (v_current = 'draft' AND p_status = 'submitted')
+    OR (v_current = 'submitted' AND p_status IN ('draft', 'finalized'))
+    OR (v_current = 'finalized' AND p_status IN ('published', 'draft'))
+    OR (v_current = 'published' AND p_status = 'draft')
+  ) THEN
+    RAISE EXCEPTION 'Status nilai % tidak dapat diubah dari % ke %', v_course.code, v_current, p_status
+      USING ERRCODE = '22023';
+  END IF;
+
+  v_reopen := v_current IN ('finalized', 'published') AND p_status = 'draft';
+  IF v_reopen AND v_reason IS NULL THEN
+    RAISE EXCEPTION 'Alasan wajib diisi untuk membuka kembali nilai %', v_course.code USING ERRCODE = '22023';
+  END IF;
+
+  IF p_release_at IS NOT NULL AND p_status <> 'published' THEN
+    RAISE EXCEPTION 'Tanggal rilis hanya dapat diatur saat mempublikasikan nilai' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO course_grade_status (course_id, status, reason, release_at, updated_by, updated_at)
+  VALUES (p_course_id, p_status, v_reason, p_release_at, auth.uid(), now())
+  ON CONFLICT (course_id) DO UPDATE
+  SET status = EXCLUDED.status,
+      reason = EXCLUDED.reason,
+      release_at = EXCLUDED.release_at,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = EXCLUDED.updated_at
+  RETURNING * INTO v_result;
+
+  INSERT INTO activity_logs (user_id, user_email, user_type, action, entity_type, entity_id, description, metadata)
+  VALUES (
+    auth.uid(),
+    COALESCE(auth.jwt() ->> 'email', 'unknown'),
+    'admin',
+    CASE
+      WHEN v_reopen THEN 'reopen_grades'
+      WHEN p_status = 'published' THEN 'publish_grades'
+      ELSE 'change_grade_status'
+    END,
+    'course',
+    p_course_id::text,
+    format('Status nilai %s diubah dari %s ke %s', v_course.code, v_current, p_status),
+    jsonb_build_object(
+      'course_code', v_course.code,
+      'from', v_current,
+      'to', p_status,
+      'reason', v_reason,
+      'release_at', p_release_at
+    )
+  );
+
+  RETURN v_result;
+END;
+$$;
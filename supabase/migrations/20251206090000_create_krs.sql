@@ -0,0 +1,304 @@
+/*
+  # Student KRS (Kartu Rencana Studi) with Advisor Approval
+
+  ## Problem
+
+  Enrollments can only be created by admins. Students cannot plan their own
+  courses for a term and advisors (dosen wali) have no say in it.
+
+  ## Solution
+
+  1. `students` gets `curriculum` (which courses the student may pick from) and
+     `advisor_id` (their dosen wali, a lecturer). Both are set by admins.
+  2. New table `krs_submissions`: one KRS per student per academic year and
+     semester, with status submitted -> approved / rejected. `krs_items` holds
+     the picked courses.
+  3. `submit_krs(p_academic_year, p_semester, p_course_ids)` lets a student
+     submit (or resubmit a rejected or pending) KRS. Every course must belong
+     to the student's curriculum and to that academic year and semester.
+  4. `review_krs(p_krs_id, p_approve, p_note)` lets the student's advisor, or
+     an admin with `enrollments.manage`, approve or reject a submitted KRS.
+     Approving inserts an `enrollments` row per course; courses the student is
+     already enrolled in are skipped.
+
+  ## Security
+
+  - KRS tables have no insert/update/delete policies; all writes go through
+    the two SECURITY DEFINER functions
+  - A student without an advisor can only have their KRS reviewed by an
+    admin; a missing advisor never matches the caller
+  - Students see their own KRS, advisors see their advisees' KRS and student
+    rows, admins see everything
+  - Students can still edit their own profile, but `enforce_student_academic_fields`
+    rejects changes to `curriculum` and `advisor_id` unless the caller has
+    `students.manage`, so a student cannot pick their own advisor
+*/
+
+ALTER TABLE students ADD COLUMN IF NOT EXISTS curriculum text;
+ALTER TABLE students ADD COLUMN IF NOT EXISTS advisor_id uuid REFERENCES lecturers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_students_advisor_id ON students(advisor_id);
+
+CREATE OR REPLACE FUNCTION enforce_student_academic_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF has_admin_permission('students.manage') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.curriculum IS NOT NULL OR NEW.advisor_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Kurikulum dan dosen wali hanya dapat diatur oleh admin' USING ERRCODE = '42501';
+    END IF;
+  ELSIF NEW.curriculum IS DISTINCT FROM OLD.curriculum OR NEW.advisor_id IS DISTINCT FROM OLD.advisor_id THEN
+    RAISE EXCEPTION 'Kurikulum dan dosen wali hanya dapat diatur oleh admin' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_student_academic_fields ON students;
+CREATE TRIGGER enforce_student_academic_fields
+  BEFORE INSERT OR UPDATE ON students
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_student_academic_fields();
+
+CREATE TABLE IF NOT EXISTS krs_submissions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  academic_year text NOT NULL,
+  semester integer NOT NULL CHECK (semester >= 1 AND semester <= 8),
+  status text NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'approved', 'rejected')),
+  note text,
+  submitted_at timestamptz NOT NULL DEFAULT now(),
+  reviewed_at timestamptz,
+  reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  UNIQUE (student_id, academic_year, semester)
+);
+
+CREATE TABLE IF NOT EXISTS krs_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  krs_id uuid NOT NULL REFERENCES krs_submissions(id) ON DELETE CASCADE,
+  course_id uuid NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  UNIQUE (krs_id, course_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_krs_submissions_status ON krs_submissions(status);
+CREATE INDEX IF NOT EXISTS idx_krs_items_krs_id ON krs_items(krs_id);
+
+ALTER TABLE krs_submissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE krs_items ENABLE ROW LEVEL SECURITY;
+
+-- SECURITY DEFINER for the same reason as teaches_student: the students
+-- policy below must not re-enter the students policies
+CREATE OR REPLACE FUNCTION advises_student(p_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM students s
+    WHERE s.id = p_student_id
+      AND s.advisor_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION advises_student(uuid) TO authenticated;
+
+CREATE POLICY "Lecturers can view their advisees"
+  ON students
+  FOR SELECT
+  TO authenticated
+  USING (advises_student(id));
+
+CREATE POLICY "Students, advisors and admins can view KRS"
+  ON krs_submissions
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = student_id
+    OR advises_student(student_id)
+    OR is_admin(auth.uid())
+  );
+
+CREATE POLICY "Students, advisors and admins can view KRS items"
+  ON krs_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM krs_submissions k
+      WHERE k.id = krs_items.krs_id
+        AND (
+          auth.uid() = k.student_id
+          OR advises_student(k.student_id)
+          OR is_admin(auth.uid())
+        )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION submit_krs(p_academic_year text, p_semester integer, p_course_ids uuid[])
+RETURNS krs_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student students%ROWTYPE;
+  v_course_ids uuid[] := ARRAY(SELECT DISTINCT unnest(COALESCE(p_course_ids, '{}'::uuid[])));
+  v_invalid text;
+  v_existing krs_submissions%ROWTYPE;
+  v_result krs_submissions;
+BEGIN
+  SELECT * INTO v_student FROM students WHERE id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Hanya mahasiswa yang dapat mengajukan KRS' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_student.curriculum IS NULL THEN
+    RAISE EXCEPTION 'Kurikulum Anda belum diatur, hubungi admin akademik' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_student.advisor_id IS NULL THEN
+    RAISE EXCEPTION 'Dosen wali Anda belum ditetapkan, hubungi admin akademik' USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(v_course_ids) = 0 THEN
+    RAISE EXCEPTION 'Pilih minimal satu mata kuliah' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT string_agg(COALESCE(c.code, ids.id::text), ', ') INTO v_invalid
+  FROM unnest(v_course_ids) AS ids(id)
+  LEFT JOIN courses c ON c.id = ids.id
+  WHERE c.id IS NULL
+    OR c.curriculum <> v_student.curriculum
+    OR c.academic_year <> p_academic_year
+    OR c.semester <> p_semester;
+
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Mata kuliah % tidak termasuk kurikulum % untuk %, semester %',
+      v_invalid, v_student.curriculum, p_academic_year, p_semester
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_existing
+  FROM krs_submissions
+  WHERE student_id = v_student.id
+    AND academic_year = p_academic_year
+    AND semester = p_semester
+  FOR UPDATE;
+
+  IF FOUND AND v_existing.status = 'approved' THEN
+    RAISE EXCEPTION 'KRS %, semester % sudah disetujui dan tidak dapat diubah', p_academic_year, p_semester
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO krs_submissions (student_id, academic_year, semester, status, note, submitted_at, reviewed_at, reviewed_by)
+  VALUES (v_student.id, p_academic_year, p_semester, 'submitted', NULL, now(), NULL, NULL)
+  ON CONFLICT (student_id, academic_year, semester) DO UPDATE
+  SET status = EXCLUDED.status,
+      note = NULL,
+      submitted_at = EXCLUDED.submitted_at,
+      reviewed_at = NULL,
+      reviewed_by = NULL
+  RETURNING * INTO v_result;
+
+  DELETE FROM krs_items WHERE krs_id = v_result.id;
+  INSERT INTO krs_items (krs_id, course_id)
+  SELECT v_result.id, unnest(v_course_ids);
+
+  INSERT INTO activity_logs (user_id, user_email, user_type, action, entity_type, entity_id, description, metadata)
+  VALUES (
+    auth.uid(),
+    COALESCE(auth.jwt() ->> 'email', 'unknown'),
+    'student',
+    'submit_krs',
+    'krs',
+    v_result.id::text,
+    format('KRS %s semester %s diajukan oleh %s', p_academic_year, p_semester, v_student.nim),
+    jsonb_build_object('nim', v_student.nim, 'academic_year', p_academic_year, 'semester', p_semester, 'courses', cardinality(v_course_ids))
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_krs(text, integer, uuid[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION review_krs(p_krs_id uuid, p_approve boolean, p_note text DEFAULT NULL)
+RETURNS krs_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_krs krs_submissions%ROWTYPE;
+  v_student students%ROWTYPE;
+  v_note text := NULLIF(trim(COALESCE(p_note, '')), '');
+  v_is_admin boolean := has_admin_permission('enrollments.manage');
+  v_status text := CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END;
+  v_enrolled integer := 0;
+  v_result krs_submissions;
+BEGIN
+  SELECT * INTO v_krs FROM krs_submissions WHERE id = p_krs_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'KRS tidak ditemukan' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_student FROM students WHERE id = v_krs.student_id;
+
+  IF NOT (v_is_admin OR COALESCE(v_student.advisor_id = auth.uid(), false)) THEN
+    RAISE EXCEPTION 'Anda bukan dosen wali mahasiswa %', v_student.nim USING ERRCODE = '42501';
+  END IF;
+
+  IF v_krs.status <> 'submitted' THEN
+    RAISE EXCEPTION 'KRS % sudah berstatus %', v_student.nim, v_krs.status USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT p_approve AND v_note IS NULL THEN
+    RAISE EXCEPTION 'Alasan penolakan wajib diisi' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE krs_submissions
+  SET status = v_status,
+      note = v_note,
+      reviewed_at = now(),
+      reviewed_by = auth.uid()
+  WHERE id = p_krs_id
+  RETURNING * INTO v_result;
+
+  IF p_approve THEN
+    INSERT INTO enrollments (student_id, course_id)
+    SELECT v_krs.student_id, ki.course_id
+    FROM krs_items ki
+    WHERE ki.krs_id = p_krs_id
+    ON CONFLICT (student_id, course_id) DO NOTHING;
+
+    GET DIAGNOSTICS v_enrolled = ROW_COUNT;
+  END IF;
+
+  INSERT INTO activity_logs (user_id, user_email, user_type, action, entity_type, entity_id, description, metadata)
+  VALUES (
+    auth.uid(),
+    COALESCE(auth.jwt() ->> 'email', 'unknown'),
+    CASE WHEN is_admin(auth.uid()) THEN 'admin' ELSE 'lecturer' END,
+    CASE WHEN p_approve THEN 'approve_krs' ELSE 'reject_krs' END,
+    'krs',
+    p_krs_id::text,
+    format('KRS %s %s semester %s %s', v_student.nim, v_krs.academic_year, v_krs.semester,
+      CASE WHEN p_approve THEN 'disetujui' ELSE 'ditolak' END),
+    jsonb_build_object('nim', v_student.nim, 'note', v_note, 'enrolled', v_enrolled)
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION review_krs(uuid, boolean, text) TO authenticated;
@@ -0,0 +1,235 @@
+/*
+  # SKS Load Limit Based on Previous Semester IPS
+
+  ## Problem
+
+  Nothing limits how many credits (SKS) a student takes in a term, neither in
+  a KRS nor in admin enrollment.
+
+  ## Solution
+
+  1. New table `sks_load_rules`: each row grants `max_credits` to students
+     whose IPS in their previous term is at least `min_ips`. The row with
+     `min_ips` NULL applies to students without a previous term (new
+     students). Seeded with the usual bands:
+       - IPS >= 3.00: 24 SKS
+       - IPS 2.50 - 2.99: 21 SKS
+       - IPS 2.00 - 2.49: 18 SKS
+       - IPS < 2.00: 15 SKS
+       - new students: 20 SKS
+  2. `get_sks_allowance(p_student_id, p_academic_year, p_semester)` returns the
+     student's IPS in the last graded term before the given one, the
+     resulting credit limit (NULL when no rule applies) and the credits
+     already enrolled in that term. Only released grades count, the same
+     grades the student can see.
+  3. `submit_krs` rejects a KRS whose credits, together with courses already
+     enrolled in the term, exceed the limit. Admin enrollment screens only
+     warn and can skip over-limit students, so an admin can still grant an
+     exception.
+
+  ## Security
+
+  - Anyone signed in can read the rules; admins with `enrollments.manage`
+    edit them
+  - `get_sks_allowance` answers for the student themself, their advisor and
+    admins
+*/
+
+CREATE TABLE IF NOT EXISTS sks_load_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  min_ips numeric(3,2) CHECK (min_ips >= 0 AND min_ips <= 4),
+  max_credits integer NOT NULL CHECK (max_credits > 0 AND max_credits <= 40),
+  description text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- One rule per threshold, and a single new-student rule
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sks_load_rules_min_ips ON sks_load_rules (COALESCE(min_ips, -1));
+
+ALTER TABLE sks_load_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view SKS load rules"
+  ON sks_load_rules
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins with enrollments.manage can manage SKS load rules"
+  ON sks_load_rules
+  FOR ALL
+  TO authenticated
+  USING (has_admin_permission('enrollments.manage'))
+  WITH CHECK (has_admin_permission('enrollments.manage'));
+
+INSERT INTO sks_load_rules (min_ips, max_credits, description) VALUES
+  (3.00, 24, 'IPS >= 3.00'),
+  (2.50, 21, 'IPS 2.50 - 2.99'),
+  (2.00, 18, 'IPS 2.00 - 2.49'),
+  (0.00, 15, 'IPS < 2.00'),
+  (NULL, 20, 'Mahasiswa baru')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION get_sks_allowance(p_student_id uuid, p_academic_year text, p_semester integer)
+RETURNS TABLE (last_ips numeric, max_credits integer, enrolled_credits integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ips numeric;
+  v_max integer;
+  v_enrolled integer;
+BEGIN
+  IF NOT (auth.uid() = p_student_id OR advises_student(p_student_id) OR is_admin(auth.uid())) THEN
+    RAISE EXCEPTION 'Tidak memiliki akses ke data mahasiswa ini' USING ERRCODE = '42501';
+  END IF;
+
+  WITH graded AS (
+    SELECT c.academic_year, c.semester, c.credits, get_grade_point(g.score, c.curriculum) AS grade_point
+    FROM grades g
+    JOIN courses c ON c.id = g.course_id
+    WHERE g.student_id = p_student_id
+      AND is_grade_released(c.id)
+      AND (c.academic_year < p_academic_year OR (c.academic_year = p_academic_year AND c.semester < p_semester))
+  ),
+  last_term AS (
+    SELECT academic_year, semester
+    FROM graded
+    ORDER BY academic_year DESC, semester DESC
+    LIMIT 1
+  )
+  SELECT round(sum(graded.grade_point * graded.credits) / NULLIF(sum(graded.credits), 0), 2) INTO v_ips
+  FROM graded
+  JOIN last_term USING (academic_year, semester);
+
+  SELECT r.max_credits INTO v_max
+  FROM sks_load_rules r
+  WHERE (v_ips IS NULL AND r.min_ips IS NULL)
+    OR (v_ips IS NOT NULL AND r.min_ips <= v_ips)
+  ORDER BY r.min_ips DESC
+  LIMIT 1;
+
+  SELECT COALESCE(sum(c.credits), 0) INTO v_enrolled
+  FROM enrollments e
+  JOIN courses c ON c.id = e.course_id
+  WHERE e.student_id = p_student_id
+    AND c.academic_year = p_academic_year
+    AND c.semester = p_semester;
+
+  RETURN QUERY SELECT v_ips, v_max, v_enrolled;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_sks_allowance(uuid, text, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION submit_krs(p_academic_year text, p_semester integer, p_course_ids uuid[])
+RETURNS krs_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student students%ROWTYPE;
+  v_course_ids uuid[] := ARRAY(SELECT DISTINCT unnest(COALESCE(p_course_ids, '{}'::uuid[])));
+  v_invalid text;
+  v_existing krs_submissions%ROWTYPE;
+  v_allowance record;
+  v_credits integer;
+  v_result krs_submissions;
+BEGIN
+  SELECT * INTO v_student FROM students WHERE id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Hanya mahasiswa yang dapat mengajukan KRS' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_student.curriculum IS NULL THEN
+    RAISE EXCEPTION 'Kurikulum Anda belum diatur, hubungi admin akademik' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_student.advisor_id IS NULL THEN
+    RAISE EXCEPTION 'Dosen wali Anda belum ditetapkan, hubungi admin akademik' USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(v_course_ids) = 0 THEN
+    RAISE EXCEPTION 'Pilih minimal satu mata kuliah' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT string_agg(COALESCE(c.code, ids.id::text), ', ') INTO v_invalid
+  FROM unnest(v_course_ids) AS ids(id)
+  LEFT JOIN courses c ON c.id = ids.id
+  WHERE c.id IS NULL
+    OR c.curriculum <> v_student.curriculum
+    OR c.academic_year <> p_academic_year
+    OR c.semester <> p_semester;
+
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Mata kuliah % tidak termasuk kurikulum % untuk %, semester %',
+      v_invalid, v_student.curriculum, p_academic_year, p_semester
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_allowance FROM get_sks_allowance(v_student.id, p_academic_year, p_semester);
+
+  -- Courses already enrolled in that term count toward the load too
+  SELECT COALESCE(sum(c.credits), 0) INTO v_credits
+  FROM courses c
+  WHERE c.academic_year = p_academic_year
+    AND c.semester = p_semester
+    AND (
+      c.id = ANY(v_course_ids)
+      OR EXISTS (SELECT 1 FROM enrollments e WHERE e.student_id = v_student.id AND e.course_id = c.id)
+    );
+
+  IF v_allowance.max_credits IS NOT NULL AND v_credits > v_allowance.max_credits THEN
+    RAISE EXCEPTION 'Total % SKS melebihi batas % SKS (%)',
+      v_credits,
+      v_allowance.max_credits,
+      COALESCE('IPS semester lalu ' || v_allowance.last_ips::text, 'mahasiswa baru')
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_existing
+  FROM krs_submissions
+  WHERE student_id = v_student.id
+    AND academic_year = p_academic_year
+    AND semester = p_semester
+  FOR UPDATE;
+
+  IF FOUND AND v_existing.status = 'approved' THEN
+    RAISE EXCEPTION 'KRS %, semester % sudah disetujui dan tidak dapat diubah', p_academic_year, p_semester
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO krs_submissions (student_id, academic_year, semester, status, note, submitted_at, reviewed_at, reviewed_by)
+  VALUES (v_student.id, p_academic_year, p_semester, 'submitted', NULL, now(), NULL, NULL)
+  ON CONFLICT (student_id, academic_year, semester) DO UPDATE
+  SET status = EXCLUDED.status,
+      note = NULL,
+      submitted_at = EXCLUDED.submitted_at,
+      reviewed_at = NULL,
+      reviewed_by = NULL
+  RETURNING * INTO v_result;
+
+  DELETE FROM krs_items WHERE krs_id = v_result.id;
+  INSERT INTO krs_items (krs_id, course_id)
+  SELECT v_result.id, unnest(v_course_ids);
+
+  INSERT INTO activity_logs (user_id, user_email, user_type, action, entity_type, entity_id, description, metadata)
+  VALUES (
+    auth.uid(),
+    COALESCE(auth.jwt() ->> 'email', 'unknown'),
+    'student',
+    'submit_krs',
+    'krs',
+    v_result.id::text,
+    format('KRS %s semester %s diajukan oleh %s', p_academic_year, p_semester, v_student.nim),
+    jsonb_build_object('nim', v_student.nim, 'academic_year', p_academic_year, 'semester', p_semester, 'courses', cardinality(v_course_ids))
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_krs(text, integer, uuid[]) TO authenticated;
@@ -0,0 +1,265 @@
+/*
+  # Course Prerequisites and Co-requisites
+
+  ## Problem
+
+  `courses` has no notion of prerequisites. Bulk enrollment by curriculum puts
+  an angkatan into every course of the curriculum, and a KRS can pick any
+  course of the term, regardless of what the student has passed.
+
+  ## Solution
+
+  1. New table `course_prerequisites` linking a course to another course it
+     depends on:
+       - `prerequisite`: the other course must have been passed, with at
+         least `min_letter_grade` when set (any passing grade otherwise)
+       - `corequisite`: the other course must be taken in the same run,
+         already be enrolled, or have been passed
+  2. `letter_grade_point(p_letter_grade, p_curriculum)` looks up a letter in a
+     curriculum's grading scale, falling back to the default curriculum like
+     `resolve_grade`
+  3. `has_passed_course(p_student_id, p_course_id, p_min_letter_grade)` is true
+     when the student has a released, passing grade for the course that
+     reaches the minimum letter. Only released grades count, the same grades
+     the student can see
+  4. `unmet_prerequisites(p_student_id, p_course_ids)` returns one row per
+     requirement of the given courses the student does not meet, with a
+     message for display. The given courses count as taken together, so
+     co-requisites within them are satisfied
+  5. `submit_krs` rejects a KRS with unmet requirements. Admin enrollment
+     screens check the same function and skip ineligible students
+
+  ## Security
+
+  - Anyone signed in can read prerequisites; admins with `courses.manage`
+    edit them
+  - `unmet_prerequisites` answers for the student themself, their advisor and
+    admins
+*/
+
+CREATE TABLE IF NOT EXISTS course_prerequisites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id uuid NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  prerequisite_id uuid NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  kind text NOT NULL DEFAULT 'prerequisite' CHECK (kind IN ('prerequisite', 'corequisite')),
+  min_letter_grade text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (course_id, prerequisite_id),
+  CHECK (course_id <> prerequisite_id),
+  CHECK (kind = 'prerequisite' OR min_letter_grade IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_prerequisites_prerequisite_id ON course_prerequisites(prerequisite_id);
+
+ALTER TABLE course_prerequisites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view course prerequisites"
+  ON course_prerequisites
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins with courses.manage can manage course prerequisites"
+  ON course_prerequisites
+  FOR ALL
+  TO authenticated
+  USING (has_admin_permission('courses.manage'))
+  WITH CHECK (has_admin_permission('courses.manage'));
+
+CREATE OR REPLACE FUNCTION letter_grade_point(p_letter_grade text, p_curriculum text)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_curriculum text := COALESCE(NULLIF(p_curriculum, ''), '2024');
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM grading_scales gs WHERE gs.curriculum = v_curriculum) THEN
+    v_curriculum := '2024';
+  END IF;
+
+  RETURN (
+    SELECT gs.grade_point
+    FROM grading_scales gs
+    WHERE gs.curriculum = v_curriculum
+      AND gs.letter_grade = p_letter_grade
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_passed_course(p_student_id uuid, p_course_id uuid, p_min_letter_grade text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM grades g
+    JOIN courses c ON c.id = g.course_id
+    CROSS JOIN LATERAL (SELECT get_grade_point(g.score, c.curriculum) AS grade_point) gp
+    WHERE g.student_id = p_student_id
+      AND g.course_id = p_course_id
+      AND is_grade_released(c.id)
+      AND gp.grade_point > 0
+      -- A letter missing from the scale cannot be reached
+      AND (p_min_letter_grade IS NULL OR gp.grade_point >= letter_grade_point(p_min_letter_grade, c.curriculum))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION unmet_prerequisites(p_student_id uuid, p_course_ids uuid[])
+RETURNS TABLE (course_id uuid, prerequisite_id uuid, kind text, message text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (auth.uid() = p_student_id OR advises_student(p_student_id) OR is_admin(auth.uid())) THEN
+    RAISE EXCEPTION 'Tidak memiliki akses ke data mahasiswa ini' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    cp.course_id,
+    cp.prerequisite_id,
+    cp.kind,
+    CASE
+      WHEN cp.kind = 'corequisite' THEN format('%s harus diambil bersamaan dengan %s', c.code, pre.code)
+      WHEN cp.min_letter_grade IS NULL THEN format('%s: belum lulus %s', c.code, pre.code)
+      ELSE format('%s: belum lulus %s dengan nilai minimal %s', c.code, pre.code, cp.min_letter_grade)
+    END
+  FROM course_prerequisites cp
+  JOIN courses c ON c.id = cp.course_id
+  JOIN courses pre ON pre.id = cp.prerequisite_id
+  WHERE cp.course_id = ANY(COALESCE(p_course_ids, '{}'::uuid[]))
+    AND NOT has_passed_course(p_student_id, cp.prerequisite_id, cp.min_letter_grade)
+    AND NOT (
+      cp.kind = 'corequisite'
+      AND (
+        cp.prerequisite_id = ANY(p_course_ids)
+        OR EXISTS (SELECT 1 FROM enrollments e WHERE e.student_id = p_student_id AND e.course_id = cp.prerequisite_id)
+      )
+    )
+  ORDER BY c.code, pre.code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION unmet_prerequisites(uuid, uuid[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION submit_krs(p_academic_year text, p_semester integer, p_course_ids uuid[])
+RETURNS krs_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student students%ROWTYPE;
+  v_course_ids uuid[] := ARRAY(SELECT DISTINCT unnest(COALESCE(p_course_ids, '{}'::uuid[])));
+  v_invalid text;
+  v_existing krs_submissions%ROWTYPE;
+  v_allowance record;
+  v_credits integer;
+  v_unmet text;
+  v_result krs_submissions;
+BEGIN
+  SELECT * INTO v_student FROM students WHERE id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Hanya mahasiswa yang dapat mengajukan KRS' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_student.curriculum IS NULL THEN
+    RAISE EXCEPTION 'Kurikulum Anda belum diatur, hubungi admin akademik' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_student.advisor_id IS NULL THEN
+    RAISE EXCEPTION 'Dosen wali Anda belum ditetapkan, hubungi admin akademik' USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(v_course_ids) = 0 THEN
+    RAISE EXCEPTION 'Pilih minimal satu mata kuliah' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT string_agg(COALESCE(c.code, ids.id::text), ', ') INTO v_invalid
+  FROM unnest(v_course_ids) AS ids(id)
+  LEFT JOIN courses c ON c.id = ids.id
+  WHERE c.id IS NULL
+    OR c.curriculum <> v_student.curriculum
+    OR c.academic_year <> p_academic_year
+    OR c.semester <> p_semester;
+
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Mata kuliah % tidak termasuk kurikulum % untuk %, semester %',
+      v_invalid, v_student.curriculum, p_academic_year, p_semester
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_allowance FROM get_sks_allowance(v_student.id, p_academic_year, p_semester);
+
+  -- Courses already enrolled in that term count toward the load too
+  SELECT COALESCE(sum(c.credits), 0) INTO v_credits
+  FROM courses c
+  WHERE c.academic_year = p_academic_year
+    AND c.semester = p_semester
+    AND (
+      c.id = ANY(v_course_ids)
+      OR EXISTS (SELECT 1 FROM enrollments e WHERE e.student_id = v_student.id AND e.course_id = c.id)
+    );
+
+  IF v_allowance.max_credits IS NOT NULL AND v_credits > v_allowance.max_credits THEN
+    RAISE EXCEPTION 'Total % SKS melebihi batas % SKS (%)',
+      v_credits,
+      v_allowance.max_credits,
+      COALESCE('IPS semester lalu ' || v_allowance.last_ips::text, 'mahasiswa baru')
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT string_agg(u.message, '; ') INTO v_unmet
+  FROM unmet_prerequisites(v_student.id, v_course_ids) u;
+
+  IF v_unmet IS NOT NULL THEN
+    RAISE EXCEPTION 'Prasyarat belum terpenuhi: %', v_unmet USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_existing
+  FROM krs_submissions
+  WHERE student_id = v_student.id
+    AND academic_year = p_academic_year
+    AND semester = p_semester
+  FOR UPDATE;
+
+  IF FOUND AND v_existing.status = 'approved' THEN
+    RAISE EXCEPTION 'KRS %, semester % sudah disetujui dan tidak dapat diubah', p_academic_year, p_semester
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO krs_submissions (student_id, academic_year, semester, status, note, submitted_at, reviewed_at, reviewed_by)
+  VALUES (v_student.id, p_academic_year, p_semester, 'submitted', NULL, now(), NULL, NULL)
+  ON CONFLICT (student_id, academic_year, semester) DO UPDATE
+  SET status = EXCLUDED.status,
+      note = NULL,
+      submitted_at = EXCLUDED.submitted_at,
+      reviewed_at = NULL,
+      reviewed_by = NULL
+  RETURNING * INTO v_result;
+
+  DELETE FROM krs_items WHERE krs_id = v_result.id;
+  INSERT INTO krs_items (krs_id, course_id)
+  SELECT v_result.id, unnest(v_course_ids);
+
+  INSERT INTO activity_logs (user_id, user_email, user_type, action, entity_type, entity_id, description, metadata)
+  VALUES (
+    auth.uid(),
+    COALESCE(auth.jwt() ->> 'email', 'unknown'),
+    'student',
+    'submit_krs',
+    'krs',
+    v_result.id::text,
+    format('KRS %s semester %s diajukan oleh %s', p_academic_year, p_semester, v_student.nim),
+    jsonb_build_object('nim', v_student.nim, 'academic_year', p_academic_year, 'semester', p_semester, 'courses', cardinality(v_course_ids))
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_krs(text, integer, uuid[]) TO authenticated;
@@ -0,0 +1,545 @@
+/*
+  # Academic Terms
+
+  ## Problem
+
+  `courses.academic_year` is free text (bulk upload even stores the curriculum
+  there) and `courses.semester` is the curriculum semester, so nothing says in
+  which term a course ran or a grade was earned, and there is no current
+  term. Reports group grades by curriculum semester instead of by term.
+
+  ## Solution
+
+  1. New table `academic_terms`: one row per academic year and period
+     (ganjil, genap, pendek) with start and end dates. At most one term is
+     active, enforced by a partial unique index
+  2. `courses.term_id` (required) is the term the course is offered in.
+     `courses.academic_year` is kept for existing readers and is always
+     copied from the term by a trigger, also when a term is renamed
+  3. `grades.term_id` is the term the grade was earned in. It defaults to the
+     course's term when the grade is inserted or moved to another course
+  4. Existing data is backfilled: a term is created for every academic year
+     found on courses ('2024' becomes '2024/2025'), odd curriculum semesters
+     map to ganjil and even ones to genap, with the usual dates
+     (ganjil September - January, genap February - July)
+  5. `set_active_academic_term(p_term_id)` switches the active term in one
+     step and logs it
+  6. KRS move onto terms: `krs_submissions.term_id` replaces `academic_year`
+     and `semester`, so a student has one KRS per term. Existing KRS take the
+     term of their courses; two KRS of a student that land in the same term
+     are merged into the most recent one
+  7. `get_sks_allowance(p_student_id, p_term_id)` takes the IPS of the
+     previous term (the term before it by start date) and the credits already
+     enrolled in the term. `submit_krs(p_term_id, p_course_ids)` accepts the
+     courses of the student's curriculum offered in the term, only while the
+     term is active or has not started yet
+
+  ## Security
+
+  - Anyone signed in can read terms; admins with `courses.manage` edit them
+    and switch the active term
+*/
+
+CREATE TABLE IF NOT EXISTS academic_terms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  academic_year text NOT NULL CHECK (
+    academic_year ~ '^\d{4}/\d{4}$'
+    AND split_part(academic_year, '/', 2)::integer = split_part(academic_year, '/', 1)::integer + 1
+  ),
+  period text NOT NULL CHECK (period IN ('ganjil', 'genap', 'pendek')),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  is_active boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (academic_year, period),
+  CHECK (end_date > start_date)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_academic_terms_single_active ON academic_terms (is_active) WHERE is_active;
+
+ALTER TABLE academic_terms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view academic terms"
+  ON academic_terms
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins with courses.manage can manage academic terms"
+  ON academic_terms
+  FOR ALL
+  TO authenticated
+  USING (has_admin_permission('courses.manage'))
+  WITH CHECK (has_admin_permission('courses.manage'));
+
+-- Backfill terms from the academic years and semesters already on courses
+WITH course_terms AS (
+  SELECT DISTINCT
+    COALESCE(substring(academic_year FROM '\d{4}'), to_char(created_at, 'YYYY'))::integer AS start_year,
+    CASE WHEN semester % 2 = 0 THEN 'genap' ELSE 'ganjil' END AS period
+  FROM courses
+  UNION
+  SELECT DISTINCT
+    COALESCE(substring(academic_year FROM '\d{4}'), to_char(submitted_at, 'YYYY'))::integer,
+    CASE WHEN semester % 2 = 0 THEN 'genap' ELSE 'ganjil' END
+  FROM krs_submissions
+)
+INSERT INTO academic_terms (academic_year, period, start_date, end_date)
+SELECT
+  format('%s/%s', start_year, start_year + 1),
+  period,
+  CASE period WHEN 'ganjil' THEN make_date(start_year, 9, 1) ELSE make_date(start_year + 1, 2, 1) END,
+  CASE period WHEN 'ganjil' THEN make_date(start_year + 1, 1, 31) ELSE make_date(start_year + 1, 7, 31) END
+FROM course_terms
+ON CONFLICT (academic_year, period) DO NOTHING;
+
+UPDATE academic_terms
+SET is_active = true
+WHERE id = (
+  SELECT id FROM academic_terms
+  WHERE current_date BETWEEN start_date AND end_date
+  ORDER BY start_date DESC
+  LIMIT 1
+);
+
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS term_id uuid REFERENCES academic_terms(id) ON DELETE RESTRICT;
+
+UPDATE courses c
+SET term_id = t.id,
+    academic_year = t.academic_year
+FROM academic_terms t
+WHERE c.term_id IS NULL
+  AND t.academic_year = format('%s/%s',
+    COALESCE(substring(c.academic_year FROM '\d{4}'), to_char(c.created_at, 'YYYY'))::integer,
+    COALESCE(substring(c.academic_year FROM '\d{4}'), to_char(c.created_at, 'YYYY'))::integer + 1)
+  AND t.period = CASE WHEN c.semester % 2 = 0 THEN 'genap' ELSE 'ganjil' END;
+
+ALTER TABLE courses ALTER COLUMN term_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_courses_term_id ON courses(term_id);
+
+ALTER TABLE krs_submissions ADD COLUMN IF NOT EXISTS term_id uuid REFERENCES academic_terms(id) ON DELETE RESTRICT;
+
+-- A KRS belongs to the term of its courses; one without courses falls back
+-- to its academic year and semester, mapped like the courses above
+UPDATE krs_submissions k
+SET term_id = (
+  SELECT c.term_id
+  FROM krs_items ki
+  JOIN courses c ON c.id = ki.course_id
+  WHERE ki.krs_id = k.id
+  LIMIT 1
+)
+WHERE k.term_id IS NULL;
+
+UPDATE krs_submissions k
+SET term_id = t.id
+FROM academic_terms t
+WHERE k.term_id IS NULL
+  AND t.academic_year = format('%s/%s',
+    COALESCE(substring(k.academic_year FROM '\d{4}'), to_char(k.submitted_at, 'YYYY'))::integer,
+    COALESCE(substring(k.academic_year FROM '\d{4}'), to_char(k.submitted_at, 'YYYY'))::integer + 1)
+  AND t.period = CASE WHEN k.semester % 2 = 0 THEN 'genap' ELSE 'ganjil' END;
+
+-- Several curriculum semesters of one academic year can map to the same
+-- term: keep the most recent KRS and move the other ones' courses onto it
+CREATE TEMP TABLE krs_term_merge AS
+SELECT
+  id,
+  first_value(id) OVER (PARTITION BY student_id, term_id ORDER BY submitted_at DESC, id) AS keep_id
+FROM krs_submissions;
+
+INSERT INTO krs_items (krs_id, course_id)
+SELECT m.keep_id, ki.course_id
+FROM krs_items ki
+JOIN krs_term_merge m ON m.id = ki.krs_id
+WHERE m.id <> m.keep_id
+ON CONFLICT (krs_id, course_id) DO NOTHING;
+
+DELETE FROM krs_submissions k
+USING krs_term_merge m
+WHERE k.id = m.id
+  AND m.id <> m.keep_id;
+
+DROP TABLE krs_term_merge;
+
+ALTER TABLE krs_submissions ALTER COLUMN term_id SET NOT NULL;
+ALTER TABLE krs_submissions DROP COLUMN IF EXISTS academic_year;
+ALTER TABLE krs_submissions DROP COLUMN IF EXISTS semester;
+ALTER TABLE krs_submissions DROP CONSTRAINT IF EXISTS krs_submissions_student_id_term_id_key;
+ALTER TABLE krs_submissions ADD CONSTRAINT krs_submissions_student_id_term_id_key UNIQUE (student_id, term_id);
+
+ALTER TABLE grades ADD COLUMN IF NOT EXISTS term_id uuid REFERENCES academic_terms(id) ON DELETE RESTRICT;
+
+-- The backfill only fills the new column, so finalized courses must not block it
+ALTER TABLE grades DISABLE TRIGGER grades_enforce_lock;
+
+UPDATE grades g
+SET term_id = c.term_id
+FROM courses c
+WHERE c.id = g.course_id
+  AND g.term_id IS NULL;
+
+ALTER TABLE grades ENABLE TRIGGER grades_enforce_lock;
+
+CREATE INDEX IF NOT EXISTS idx_grades_term_id ON grades(term_id);
+
+CREATE OR REPLACE FUNCTION sync_course_academic_year()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  SELECT t.academic_year INTO NEW.academic_year FROM academic_terms t WHERE t.id = NEW.term_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_course_academic_year ON courses;
+CREATE TRIGGER sync_course_academic_year
+  BEFORE INSERT OR UPDATE OF term_id, academic_year ON courses
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_course_academic_year();
+
+CREATE OR REPLACE FUNCTION propagate_term_academic_year()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE courses SET academic_year = NEW.academic_year WHERE term_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS propagate_term_academic_year ON academic_terms;
+CREATE TRIGGER propagate_term_academic_year
+  AFTER UPDATE OF academic_year ON academic_terms
+  FOR EACH ROW
+  WHEN (NEW.academic_year IS DISTINCT FROM OLD.academic_year)
+  EXECUTE FUNCTION propagate_term_academic_year();
+
+CREATE OR REPLACE FUNCTION set_grade_term()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.term_id IS NULL OR (TG_OP = 'UPDATE' AND NEW.course_id IS DISTINCT FROM OLD.course_id) THEN
+    SELECT c.term_id INTO NEW.term_id FROM courses c WHERE c.id = NEW.course_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_grade_term ON grades;
+CREATE TRIGGER set_grade_term
+  BEFORE INSERT OR UPDATE ON grades
+  FOR EACH ROW
+  EXECUTE FUNCTION set_grade_term();
+
+CREATE OR REPLACE FUNCTION set_active_academic_term(p_term_id uuid)
+RETURNS academic_terms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result academic_terms;
+BEGIN
+  IF NOT has_admin_permission('courses.manage') THEN
+    RAISE EXCEPTION 'Tidak memiliki izin untuk mengubah periode aktif' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM 1 FROM academic_terms WHERE id = p_term_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Periode akademik tidak ditemukan' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Deactivate first, the partial unique index allows one active term at a time
+  UPDATE academic_terms SET is_active = false, updated_at = now() WHERE is_active AND id <> p_term_id;
+
+  UPDATE academic_terms
+  SET is_active = true,
+      updated_at = now()
+  WHERE id = p_term_id
+  RETURNING * INTO v_result;
+
+  INSERT INTO activity_logs (user_id, user_email, user_type, action, entity_type, entity_id, description, metadata)
+  VALUES (
+    auth.uid(),
+    COALESCE(auth.jwt() ->> 'email', 'unknown'),
+    'admin',
+    'activate_term',
+    'academic_term',
+    p_term_id::text,
+    format('Periode aktif diubah ke %s %s', v_result.academic_year, initcap(v_result.period)),
+    jsonb_build_object('academic_year', v_result.academic_year, 'period', v_result.period)
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_active_academic_term(uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS get_sks_allowance(uuid, text, integer);
+
+CREATE OR REPLACE FUNCTION get_sks_allowance(p_student_id uuid, p_term_id uuid)
+RETURNS TABLE (last_ips numeric, max_credits integer, enrolled_credits integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_term academic_terms%ROWTYPE;
+  v_previous_id uuid;
+  v_ips numeric;
+  v_max integer;
+  v_enrolled integer;
+BEGIN
+  IF NOT (auth.uid() = p_student_id OR advises_student(p_student_id) OR is_admin(auth.uid())) THEN
+    RAISE EXCEPTION 'Tidak memiliki akses ke data mahasiswa ini' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_term FROM academic_terms WHERE id = p_term_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Periode akademik tidak ditemukan' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT t.id INTO v_previous_id
+  FROM academic_terms t
+  WHERE t.start_date < v_term.start_date
+  ORDER BY t.start_date DESC
+  LIMIT 1;
+
+  SELECT round(sum(get_grade_point(g.score, c.curriculum) * c.credits) / NULLIF(sum(c.credits), 0), 2) INTO v_ips
+  FROM grades g
+  JOIN courses c ON c.id = g.course_id
+  WHERE g.student_id = p_student_id
+    AND g.term_id = v_previous_id
+    AND is_grade_released(c.id);
+
+  SELECT r.max_credits INTO v_max
+  FROM sks_load_rules r
+  WHERE (v_ips IS NULL AND r.min_ips IS NULL)
+    OR (v_ips IS NOT NULL AND r.min_ips <= v_ips)
+  ORDER BY r.min_ips DESC
+  LIMIT 1;
+
+  SELECT COALESCE(sum(c.credits), 0) INTO v_enrolled
+  FROM enrollments e
+  JOIN courses c ON c.id = e.course_id
+  WHERE e.student_id = p_student_id
+    AND c.term_id = p_term_id;
+
+  RETURN QUERY SELECT v_ips, v_max, v_enrolled;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_sks_allowance(uuid, uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS submit_krs(text, integer, uuid[]);
+
+CREATE OR REPLACE FUNCTION submit_krs(p_term_id uuid, p_course_ids uuid[])
+RETURNS krs_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student students%ROWTYPE;
+  v_term academic_terms%ROWTYPE;
+  v_term_label text;
+  v_course_ids uuid[] := ARRAY(SELECT DISTINCT unnest(COALESCE(p_course_ids, '{}'::uuid[])));
+  v_invalid text;
+  v_existing krs_submissions%ROWTYPE;
+  v_allowance record;
+  v_credits integer;
+  v_unmet text;
+  v_result krs_submissions;
+BEGIN
+  SELECT * INTO v_student FROM students WHERE id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Hanya mahasiswa yang dapat mengajukan KRS' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_term FROM academic_terms WHERE id = p_term_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Periode akademik tidak ditemukan' USING ERRCODE = 'P0002';
+  END IF;
+  v_term_label := format('%s %s', v_term.academic_year, initcap(v_term.period));
+
+  -- KRS is filled in for the running term or one that has not started yet
+  IF NOT v_term.is_active AND v_term.start_date <= current_date THEN
+    RAISE EXCEPTION 'Pengisian KRS periode % sudah ditutup', v_term_label USING ERRCODE = '22023';
+  END IF;
+
+  IF v_student.curriculum IS NULL THEN
+    RAISE EXCEPTION 'Kurikulum Anda belum diatur, hubungi admin akademik' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_student.advisor_id IS NULL THEN
+    RAISE EXCEPTION 'Dosen wali Anda belum ditetapkan, hubungi admin akademik' USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(v_course_ids) = 0 THEN
+    RAISE EXCEPTION 'Pilih minimal satu mata kuliah' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT string_agg(COALESCE(c.code, ids.id::text), ', ') INTO v_invalid
+  FROM unnest(v_course_ids) AS ids(id)
+  LEFT JOIN courses c ON c.id = ids.id
+  WHERE c.id IS NULL
+    OR c.curriculum <> v_student.curriculum
+    OR c.term_id <> p_term_id;
+
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Mata kuliah % tidak termasuk kurikulum % pada periode %',
+      v_invalid, v_student.curriculum, v_term_label
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_allowance FROM get_sks_allowance(v_student.id, p_term_id);
+
+  -- Courses already enrolled in that term count toward the load too
+  SELECT COALESCE(sum(c.credits), 0) INTO v_credits
+  FROM courses c
+  WHERE c.term_id = p_term_id
+    AND (
+      c.id = ANY(v_course_ids)
+      OR EXISTS (SELECT 1 FROM enrollments e WHERE e.student_id = v_student.id AND e.course_id = c.id)
+    );
+
+  IF v_allowance.max_credits IS NOT NULL AND v_credits > v_allowance.max_credits THEN
+    RAISE EXCEPTION 'Total % SKS melebihi batas % SKS (%)',
+      v_credits,
+      v_allowance.max_credits,
+      COALESCE('IPS semester lalu ' || v_allowance.last_ips::text, 'mahasiswa baru')
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT string_agg(u.message, '; ') INTO v_unmet
+  FROM unmet_prerequisites(v_student.id, v_course_ids) u;
+
+  IF v_unmet IS NOT NULL THEN
+    RAISE EXCEPTION 'Prasyarat belum terpenuhi: %', v_unmet USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_existing
+  FROM krs_submissions
+  WHERE student_id = v_student.id
+    AND term_id = p_term_id
+  FOR UPDATE;
+
+  IF FOUND AND v_existing.status = 'approved' THEN
+    RAISE EXCEPTION 'KRS % sudah disetujui dan tidak dapat diubah', v_term_label USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO krs_submissions (student_id, term_id, status, note, submitted_at, reviewed_at, reviewed_by)
+  VALUES (v_student.id, p_term_id, 'submitted', NULL, now(), NULL, NULL)
+  ON CONFLICT (student_id, term_id) DO UPDATE
+  SET status = EXCLUDED.status,
+      note = NULL,
+      submitted_at = EXCLUDED.submitted_at,
+      reviewed_at = NULL,
+      reviewed_by = NULL
+  RETURNING * INTO v_result;
+
+  DELETE FROM krs_items WHERE krs_id = v_result.id;
+  INSERT INTO krs_items (krs_id, course_id)
+  SELECT v_result.id, unnest(v_course_ids);
+
+  INSERT INTO activity_logs (user_id, user_email, user_type, action, entity_type, entity_id, description, metadata)
+  VALUES (
+    auth.uid(),
+    COALESCE(auth.jwt() ->> 'email', 'unknown'),
+    'student',
+    'submit_krs',
+    'krs',
+    v_result.id::text,
+    format('KRS %s diajukan oleh %s', v_term_label, v_student.nim),
+    jsonb_build_object(
+      'nim', v_student.nim,
+      'term_id', p_term_id,
+      'academic_year', v_term.academic_year,
+      'period', v_term.period,
+      'courses', cardinality(v_course_ids)
+    )
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_krs(uuid, uuid[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION review_krs(p_krs_id uuid, p_approve boolean, p_note text DEFAULT NULL)
+RETURNS krs_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_krs krs_submissions%ROWTYPE;
+  v_student students%ROWTYPE;
+  v_term academic_terms%ROWTYPE;
+  v_note text := NULLIF(trim(COALESCE(p_note, '')), '');
+  v_is_admin boolean := has_admin_permission('enrollments.manage');
+  v_status text := CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END;
+  v_enrolled integer := 0;
+  v_result krs_submissions;
+BEGIN
+  SELECT * INTO v_krs FROM krs_submissions WHERE id = p_krs_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'KRS tidak ditemukan' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_student FROM students WHERE id = v_krs.student_id;
+  SELECT * INTO v_term FROM academic_terms WHERE id = v_krs.term_id;
+
+  IF NOT (v_is_admin OR COALESCE(v_student.advisor_id = auth.uid(), false)) THEN
+    RAISE EXCEPTION 'Anda bukan dosen wali mahasiswa %', v_student.nim USING ERRCODE = '42501';
+  END IF;
+
+  IF v_krs.status <> 'submitted' THEN
+    RAISE EXCEPTION 'KRS % sudah berstatus %', v_student.nim, v_krs.status USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT p_approve AND v_note IS NULL THEN
+    RAISE EXCEPTION 'Alasan penolakan wajib diisi' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE krs_submissions
+  SET status = v_status,
+      note = v_note,
+      reviewed_at = now(),
+      reviewed_by = auth.uid()
+  WHERE id = p_krs_id
+  RETURNING * INTO v_result;
+
+  IF p_approve THEN
+    INSERT INTO enrollments (student_id, course_id)
+    SELECT v_krs.student_id, ki.course_id
+    FROM krs_items ki
+    WHERE ki.krs_id = p_krs_id
+    ON CONFLICT (student_id, course_id) DO NOTHING;
+
+    GET DIAGNOSTICS v_enrolled = ROW_COUNT;
+  END IF;
+
+  INSERT INTO activity_logs (user_id, user_email, user_type, action, entity_type, entity_id, description, metadata)
+  VALUES (
+    auth.uid(),
+    COALESCE(auth.jwt() ->> 'email', 'unknown'),
+    CASE WHEN is_admin(auth.uid()) THEN 'admin' ELSE 'lecturer' END,
+    CASE WHEN p_approve THEN 'approve_krs' ELSE 'reject_krs' END,
+    'krs',
+    p_krs_id::text,
+    format('KRS %s %s %s %s', v_student.nim, v_term.academic_year, initcap(v_term.period),
+      CASE WHEN p_approve THEN 'disetujui' ELSE 'ditolak' END),
+    jsonb_build_object('nim', v_student.nim, 'term_id', v_krs.term_id, 'note', v_note, 'enrolled', v_enrolled)
+  );
+
+  RETURN v_result;
+END;
+$$;
@@ -0,0 +1,448 @@
+/*
+  # Course Offerings and Parallel Classes
+
+  ## Problem
+
+  A course in a term is a single `courses` row and every enrolled student
+  belongs to it directly, so two parallel classes (kelas A, B, C) taught by
+  different lecturers cannot be told apart: grade input and reports show one
+  long list and there is no way to cap how many students join a class.
+
+  ## Solution
+
+  1. New table `course_offerings`: the classes of a course, with a section
+     code, an optional capacity (NULL is unlimited) and the lecturer teaching
+     it. A course row already belongs to one term, so the class does too.
+     Every course gets class A, existing ones by backfill (taught by their
+     first assigned lecturer) and new ones by a trigger
+  2. `enrollments.offering_id` (required) is the class the student attends.
+     Existing enrollments move to class A. When an enrollment is inserted
+     without a class, `assign_enrollment_offering` picks the first class in
+     section order that still has room, so KRS approval and bulk enrollment
+     keep working unchanged. A chosen class must belong to the enrolled
+     course and have room; a full class rejects the enrollment
+  3. `teaches_course` also accepts the lecturer of a class, so class
+     lecturers can open the course without a separate course assignment
+  4. `teaches_whole_course(p_course_id)` is true for a lecturer in
+     `course_lecturers`. `teaches_course_student(p_course_id, p_student_id)`
+     is true for such a lecturer, or for the lecturer of the class the
+     student is enrolled in. The lecturer policies on `enrollments`, `grades`
+     and `component_scores`, and `teaches_student`, use it instead of
+     `teaches_course`
+  5. The lecturer policies on `assessment_components` and
+     `save_assessment_components` use `teaches_whole_course`: the weights
+     are shared by every class, so a class lecturer cannot change them
+
+  ## Security
+
+  - Anyone signed in can read classes; admins with `courses.manage` edit them
+  - A class lecturer only reads and writes the grades of their own class.
+    Lecturers in `course_lecturers` keep access to every class of the course
+  - Saving components recalculates the derived grades of the whole course
+    under the caller's policies, which is why only admins with
+    `grades.write` and whole-course lecturers may do it
+*/
+
+CREATE TABLE IF NOT EXISTS course_offerings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id uuid NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  section text NOT NULL CHECK (section ~ '^[A-Z][A-Z0-9]{0,3}$'),
+  capacity integer CHECK (capacity > 0),
+  lecturer_id uuid REFERENCES lecturers(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (course_id, section)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_offerings_lecturer_id ON course_offerings(lecturer_id);
+
+ALTER TABLE course_offerings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view course offerings"
+  ON course_offerings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins with courses.manage can manage course offerings"
+  ON course_offerings
+  FOR ALL
+  TO authenticated
+  USING (has_admin_permission('courses.manage'))
+  WITH CHECK (has_admin_permission('courses.manage'));
+
+INSERT INTO course_offerings (course_id, section, lecturer_id)
+SELECT
+  c.id,
+  'A',
+  (
+    SELECT cl.lecturer_id FROM course_lecturers cl
+    WHERE cl.course_id = c.id
+    ORDER BY cl.created_at
+    LIMIT 1
+  )
+FROM courses c
+ON CONFLICT (course_id, section) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION create_default_course_offering()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO course_offerings (course_id, section) VALUES (NEW.id, 'A')
+  ON CONFLICT (course_id, section) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS create_default_course_offering ON courses;
+CREATE TRIGGER create_default_course_offering
+  AFTER INSERT ON courses
+  FOR EACH ROW
+  EXECUTE FUNCTION create_default_course_offering();
+
+ALTER TABLE enrollments ADD COLUMN IF NOT EXISTS offering_id uuid REFERENCES course_offerings(id) ON DELETE RESTRICT;
+
+UPDATE enrollments e
+SET offering_id = o.id
+FROM course_offerings o
+WHERE o.course_id = e.course_id
+  AND o.section = 'A'
+  AND e.offering_id IS NULL;
+
+ALTER TABLE enrollments ALTER COLUMN offering_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_enrollments_offering_id ON enrollments(offering_id);
+
+-- SECURITY DEFINER so the capacity count sees every enrollment of the class,
+-- not only the rows visible to the caller
+CREATE OR REPLACE FUNCTION assign_enrollment_offering()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offering course_offerings%ROWTYPE;
+  v_course courses%ROWTYPE;
+  v_enrolled integer;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.course_id IS DISTINCT FROM OLD.course_id AND NEW.offering_id = OLD.offering_id THEN
+    NEW.offering_id := NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.offering_id = OLD.offering_id THEN
+    RETURN NEW;
+  END IF;
+
+  -- Already enrolled: keep the existing class so the unique constraint reports
+  -- the duplicate (or ON CONFLICT skips it) instead of a full class
+  IF TG_OP = 'INSERT' AND NEW.offering_id IS NULL THEN
+    SELECT e.offering_id INTO NEW.offering_id
+    FROM enrollments e
+    WHERE e.student_id = NEW.student_id
+      AND e.course_id = NEW.course_id;
+
+    IF FOUND THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_course FROM courses WHERE id = NEW.course_id;
+
+  IF NEW.offering_id IS NULL THEN
+    -- Classes fill up in section order
+    SELECT o.* INTO v_offering
+    FROM course_offerings o
+    WHERE o.course_id = NEW.course_id
+      AND (
+        o.capacity IS NULL
+        OR o.capacity > (SELECT count(*) FROM enrollments e WHERE e.offering_id = o.id)
+      )
+    ORDER BY o.section
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      IF EXISTS (SELECT 1 FROM course_offerings WHERE course_id = NEW.course_id) THEN
+        RAISE EXCEPTION 'Semua kelas % sudah penuh', v_course.code USING ERRCODE = '22023';
+      END IF;
+      RAISE EXCEPTION 'Mata kuliah % belum memiliki kelas', v_course.code USING ERRCODE = '22023';
+    END IF;
+
+    NEW.offering_id := v_offering.id;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_offering FROM course_offerings WHERE id = NEW.offering_id FOR UPDATE;
+
+  IF NOT FOUND OR v_offering.course_id <> NEW.course_id THEN
+    RAISE EXCEPTION 'Kelas tidak termasuk mata kuliah %', v_course.code USING ERRCODE = '22023';
+  END IF;
+
+  IF v_offering.capacity IS NOT NULL THEN
+    SELECT count(*) INTO v_enrolled
+    FROM enrollments e
+    WHERE e.offering_id = v_offering.id
+      AND e.id <> NEW.id;
+
+    IF v_enrolled >= v_offering.capacity THEN
+      RAISE EXCEPTION 'Kelas % % sudah penuh (kapasitas %)', v_course.code, v_offering.section, v_offering.capacity
+        USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_enrollment_offering ON enrollments;
+CREATE TRIGGER assign_enrollment_offering
+  BEFORE INSERT OR UPDATE OF course_id, offering_id ON enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_enrollment_offering();
+
+CREATE OR REPLACE FUNCTION teaches_course(p_course_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM course_lecturers cl
+    WHERE cl.course_id = p_course_id
+      AND cl.lecturer_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM course_offerings o
+    WHERE o.course_id = p_course_id
+      AND o.lecturer_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION teaches_whole_course(p_course_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM course_lecturers cl
+    WHERE cl.course_id = p_course_id
+      AND cl.lecturer_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION teaches_whole_course(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION teaches_course_student(p_course_id uuid, p_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT teaches_whole_course(p_course_id)
+  OR EXISTS (
+    SELECT 1
+    FROM enrollments e
+    JOIN course_offerings o ON o.id = e.offering_id
+    WHERE e.course_id = p_course_id
+      AND e.student_id = p_student_id
+      AND o.lecturer_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION teaches_course_student(uuid, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION teaches_student(p_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM enrollments e
+    WHERE e.student_id = p_student_id
+      AND teaches_course_student(e.course_id, p_student_id)
+  );
+$$;
+
+-- Lecturer access to grading data, limited to the students of their class
+
+DROP POLICY IF EXISTS "Lecturers can view enrollments in their courses" ON enrollments;
+
+CREATE POLICY "Lecturers can view enrollments in their courses"
+  ON enrollments
+  FOR SELECT
+  TO authenticated
+  USING (teaches_course_student(course_id, student_id));
+
+DROP POLICY IF EXISTS "Lecturers can view grades in their courses" ON grades;
+DROP POLICY IF EXISTS "Lecturers can insert grades in their courses" ON grades;
+DROP POLICY IF EXISTS "Lecturers can update grades in their courses" ON grades;
+
+CREATE POLICY "Lecturers can view grades in their courses"
+  ON grades
+  FOR SELECT
+  TO authenticated
+  USING (teaches_course_student(course_id, student_id));
+
+CREATE POLICY "Lecturers can insert grades in their courses"
+  ON grades
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (teaches_course_student(course_id, student_id));
+
+CREATE POLICY "Lecturers can update grades in their courses"
+  ON grades
+  FOR UPDATE
+  TO authenticated
+  USING (teaches_course_student(course_id, student_id))
+  WITH CHECK (teaches_course_student(course_id, student_id));
+
+DROP POLICY IF EXISTS "Lecturers can view component scores in their courses" ON component_scores;
+DROP POLICY IF EXISTS "Lecturers can insert component scores in their courses" ON component_scores;
+DROP POLICY IF EXISTS "Lecturers can update component scores in their courses" ON component_scores;
+
+CREATE POLICY "Lecturers can view component scores in their courses"
+  ON component_scores
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM assessment_components ac
+      WHERE ac.id = component_id
+        AND teaches_course_student(ac.course_id, student_id)
+    )
+  );
+
+CREATE POLICY "Lecturers can insert component scores in their courses"
+  ON component_scores
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM assessment_components ac
+      WHERE ac.id = component_id
+        AND teaches_course_student(ac.course_id, student_id)
+    )
+  );
+
+CREATE POLICY "Lecturers can update component scores in their courses"
+  ON component_scores
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM assessment_components ac
+      WHERE ac.id = component_id
+        AND teaches_course_student(ac.course_id, student_id)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM assessment_components ac
+      WHERE ac.id = component_id
+        AND teaches_course_student(ac.course_id, student_id)
+    )
+  );
+
+-- Component weights apply to every class of the course, so only lecturers
+-- assigned to the whole course set them
+
+DROP POLICY IF EXISTS "Lecturers can insert assessment components in their courses" ON assessment_components;
+DROP POLICY IF EXISTS "Lecturers can update assessment components in their courses" ON assessment_components;
+DROP POLICY IF EXISTS "Lecturers can delete assessment components in their courses" ON assessment_components;
+
+CREATE POLICY "Lecturers can insert assessment components in their courses"
+  ON assessment_components
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (teaches_whole_course(course_id));
+
+CREATE POLICY "Lecturers can update assessment components in their courses"
+  ON assessment_components
+  FOR UPDATE
+  TO authenticated
+  USING (teaches_whole_course(course_id))
+  WITH CHECK (teaches_whole_course(course_id));
+
+CREATE POLICY "Lecturers can delete assessment components in their courses"
+  ON assessment_components
+  FOR DELETE
+  TO authenticated
+  USING (teaches_whole_course(course_id));
+
+CREATE OR REPLACE FUNCTION save_assessment_components(p_course_id uuid, p_components jsonb)
+RETURNS SETOF assessment_components
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_total numeric;
+BEGIN
+  IF NOT (has_admin_permission('grades.write') OR teaches_whole_course(p_course_id)) THEN
+    RAISE EXCEPTION 'Anda tidak memiliki izin mengatur komponen penilaian mata kuliah ini' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_components) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'p_components harus berupa array JSON' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(sum((c.value->>'weight')::numeric), 0)
+  INTO v_total
+  FROM jsonb_array_elements(p_components) AS c(value);
+
+  IF jsonb_array_length(p_components) > 0 AND v_total <> 100 THEN
+    RAISE EXCEPTION 'Total bobot komponen harus 100%%, saat ini %', v_total USING ERRCODE = '23514';
+  END IF;
+
+  DELETE FROM assessment_components ac
+  WHERE ac.course_id = p_course_id
+    AND ac.id NOT IN (
+      SELECT (c.value->>'id')::uuid
+      FROM jsonb_array_elements(p_components) AS c(value)
+      WHERE c.value->>'id' IS NOT NULL
+    );
+
+  UPDATE assessment_components ac
+  SET name = trim(c.value->>'name'),
+      weight = (c.value->>'weight')::numeric,
+      sort_order = (c.ordinality - 1)::integer
+  FROM jsonb_array_elements(p_components) WITH ORDINALITY AS c(value, ordinality)
+  WHERE ac.id = (c.value->>'id')::uuid
+    AND ac.course_id = p_course_id;
+
+  INSERT INTO assessment_components (course_id, name, weight, sort_order)
+  SELECT p_course_id, trim(c.value->>'name'), (c.value->>'weight')::numeric, (c.ordinality - 1)::integer
+  FROM jsonb_array_elements(p_components) WITH ORDINALITY AS c(value, ordinality)
+  WHERE c.value->>'id' IS NULL;
+
+  -- Grades derived from a complete set of component scores follow the new weights
+  UPDATE grades g
+  SET score = f.final_score,
+      letter_grade = (SELECT r.letter_grade FROM resolve_grade(f.final_score, co.curriculum) r),
+      updated_at = now()
+  FROM (
+    SELECT cs.student_id, round(sum(cs.score * ac.weight) / 100, 2) AS final_score, count(*) AS scored
+    FROM component_scores cs
+    JOIN assessment_components ac ON ac.id = cs.component_id
+    WHERE ac.course_id = p_course_id
+    GROUP BY cs.student_id
+  ) f,
+  courses co
+  WHERE co.id = p_course_id
+    AND g.course_id = p_course_id
+    AND g.student_id = f.student_id
+    AND f.scored = (SELECT count(*) FROM assessment_components ac WHERE ac.course_id = p_course_id);
+
+  RETURN QUERY
+  SELECT ac.*
+  FROM assessment_components ac
+  WHERE ac.course_id = p_course_id
+  ORDER BY ac.sort_order;
+END;
+$$;
@@ -0,0 +1,259 @@
+/*
+  # Retakes (Mengulang) With a Per-Curriculum Counting Policy
+
+  ## Problem
+
+  A retaken course has to be graded on the course again, so the new grade
+  overwrites the first attempt and its history is lost. Since courses are
+  offered per academic term, a retake belongs on the course's offering in the
+  later term, but course codes are unique and the grade upload looks courses
+  up by code alone. Nothing says which attempt counts towards IPK.
+
+  ## Solution
+
+  1. Course codes are unique per curriculum and term instead of globally, so
+     a course can be offered again in a later term. Each offering keeps its
+     own grades, so every attempt is a separate grade row
+  2. New table `retake_policies`: per curriculum, whether the best attempt
+     (highest grade point, the latest one on a tie) or the latest attempt
+     counts towards IPK and earned SKS. Curricula without a row use 'best'.
+     IPS still counts every grade of the term
+  3. `upsert_grades_batch` rows may name the course offering by `course_id`.
+     Rows with only a course code resolve to the offering in the active term,
+     else the latest term offering the code, preferring the student's
+     curriculum
+  4. `has_passed_course` accepts a passing attempt on any offering of the
+     course, so a prerequisite passed in an earlier term still counts
+
+  ## Security
+
+  - Anyone signed in can read the policies; admins with
+    `grading_scales.manage` edit them
+*/
+
+ALTER TABLE courses DROP CONSTRAINT IF EXISTS courses_code_key;
+ALTER TABLE courses DROP CONSTRAINT IF EXISTS courses_code_curriculum_term_key;
+ALTER TABLE courses ADD CONSTRAINT courses_code_curriculum_term_key UNIQUE (code, curriculum, term_id);
+
+CREATE TABLE IF NOT EXISTS retake_policies (
+  curriculum text PRIMARY KEY,
+  policy text NOT NULL DEFAULT 'best' CHECK (policy IN ('best', 'latest')),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE retake_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view retake policies"
+  ON retake_policies
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins with grading_scales.manage can manage retake policies"
+  ON retake_policies
+  FOR ALL
+  TO authenticated
+  USING (has_admin_permission('grading_scales.manage'))
+  WITH CHECK (has_admin_permission('grading_scales.manage'));
+
+CREATE OR REPLACE FUNCTION upsert_grades_batch(p_rows jsonb, p_source text DEFAULT 'api', p_reason text DEFAULT NULL)
+RETURNS TABLE (row_index integer, nim text, status text, message text, score numeric, letter_grade text)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  -- Admins allowed to write grades may grade any course, lecturers only their own
+  v_all_courses boolean := has_admin_permission('grades.write');
+  v_has_errors boolean;
+BEGIN
+  IF NOT (v_all_courses OR is_lecturer(auth.uid())) THEN
+    RAISE EXCEPTION 'Anda tidak memiliki izin mengunggah nilai' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_rows) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'p_rows harus berupa array JSON' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_source NOT IN ('excel', 'manual', 'api') THEN
+    RAISE EXCEPTION 'Sumber perubahan nilai tidak dikenal: %', p_source USING ERRCODE = '22023';
+  END IF;
+
+  -- Read by log_grade_revision for every grade this call writes
+  PERFORM set_config('app.grade_change_source', p_source, true);
+  PERFORM set_config('app.grade_change_reason', COALESCE(p_reason, ''), true);
+
+  DROP TABLE IF EXISTS pg_temp.grade_batch;
+  CREATE TEMP TABLE grade_batch ON COMMIT DROP AS
+  SELECT
+    (r.ordinality - 1)::integer AS row_index,
+    COALESCE(trim(r.value->>'nim'), '') AS nim,
+    COALESCE(trim(r.value->>'angkatan'), '') AS angkatan,
+    COALESCE(trim(r.value->>'course_code'), '') AS course_code,
+    CASE WHEN r.value->>'course_id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN (r.value->>'course_id')::uuid
+    END AS requested_course_id,
+    CASE WHEN jsonb_typeof(r.value->'score') = 'number'
+      THEN (r.value->>'score')::numeric
+    END AS score,
+    CASE WHEN jsonb_typeof(r.value->'components') = 'object'
+      THEN r.value->'components'
+      ELSE '{}'::jsonb
+    END AS components,
+    NULL::uuid AS student_id,
+    NULL::uuid AS course_id,
+    NULL::text AS curriculum,
+    NULL::text AS letter_grade,
+    NULL::text AS message
+  FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS r(value, ordinality);
+
+  UPDATE grade_batch b
+  SET student_id = s.id
+  FROM students s
+  WHERE s.nim = b.nim AND s.angkatan = b.angkatan;
+
+  -- A row may name the course offering; otherwise its code is looked up in
+  -- the active term (or the latest term offering it), preferring the
+  -- student's curriculum
+  UPDATE grade_batch b
+  SET course_id = c.id, curriculum = c.curriculum, course_code = c.code
+  FROM courses c
+  WHERE c.id = b.requested_course_id;
+
+  UPDATE grade_batch b
+  SET (course_id, curriculum) = (
+    SELECT c.id, c.curriculum
+    FROM courses c
+    JOIN academic_terms t ON t.id = c.term_id
+    LEFT JOIN students s ON s.id = b.student_id
+    WHERE c.code = b.course_code
+    ORDER BY t.is_active DESC, t.start_date DESC, (c.curriculum = COALESCE(s.curriculum, b.angkatan)) DESC
+    LIMIT 1
+  )
+  WHERE b.requested_course_id IS NULL;
+
+  -- One row per batch row and course component; component names match case-insensitively
+  DROP TABLE IF EXISTS pg_temp.grade_batch_components;
+  CREATE TEMP TABLE grade_batch_components ON COMMIT DROP AS
+  SELECT
+    b.row_index,
+    ac.id AS component_id,
+    ac.name,
+    ac.weight,
+    ac.sort_order,
+    CASE WHEN jsonb_typeof(e.value) = 'number'
+      THEN (e.value #>> '{}')::numeric
+    END AS score
+  FROM grade_batch b
+  JOIN assessment_components ac ON ac.course_id = b.course_id
+  LEFT JOIN LATERAL (
+    SELECT kv.value
+    FROM jsonb_each(b.components) AS kv(key, value)
+    WHERE lower(trim(kv.key)) = lower(ac.name)
+    LIMIT 1
+  ) e ON true;
+
+  UPDATE grade_batch b
+  SET score = (
+    SELECT round(sum(c.score * c.weight) / 100, 2)
+    FROM grade_batch_components c
+    WHERE c.row_index = b.row_index
+  )
+  WHERE EXISTS (SELECT 1 FROM grade_batch_components c WHERE c.row_index = b.row_index);
+
+  -- Course checks come before the student lookup: a lecturer cannot see
+  -- students outside their own courses, so a missing student would hide the
+  -- real reason.
+  UPDATE grade_batch b
+  SET message = CASE
+    WHEN b.nim = ''
+      THEN 'NIM atau nilai tidak valid'
+    WHEN b.course_id IS NULL
+      THEN format('Mata kuliah %s tidak ditemukan', b.course_code)
+    WHEN NOT v_all_courses AND NOT teaches_course(b.course_id)
+      THEN format('Anda bukan dosen pengampu mata kuliah %s', b.course_code)
+    WHEN b.student_id IS NULL
+      THEN format('Mahasiswa dengan NIM %s angkatan %s tidak ditemukan', b.nim, b.angkatan)
+    WHEN NOT v_all_courses AND NOT teaches_course_student(b.course_id, b.student_id)
+      THEN format('Mahasiswa dengan NIM %s bukan peserta kelas Anda pada mata kuliah %s', b.nim, b.course_code)
+    WHEN EXISTS (
+      SELECT 1 FROM grade_batch_components c
+      WHERE c.row_index = b.row_index
+        AND (c.score IS NULL OR c.score < 0 OR c.score > 100)
+    )
+      THEN format('Nilai komponen %s tidak valid', (
+        SELECT string_agg(c.name, ', ' ORDER BY c.sort_order)
+        FROM grade_batch_components c
+        WHERE c.row_index = b.row_index
+          AND (c.score IS NULL OR c.score < 0 OR c.score > 100)
+      ))
+    WHEN b.score IS NULL OR b.score < 0 OR b.score > 100
+      THEN 'NIM atau nilai tidak valid'
+    WHEN EXISTS (
+      SELECT 1 FROM grade_batch d
+      WHERE d.student_id = b.student_id
+        AND d.course_id = b.course_id
+        AND d.row_index < b.row_index
+    )
+      THEN format('NIM %s muncul lebih dari sekali dalam file', b.nim)
+  END;
+
+  UPDATE grade_batch b
+  SET letter_grade = (SELECT g.letter_grade FROM resolve_grade(b.score, b.curriculum) g)
+  WHERE b.message IS NULL;
+
+  SELECT EXISTS (SELECT 1 FROM grade_batch b WHERE b.message IS NOT NULL) INTO v_has_errors;
+
+  IF v_has_errors THEN
+    RETURN QUERY
+    SELECT b.row_index, b.nim, 'error'::text,
+      COALESCE(b.message, 'Tidak disimpan karena ada baris lain yang gagal'),
+      NULL::numeric,
+      NULL::text
+    FROM grade_batch b
+    ORDER BY b.row_index;
+    RETURN;
+  END IF;
+
+  INSERT INTO component_scores (component_id, student_id, score)
+  SELECT c.component_id, b.student_id, c.score
+  FROM grade_batch_components c
+  JOIN grade_batch b ON b.row_index = c.row_index
+  ON CONFLICT (component_id, student_id) DO UPDATE
+  SET score = EXCLUDED.score,
+      updated_at = now();
+
+  INSERT INTO grades (student_id, course_id, score, letter_grade)
+  SELECT b.student_id, b.course_id, b.score, b.letter_grade
+  FROM grade_batch b
+  ON CONFLICT (student_id, course_id) DO UPDATE
+  SET score = EXCLUDED.score,
+      letter_grade = EXCLUDED.letter_grade,
+      updated_at = now();
+
+  RETURN QUERY
+  SELECT b.row_index, b.nim, 'success'::text, NULL::text, b.score, b.letter_grade
+  FROM grade_batch b
+  ORDER BY b.row_index;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_passed_course(p_student_id uuid, p_course_id uuid, p_min_letter_grade text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM grades g
+    JOIN courses c ON c.id = g.course_id
+    JOIN courses required ON required.id = p_course_id
+    CROSS JOIN LATERAL (SELECT get_grade_point(g.score, c.curriculum) AS grade_point) gp
+    WHERE g.student_id = p_student_id
+      -- Any attempt counts, also one taken when the course ran in another term
+      AND c.code = required.code
+      AND is_grade_released(c.id)
+      AND gp.grade_point > 0
+      -- A letter missing from the scale cannot be reached
+      AND (p_min_letter_grade IS NULL OR gp.grade_point >= letter_grade_point(p_min_letter_grade, c.curriculum))
+  );
+$$;
@@ -0,0 +1,73 @@
+/*
+  # Graduation Requirements (Syarat Kelulusan)
+
+  ## Problem
+
+  Whether a student has met the graduation requirements of their curriculum
+  is worked out by hand from the transcript: total SKS, required courses,
+  the number of D grades, IPK and E grades all have to be checked one by one.
+
+  ## Solution
+
+  1. New table `graduation_requirements`, one row per curriculum:
+     - `min_credits`: SKS that must be passed
+     - `min_ipk`: lowest IPK allowed
+     - `max_d_grades`: most D grades allowed, NULL for no limit
+     - `allow_e_grades`: whether an E may remain on the transcript
+  2. New table `graduation_required_courses`: the course codes of a
+     curriculum that must be passed. Codes are used rather than course rows
+     because a course is offered again every term
+  3. The audit itself runs in the app from the transcript, so it follows the
+     curriculum's retake policy the same way as IPK
+
+  ## Security
+
+  - Anyone signed in can read the requirements; admins with `courses.manage`
+    edit them
+*/
+
+CREATE TABLE IF NOT EXISTS graduation_requirements (
+  curriculum text PRIMARY KEY,
+  min_credits integer NOT NULL CHECK (min_credits > 0),
+  min_ipk numeric(3,2) NOT NULL DEFAULT 2.00 CHECK (min_ipk >= 0 AND min_ipk <= 4),
+  max_d_grades integer CHECK (max_d_grades >= 0),
+  allow_e_grades boolean NOT NULL DEFAULT false,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS graduation_required_courses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  curriculum text NOT NULL REFERENCES graduation_requirements(curriculum) ON DELETE CASCADE ON UPDATE CASCADE,
+  course_code text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (curriculum, course_code)
+);
+
+ALTER TABLE graduation_requirements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE graduation_required_courses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view graduation requirements"
+  ON graduation_requirements
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins with courses.manage can manage graduation requirements"
+  ON graduation_requirements
+  FOR ALL
+  TO authenticated
+  USING (has_admin_permission('courses.manage'))
+  WITH CHECK (has_admin_permission('courses.manage'));
+
+CREATE POLICY "Authenticated users can view graduation required courses"
+  ON graduation_required_courses
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins with courses.manage can manage graduation required courses"
+  ON graduation_required_courses
+  FOR ALL
+  TO authenticated
+  USING (has_admin_permission('courses.manage'))
+  WITH CHECK (has_admin_permission('courses.manage'));
@@ -0,0 +1,256 @@
+/*
+  # Yudisium: Graduation Predicates and Graduation Batches
+
+  ## Problem
+
+  Graduation is decided at a yudisium: the final IPK, study duration and
+  predicate of every graduating student are put on a list and the students
+  are declared graduated. None of this is recorded, the predicate rules are
+  not written down anywhere and a graduated student looks like any other.
+
+  ## Solution
+
+  1. New table `graduation_predicates`: the predicates and their thresholds,
+     a minimum IPK plus, optionally, a maximum study duration in semesters
+     and a no-retakes rule. A student gets the highest predicate whose every
+     condition holds. Seeded with the usual Memuaskan (2.76), Sangat
+     Memuaskan (3.01) and Dengan Pujian (3.51, at most 8 semesters, no
+     retakes)
+  2. New tables `yudisium_batches` and `yudisium_entries`: a yudisium session
+     and the students graduated in it, with the IPK, SKS, study duration and
+     predicate as decided. A student can be graduated only once; a student
+     with an entry counts as graduated
+  3. `graduation_summary(p_student_id, p_yudisium_date)`: a student's IPK,
+     passed SKS, study semesters and predicate, computed the way the app's
+     yudisium page previews them but from released grades only
+  4. New RPC `process_yudisium`: takes the selected students, computes each
+     entry with `graduation_summary` and records the batch and its entries
+     in one transaction, so a failed batch graduates nobody
+
+  ## Security
+
+  - Anyone signed in can read the predicates; admins with `students.manage`
+    edit them, process a yudisium and delete a batch (which ungraduates its
+    students)
+  - Students see their own entry; admins see every batch
+  - The caller only names the students; the recorded IPK, SKS, duration and
+    predicate always come from the grades, never from the client
+*/
+
+CREATE TABLE IF NOT EXISTS graduation_predicates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  min_ipk numeric(3,2) NOT NULL CHECK (min_ipk >= 0 AND min_ipk <= 4),
+  max_study_semesters integer CHECK (max_study_semesters > 0),
+  requires_no_retakes boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE graduation_predicates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view graduation predicates"
+  ON graduation_predicates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins with students.manage can manage graduation predicates"
+  ON graduation_predicates
+  FOR ALL
+  TO authenticated
+  USING (has_admin_permission('students.manage'))
+  WITH CHECK (has_admin_permission('students.manage'));
+
+INSERT INTO graduation_predicates (name, min_ipk, max_study_semesters, requires_no_retakes)
+VALUES
+  ('Memuaskan', 2.76, NULL, false),
+  ('Sangat Memuaskan', 3.01, NULL, false),
+  ('Dengan Pujian', 3.51, 8, true)
+ON CONFLICT (name) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS yudisium_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  yudisium_date date NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS yudisium_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id uuid NOT NULL REFERENCES yudisium_batches(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL UNIQUE REFERENCES students(id) ON DELETE CASCADE,
+  ipk numeric(3,2) NOT NULL CHECK (ipk >= 0 AND ipk <= 4),
+  credits integer NOT NULL CHECK (credits >= 0),
+  study_semesters integer NOT NULL CHECK (study_semesters > 0),
+  predicate text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_yudisium_entries_batch_id ON yudisium_entries(batch_id);
+
+ALTER TABLE yudisium_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE yudisium_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view yudisium batches"
+  ON yudisium_batches
+  FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins with students.manage can delete yudisium batches"
+  ON yudisium_batches
+  FOR DELETE
+  TO authenticated
+  USING (has_admin_permission('students.manage'));
+
+CREATE POLICY "Students and admins can view yudisium entries"
+  ON yudisium_entries
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = student_id
+    OR is_admin(auth.uid())
+  );
+
+-- Mirrors transcriptTotals in src/lib/degreeAudit.ts, studyDuration and
+-- resolvePredicate in src/lib/yudisium.ts, over released grades only
+CREATE OR REPLACE FUNCTION graduation_summary(p_student_id uuid, p_yudisium_date date)
+RETURNS TABLE (ipk numeric, credits integer, study_semesters integer, has_retakes boolean, predicate text)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH attempts AS (
+    SELECT
+      c.code,
+      c.credits,
+      get_grade_point(g.score, c.curriculum) AS grade_point,
+      t.start_date
+    FROM grades g
+    JOIN courses c ON c.id = g.course_id
+    LEFT JOIN academic_terms t ON t.id = g.term_id
+    WHERE g.student_id = p_student_id
+      AND is_grade_released(c.id)
+  ),
+  policy AS (
+    SELECT COALESCE(
+      (
+        SELECT rp.policy
+        FROM retake_policies rp
+        JOIN students s ON rp.curriculum = COALESCE(s.curriculum, s.angkatan)
+        WHERE s.id = p_student_id
+      ),
+      'best'
+    ) AS policy
+  ),
+  counted AS (
+    SELECT DISTINCT ON (a.code) a.*
+    FROM attempts a
+    CROSS JOIN policy p
+    ORDER BY
+      a.code,
+      CASE WHEN p.policy = 'best' THEN a.grade_point END DESC NULLS LAST,
+      a.start_date DESC NULLS LAST
+  ),
+  totals AS (
+    SELECT
+      round(COALESCE(sum(c.grade_point * c.credits) / NULLIF(sum(c.credits), 0), 0), 2) AS ipk,
+      COALESCE(sum(c.credits) FILTER (WHERE c.grade_point > 0), 0)::integer AS credits,
+      count(*) < (SELECT count(*) FROM attempts) AS has_retakes
+    FROM counted c
+  ),
+  -- Semesters started from 1 September of the angkatan's year
+  duration AS (
+    SELECT greatest(
+      ceil(
+        greatest(
+          (extract(year FROM p_yudisium_date)::integer - s.angkatan::integer) * 12
+            + extract(month FROM p_yudisium_date)::integer - 9,
+          0
+        ) / 6.0
+      )::integer,
+      1
+    ) AS study_semesters
+    FROM students s
+    WHERE s.id = p_student_id
+  )
+  SELECT
+    t.ipk,
+    t.credits,
+    d.study_semesters,
+    t.has_retakes,
+    (
+      SELECT gp.name
+      FROM graduation_predicates gp
+      WHERE t.ipk >= gp.min_ipk
+        AND (gp.max_study_semesters IS NULL OR d.study_semesters <= gp.max_study_semesters)
+        AND NOT (gp.requires_no_retakes AND t.has_retakes)
+      ORDER BY gp.min_ipk DESC
+      LIMIT 1
+    )
+  FROM totals t
+  CROSS JOIN duration d;
+$$;
+
+CREATE OR REPLACE FUNCTION process_yudisium(p_name text, p_yudisium_date date, p_student_ids uuid[])
+RETURNS yudisium_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch yudisium_batches%ROWTYPE;
+  v_count integer;
+  v_invalid text;
+BEGIN
+  IF NOT has_admin_permission('students.manage') THEN
+    RAISE EXCEPTION 'Anda tidak memiliki izin memproses yudisium' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(p_name), '') = '' OR p_yudisium_date IS NULL THEN
+    RAISE EXCEPTION 'Nama dan tanggal yudisium wajib diisi' USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(cardinality(p_student_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Pilih minimal satu mahasiswa' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT string_agg(COALESCE(s.nim, b.student_id::text), ', ') INTO v_invalid
+  FROM (SELECT DISTINCT unnest(p_student_ids) AS student_id) b
+  LEFT JOIN students s ON s.id = b.student_id
+  WHERE s.id IS NULL
+    OR EXISTS (SELECT 1 FROM yudisium_entries y WHERE y.student_id = b.student_id);
+
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Mahasiswa % tidak ditemukan atau sudah diyudisium', v_invalid USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO yudisium_batches (name, yudisium_date, created_by)
+  VALUES (trim(p_name), p_yudisium_date, auth.uid())
+  RETURNING * INTO v_batch;
+
+  INSERT INTO yudisium_entries (batch_id, student_id, ipk, credits, study_semesters, predicate)
+  SELECT v_batch.id, b.student_id, g.ipk, g.credits, g.study_semesters, g.predicate
+  FROM (SELECT DISTINCT unnest(p_student_ids) AS student_id) b
+  CROSS JOIN LATERAL graduation_summary(b.student_id, p_yudisium_date) g;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  INSERT INTO activity_logs (user_id, user_email, user_type, action, entity_type, entity_id, description, metadata)
+  VALUES (
+    auth.uid(),
+    COALESCE(auth.jwt() ->> 'email', 'unknown'),
+    'admin',
+    'process_yudisium',
+    'yudisium',
+    v_batch.id::text,
+    format('Yudisium %s (%s): %s mahasiswa lulus', v_batch.name, v_batch.yudisium_date, v_count),
+    jsonb_build_object('name', v_batch.name, 'yudisium_date', v_batch.yudisium_date, 'students', v_count)
+  );
+
+  RETURN v_batch;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION process_yudisium(text, date, uuid[]) TO authenticated;
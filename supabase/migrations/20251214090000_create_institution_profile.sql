@@ -0,0 +1,52 @@
+/*
+  # Institution Profile for Official Documents
+
+  ## Problem
+
+  Transcripts only say "TRANSKRIP NILAI MAHASISWA". An official transcript
+  carries the institution, faculty and study program with their logo in the
+  header and is signed by the dean, none of which is stored anywhere.
+
+  ## Solution
+
+  1. New single-row table `institution_profile`: institution, faculty and
+     study program names, address and city, the logo as an image data URL
+     (so the PDF and DOCX generators can embed it without a storage bucket)
+     and the dean's name and NIP for the signature block. The row always
+     exists; `id` can only be true
+
+  ## Security
+
+  - Anyone signed in can read the profile, since students print their own
+    documents; only admins with `admins.manage` edit it
+*/
+
+CREATE TABLE IF NOT EXISTS institution_profile (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  institution_name text NOT NULL DEFAULT '',
+  faculty_name text NOT NULL DEFAULT '',
+  study_program_name text NOT NULL DEFAULT '',
+  address text NOT NULL DEFAULT '',
+  city text NOT NULL DEFAULT '',
+  logo_data_url text,
+  dean_name text NOT NULL DEFAULT '',
+  dean_nip text NOT NULL DEFAULT '',
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE institution_profile ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view the institution profile"
+  ON institution_profile
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins with admins.manage can update the institution profile"
+  ON institution_profile
+  FOR UPDATE
+  TO authenticated
+  USING (has_admin_permission('admins.manage'))
+  WITH CHECK (has_admin_permission('admins.manage'));
+
+INSERT INTO institution_profile (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
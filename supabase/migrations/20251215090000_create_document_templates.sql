@@ -0,0 +1,74 @@
+/*
+  # Document Templates for Transcripts and Reports
+
+  ## Problem
+
+  The layout of every generated document is fixed in code: the fonts, the
+  header colours, which columns the tables have and who signs. Changing any
+  of it, or giving the semester report a letterhead, needs a release.
+
+  ## Solution
+
+  1. New table `document_templates`, one row per document type
+     (`transcript`, `semester_report`), seeded with the layouts used so far:
+     - `header_text`, `logo_data_url`: the letterhead, one header line per
+       text line. NULL uses the institution profile's lines and logo
+     - `signatory_title`, `signatory_name`, `signatory_nip`: who signs. NULL
+       uses the dean from the institution profile
+     - `footer_text`: printed at the bottom of every page
+     - `font_family`, `primary_color`, `accent_color`: the font and the
+       colours of the table header and group rows
+     - `columns`: keys of the table columns to show, out of those the
+       document type knows (see src/lib/documentTemplates.ts)
+
+  ## Security
+
+  - Anyone signed in can read the templates, since students print their own
+    documents; only admins with `admins.manage` edit them
+*/
+
+CREATE TABLE IF NOT EXISTS document_templates (
+  document_type text PRIMARY KEY CHECK (document_type IN ('transcript', 'semester_report')),
+  header_text text,
+  logo_data_url text,
+  signatory_title text,
+  signatory_name text,
+  signatory_nip text,
+  footer_text text NOT NULL DEFAULT '',
+  font_family text NOT NULL DEFAULT 'helvetica' CHECK (font_family IN ('helvetica', 'times', 'courier')),
+  primary_color text NOT NULL DEFAULT '#4f46e5' CHECK (primary_color ~ '^#[0-9a-fA-F]{6}$'),
+  accent_color text NOT NULL DEFAULT '#eef2ff' CHECK (accent_color ~ '^#[0-9a-fA-F]{6}$'),
+  columns text[] NOT NULL DEFAULT '{}',
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE document_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view document templates"
+  ON document_templates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins with admins.manage can update document templates"
+  ON document_templates
+  FOR UPDATE
+  TO authenticated
+  USING (has_admin_permission('admins.manage'))
+  WITH CHECK (has_admin_permission('admins.manage'));
+
+INSERT INTO document_templates (document_type, primary_color, accent_color, columns)
+VALUES
+  (
+    'transcript',
+    '#4f46e5',
+    '#eef2ff',
+    ARRAY['no', 'code', 'name', 'credits', 'score', 'letter', 'grade_point', 'quality_points']
+  ),
+  (
+    'semester_report',
+    '#2980b9',
+    '#f5f5f5',
+    ARRAY['no', 'nim', 'name', 'score', 'letter', 'grade_point', 'credits', 'total_score', 'total_grade_point', 'total_credits', 'ipk', 'rank']
+  )
+ON CONFLICT (document_type) DO NOTHING;
@@ -0,0 +1,281 @@
+/*
+  # Issued Transcripts and Public Verification
+
+  ## Problem
+
+  A printed transcript is just a PDF or DOCX file: anyone can edit the
+  grades and print it again, and whoever receives it has no way to tell
+  whether the university issued it or what the grades were when it did.
+
+  ## Solution
+
+  1. New table `issued_transcripts`: one row per exported transcript, with
+     a document number (`TR/<year>/<6-digit sequence>`), the transcript as
+     printed (`snapshot`), the SHA-256 hash of that snapshot and the terms
+     whose grades it holds (`term_ids`)
+  2. `transcript_snapshot(p_student_id, p_term_ids)` builds a student's
+     transcript from `grades`, `courses` and `students` the way the app's
+     `buildTranscript` does: one row per course, the attempt picked by the
+     curriculum's retake policy, grouped by curriculum semester, with IPK and
+     the yudisium predicate. Only released grades count (`is_grade_released`),
+     optionally only those of the given terms
+  3. New RPC `issue_transcript(p_student_id)`: builds the snapshot on the
+     server, numbers, hashes and records it, and returns it so the document
+     is rendered from exactly what was recorded, together with the number,
+     the hash and a QR code linking to the verification page. When the
+     student's latest issued transcript has the same snapshot it is returned
+     instead, so exporting again does not use up a new document number
+  4. New RPC `verify_transcript`: looks an issued transcript up by its id
+     (the QR code's link) and reports whether the student's current released
+     grades in the snapshot's terms still give the same semesters
+     (`grades_current`). It is false when such a grade was changed, added or
+     withdrawn after issuance and NULL when the student no longer exists.
+     Grades of later terms do not affect it
+  5. New permission `transcripts.issue` for super_admin and prodi_admin
+
+  ## Security
+
+  - Rows are written only by `issue_transcript`, which needs
+    `transcripts.issue`; nobody updates or deletes them, so an issued
+    snapshot cannot be changed afterwards. The caller only names the
+    student, so a transcript cannot be issued with made-up grades
+  - Admins see every issued transcript, students their own. Snapshots hold
+    released grades only, so neither they nor `verify_transcript` reveal a
+    grade before it is published
+  - `verify_transcript` is callable without signing in. It needs the row's
+    random id, which is printed only on the document itself, and it leaves
+    the student's email out of the snapshot it returns
+*/
+
+CREATE SEQUENCE IF NOT EXISTS issued_transcript_number_seq;
+
+CREATE TABLE IF NOT EXISTS issued_transcripts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_number text NOT NULL UNIQUE,
+  student_id uuid REFERENCES students(id) ON DELETE SET NULL,
+  snapshot jsonb NOT NULL,
+  content_hash text NOT NULL,
+  term_ids uuid[] NOT NULL DEFAULT '{}',
+  issued_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  issued_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_issued_transcripts_student_id ON issued_transcripts(student_id);
+
+ALTER TABLE issued_transcripts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students and admins can view issued transcripts"
+  ON issued_transcripts
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = student_id
+    OR is_admin(auth.uid())
+  );
+
+INSERT INTO admin_role_permissions (role, permission)
+VALUES
+  ('super_admin', 'transcripts.issue'),
+  ('prodi_admin', 'transcripts.issue')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Mirrors buildTranscript in src/lib/transcript.ts; the JSON keys are the
+-- TranscriptData fields
+CREATE OR REPLACE FUNCTION transcript_snapshot(p_student_id uuid, p_term_ids uuid[] DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  WITH attempts AS (
+    SELECT
+      c.code,
+      c.name,
+      c.semester,
+      c.credits,
+      g.score,
+      g.letter_grade,
+      get_grade_point(g.score, c.curriculum) AS grade_point,
+      t.start_date,
+      count(*) OVER (PARTITION BY c.code) AS attempts
+    FROM grades g
+    JOIN courses c ON c.id = g.course_id
+    LEFT JOIN academic_terms t ON t.id = g.term_id
+    WHERE g.student_id = p_student_id
+      AND is_grade_released(c.id)
+      AND (p_term_ids IS NULL OR g.term_id = ANY(p_term_ids))
+  ),
+  policy AS (
+    SELECT COALESCE(
+      (
+        SELECT rp.policy
+        FROM retake_policies rp
+        JOIN students s ON s.curriculum = rp.curriculum
+        WHERE s.id = p_student_id
+      ),
+      'best'
+    ) AS policy
+  ),
+  -- The attempt that counts: the highest grade point (the later one on a
+  -- tie) under 'best', the most recent under 'latest'
+  counted AS (
+    SELECT DISTINCT ON (a.code) a.*
+    FROM attempts a
+    CROSS JOIN policy p
+    ORDER BY
+      a.code,
+      CASE WHEN p.policy = 'best' THEN a.grade_point END DESC NULLS LAST,
+      a.start_date DESC NULLS LAST
+  ),
+  semesters AS (
+    SELECT
+      c.semester,
+      jsonb_agg(
+        jsonb_build_object(
+          'courseCode', c.code,
+          'courseName', c.name,
+          'sks', c.credits,
+          'score', c.score,
+          'letterGrade', c.letter_grade,
+          'gradePoint', c.grade_point,
+          'qualityPoints', c.grade_point * c.credits,
+          'attempts', c.attempts
+        )
+        ORDER BY c.code
+      ) AS courses,
+      sum(c.credits) AS credits,
+      sum(c.grade_point * c.credits) AS quality_points
+    FROM counted c
+    GROUP BY c.semester
+  )
+  SELECT jsonb_build_object(
+    'studentId', s.id,
+    'nim', s.nim,
+    'studentName', s.name,
+    'angkatan', s.angkatan,
+    'email', s.email,
+    'semesters', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'semester', se.semester,
+            'courses', se.courses,
+            'credits', se.credits,
+            'qualityPoints', se.quality_points
+          )
+          ORDER BY se.semester
+        )
+        FROM semesters se
+      ),
+      '[]'::jsonb
+    ),
+    'totalSKS', (SELECT COALESCE(sum(credits), 0) FROM counted),
+    'totalQualityPoints', (SELECT COALESCE(sum(grade_point * credits), 0) FROM counted),
+    'ipk', (SELECT COALESCE(sum(grade_point * credits) / NULLIF(sum(credits), 0), 0) FROM counted),
+    'graduation', (
+      SELECT jsonb_build_object('predicate', ye.predicate, 'yudisiumDate', yb.yudisium_date)
+      FROM yudisium_entries ye
+      JOIN yudisium_batches yb ON yb.id = ye.batch_id
+      WHERE ye.student_id = s.id
+    )
+  )
+  FROM students s
+  WHERE s.id = p_student_id;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_transcript(p_student_id uuid)
+RETURNS issued_transcripts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_term_ids uuid[];
+  v_snapshot jsonb;
+  v_hash text;
+  v_issued issued_transcripts%ROWTYPE;
+BEGIN
+  IF NOT has_admin_permission('transcripts.issue') THEN
+    RAISE EXCEPTION 'Anda tidak memiliki izin menerbitkan transkrip' USING ERRCODE = '42501';
+  END IF;
+
+  -- Two exports of the same student at once must not both issue a new number
+  PERFORM pg_advisory_xact_lock(hashtext('issue_transcript:' || p_student_id::text));
+
+  v_term_ids := ARRAY(
+    SELECT DISTINCT g.term_id
+    FROM grades g
+    WHERE g.student_id = p_student_id
+      AND g.term_id IS NOT NULL
+      AND is_grade_released(g.course_id)
+    ORDER BY g.term_id
+  );
+  v_snapshot := transcript_snapshot(p_student_id, v_term_ids);
+  IF v_snapshot IS NULL THEN
+    RAISE EXCEPTION 'Mahasiswa tidak ditemukan' USING ERRCODE = '22023';
+  END IF;
+  v_hash := encode(sha256(convert_to(v_snapshot::text, 'UTF8')), 'hex');
+
+  -- Exporting an unchanged transcript again is a re-download, not a new issuance
+  SELECT * INTO v_issued
+  FROM issued_transcripts t
+  WHERE t.student_id = p_student_id
+  ORDER BY t.issued_at DESC
+  LIMIT 1;
+
+  IF FOUND AND v_issued.content_hash = v_hash AND v_issued.term_ids = v_term_ids THEN
+    RETURN v_issued;
+  END IF;
+
+  INSERT INTO issued_transcripts (document_number, student_id, snapshot, content_hash, term_ids, issued_by)
+  VALUES (
+    format('TR/%s/%s', to_char(now(), 'YYYY'), lpad(nextval('issued_transcript_number_seq')::text, 6, '0')),
+    p_student_id,
+    v_snapshot,
+    v_hash,
+    v_term_ids,
+    auth.uid()
+  )
+  RETURNING * INTO v_issued;
+
+  INSERT INTO activity_logs (user_id, user_email, user_type, action, entity_type, entity_id, description, metadata)
+  VALUES (
+    auth.uid(),
+    COALESCE(auth.jwt() ->> 'email', 'unknown'),
+    'admin',
+    'issue_transcript',
+    'transcript',
+    v_issued.id::text,
+    format('Transkrip %s diterbitkan untuk %s', v_issued.document_number, v_snapshot ->> 'nim'),
+    jsonb_build_object('document_number', v_issued.document_number, 'student_id', p_student_id)
+  );
+
+  RETURN v_issued;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION issue_transcript(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION verify_transcript(p_id uuid)
+RETURNS TABLE (
+  document_number text,
+  snapshot jsonb,
+  content_hash text,
+  issued_at timestamptz,
+  grades_current boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    t.document_number,
+    t.snapshot - 'email',
+    t.content_hash,
+    t.issued_at,
+    (t.snapshot -> 'semesters') = (transcript_snapshot(t.student_id, t.term_ids) -> 'semesters')
+  FROM issued_transcripts t
+  WHERE t.id = p_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION verify_transcript(uuid) TO anon, authenticated;
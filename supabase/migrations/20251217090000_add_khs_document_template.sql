@@ -0,0 +1,34 @@
+/*
+  # KHS (Kartu Hasil Studi) Document Template
+
+  ## Problem
+
+  Students and admins can print a full transcript, but there is no result
+  card for a single term. A KHS is a new printed document, so it needs its
+  own row in `document_templates` for its letterhead, signatory and columns.
+
+  ## Solution
+
+  1. `document_templates.document_type` also accepts `khs`
+  2. Seeds the `khs` template with the transcript's colours and columns: the
+     term's courses with SKS, score, letter, bobot and SKS x bobot. IPS and
+     IPK are printed under the table
+
+  ## Security
+
+  - No change: the KHS template is read and edited like the others
+*/
+
+ALTER TABLE document_templates DROP CONSTRAINT IF EXISTS document_templates_document_type_check;
+ALTER TABLE document_templates
+  ADD CONSTRAINT document_templates_document_type_check
+  CHECK (document_type IN ('transcript', 'semester_report', 'khs'));
+
+INSERT INTO document_templates (document_type, primary_color, accent_color, columns)
+VALUES (
+  'khs',
+  '#4f46e5',
+  '#eef2ff',
+  ARRAY['no', 'code', 'name', 'credits', 'score', 'letter', 'grade_point', 'quality_points']
+)
+ON CONFLICT (document_type) DO NOTHING;